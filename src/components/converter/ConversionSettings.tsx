@@ -25,6 +25,7 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
   const showPDFSettings = outputFormat === 'pdf';
   const showImageSettings = outputFormat === 'png' || outputFormat === 'jpg';
   const showTextSettings = ['txt', 'html', 'md'].includes(outputFormat);
+  const hasPDFPassword = Boolean(options.password || options.ownerPassword);
 
   return (
     <div className="space-y-6" data-id="zjafejhtx" data-path="src/components/converter/ConversionSettings.tsx">
@@ -190,6 +191,57 @@ const ConversionSettings: React.FC<ConversionSettingsProps> = ({
             </p>
           }
         </div>
+
+        {showPDFSettings &&
+        <>
+            <div className="space-y-2" data-id="p8ix4ea4q" data-path="src/components/converter/ConversionSettings.tsx">
+              <Label htmlFor="ownerPassword" data-id="9om4894zj" data-path="src/components/converter/ConversionSettings.tsx">Owner Password (Optional)</Label>
+              <Input
+              id="ownerPassword"
+              type="password"
+              placeholder="Needed to restrict permissions; must differ from the password"
+              value={options.ownerPassword || ''}
+              onChange={(e) => updateOption('ownerPassword', e.target.value)} data-id="oj7yaekct" data-path="src/components/converter/ConversionSettings.tsx" />
+
+            </div>
+
+            <div className="flex items-center justify-between" data-id="br4y1z2ix" data-path="src/components/converter/ConversionSettings.tsx">
+              <Label htmlFor="allowPrinting" data-id="gci5nq1t0" data-path="src/components/converter/ConversionSettings.tsx">Allow printing</Label>
+              <Switch
+              id="allowPrinting"
+              checked={options.allowPrinting !== false}
+              onCheckedChange={(checked) => updateOption('allowPrinting', checked)}
+              disabled={!hasPDFPassword} data-id="6yw80ovbr" data-path="src/components/converter/ConversionSettings.tsx" />
+
+            </div>
+
+            <div className="flex items-center justify-between" data-id="ku8gnrshe" data-path="src/components/converter/ConversionSettings.tsx">
+              <Label htmlFor="allowCopying" data-id="44fwe0jbs" data-path="src/components/converter/ConversionSettings.tsx">Allow copying text</Label>
+              <Switch
+              id="allowCopying"
+              checked={options.allowCopying !== false}
+              onCheckedChange={(checked) => updateOption('allowCopying', checked)}
+              disabled={!hasPDFPassword} data-id="10hccyv9r" data-path="src/components/converter/ConversionSettings.tsx" />
+
+            </div>
+
+            <div className="flex items-center justify-between" data-id="6pctaeg8c" data-path="src/components/converter/ConversionSettings.tsx">
+              <Label htmlFor="allowModifying" data-id="m0sqjcvux" data-path="src/components/converter/ConversionSettings.tsx">Allow modifying</Label>
+              <Switch
+              id="allowModifying"
+              checked={options.allowModifying !== false}
+              onCheckedChange={(checked) => updateOption('allowModifying', checked)}
+              disabled={!hasPDFPassword} data-id="iyy37y9g6" data-path="src/components/converter/ConversionSettings.tsx" />
+
+            </div>
+
+            <p className="text-xs text-muted-foreground" data-id="r1pt1q7t9" data-path="src/components/converter/ConversionSettings.tsx">
+              {hasPDFPassword ?
+            'Encrypted with AES-256. Restricting permissions needs an owner password that differs from the open password' :
+            'Permissions apply once a password is set'}
+            </p>
+          </>
+        }
       </div>
 
       <Separator data-id="zcbx957v3" data-path="src/components/converter/ConversionSettings.tsx" />
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { conversionService, ConversionOptions, SupportedFormat, formatFileSize } from '@/lib/conversionService';
+
+interface ImageSizePreviewProps {
+  file: File;
+  fromFormat: SupportedFormat;
+  toFormat: SupportedFormat;
+  options: ConversionOptions;
+}
+
+interface SizeInfo {
+  size: number;
+  width?: number;
+  height?: number;
+}
+
+// Wait for the options to settle before re-encoding
+const PREVIEW_DELAY = 500;
+
+/**
+ * Before/after file size and dimensions for an image conversion, re-run as the options change
+ */
+const ImageSizePreview: React.FC<ImageSizePreviewProps> = ({ file, fromFormat, toFormat, options }) => {
+  const [before, setBefore] = useState<SizeInfo | null>(null);
+  const [after, setAfter] = useState<SizeInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBefore({ size: file.size });
+    createImageBitmap(file)
+      .then(bitmap => {
+        if (!cancelled) setBefore({ size: file.size, width: bitmap.width, height: bitmap.height });
+        bitmap.close();
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await conversionService.convertFile(await file.arrayBuffer(), fromFormat, toFormat, options);
+        if (cancelled) return;
+        if (result.success && result.data) {
+          const dimensions = result.metadata?.imageDimensions;
+          setAfter({ size: result.data.size, width: dimensions?.width, height: dimensions?.height });
+          setError(null);
+        } else {
+          setAfter(null);
+          setError(result.error || 'Preview failed');
+        }
+      } catch (previewError) {
+        if (!cancelled) {
+          setAfter(null);
+          setError(previewError instanceof Error ? previewError.message : 'Preview failed');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, PREVIEW_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [file, fromFormat, toFormat, options]);
+
+  const describe = (info: SizeInfo | null) => {
+    if (!info) return '—';
+    const dimensions = info.width && info.height ? ` · ${info.width}×${info.height}` : '';
+    return `${formatFileSize(info.size)}${dimensions}`;
+  };
+
+  return (
+    <div className="rounded-md border p-3 text-sm space-y-1" data-id="isp0wrap1" data-path="src/components/converter/ImageSizePreview.tsx">
+      <p className="text-xs text-muted-foreground truncate" data-id="isp0name2" data-path="src/components/converter/ImageSizePreview.tsx">
+        Preview: {file.name}
+      </p>
+      <div className="flex items-center gap-2" data-id="isp0size3" data-path="src/components/converter/ImageSizePreview.tsx">
+        <span data-id="isp0befr4" data-path="src/components/converter/ImageSizePreview.tsx">{describe(before)}</span>
+        <ArrowRight className="h-4 w-4 text-muted-foreground" data-id="isp0arrw5" data-path="src/components/converter/ImageSizePreview.tsx" />
+        {loading ?
+        <Loader2 className="h-4 w-4 animate-spin" data-id="isp0load6" data-path="src/components/converter/ImageSizePreview.tsx" /> :
+        <span className="font-medium" data-id="isp0aftr7" data-path="src/components/converter/ImageSizePreview.tsx">{error ? error : describe(after)}</span>
+        }
+      </div>
+    </div>);
+
+};
+
+export default ImageSizePreview;
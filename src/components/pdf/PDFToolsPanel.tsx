@@ -0,0 +1,484 @@
+/**
+ * PDF Tools Panel
+ * Page thumbnails for organizing a PDF (reorder, rotate, delete, extract)
+ * plus merge, split, page-number and OCR actions for the PDFs in a batch
+ */
+
+import React, { useEffect, useState } from 'react';
+import JSZip from 'jszip';
+import { toast } from 'react-hot-toast';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Combine,
+  Download,
+  FileStack,
+  Hash,
+  LayoutGrid,
+  Loader2,
+  RotateCw,
+  Scissors,
+  ScanText,
+  Trash2,
+  Undo2
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { downloadFile } from '@/lib/conversionService';
+import {
+  addPageNumbers,
+  extractPages,
+  makeSearchable,
+  mergePDFs,
+  renderPDFThumbnails,
+  rotatePages,
+  splitPDF,
+  type PageNumberPosition,
+  type PageRotation,
+  type PDFThumbnail
+} from '@/lib/pdf/pdfTools';
+
+interface PDFToolsPanelProps {
+  files: File[];
+}
+
+interface WorkingPage {
+  pageNumber: number;   // Page in the original file
+  rotation: number;     // Extra clockwise rotation applied here
+  thumbnail: PDFThumbnail;
+}
+
+const baseName = (name: string) => name.replace(/\.pdf$/i, '');
+
+export const PDFToolsPanel: React.FC<PDFToolsPanelProps> = ({ files }) => {
+  const [activeFileIndex, setActiveFileIndex] = useState(0);
+  const [pages, setPages] = useState<WorkingPage[]>([]);
+  const [selectedPages, setSelectedPages] = useState<Set<number>>(new Set());
+  const [isLoadingPages, setIsLoadingPages] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [mergeOrder, setMergeOrder] = useState<File[]>(files);
+  const [splitMode, setSplitMode] = useState<'ranges' | 'every'>('ranges');
+  const [splitRanges, setSplitRanges] = useState('');
+  const [splitEvery, setSplitEvery] = useState(1);
+  const [numberPosition, setNumberPosition] = useState<PageNumberPosition>('bottom-center');
+  const [numberFormat, setNumberFormat] = useState('{page} / {total}');
+  const [numberStart, setNumberStart] = useState(1);
+  const [ocrProgress, setOcrProgress] = useState<string | null>(null);
+
+  const activeFile = files[Math.min(activeFileIndex, files.length - 1)];
+
+  // Keep the user's merge order unless PDFs were added or removed
+  useEffect(() => {
+    setMergeOrder(prev =>
+      prev.length === files.length && prev.every(file => files.includes(file)) ? prev : files
+    );
+  }, [files]);
+
+  // Render thumbnails whenever a different PDF is picked
+  useEffect(() => {
+    if (!activeFile) return;
+    let cancelled = false;
+
+    setIsLoadingPages(true);
+    setSelectedPages(new Set());
+    activeFile.arrayBuffer()
+      .then(buffer => renderPDFThumbnails(buffer))
+      .then(thumbnails => {
+        if (cancelled) return;
+        setPages(thumbnails.map(thumbnail => ({ pageNumber: thumbnail.pageNumber, rotation: 0, thumbnail })));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setPages([]);
+        toast.error(`Could not read "${activeFile.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingPages(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeFile]);
+
+  const runTool = async (label: string, tool: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await tool();
+      toast.success(label);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'PDF operation failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleSelected = (pageNumber: number) => {
+    setSelectedPages(prev => {
+      const next = new Set(prev);
+      if (next.has(pageNumber)) next.delete(pageNumber);
+      else next.add(pageNumber);
+      return next;
+    });
+  };
+
+  const movePage = (index: number, offset: number) => {
+    setPages(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const rotatePage = (index: number) => {
+    setPages(prev => prev.map((page, i) => i === index ? { ...page, rotation: (page.rotation + 90) % 360 } : page));
+  };
+
+  const removePage = (index: number) => {
+    if (pages.length <= 1) {
+      toast.error('A PDF needs at least one page');
+      return;
+    }
+    const removed = pages[index];
+    setPages(prev => prev.filter((_, i) => i !== index));
+    setSelectedPages(prev => {
+      const next = new Set(prev);
+      next.delete(removed.pageNumber);
+      return next;
+    });
+  };
+
+  const resetPages = () => {
+    setPages(prev => [...prev]
+      .sort((a, b) => a.pageNumber - b.pageNumber)
+      .map(page => ({ ...page, rotation: 0 })));
+  };
+
+  // Copy the kept pages in their new order, then apply rotations by new position
+  const buildPDF = async (kept: WorkingPage[]): Promise<Blob> => {
+    let blob = await extractPages(await activeFile.arrayBuffer(), kept.map(page => page.pageNumber));
+
+    for (const rotation of [90, 180, 270] as PageRotation[]) {
+      const positions = kept
+        .map((page, index) => page.rotation === rotation ? index + 1 : 0)
+        .filter(position => position > 0);
+      if (positions.length > 0) {
+        blob = await rotatePages(await blob.arrayBuffer(), positions, rotation);
+      }
+    }
+    return blob;
+  };
+
+  const handleSaveOrganized = () => runTool('Organized PDF ready', async () => {
+    downloadFile(await buildPDF(pages), `${baseName(activeFile.name)}_organized.pdf`);
+  });
+
+  const handleExtractSelected = () => runTool('Pages extracted', async () => {
+    const kept = pages.filter(page => selectedPages.has(page.pageNumber));
+    if (kept.length === 0) throw new Error('Select the pages to extract first');
+    downloadFile(await buildPDF(kept), `${baseName(activeFile.name)}_extract.pdf`);
+  });
+
+  const handleMerge = () => runTool('PDFs merged', async () => {
+    if (mergeOrder.length < 2) throw new Error('Add at least two PDFs to merge');
+    const buffers = await Promise.all(mergeOrder.map(file => file.arrayBuffer()));
+    downloadFile(await mergePDFs(buffers), 'merged.pdf');
+  });
+
+  const moveMergeFile = (index: number, offset: number) => {
+    setMergeOrder(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSplit = () => runTool('PDF split', async () => {
+    const parts = await splitPDF(
+      await activeFile.arrayBuffer(),
+      splitMode === 'ranges' ? { ranges: splitRanges } : { everyN: splitEvery }
+    );
+    const name = baseName(activeFile.name);
+
+    if (parts.length === 1) {
+      downloadFile(parts[0].blob, `${name}_part1.pdf`);
+      return;
+    }
+
+    const zip = new JSZip();
+    parts.forEach((part, index) => {
+      const first = part.pages[0];
+      const last = part.pages[part.pages.length - 1];
+      const range = first === last ? `p${first}` : `p${first}-${last}`;
+      zip.file(`${name}_part${index + 1}_${range}.pdf`, part.blob);
+    });
+    downloadFile(await zip.generateAsync({ type: 'blob' }), `${name}_split.zip`);
+  });
+
+  const handlePageNumbers = () => runTool('Page numbers added', async () => {
+    const blob = await addPageNumbers(await activeFile.arrayBuffer(), {
+      position: numberPosition,
+      format: numberFormat || '{page}',
+      startAt: numberStart
+    });
+    downloadFile(blob, `${baseName(activeFile.name)}_numbered.pdf`);
+  });
+
+  const handleMakeSearchable = () => runTool('Searchable PDF ready', async () => {
+    try {
+      const { blob, ocrPages } = await makeSearchable(await activeFile.arrayBuffer(), (page, total) => {
+        setOcrProgress(`Recognizing page ${page} of ${total}...`);
+      });
+      if (ocrPages.length === 0) {
+        throw new Error('Every page already has selectable text');
+      }
+      downloadFile(blob, `${baseName(activeFile.name)}_searchable.pdf`);
+    } finally {
+      setOcrProgress(null);
+    }
+  });
+
+  if (files.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileStack className="h-5 w-5" />
+          <span>PDF Tools</span>
+        </CardTitle>
+        <CardDescription>
+          Merge, split, extract, reorder, rotate and number pages - everything runs in your browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {files.length > 1 && (
+          <div className="space-y-2">
+            <Label>PDF to edit</Label>
+            <Select value={String(activeFileIndex)} onValueChange={(value) => setActiveFileIndex(parseInt(value, 10))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {files.map((file, index) => (
+                  <SelectItem key={`${file.name}-${index}`} value={String(index)}>{file.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Tabs defaultValue="organize">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="organize"><LayoutGrid className="h-4 w-4 mr-1" />Pages</TabsTrigger>
+            <TabsTrigger value="merge"><Combine className="h-4 w-4 mr-1" />Merge</TabsTrigger>
+            <TabsTrigger value="split"><Scissors className="h-4 w-4 mr-1" />Split</TabsTrigger>
+            <TabsTrigger value="numbers"><Hash className="h-4 w-4 mr-1" />Numbers</TabsTrigger>
+          </TabsList>
+
+          {/* Page thumbnails - reorder, rotate, delete, extract */}
+          <TabsContent value="organize" className="space-y-4">
+            {isLoadingPages ? (
+              <div className="flex items-center justify-center h-40 text-sm text-muted-foreground">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Rendering pages...
+              </div>
+            ) : (
+              <ScrollArea className="h-[360px] pr-4">
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                  {pages.map((page, index) => {
+                    const isSelected = selectedPages.has(page.pageNumber);
+                    return (
+                      <div
+                        key={page.pageNumber}
+                        className={`rounded-lg border p-2 space-y-2 ${isSelected ? 'border-primary ring-2 ring-primary/30' : ''}`}
+                      >
+                        <button
+                          type="button"
+                          onClick={() => toggleSelected(page.pageNumber)}
+                          className="flex items-center justify-center w-full h-32 bg-muted/50 rounded overflow-hidden"
+                          title={isSelected ? 'Deselect page' : 'Select page'}
+                        >
+                          <img
+                            src={page.thumbnail.dataUrl}
+                            alt={`Page ${page.pageNumber}`}
+                            className="max-h-full max-w-full shadow transition-transform"
+                            style={{ transform: `rotate(${page.rotation}deg)` }}
+                          />
+                        </button>
+                        <div className="flex items-center justify-between">
+                          <Badge variant={isSelected ? 'default' : 'outline'} className="text-xs">
+                            {index + 1}{page.pageNumber !== index + 1 ? ` (was ${page.pageNumber})` : ''}
+                          </Badge>
+                          <div className="flex items-center">
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => movePage(index, -1)} disabled={index === 0} title="Move left">
+                              <ChevronLeft className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => movePage(index, 1)} disabled={index === pages.length - 1} title="Move right">
+                              <ChevronRight className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => rotatePage(index)} title="Rotate 90°">
+                              <RotateCw className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-destructive hover:text-destructive" onClick={() => removePage(index)} title="Delete page">
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleSaveOrganized} disabled={isWorking || isLoadingPages || pages.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Organized PDF
+              </Button>
+              <Button variant="outline" onClick={handleExtractSelected} disabled={isWorking || selectedPages.size === 0}>
+                <FileStack className="h-4 w-4 mr-2" />
+                Extract Selected ({selectedPages.size})
+              </Button>
+              <Button variant="outline" onClick={handleMakeSearchable} disabled={isWorking}>
+                {ocrProgress ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ScanText className="h-4 w-4 mr-2" />}
+                {ocrProgress || 'Make Searchable (OCR)'}
+              </Button>
+              <Button variant="ghost" onClick={resetPages} disabled={isWorking || isLoadingPages}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Reset Order
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Click thumbnails to select pages for extraction. Deleted pages can be restored by picking the PDF again.
+            </p>
+          </TabsContent>
+
+          {/* Merge all PDFs in the batch */}
+          <TabsContent value="merge" className="space-y-4">
+            <div className="space-y-2">
+              {mergeOrder.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="flex items-center justify-between p-2 rounded-lg border bg-muted/50">
+                  <span className="text-sm truncate">{index + 1}. {file.name}</span>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveMergeFile(index, -1)} disabled={index === 0} title="Move up">
+                      <ChevronLeft className="h-4 w-4 rotate-90" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveMergeFile(index, 1)} disabled={index === mergeOrder.length - 1} title="Move down">
+                      <ChevronRight className="h-4 w-4 rotate-90" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button onClick={handleMerge} disabled={isWorking || mergeOrder.length < 2} className="w-full">
+              <Combine className="h-4 w-4 mr-2" />
+              Merge {mergeOrder.length} PDFs
+            </Button>
+          </TabsContent>
+
+          {/* Split by ranges or every N pages */}
+          <TabsContent value="split" className="space-y-4">
+            <div className="space-y-2">
+              <Label>Split mode</Label>
+              <Select value={splitMode} onValueChange={(value: 'ranges' | 'every') => setSplitMode(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ranges">By page ranges</SelectItem>
+                  <SelectItem value="every">Every N pages</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {splitMode === 'ranges' ? (
+              <div className="space-y-2">
+                <Label htmlFor="split-ranges">Page ranges (one file per range)</Label>
+                <Input
+                  id="split-ranges"
+                  placeholder="e.g. 1-3, 4-6, 7-"
+                  value={splitRanges}
+                  onChange={(e) => setSplitRanges(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="split-every">Pages per file</Label>
+                <Input
+                  id="split-every"
+                  type="number"
+                  min={1}
+                  value={splitEvery}
+                  onChange={(e) => setSplitEvery(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                />
+              </div>
+            )}
+            <Button onClick={handleSplit} disabled={isWorking || (splitMode === 'ranges' && !splitRanges.trim())} className="w-full">
+              <Scissors className="h-4 w-4 mr-2" />
+              Split {activeFile.name}
+            </Button>
+          </TabsContent>
+
+          {/* Page numbers */}
+          <TabsContent value="numbers" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Position</Label>
+                <Select value={numberPosition} onValueChange={(value: PageNumberPosition) => setNumberPosition(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bottom-center">Bottom center</SelectItem>
+                    <SelectItem value="bottom-left">Bottom left</SelectItem>
+                    <SelectItem value="bottom-right">Bottom right</SelectItem>
+                    <SelectItem value="top-center">Top center</SelectItem>
+                    <SelectItem value="top-left">Top left</SelectItem>
+                    <SelectItem value="top-right">Top right</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="number-start">Start at</Label>
+                <Input
+                  id="number-start"
+                  type="number"
+                  min={0}
+                  value={numberStart}
+                  onChange={(e) => setNumberStart(parseInt(e.target.value, 10) || 0)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="number-format">Format</Label>
+              <Input
+                id="number-format"
+                placeholder="{page} / {total}"
+                value={numberFormat}
+                onChange={(e) => setNumberFormat(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">{'{page}'} and {'{total}'} are replaced with the page number and page count</p>
+            </div>
+            <Button onClick={handlePageNumbers} disabled={isWorking} className="w-full">
+              <Hash className="h-4 w-4 mr-2" />
+              Add Page Numbers
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PDFToolsPanel;
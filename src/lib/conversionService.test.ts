@@ -0,0 +1,196 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import jsPDF from 'jspdf';
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import { ConversionService } from './conversionService';
+import { splitChapters } from './document/epub';
+import { createDocument, paragraph } from './document/utils';
+import { pdfjsLib } from './pdf/pdfjs';
+import { wordDocument } from '@/test/office';
+
+// pdf.js runs its worker on the main thread when this global is set, as there are no Web Workers in Node
+beforeAll(async () => {
+  (globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = await import('pdfjs-dist/legacy/build/pdf.worker.js');
+});
+
+function pdfWithText(marker: string): ArrayBuffer {
+  const doc = new jsPDF();
+  doc.text(`Report ${marker}`, 20, 20);
+  doc.text(`Only document ${marker} mentions this line.`, 20, 40);
+  return doc.output('arraybuffer');
+}
+
+async function readWorkbook(data: Blob): Promise<XLSX.WorkBook> {
+  return XLSX.read(new Uint8Array(await data.arrayBuffer()), { type: 'array' });
+}
+
+async function documentXML(data: Blob): Promise<string> {
+  const zip = await JSZip.loadAsync(await data.arrayBuffer());
+  return zip.file('word/document.xml')!.async('string');
+}
+
+describe('ConversionService', () => {
+  it('keeps concurrent PDF and text conversions to DOCX apart', async () => {
+    const service = new ConversionService();
+    const markers = ['ALPHA', 'BRAVO', 'CHARLIE', 'DELTA', 'ECHO', 'FOXTROT'];
+
+    // Every conversion starts before any finishes, all on one shared service
+    const results = await Promise.all(markers.map((marker, index) => index % 2 === 0
+      ? service.convertFile(pdfWithText(marker), 'pdf', 'docx')
+      : service.convertFile(`Notes ${marker}\n\nOnly document ${marker} mentions this line.`, 'txt', 'docx')));
+
+    for (const [index, result] of results.entries()) {
+      expect(result.success, result.error).toBe(true);
+      const xml = await documentXML(result.data!);
+      const marker = markers[index];
+      expect(xml).toContain(`Only document ${marker} mentions this line.`);
+      markers.filter(other => other !== marker).forEach(other => expect(xml).not.toContain(other));
+    }
+  });
+
+  it('encrypts PDF output with AES-256 behind its password', async () => {
+    const service = new ConversionService();
+    const result = await service.convertFile('Quarterly numbers', 'txt', 'pdf', {
+      password: 'open-sesame',
+      ownerPassword: 'owner-secret',
+      allowCopying: false
+    });
+    expect(result.success, result.error).toBe(true);
+    const bytes = new Uint8Array(await result.data!.arrayBuffer());
+    expect(new TextDecoder('latin1').decode(bytes)).toContain('/AESV3');
+
+    await expect(pdfjsLib.getDocument({ data: bytes.slice() }).promise).rejects.toThrow();
+    const pdf = await pdfjsLib.getDocument({ data: bytes.slice(), password: 'open-sesame' }).promise;
+    const page = await pdf.getPage(1);
+    const text = (await page.getTextContent()).items.map(item => ('str' in item ? item.str : '')).join('');
+    expect(text).toContain('Quarterly numbers');
+  });
+
+  it('refuses to restrict PDF permissions without a separate owner password', async () => {
+    const service = new ConversionService();
+    const result = await service.convertFile('Quarterly numbers', 'txt', 'pdf', { password: 'open-sesame', allowPrinting: false });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/owner password/);
+  });
+
+  it('writes each top-level JSON list to its own XLSX and XLS sheet', async () => {
+    const service = new ConversionService();
+    const json = JSON.stringify({
+      customers: [{ name: 'Ada', city: 'London' }, { name: 'Grace', city: 'Arlington' }],
+      orders: [{ id: 1, total: 12.5 }, { id: 2, total: 40 }]
+    });
+
+    for (const format of ['xlsx', 'xls'] as const) {
+      expect(service.isConversionSupported('json', format)).toBe(true);
+      const result = await service.convertFile(json, 'json', format);
+      expect(result.success, result.error).toBe(true);
+      const workbook = await readWorkbook(result.data!);
+      expect(workbook.SheetNames).toEqual(['customers', 'orders']);
+      expect(XLSX.utils.sheet_to_json(workbook.Sheets.customers)).toEqual([
+        { name: 'Ada', city: 'London' },
+        { name: 'Grace', city: 'Arlington' }
+      ]);
+      expect(XLSX.utils.sheet_to_json(workbook.Sheets.orders)).toEqual([{ id: 1, total: 12.5 }, { id: 2, total: 40 }]);
+    }
+  });
+
+  it('styles JSON exported to XLSX as a report', async () => {
+    const service = new ConversionService();
+    const json = JSON.stringify([{ product: 'Widget', units: 3 }, { product: 'Gadget', units: 5 }]);
+    const result = await service.convertFile(json, 'json', 'xlsx', { sheetTotals: true });
+    expect(result.success, result.error).toBe(true);
+
+    const zip = await JSZip.loadAsync(await result.data!.arrayBuffer());
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string');
+    expect(sheet).toMatch(/<pane [^>]*state="frozen"/);
+    expect(sheet).toContain('<autoFilter ref="A1:B3"');
+    expect(sheet).toContain('<cols>');
+    expect(sheet).toContain('SUBTOTAL(109,B2:B3)');
+    expect(await zip.file('xl/styles.xml')!.async('string')).toContain('<b/>');
+  });
+
+  it('takes XLSX rows from the array a JSONPath selects', async () => {
+    const service = new ConversionService();
+    const json = JSON.stringify({
+      meta: { generated: '2024-05-01' },
+      data: { orders: [{ id: 7, customer: { name: 'Ada' } }, { id: 8, customer: { name: 'Grace' } }] }
+    });
+    const result = await service.convertFile(json, 'json', 'xlsx', { jsonRowsPath: '$.data.orders[*]' });
+    expect(result.success, result.error).toBe(true);
+
+    const workbook = await readWorkbook(result.data!);
+    expect(workbook.SheetNames).toEqual(['Sheet1']);
+    expect(XLSX.utils.sheet_to_json(workbook.Sheets.Sheet1, { header: 1 })).toEqual([
+      ['id', 'customer.name'],
+      [7, 'Ada'],
+      [8, 'Grace']
+    ]);
+  });
+
+  it('chapters Word and OpenDocument text at their sections in EPUB', () => {
+    const service = new ConversionService();
+    for (const format of ['docx', 'doc', 'odt'] as const) {
+      expect(service.isConversionSupported(format, 'epub')).toBe(true);
+    }
+
+    // Section breaks reach the model as page breaks without page numbers
+    const doc = createDocument([paragraph('The report opens.'), { type: 'pageBreak' }, paragraph('The report closes.')]);
+    expect(splitChapters(doc).map(chapter => chapter.title)).toEqual(['Section 1', 'Section 2']);
+  });
+
+  it('converts Markdown with cut-off TeX math', async () => {
+    const service = new ConversionService();
+    const markdown = 'Unfinished: $x^$, $x_$, $\\hat$ and\n\n$$\\frac{a$$\n\nwith $\\sqrt$ to close.';
+
+    const html = await service.convertFile(markdown, 'md', 'html');
+    expect(html.success, html.error).toBe(true);
+    expect(await html.data!.text()).toContain('<annotation encoding="application/x-tex">\\frac{a</annotation>');
+
+    for (const format of ['docx', 'pdf'] as const) {
+      const result = await service.convertFile(markdown, 'md', format);
+      expect(result.success, result.error).toBe(true);
+    }
+  });
+
+  it('lays LaTeX out as a PDF document rather than printing its source', async () => {
+    const service = new ConversionService();
+    const latex = [
+      '\\documentclass{article}',
+      '\\usepackage{amsmath}',
+      '\\begin{document}',
+      '\\section{Results}',
+      'The \\textbf{mean} is $\\frac{a}{b}$.',
+      '\\begin{itemize}',
+      '\\item First finding',
+      '\\end{itemize}',
+      '\\end{document}'
+    ].join('\n');
+    const result = await service.convertFile(latex, 'latex', 'pdf');
+    expect(result.success, result.error).toBe(true);
+
+    const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await result.data!.arrayBuffer()) }).promise;
+    const page = await pdf.getPage(1);
+    const text = (await page.getTextContent()).items.map(item => ('str' in item ? item.str : '')).join(' ');
+    expect(text).toContain('Results');
+    expect(text).toContain('First finding');
+    expect(text).not.toMatch(/\\[A-Za-z]+/);
+  });
+
+  it('turns Word 97-2003 documents into slides like DOCX', async () => {
+    const service = new ConversionService();
+    const doc = wordDocument([
+      { text: 'Quarterly review', istd: 1 },
+      { text: 'Revenue grew in every region.' }
+    ]);
+    expect(service.isConversionSupported('doc', 'pptx')).toBe(true);
+    const result = await service.convertFile(doc, 'doc', 'pptx');
+    expect(result.success, result.error).toBe(true);
+
+    const zip = await JSZip.loadAsync(await result.data!.arrayBuffer());
+    const slides = await Promise.all(Object.keys(zip.files)
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .map(name => zip.file(name)!.async('string')));
+    expect(slides.join('')).toContain('Quarterly review');
+    expect(slides.join('')).toContain('Revenue grew in every region.');
+  });
+});
@@ -1,62 +1,58 @@
 import jsPDF from 'jspdf';
+import { PDFDocument, type SecurityOptions } from '@cantoo/pdf-lib';
 import mammoth from 'mammoth';
 import MarkdownIt from 'markdown-it';
-import Papa from 'papaparse';
 import JSZip from 'jszip';
 import html2canvas from 'html2canvas';
 import DOMPurify from 'dompurify';
 import { saveAs } from 'file-saver';
-import Turndown from 'turndown';
 import * as XLSX from 'xlsx';
 import autoTable from 'jspdf-autotable';
-import { Document, Packer, Paragraph, Table, TableCell, TableRow, WidthType, HeadingLevel, BorderStyle, TextRun, AlignmentType, ImageRun } from 'docx';
+import { Document, Packer, Paragraph, Table, HeadingLevel } from 'docx';
 import PptxGenJS from 'pptxgenjs';
-import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf';
-import { PDFDocument } from 'pdf-lib';
-
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
-
-// Rich content interfaces for PDF parsing
-interface PDFTableCell {
-  text: string;
-  rowSpan?: number;
-  colSpan?: number;
-}
-
-interface PDFTable {
-  type: 'table';
-  rows: PDFTableCell[][];
-  pageNumber: number;
-}
-
-interface PDFImage {
-  type: 'image';
-  data: Uint8Array;
-  width: number;
-  height: number;
-  pageNumber: number;
-}
-
-interface PDFParagraph {
-  type: 'paragraph';
-  text: string;
-  fontSize: number;
-  pageNumber: number;
-}
-
-type PDFContentElement = PDFParagraph | PDFTable | PDFImage;
-
-interface RichPDFContent {
-  elements: PDFContentElement[];
-  plainText: string; // Fallback for non-DOCX conversions
-  images: PDFImage[]; // Separate array for extracted images
-}
+import { pdfjsLib, renderPageToCanvas } from './pdf/pdfjs';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { extractPageImages } from './pdf/pdfImages';
+import { embedPDFFont } from './pdf/pdfFonts';
+import type { BMPBitDepth } from './image/bmp';
+import { detectFileFormat, type FormatDetection } from './detection/format';
+import { decodeImagePages } from './image/decode';
+import { decodeText, encodeText, outputCharset, type OutputEncoding, type TextEncoding } from './text/encoding';
+import { csvRecords, parseCSV, tableRows, typedRows, writeCSV, type CellValue, type CSVDialect } from './text/csv';
+import { createGIFAnimation, encodeCanvas, type ImageEncodeOptions } from './image/encode';
+import { copyJPEGExif } from './image/metadata';
+import { transformCanvas, type CropBox, type ImageTransform, type ResizeFit } from './image/transform';
+import { imageToCanvas, ocrResultToBlocks, recognizeCanvas, recognizePDFPage, textLayerWords, toWinAnsi } from './ocr/ocr';
+import type { Block, DocumentModel } from './document/types';
+import { markdownMath, readCSV, readCode, readHTML, readMarkdown, readPlainText, readSheetText } from './document/readers';
+import {
+  DOCX_NUMBERING,
+  ODT_AUTOMATIC_STYLES,
+  writeDocxChildren,
+  writeHTML,
+  writeJSONOutline,
+  writeMarkdown,
+  writeODTBody,
+  writePlainText,
+  writeRTF,
+  writeTablesCSV,
+  writeXMLOutline
+} from './document/writers';
+import { planSlides, writePptxSlides, type SlideLayout, type SlideTheme } from './document/slides';
+import { writePDFLayout } from './document/pdfLayout';
+import { readEPUB, writeEPUB, type EPUBOptions } from './document/epub';
+import { readLaTeX, writeLaTeX, type LaTeXOptions } from './document/latex';
+import { readODP, readPPTX } from './document/presentation';
+import { readODT } from './document/odf';
+import { formatSheet, jsonToWorkbook, readSpreadsheet, readWorkbook, rowsToSheet, selectSheets, sheetRows, subsetWorkbook, workbookToJSON, writeXLSX, type SheetFormat, type SheetSelection } from './document/spreadsheet';
+import { isCompoundFile, readDOC, readPPT } from './document/legacy';
+import { jsonTableRows, jsonToTable, type JSONArrayMode, type JSONSchema, type JSONTable, type JSONTableOptions } from '../services/jsonConversionService';
+import { countImages, createDocument, escapeHTML, escapeXML, externalizeImages, firstHeading, headingLevelForFontSize, tableFromRows, tableToRows, text } from './document/utils';
 
 export type SupportedFormat =
   'txt' | 'md' | 'html' | 'pdf' | 'docx' | 'doc' | 'pptx' | 'ppt' | 'xlsx' | 'xls' | 'rtf' |
-  'epub' | 'csv' | 'json' | 'xml' | 'latex' | 'odt' | 'odp' |
-  'png' | 'jpg' | 'jpeg' | 'gif' | 'bmp' | 'webp';
+  'epub' | 'csv' | 'tsv' | 'json' | 'xml' | 'latex' | 'odt' | 'odp' | 'ods' |
+  'png' | 'jpg' | 'jpeg' | 'gif' | 'bmp' | 'webp' | 'heic' | 'avif' | 'tiff' | 'svg';
 
 export interface ConversionOptions {
   fontSize?: number;
@@ -64,9 +60,63 @@ export interface ConversionOptions {
   pageSize?: 'A4' | 'A3' | 'Letter';
   margin?: number;
   watermark?: string;
-  password?: string;
+  password?: string; // User password required to open PDF output
+  ownerPassword?: string; // Owner password that lifts the permission restrictions (required, and different from password, when any are restricted)
+  allowPrinting?: boolean; // PDF output permissions - everything is allowed unless set to false
+  allowCopying?: boolean;
+  allowModifying?: boolean;
+  inputPassword?: string; // Password for opening encrypted PDF input
+  inputEncoding?: TextEncoding; // Text input: character encoding (detected when not set)
+  outputEncoding?: OutputEncoding; // TXT/CSV/TSV/XML output: UTF-8 (default), UTF-8 with BOM, UTF-16LE or Windows-1252
+  csvDelimiter?: string; // CSV input and output: field separator - detected on input and ',' on output when not set (TSV is always tab)
+  csvQuoteChar?: string; // CSV/TSV: character quoting fields ('"' by default)
+  csvEscapeChar?: string; // CSV/TSV: character escaping the quote inside a field (the quote doubled by default)
+  csvHeader?: boolean; // CSV/TSV: whether the first row holds column names - detected on input when not set
+  csvSkipLines?: number; // CSV/TSV input: lines to drop before the data
+  csvCommentChar?: string; // CSV/TSV input: rows starting with this are skipped
+  csvInferTypes?: boolean; // CSV/TSV input: type columns as numbers, booleans and dates (on unless set to false)
+  sheets?: string[]; // XLSX/XLS input: names of the sheets to convert (all when not set)
+  sheetRange?: string; // XLSX/XLS input: cell range to take from each sheet, e.g. "A1:F50"
+  sheetFormulas?: boolean; // XLSX/XLS -> JSON: formula cells as { value, formula } (the computed value alone by default)
+  sheetHeaderStyle?: boolean; // XLSX output: bold, filled header row (on unless set to false)
+  sheetAutoWidth?: boolean; // XLSX/XLS output: columns sized to their content (on unless set to false)
+  sheetFreezeHeader?: boolean; // XLSX output: header row stays in view when scrolling (on unless set to false)
+  sheetAutoFilter?: boolean; // XLSX output: filter buttons on the header row (on unless set to false)
+  sheetTotals?: boolean; // XLSX/XLS output: SUBTOTAL row under the numeric columns
+  jsonRowsPath?: string; // JSON -> CSV/TSV/XLSX/XLS/HTML: JSONPath ("$.data.orders[*]") or dot path ("data.orders") of the array whose items become rows
+  jsonArrayMode?: JSONArrayMode; // JSON -> tables: nested arrays as JSON text in one cell ('stringify', default) or a row per item ('explode')
+  jsonSeparator?: string; // JSON -> tables: joins nested keys into column names ('.' by default)
+  jsonSchema?: JSONSchema | string; // JSON -> tables: JSON Schema every row is checked against (the schema object or its JSON text)
+  jsonSkipInvalid?: boolean; // JSON -> tables: leave rows that fail the schema out (they are kept and reported by default)
+  epubTitle?: string; // EPUB output: book title (the document's title or first heading by default)
+  epubAuthor?: string; // EPUB output: author (the document's author by default)
+  epubLanguage?: string; // EPUB output: language tag such as "en" or "de-CH" (the document's language, else English)
+  epubIdentifier?: string; // EPUB output: ISBN, URN or URL identifying the book (a random urn:uuid by default)
+  epubCover?: Blob; // EPUB output: cover image
+  epubStylesheet?: string; // EPUB output: CSS applied after the built-in stylesheet
+  epubChapterLevel?: 1 | 2; // EPUB output: start chapters at H1 only, or at H1 and H2 (default)
+  latexDocumentClass?: string; // LaTeX output: document class ('article' by default; report and book start chapters at H1)
+  latexClassOptions?: string; // LaTeX output: class options such as "11pt,a4paper"
+  latexPackages?: string; // LaTeX output: extra packages, one per line or comma-separated ("name" or "name[options]"; lines starting with "\" are added as written)
+  ocr?: boolean; // Recognize text in scanned PDF pages (on unless set to false)
+  searchablePDF?: boolean; // Image -> PDF: add an invisible OCR text layer so the text can be searched and copied
+  slideTheme?: SlideTheme; // PPTX output colours (light by default)
+  slideLayout?: SlideLayout; // PPTX slide size: widescreen 16:9 (default) or standard 4:3
+  tableRowsPerSlide?: number; // PPTX output: table rows per slide before the table continues on the next one
   quality?: 'low' | 'medium' | 'high';
-  imageResolution?: number;
+  gifFrameDelay?: number; // PDF -> GIF: milliseconds each page stays on screen in the animation (default 1000)
+  gifDither?: boolean; // GIF output: diffuse palette rounding error (smoother gradients, larger files)
+  bmpBitDepth?: BMPBitDepth; // BMP output: 24-bit (default) or 32-bit with alpha
+  imageResolution?: number; // DPI for rasterizing PDF pages (144 by default), recorded in PNG/JPEG/BMP output
+  imageWidth?: number; // Image output: size in pixels - one side alone keeps the aspect ratio
+  imageHeight?: number;
+  imageFit?: ResizeFit; // Image output with both sides set: contain (default), cover or stretch
+  imageCrop?: CropBox; // Image output: region to keep, in source pixels, applied before rotating and resizing
+  imageRotate?: 0 | 90 | 180 | 270; // Image output: clockwise rotation
+  imageFlipHorizontal?: boolean;
+  imageFlipVertical?: boolean;
+  imageTargetSize?: number; // JPEG/WebP output: largest file size in bytes - quality is lowered until it fits
+  imageMetadata?: 'strip' | 'strip-gps' | 'keep'; // JPEG -> JPEG: EXIF is dropped by default; keep it, or keep it without the GPS position
   preserveFormatting?: boolean;
   includeMetadata?: boolean;
   compression?: boolean;
@@ -82,15 +132,47 @@ export interface ConversionResult {
     convertedSize: number;
     processingTime: number;
     format: SupportedFormat;
-    isZip?: boolean; // Indicates if the result is a ZIP file containing DOCX + images
-    imageCount?: number; // Number of images included in ZIP
+    isZip?: boolean; // Indicates if the result is a ZIP file (page images, or a document plus its image assets)
+    imageCount?: number; // Number of images included in the output
+    actualFormat?: SupportedFormat; // Format of the bytes when it differs from the requested one (name the file after this)
+    formatNote?: string; // Explanation to show the user when the output is not exactly what was requested
+    validationErrors?: string[]; // JSON Schema errors in the input rows, e.g. "Row 3 price: must be a number"
+    imageDimensions?: { width: number; height: number }; // Pixel size of image output (the first page for multi-page output)
   };
 }
 
+// One image-to-PDF page: the image as jsPDF takes it, and a canvas for OCR
+interface PDFImagePage {
+  image: string | HTMLCanvasElement;
+  format: string;
+  width: number;
+  height: number;
+  toCanvas: () => Promise<HTMLCanvasElement>;
+}
+
+/**
+ * State for a single convertFile call, passed down to every convertToX method
+ */
+export interface ConversionContext {
+  fromFormat: SupportedFormat;
+  toFormat: SupportedFormat;
+  options: ConversionOptions;
+  pdfDocument?: DocumentModel; // Structure parsed from a binary PDF (headings, paragraphs, tables, images)
+  ocrDocument?: DocumentModel; // Text recognized in an image input
+  presentationDocument?: DocumentModel; // Slides read from a PPTX/ODP deck, one section per slide
+  bookDocument?: DocumentModel; // Chapters read from an EPUB book, in spine order behind its table of contents
+  textDocument?: DocumentModel; // Body of an ODT document, with its footnotes and endnotes at the end
+  workbook?: XLSX.WorkBook; // Sheets read from an XLSX/XLS/ODS input, with merges, number formats and formulas
+  isZip?: boolean; // Set by converters that package their output with separate asset files
+  imageCount?: number; // Set by converters that embed images in their output
+  imageDimensions?: { width: number; height: number }; // Set by image output
+  actualFormat?: SupportedFormat; // Set by converters that write a different format than requested
+  formatNote?: string; // Set alongside actualFormat, or when the output is a compatible stand-in
+  validationErrors?: string[]; // Set by the JSON table writers when rows fail the schema
+}
+
 export class ConversionService {
   private md: MarkdownIt;
-  private turndown: Turndown;
-  private richPDFContent: RichPDFContent | null = null; // Store rich PDF content for DOCX conversion
 
   constructor() {
     this.md = new MarkdownIt({
@@ -98,85 +180,15 @@ export class ConversionService {
       linkify: true,
       typographer: true,
       breaks: true
-    });
-
-    this.turndown = new Turndown({
-      headingStyle: 'atx',
-      codeBlockStyle: 'fenced'
-    });
+    }).use(markdownMath);
   }
 
-  // Enhanced format detection with content analysis
-  detectFormat(filename: string, content?: string): SupportedFormat {
-    const extension = filename.toLowerCase().split('.').pop();
-
-    // Content-based detection for ambiguous cases
-    if (content) {
-      if (content.startsWith('<!DOCTYPE html') || content.includes('<html')) return 'html';
-      if (content.startsWith('%PDF-')) return 'pdf';
-      if (content.startsWith('PK')) {
-        // ZIP-based formats - need to check filename extension
-        if (extension === 'docx') return 'docx';
-        if (extension === 'pptx') return 'pptx';
-        if (extension === 'xlsx') return 'xlsx';
-        if (extension === 'odt') return 'odt';
-        if (extension === 'odp') return 'odp';
-        if (extension === 'epub') return 'epub';
-        return 'docx'; // Default for ZIP-based
-      }
-      if (content.includes('\\documentclass') || content.includes('\\begin{document}')) return 'latex';
-
-      // JSON detection
-      try {
-        JSON.parse(content);
-        return 'json';
-      } catch { }
-
-      // CSV detection
-      if (content.includes(',') && content.split('\n').length > 1) {
-        const lines = content.split('\n');
-        if (lines[0].split(',').length > 1) return 'csv';
-      }
-
-      // Markdown detection (stricter)
-      // Must look like MD structure and NOT like a log file (timestamps, [INFO], etc.)
-      const mdStructure = /(^|\n)(#{1,6}\s)/; // Headings are strong indicators
-      const mdList = /(^|\n)([\*\-]\s|\d+\.\s)/; // Lists are weaker
-
-      const isLogLine = /(^|\n)(\[|\d{4}-\d{2}-\d{2}|\d{2}:\d{2}:\d{2})/;
-
-      if (mdStructure.test(content)) {
-        return 'md';
-      }
-      if (mdList.test(content) && !isLogLine.test(content)) {
-        return 'md';
-      }
-    }
-
-    const formatMap: Record<string, SupportedFormat> = {
-      'txt': 'txt', 'text': 'txt',
-      'md': 'md', 'markdown': 'md', 'mdown': 'md',
-      'html': 'html', 'htm': 'html',
-      'pdf': 'pdf',
-      'docx': 'docx', 'doc': 'doc',
-      'pptx': 'pptx', 'ppt': 'ppt',
-      'xlsx': 'xlsx', 'xls': 'xls',
-      'rtf': 'rtf',
-      'epub': 'epub',
-      'csv': 'csv',
-      'json': 'json',
-      'xml': 'xml',
-      'tex': 'latex', 'latex': 'latex',
-      'png': 'png',
-      'jpg': 'jpg', 'jpeg': 'jpg',
-      'gif': 'gif',
-      'bmp': 'bmp',
-      'webp': 'webp',
-      'odt': 'odt',
-      'odp': 'odp'
-    };
-
-    return formatMap[extension || ''] || 'txt';
+  /**
+   * Identify a file from its signature, container manifest or text, with a
+   * confidence score and whether its extension disagrees
+   */
+  detectFormat(file: File): Promise<FormatDetection> {
+    return detectFileFormat(file, file.name);
   }
 
   // Main conversion function with enhanced error handling
@@ -197,51 +209,59 @@ export class ConversionService {
         throw new Error(`Conversion from ${fromFormat} to ${toFormat} is not supported`);
       }
 
+      // SVG is markup, but it is decoded from bytes like every other image
+      if (fromFormat === 'svg' && typeof content === 'string') {
+        content = new TextEncoder().encode(content).buffer as ArrayBuffer;
+      }
+
+      // Per-call state - never stored on the service, so concurrent conversions can't see each other's data
+      const context: ConversionContext = { fromFormat, toFormat, options };
+
       // Special handling for PDF conversion (preserve tables for all document/data formats)
       if (fromFormat === 'pdf' && typeof content !== 'string' && 
           !['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'].includes(toFormat)) {
         console.log(`Using enhanced PDF table extraction for ${toFormat.toUpperCase()} conversion`);
-        this.richPDFContent = await this.parseRichPDFContent(content);
-        // richPDFContent will be used in conversion methods and cleaned up there
+        context.pdfDocument = await this.parseRichPDFContent(content, options);
       }
       
-      // Special handling for PDF to Image conversion (PNG/JPG) - Create ZIP with one image per page
-      if (fromFormat === 'pdf' && ['png', 'jpg', 'jpeg'].includes(toFormat) && typeof content !== 'string') {
+      // Special handling for PDF to Image conversion (PNG/JPG/GIF/BMP) - Create ZIP with one image per page
+      if (fromFormat === 'pdf' && ['png', 'jpg', 'jpeg', 'gif', 'bmp'].includes(toFormat) && typeof content !== 'string') {
         console.log('Converting PDF to images - creating ZIP with one image per page');
         
         try {
-          const pdfData = new Uint8Array(content);
-          const pdf = await pdfjsLib.getDocument({ data: pdfData }).promise;
+          const pdf = await this.loadPDF(content, options.inputPassword);
+
+          // Multi-page PDF -> GIF is one animated GIF, a frame per page
+          if (toFormat === 'gif' && pdf.numPages > 1) {
+            const animation = await this.renderPDFAnimation(pdf, context);
+            return {
+              success: true,
+              data: animation,
+              metadata: {
+                originalSize,
+                convertedSize: animation.size,
+                processingTime: Date.now() - startTime,
+                format: toFormat,
+                imageCount: pdf.numPages,
+                imageDimensions: context.imageDimensions
+              }
+            };
+          }
+
           const zip = new JSZip();
           
           // Convert each page to an image
           for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
             const page = await pdf.getPage(pageNum);
-            const viewport = page.getViewport({ scale: 2.0 }); // High quality
-            const canvas = document.createElement('canvas');
-            const context = canvas.getContext('2d');
-            
-            if (context) {
-              canvas.width = viewport.width;
-              canvas.height = viewport.height;
-              
-              await page.render({
-                canvasContext: context,
-                viewport: viewport
-              }).promise;
-              
-              // Convert to blob
-              const imageFormat = toFormat === 'png' ? 'image/png' : 'image/jpeg';
-              const blob = await new Promise<Blob>((resolve) => {
-                canvas.toBlob((b) => resolve(b!), imageFormat, 0.95);
-              });
-              
-              const imageData = await blob.arrayBuffer();
-              const filename = `page_${pageNum}.${toFormat === 'jpg' ? 'jpg' : toFormat}`;
-              zip.file(filename, imageData);
-              
-              console.log(`Converted page ${pageNum}/${pdf.numPages} to ${toFormat.toUpperCase()}`);
-            }
+            // Rasterize at the requested DPI
+            const canvas = await renderPageToCanvas(page, this.pdfRenderScale(options));
+            const blob = await this.encodeImageOutput(canvas, context, this.pdfEncodeOptions(options));
+
+            const imageData = await blob.arrayBuffer();
+            const filename = `page_${pageNum}.${toFormat === 'jpg' ? 'jpg' : toFormat}`;
+            zip.file(filename, imageData);
+
+            console.log(`Converted page ${pageNum}/${pdf.numPages} to ${toFormat.toUpperCase()}`);
           }
           
           // Generate ZIP
@@ -257,80 +277,128 @@ export class ConversionService {
               processingTime,
               format: toFormat,
               isZip: true,
-              imageCount: pdf.numPages
+              imageCount: pdf.numPages,
+              imageDimensions: context.imageDimensions
             }
           };
         } catch (error) {
           console.error('PDF to image conversion error:', error);
+          if (this.isPDFPasswordError(error)) throw error;
           throw new Error(`Failed to convert PDF to ${toFormat.toUpperCase()}: ${error}`);
         }
       }
 
       // Special handling for Image to PDF conversion
-      if (['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'].includes(fromFormat) && toFormat === 'pdf' && typeof content !== 'string') {
+      if (this.isImageFormat(fromFormat) && toFormat === 'pdf' && typeof content !== 'string') {
         console.log(`Converting ${fromFormat.toUpperCase()} image to PDF`);
         return await this.convertImageToPDF(content, fromFormat, options, originalSize, startTime);
       }
 
-      // Normalize content to string
-      let textContent = await this.normalizeContent(content, fromFormat);
+      // Image to text formats - recognize the text in the image
+      if (['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'].includes(fromFormat) && typeof content !== 'string' &&
+          ['txt', 'md', 'docx'].includes(toFormat)) {
+        const mimeType = `image/${fromFormat === 'jpg' ? 'jpeg' : fromFormat}`;
+        const result = await recognizeCanvas(await imageToCanvas(new Blob([content], { type: mimeType })));
+        if (result.paragraphs.length === 0) {
+          throw new Error('No text was recognized in the image');
+        }
+        context.ocrDocument = createDocument(ocrResultToBlocks(result));
+      }
+
+      // Slide decks are read slide by slide, in presentation order
+      if (['pptx', 'ppt', 'odp'].includes(fromFormat) && typeof content !== 'string') {
+        context.presentationDocument = fromFormat === 'odp' ? await readODP(content)
+          : isCompoundFile(content) ? readPPT(content)
+            : await readPPTX(content);
+      }
+
+      // OpenDocument text is read from content.xml with the styles that make its headings and lists
+      if (fromFormat === 'odt' && typeof content !== 'string') {
+        context.textDocument = await readODT(content);
+      }
+
+      // E-books are read chapter by chapter, in reading order
+      if (fromFormat === 'epub' && typeof content !== 'string') {
+        context.bookDocument = await readEPUB(content);
+      }
+
+      // Workbooks are read once, sheet by sheet; one SheetJS can't read falls back to normalizeContent
+      if (['xlsx', 'xls', 'ods'].includes(fromFormat) && typeof content !== 'string') {
+        try {
+          context.workbook = readWorkbook(content);
+        } catch (error) {
+          console.warn('Failed to read workbook with XLSX library:', error);
+        }
+      }
+
+      // Normalize content to string - binary input already parsed into a document model skips a second pass
+      const sourceDocument = context.pdfDocument || context.ocrDocument || context.presentationDocument || context.bookDocument || context.textDocument;
+      const textContent = sourceDocument
+        ? writeMarkdown(sourceDocument)
+        : context.workbook
+          ? this.workbookText(context.workbook, options)
+          : await this.normalizeContent(content, fromFormat, options);
 
       let result: Blob;
 
       switch (toFormat) {
         case 'pdf':
-          result = await this.convertToPDF(textContent, fromFormat, options);
+          result = await this.convertToPDF(textContent, context);
           break;
         case 'html':
-          result = await this.convertToHTML(textContent, fromFormat, options);
+          result = await this.convertToHTML(textContent, context);
           break;
         case 'md':
-          result = await this.convertToMarkdown(textContent, fromFormat, options);
+          result = await this.convertToMarkdown(textContent, context);
           break;
         case 'txt':
-          result = await this.convertToText(textContent, fromFormat, options);
+          result = await this.convertToText(textContent, context);
           break;
         case 'docx':
-          result = await this.convertToDocx(textContent, fromFormat, options);
+          result = await this.convertToDocx(textContent, context);
           break;
         case 'doc':
-          result = await this.convertToDoc(textContent, fromFormat, options);
+          result = await this.convertToDoc(textContent, context);
           break;
         case 'pptx':
-          result = await this.convertToPPTX(textContent, fromFormat, options);
+          result = await this.convertToPPTX(textContent, context);
           break;
         case 'ppt':
-          result = await this.convertToPPT(textContent, fromFormat, options);
+          result = await this.convertToPPT(textContent, context);
           break;
         case 'xlsx':
-          result = await this.convertToXLSX(textContent, fromFormat, options);
+          result = await this.convertToXLSX(textContent, context);
           break;
         case 'xls':
-          result = await this.convertToXLS(textContent, fromFormat, options);
+          result = await this.convertToXLS(textContent, context);
+          break;
+        case 'ods':
+          result = await this.convertToODS(textContent, context);
           break;
         case 'csv':
-          result = await this.convertToCSV(textContent, fromFormat, options);
+        case 'tsv':
+          result = await this.convertToCSV(textContent, context);
           break;
         case 'json':
-          result = await this.convertToJSON(textContent, fromFormat, options);
+          result = await this.convertToJSON(textContent, context);
           break;
         case 'xml':
-          result = await this.convertToXML(textContent, fromFormat, options);
+          result = await this.convertToXML(textContent, context);
           break;
         case 'rtf':
-          result = await this.convertToRTF(textContent, fromFormat, options);
+          result = await this.convertToRTF(textContent, context);
           break;
         case 'epub':
-          result = await this.convertToEPUB(textContent, fromFormat, options);
+          result = await this.convertToEPUB(textContent, context);
           break;
         case 'latex':
-          result = await this.convertToLaTeX(textContent, fromFormat, options);
+          result = await this.convertToLaTeX(textContent, context);
           break;
         case 'odt':
-          result = await this.convertToODT(textContent, fromFormat, options);
+          result = await this.convertToODT(textContent, context);
           break;
         case 'odp':
-          result = await this.convertToODP(textContent, fromFormat, options);
+          result = await this.convertToODP(textContent, context);
           break;
         case 'png':
         case 'jpg':
@@ -338,17 +406,22 @@ export class ConversionService {
         case 'gif':
         case 'bmp':
         case 'webp':
-          if (fromFormat === 'pdf') {
-            // Pass raw content (ArrayBuffer) for PDF to allow canvas rendering
-            result = await this.convertToImage(content, fromFormat, toFormat, options);
+          if (fromFormat === 'pdf' || this.isImageFormat(fromFormat)) {
+            // Pass raw content (ArrayBuffer) for PDF and image input to allow canvas rendering
+            result = await this.convertToImage(content, context);
           } else {
-            result = await this.convertToImage(textContent, fromFormat, toFormat, options);
+            result = await this.convertToImage(textContent, context);
           }
           break;
         default:
           throw new Error(`Conversion to ${toFormat} not implemented`);
       }
 
+      // Text output in another encoding - Excel, for one, reads BOM-less CSV as the system code page
+      if (options.outputEncoding && options.outputEncoding !== 'utf-8' && ['txt', 'csv', 'tsv', 'xml'].includes(toFormat)) {
+        result = await this.encodeTextOutput(result, toFormat, options.outputEncoding);
+      }
+
       const processingTime = Date.now() - startTime;
 
       return {
@@ -358,7 +431,13 @@ export class ConversionService {
           originalSize,
           convertedSize: result.size,
           processingTime,
-          format: toFormat
+          format: toFormat,
+          isZip: context.isZip,
+          imageCount: context.imageCount,
+          imageDimensions: context.imageDimensions,
+          actualFormat: context.actualFormat,
+          formatNote: context.formatNote,
+          validationErrors: context.validationErrors
         }
       };
 
@@ -374,30 +453,36 @@ export class ConversionService {
   private _isConversionSupported(from: SupportedFormat, to: SupportedFormat): boolean {
     // Define supported conversion paths
     const supportedPaths: Record<SupportedFormat, SupportedFormat[]> = {
-      txt: ['pdf', 'html', 'md', 'docx', 'rtf', 'json', 'xml', 'latex', 'epub', 'odt', 'png', 'jpg'],
-      md: ['pdf', 'html', 'txt', 'docx', 'rtf', 'latex', 'epub', 'odt', 'png', 'jpg'],
-      html: ['pdf', 'md', 'txt', 'docx', 'rtf', 'png', 'jpg'],
-      pdf: ['txt', 'html', 'md', 'docx', 'json', 'xml', 'csv', 'png', 'jpg', 'rtf', 'odt', 'epub', 'latex'], // Full PDF conversion support
-      docx: ['txt', 'html', 'md', 'pdf', 'rtf', 'odt'],
-      doc: ['txt', 'html', 'md', 'pdf', 'rtf', 'docx', 'odt'],
+      txt: ['pdf', 'html', 'md', 'docx', 'pptx', 'rtf', 'json', 'xml', 'latex', 'epub', 'odt', 'png', 'jpg'],
+      md: ['pdf', 'html', 'txt', 'docx', 'pptx', 'rtf', 'latex', 'epub', 'odt', 'png', 'jpg'],
+      html: ['pdf', 'md', 'txt', 'docx', 'pptx', 'rtf', 'png', 'jpg'],
+      pdf: ['txt', 'html', 'md', 'docx', 'pptx', 'json', 'xml', 'csv', 'tsv', 'png', 'jpg', 'gif', 'bmp', 'rtf', 'odt', 'epub', 'latex'], // Full PDF conversion support
+      docx: ['txt', 'html', 'md', 'pdf', 'pptx', 'rtf', 'odt', 'epub'],
+      doc: ['txt', 'html', 'md', 'pdf', 'pptx', 'rtf', 'docx', 'odt', 'epub'],
       pptx: ['pdf', 'txt', 'html', 'md', 'ppt'],
       ppt: ['pdf', 'txt', 'html', 'md', 'pptx'],
-      xlsx: ['csv', 'json', 'html', 'txt', 'pdf', 'xls'],
-      xls: ['csv', 'json', 'html', 'txt', 'pdf', 'xlsx'],
-      csv: ['json', 'xml', 'html', 'txt', 'pdf', 'xlsx', 'docx', 'doc', 'pptx', 'ppt', 'rtf', 'odt', 'epub', 'latex', 'md', 'png', 'jpg'],
-      json: ['csv', 'xml', 'txt', 'html', 'pdf'],
+      xlsx: ['csv', 'tsv', 'json', 'html', 'txt', 'pdf', 'xls', 'ods'],
+      xls: ['csv', 'tsv', 'json', 'html', 'txt', 'pdf', 'xlsx', 'ods'],
+      ods: ['csv', 'tsv', 'json', 'html', 'txt', 'pdf', 'xlsx', 'xls'],
+      csv: ['tsv', 'json', 'xml', 'html', 'txt', 'pdf', 'xlsx', 'ods', 'docx', 'doc', 'pptx', 'ppt', 'rtf', 'odt', 'epub', 'latex', 'md', 'png', 'jpg'],
+      tsv: ['csv', 'json', 'xml', 'html', 'txt', 'pdf', 'xlsx', 'ods', 'docx', 'doc', 'pptx', 'ppt', 'rtf', 'odt', 'epub', 'latex', 'md', 'png', 'jpg'],
+      json: ['csv', 'tsv', 'xml', 'txt', 'html', 'pdf', 'xlsx', 'xls', 'ods'],
       xml: ['json', 'html', 'txt', 'pdf'],
       rtf: ['txt', 'html', 'md', 'pdf', 'docx'],
       epub: ['txt', 'html', 'md', 'pdf'],
-      latex: ['pdf', 'html', 'txt', 'md'],
-      odt: ['txt', 'html', 'md', 'pdf', 'docx'],
+      latex: ['pdf', 'html', 'txt', 'md', 'docx', 'rtf', 'odt', 'epub'],
+      odt: ['txt', 'html', 'md', 'pdf', 'docx', 'epub'],
       odp: ['txt', 'html', 'md', 'pdf', 'pptx'],
-      png: ['pdf', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'],
-      jpg: ['pdf', 'png', 'gif', 'bmp', 'webp'],
-      jpeg: ['pdf', 'png', 'jpg', 'gif', 'bmp', 'webp'],
-      gif: ['pdf', 'png', 'jpg', 'jpeg', 'bmp', 'webp'],
-      bmp: ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp'],
-      webp: ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'bmp']
+      png: ['pdf', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'txt', 'md', 'docx'],
+      jpg: ['pdf', 'png', 'gif', 'bmp', 'webp', 'txt', 'md', 'docx'],
+      jpeg: ['pdf', 'png', 'jpg', 'gif', 'bmp', 'webp', 'txt', 'md', 'docx'],
+      gif: ['pdf', 'png', 'jpg', 'jpeg', 'bmp', 'webp', 'txt', 'md', 'docx'],
+      bmp: ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'txt', 'md', 'docx'],
+      webp: ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'bmp', 'txt', 'md', 'docx'],
+      heic: ['jpg', 'jpeg', 'png', 'webp', 'gif', 'bmp', 'pdf'],
+      avif: ['jpg', 'jpeg', 'png', 'webp', 'gif', 'bmp', 'pdf'],
+      tiff: ['pdf', 'png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp'],
+      svg: ['png', 'pdf', 'jpg', 'jpeg', 'webp', 'gif', 'bmp']
     };
 
     return from !== to && (supportedPaths[from]?.includes(to) || false);
@@ -408,7 +493,42 @@ export class ConversionService {
     return this._isConversionSupported(from, to);
   }
 
-  private async normalizeContent(content: string | ArrayBuffer, format: SupportedFormat): Promise<string> {
+  private async encodeTextOutput(output: Blob, format: SupportedFormat, encoding: OutputEncoding): Promise<Blob> {
+    let text = await output.text();
+    const charset = outputCharset(encoding);
+    if (format === 'xml') {
+      // The declaration has to name the encoding the bytes are in
+      text = text.replace(/^(<\?xml[^>]*?encoding=")[^"]*(")/, `$1${charset}$2`);
+    }
+    const mimeType = output.type.split(';')[0];
+    return new Blob([encodeText(text, encoding) as BlobPart], { type: `${mimeType};charset=${charset.toLowerCase()}` });
+  }
+
+  /**
+   * Word keeps section breaks in the properties of a section's last paragraph,
+   * where mammoth doesn't look; a page break at the end of that paragraph keeps
+   * them (continuous sections don't start a new page, so they are left out)
+   */
+  private async markSectionBreaks(content: ArrayBuffer): Promise<ArrayBuffer> {
+    const zip = await JSZip.loadAsync(content);
+    const file = zip.file('word/document.xml');
+    if (!file) return content;
+
+    let breaks = 0;
+    const xml = (await file.async('text')).replace(
+      /<w:p(?:\s[^>]*[^/>])?>(?:(?!<\/w:p>)[\s\S])*?<w:sectPr\b(?:(?!<\/w:p>)[\s\S])*<\/w:p>/g,
+      paragraph => {
+        if (/<w:type w:val="continuous"\s*\/>/.test(paragraph)) return paragraph;
+        breaks++;
+        return paragraph.replace(/<\/w:p>$/, '<w:r><w:br w:type="page"/></w:r></w:p>');
+      }
+    );
+    if (breaks === 0) return content;
+    zip.file('word/document.xml', xml);
+    return zip.generateAsync({ type: 'arraybuffer' });
+  }
+
+  private async normalizeContent(content: string | ArrayBuffer, format: SupportedFormat, options: ConversionOptions): Promise<string> {
     if (typeof content === 'string') {
       return content;
     }
@@ -417,66 +537,29 @@ export class ConversionService {
     switch (format) {
       case 'docx':
         try {
-          // Prefer HTML with inline images to retain structure for downstream rendering
+          // Prefer HTML with inline images to retain structure for downstream rendering;
+          // page and section breaks become page-break rules
           const result = await mammoth.convertToHtml(
-            { arrayBuffer: content }
+            { arrayBuffer: await this.markSectionBreaks(content) },
+            { styleMap: ["br[type='page'] => hr.page-break"] }
           );
           return result.value || '';
         } catch (error) {
           console.warn('Failed to extract DOCX content, using raw text');
-          return new TextDecoder().decode(content);
+          return decodeText(new Uint8Array(content), options.inputEncoding);
         }
 
       case 'doc':
-        try {
-          // For older DOC files, we'll try to extract what we can
-          const text = new TextDecoder().decode(content);
-          // Basic extraction - remove binary data and keep readable text
-          return text.replace(/[\x00-\x1F\x7F-\x9F]/g, ' ').replace(/\s+/g, ' ').trim();
-        } catch (error) {
-          console.warn('Failed to extract DOC content');
-          return '[DOC content - extraction requires additional processing]';
-        }
-
-      case 'pptx':
-      case 'ppt':
-        try {
-          // For PowerPoint files, we'll extract text from the ZIP structure
-          const zip = new JSZip();
-          const zipContent = await zip.loadAsync(content);
-          let extractedText = '';
-
-          // Look for slide content in PPTX structure
-          const slideFiles = Object.keys(zipContent.files).filter(name =>
-            name.includes('slide') && name.endsWith('.xml')
-          );
-
-          for (const slideFile of slideFiles) {
-            try {
-              const slideContent = await zipContent.files[slideFile].async('text');
-              // Extract text from XML (basic extraction)
-              const textMatches = slideContent.match(/<a:t[^>]*>([^<]*)<\/a:t>/g);
-              if (textMatches) {
-                textMatches.forEach(match => {
-                  const text = match.replace(/<[^>]*>/g, '');
-                  if (text.trim()) {
-                    extractedText += text + '\n';
-                  }
-                });
-              }
-            } catch (e) {
-              console.warn(`Failed to extract from ${slideFile}`);
-            }
-          }
-
-          return extractedText || '[PowerPoint content - slides detected but text extraction limited]';
-        } catch (error) {
-          console.warn('Failed to extract PowerPoint content');
-          return '[PowerPoint content - extraction requires additional processing]';
+        // Word 97-2003 binaries become HTML, like DOCX through mammoth; .doc files that
+        // are really HTML or RTF (as saved by many tools) pass through as text
+        if (isCompoundFile(content)) {
+          return writeHTML(readDOC(content));
         }
+        return decodeText(new Uint8Array(content), options.inputEncoding);
 
       case 'xlsx':
       case 'xls':
+      case 'ods':
         try {
           // Use XLSX library for better Excel parsing
           const workbook = XLSX.read(content, { type: 'array' });
@@ -524,16 +607,16 @@ export class ConversionService {
 
             return extractedData || '[Excel content - spreadsheet detected but data extraction limited]';
           } else {
-            // For older XLS files
-            return '[Excel content - XLS format requires specialized parsing]';
+            // SheetJS reads Excel 97-2003 (BIFF) and ODS itself, so there is nothing better to fall back to
+            const kind = format === 'ods' ? 'OpenDocument spreadsheet' : 'Excel 97-2003 workbook';
+            throw new Error(`Could not read the ${kind}: ${error instanceof Error ? error.message : error}`);
           }
         }
 
       case 'pdf':
         // Extract text from PDF using pdfjs-dist
         try {
-          const pdfData = new Uint8Array(content);
-          const pdf = await pdfjsLib.getDocument({ data: pdfData }).promise;
+          const pdf = await this.loadPDF(content, options.inputPassword);
           let fullText = '';
 
           for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
@@ -604,50 +687,102 @@ export class ConversionService {
           return fullText.trim() || '[PDF contains no extractable text - may be scanned/image-based]';
         } catch (pdfError) {
           console.error('PDF extraction error:', pdfError);
-          return '[PDF content extraction failed - file may be corrupted or encrypted]';
+          if (this.isPDFPasswordError(pdfError)) throw pdfError;
+          return '[PDF content extraction failed - file may be corrupted]';
         }
 
       default:
-        return new TextDecoder().decode(content);
+        return decodeText(new Uint8Array(content), options.inputEncoding);
+    }
+  }
+
+  /**
+   * Open a PDF with pdf.js. Encrypted files need their password - a missing or
+   * wrong password is reported as a clear error instead of a generic parse failure.
+   */
+  private async loadPDF(content: ArrayBuffer, password?: string) {
+    try {
+      // pdf.js takes ownership of the buffer it is given, so pass a copy
+      return await pdfjsLib.getDocument({ data: new Uint8Array(content.slice(0)), password: password || undefined }).promise;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'PasswordException') {
+        const code = (error as Error & { code?: number }).code;
+        const message = code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD
+          ? 'Incorrect password for encrypted PDF'
+          : 'This PDF is password protected - enter its password to convert it';
+        const passwordError = new Error(message);
+        passwordError.name = 'PasswordException';
+        throw passwordError;
+      }
+      throw error;
     }
   }
 
-  // Enhanced PDF parser that extracts text, tables, and images
-  private async parseRichPDFContent(content: ArrayBuffer): Promise<RichPDFContent> {
-    const elements: PDFContentElement[] = [];
-    const extractedImages: PDFImage[] = [];
-    let plainText = '';
+  private isPDFPasswordError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'PasswordException';
+  }
+
+  /**
+   * AES-256 security handler settings (undefined when no password is set).
+   * Restrictions are only as strong as the owner password, so they need one
+   * that differs from the password that opens the file.
+   */
+  private getPDFSecurity(options: ConversionOptions): SecurityOptions | undefined {
+    if (!options.password && !options.ownerPassword) return undefined;
+
+    const restricted = options.allowPrinting === false || options.allowCopying === false || options.allowModifying === false;
+    if (restricted && (!options.ownerPassword || options.ownerPassword === options.password)) {
+      throw new Error('Restricting printing, copying or modifying needs an owner password that differs from the open password');
+    }
+
+    return {
+      algorithm: 'AES-256',
+      userPassword: options.password || '',
+      // With nothing restricted the owner password is never needed, but it must not match the user password
+      ownerPassword: options.ownerPassword || Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join(''),
+      permissions: {
+        printing: options.allowPrinting !== false ? 'highResolution' : false,
+        copying: options.allowCopying !== false,
+        modifying: options.allowModifying !== false,
+        documentAssembly: options.allowModifying !== false,
+        annotating: true,
+        fillingForms: true,
+        contentAccessibility: true
+      }
+    };
+  }
+
+  /**
+   * The finished PDF, encrypted when security settings are given (jsPDF itself
+   * only offers 40-bit RC4)
+   */
+  private async outputPDF(doc: jsPDF, security: SecurityOptions | undefined): Promise<Blob> {
+    if (!security) return doc.output('blob');
+    const pdf = await PDFDocument.load(doc.output('arraybuffer'), { updateMetadata: false });
+    pdf.encrypt(security);
+    const bytes = await pdf.save({ useObjectStreams: false });
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+
+  // Enhanced PDF parser that extracts headings, paragraphs and tables into a DocumentModel
+  private async parseRichPDFContent(content: ArrayBuffer, options: ConversionOptions): Promise<DocumentModel> {
+    const blocks: Block[] = [];
 
     try {
       // Use pdfjs-dist for text and structure extraction
-      const pdfData = new Uint8Array(content);
-      const pdf = await pdfjsLib.getDocument({ data: pdfData }).promise;
+      const pdf = await this.loadPDF(content, options.inputPassword);
 
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        if (pageNum > 1) {
+          blocks.push({ type: 'pageBreak', source: { pageNumber: pageNum } });
+        }
+
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
         const operatorList = await page.getOperatorList();
 
-        // Detect images by checking for image operations
-        let imageCount = 0;
-        try {
-          for (let i = 0; i < operatorList.fnArray.length; i++) {
-            const op = operatorList.fnArray[i];
-            // Common image operation codes: 49 = paintImageXObject, 44 = paintInlineImageXObject
-            if (op === 49 || op === 44) {
-              imageCount++;
-            }
-          }
-          
-          // Note: Full PDF image extraction is complex and requires embedded image parsing
-          // For now, we just note if images exist but don't extract them
-          if (imageCount > 0 && imageCount < 20) {
-            console.log(`Page ${pageNum}: Detected ${imageCount} image operation(s) - image extraction not implemented`);
-            // Don't add image elements since we're not extracting them properly
-          }
-        } catch (imgError) {
-          console.warn('Error detecting images:', imgError);
-        }
+        // Embedded images, top to bottom, placed between the text rows around them
+        const pageImages = await extractPageImages(page, operatorList);
 
         // Detect tables by analyzing text positions
         const textItems: Array<{ text: string; x: number; y: number; fontSize: number }> = [];
@@ -663,11 +798,21 @@ export class ConversionService {
           }
         });
 
+        // Scanned page without a text layer - recognize the rendered page instead
+        if (textItems.length === 0 && options.ocr !== false) {
+          const result = await recognizePDFPage(page);
+          console.log(`Page ${pageNum}: no text layer, OCR found ${result.paragraphs.length} paragraph(s)`);
+          blocks.push(...ocrResultToBlocks(result, pageNum));
+          pageImages.forEach(image => blocks.push(image.block));
+          continue;
+        }
+
         // Sort items by Y position (top to bottom)
         textItems.sort((a, b) => b.y - a.y);
 
         // Group items by rows (similar Y positions)
         const rows: Array<Array<{ text: string; x: number; fontSize: number }>> = [];
+        const rowYPositions: number[] = [];
         let currentRow: Array<{ text: string; x: number; fontSize: number }> = [];
         let lastY: number | null = null;
 
@@ -676,6 +821,7 @@ export class ConversionService {
             // New row detected
             if (currentRow.length > 0) {
               rows.push([...currentRow]);
+              rowYPositions.push(lastY);
               currentRow = [];
             }
           }
@@ -683,13 +829,27 @@ export class ConversionService {
           lastY = item.y;
         });
         
-        if (currentRow.length > 0) {
+        if (currentRow.length > 0 && lastY !== null) {
           rows.push(currentRow);
+          rowYPositions.push(lastY);
         }
 
         // Improved table detection with better heuristics
         let tableStartIdx = -1;
-        let tableRows: PDFTableCell[][] = [];
+        let tableRows: string[][] = [];
+
+        // Body text lines are merged into paragraphs until the font size changes or a large gap appears
+        let pendingParagraph: { lines: string[]; fontSize: number; y: number } | null = null;
+        const flushParagraph = () => {
+          if (pendingParagraph) {
+            blocks.push({
+              type: 'paragraph',
+              children: [text(pendingParagraph.lines.join(' '))],
+              source: { pageNumber: pageNum, fontSize: pendingParagraph.fontSize }
+            });
+            pendingParagraph = null;
+          }
+        };
         
         console.log(`Page ${pageNum}: Analyzing ${rows.length} rows for table detection`);
         
@@ -751,6 +911,14 @@ export class ConversionService {
         
         for (let i = 0; i < rows.length; i++) {
           const row = rows[i];
+
+          // Images above this row come first (tables are never split by an image)
+          if (tableRows.length === 0) {
+            while (pageImages.length > 0 && pageImages[0].top >= rowYPositions[i]) {
+              flushParagraph();
+              blocks.push(pageImages.shift()!.block);
+            }
+          }
           
           // Sort by X position to get columns
           row.sort((a, b) => a.x - b.x);
@@ -785,80 +953,131 @@ export class ConversionService {
             }
             
             // Add row to table with proper column alignment
-            const tableCells: PDFTableCell[] = mappedCells.map(text => ({ text: text.trim() }));
-            tableRows.push(tableCells);
+            flushParagraph();
+            tableRows.push(mappedCells.map(cell => cell.trim()));
           } else {
             // Not a table row
             // First, save any pending table
             if (tableStartIdx >= 0 && tableRows.length >= 2) {
               console.log(`Page ${pageNum}: Table ended, saving ${tableRows.length} rows × ${tableRows[0].length} columns`);
-              console.log(`Table data sample:`, tableRows.slice(0, 3).map(r => r.map(c => c.text).join(' | ')));
-              
-              elements.push({
-                type: 'table',
-                rows: tableRows,
-                pageNumber: pageNum
-              });
-              
-              plainText += '\n[TABLE]\n';
-              tableRows.forEach(trow => {
-                plainText += trow.map(cell => cell.text).join('\t') + '\n';
-              });
-              plainText += '[/TABLE]\n\n';
-              
-              tableStartIdx = -1;
-              tableRows = [];
+              console.log(`Table data sample:`, tableRows.slice(0, 3).map(r => r.join(' | ')));
+
+              blocks.push({ ...tableFromRows(tableRows), source: { pageNumber: pageNum } });
+            } else if (tableRows.length > 0) {
+              // A single table-like row is just text
+              tableRows.forEach(cells => blocks.push({
+                type: 'paragraph',
+                children: [text(cells.filter(Boolean).join(' '))],
+                source: { pageNumber: pageNum }
+              }));
             }
-            
-            // Add current row as paragraph
+            tableStartIdx = -1;
+            tableRows = [];
+
             const rowText = row.map(cell => cell.text).join(' ');
             const maxFontSize = Math.max(...row.map(cell => cell.fontSize));
-            
-            elements.push({
-              type: 'paragraph',
-              text: rowText,
-              fontSize: maxFontSize,
-              pageNumber: pageNum
-            });
-            
-            plainText += rowText + '\n';
+            const headingLevel = headingLevelForFontSize(maxFontSize);
+
+            if (headingLevel) {
+              flushParagraph();
+              blocks.push({
+                type: 'heading',
+                level: headingLevel,
+                children: [text(rowText)],
+                source: { pageNumber: pageNum, fontSize: maxFontSize }
+              });
+              continue;
+            }
+
+            // Continue the current paragraph on the next line, or start a new one
+            const y = rowYPositions[i];
+            const current: { lines: string[]; fontSize: number; y: number } | null = pendingParagraph;
+            if (current && Math.abs(current.fontSize - maxFontSize) < 0.5 && current.y - y <= maxFontSize * 1.8) {
+              current.lines.push(rowText);
+              current.y = y;
+            } else {
+              flushParagraph();
+              pendingParagraph = { lines: [rowText], fontSize: maxFontSize, y };
+            }
           }
         }
         
         // Handle remaining table if page ends
+        flushParagraph();
         if (tableStartIdx >= 0 && tableRows.length >= 2) {
-          elements.push({
-            type: 'table',
-            rows: tableRows,
-            pageNumber: pageNum
-          });
-          
-          plainText += '\n[TABLE]\n';
-          tableRows.forEach(row => {
-            plainText += row.map(cell => cell.text).join('\t') + '\n';
-          });
-          plainText += '[/TABLE]\n\n';
-        }
-
-        // Add page separator
-        if (pageNum < pdf.numPages) {
-          plainText += '\n--- Page ' + (pageNum + 1) + ' ---\n\n';
+          blocks.push({ ...tableFromRows(tableRows), source: { pageNumber: pageNum } });
+        } else if (tableRows.length > 0) {
+          tableRows.forEach(cells => blocks.push({
+            type: 'paragraph',
+            children: [text(cells.filter(Boolean).join(' '))],
+            source: { pageNumber: pageNum }
+          }));
         }
+        pageImages.forEach(image => blocks.push(image.block));
       }
 
-      return {
-        elements,
-        plainText: plainText.trim(),
-        images: extractedImages
-      };
+      return createDocument(blocks, { pageCount: pdf.numPages });
     } catch (error) {
       console.error('Rich PDF parsing error:', error);
+      if (this.isPDFPasswordError(error)) throw error;
       // Fallback to plain text extraction
-      return {
-        elements: [],
-        plainText: '[PDF content extraction failed]',
-        images: []
-      };
+      return createDocument([{ type: 'paragraph', children: [text('[PDF content extraction failed]')] }]);
+    }
+  }
+
+  /**
+   * Parse a normalized string into the shared document model.
+   * A PDF parsed for this call (context.pdfDocument) is used as-is.
+   */
+  private toDocumentModel(content: string, context: ConversionContext): DocumentModel {
+    const { fromFormat, pdfDocument, ocrDocument, presentationDocument, bookDocument, textDocument } = context;
+    if (fromFormat === 'pdf' && pdfDocument) {
+      return pdfDocument;
+    }
+    if (ocrDocument) {
+      return ocrDocument;
+    }
+    if (presentationDocument) {
+      return presentationDocument;
+    }
+    if (bookDocument) {
+      return bookDocument;
+    }
+    if (textDocument) {
+      return textDocument;
+    }
+
+    switch (fromFormat) {
+      case 'md':
+      case 'pdf':
+        // Non-rich PDF text uses Markdown-style headings
+        return readMarkdown(content, this.md);
+      case 'html':
+      case 'docx':
+      case 'doc':
+        // DOCX is normalized to HTML by mammoth
+        return /<[a-z][\s\S]*>/i.test(content) ? readHTML(content) : readPlainText(content);
+      case 'csv':
+      case 'tsv':
+        return readCSV(content, this.csvDialect(context.options, fromFormat));
+      case 'xlsx':
+      case 'xls':
+      case 'ods':
+        return context.workbook
+          ? readSpreadsheet(context.workbook, this.sheetSelection(context.options))
+          : readSheetText(content);
+      case 'json':
+        try {
+          return readCode(JSON.stringify(JSON.parse(content), null, 2), 'json');
+        } catch {
+          return readCode(content, 'json');
+        }
+      case 'xml':
+        return readCode(content, 'xml');
+      case 'latex':
+        return readLaTeX(content);
+      default:
+        return readPlainText(content);
     }
   }
 
@@ -875,6 +1094,7 @@ export class ConversionService {
     startTime: number
   ): Promise<ConversionResult> {
     try {
+      const security = this.getPDFSecurity(options);
       const doc = new jsPDF({
         orientation: options.orientation || 'portrait',
         unit: 'mm',
@@ -885,48 +1105,68 @@ export class ConversionService {
       const pageHeight = doc.internal.pageSize.getHeight();
       const margin = options.margin || 10;
 
-      // Create an image element to get dimensions
-      const blob = new Blob([content], { type: `image/${fromFormat === 'jpg' ? 'jpeg' : fromFormat}` });
-      const imageUrl = URL.createObjectURL(blob);
-      
-      const img = new Image();
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
-        img.src = imageUrl;
-      });
+      const pages = await this.loadPDFImagePages(content, fromFormat, options);
 
-      // Calculate dimensions to fit image on page while maintaining aspect ratio
-      const imgWidth = img.width;
-      const imgHeight = img.height;
-      const imgAspectRatio = imgWidth / imgHeight;
-      
-      const availableWidth = pageWidth - (2 * margin);
-      const availableHeight = pageHeight - (2 * margin);
-      const pageAspectRatio = availableWidth / availableHeight;
+      for (let i = 0; i < pages.length; i++) {
+        const page = pages[i];
+        if (i > 0) doc.addPage();
 
-      let finalWidth, finalHeight;
-      
-      if (imgAspectRatio > pageAspectRatio) {
-        // Image is wider than page - fit to width
-        finalWidth = availableWidth;
-        finalHeight = availableWidth / imgAspectRatio;
-      } else {
-        // Image is taller than page - fit to height
-        finalHeight = availableHeight;
-        finalWidth = availableHeight * imgAspectRatio;
-      }
+        // Calculate dimensions to fit image on page while maintaining aspect ratio
+        const imgWidth = page.width;
+        const imgHeight = page.height;
+        const imgAspectRatio = imgWidth / imgHeight;
 
-      // Center the image on the page
-      const xOffset = (pageWidth - finalWidth) / 2;
-      const yOffset = (pageHeight - finalHeight) / 2;
+        const availableWidth = pageWidth - (2 * margin);
+        const availableHeight = pageHeight - (2 * margin);
+        const pageAspectRatio = availableWidth / availableHeight;
 
-      // Convert image data to base64 for jsPDF
-      const base64Image = await this.arrayBufferToBase64(content, fromFormat);
-      
-      // Add image to PDF
-      doc.addImage(base64Image, fromFormat.toUpperCase() === 'JPG' ? 'JPEG' : fromFormat.toUpperCase(), 
-                   xOffset, yOffset, finalWidth, finalHeight);
+        let finalWidth, finalHeight;
+
+        if (imgAspectRatio > pageAspectRatio) {
+          // Image is wider than page - fit to width
+          finalWidth = availableWidth;
+          finalHeight = availableWidth / imgAspectRatio;
+        } else {
+          // Image is taller than page - fit to height
+          finalHeight = availableHeight;
+          finalWidth = availableHeight * imgAspectRatio;
+        }
+
+        // Center the image on the page
+        const xOffset = (pageWidth - finalWidth) / 2;
+        const yOffset = (pageHeight - finalHeight) / 2;
+
+        doc.addImage(page.image, page.format, xOffset, yOffset, finalWidth, finalHeight);
+
+        // Invisible OCR text over the image so the PDF can be searched and copied
+        if (options.searchablePDF) {
+          const result = await recognizeCanvas(await page.toCanvas());
+          const mmPerPixel = finalWidth / imgWidth;
+
+          // Text state (scale, render mode) is part of the graphics state - keep it scoped
+          doc.saveGraphicsState();
+          textLayerWords(result).forEach(word => {
+            const label = toWinAnsi(word.text);
+            doc.setFontSize(word.fontSize * mmPerPixel / 0.352778); // mm -> pt
+            const naturalWidth = doc.getTextWidth(label);
+            doc.text(label, xOffset + word.x * mmPerPixel, yOffset + word.baseline * mmPerPixel, {
+              renderingMode: 'invisible',
+              horizontalScale: naturalWidth > 0 ? word.width * mmPerPixel / naturalWidth : 1
+            });
+          });
+          doc.restoreGraphicsState();
+        }
+
+        // Add watermark if specified
+        if (options.watermark) {
+          doc.setFontSize(40);
+          doc.setTextColor(200, 200, 200);
+          doc.text(options.watermark, pageWidth / 2, pageHeight / 2, {
+            angle: 45,
+            align: 'center'
+          });
+        }
+      }
 
       // Add metadata
       if (options.includeMetadata) {
@@ -936,18 +1176,7 @@ export class ConversionService {
         });
       }
 
-      // Add watermark if specified
-      if (options.watermark) {
-        doc.setFontSize(40);
-        doc.setTextColor(200, 200, 200);
-        doc.text(options.watermark, pageWidth / 2, pageHeight / 2, {
-          angle: 45,
-          align: 'center'
-        });
-      }
-
-      const pdfBlob = doc.output('blob');
-      URL.revokeObjectURL(imageUrl);
+      const pdfBlob = await this.outputPDF(doc, security);
 
       const processingTime = Date.now() - startTime;
 
@@ -958,7 +1187,8 @@ export class ConversionService {
           originalSize,
           convertedSize: pdfBlob.size,
           processingTime,
-          format: 'pdf'
+          format: 'pdf',
+          imageCount: pages.length
         }
       };
     } catch (error) {
@@ -967,12 +1197,48 @@ export class ConversionService {
     }
   }
 
-  private async convertToPDF(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
+  /**
+   * Images to place in a PDF, a page each. jsPDF embeds PNG/JPEG/GIF/BMP/WebP files
+   * as they are; other formats are decoded first (every page of a TIFF).
+   */
+  private async loadPDFImagePages(content: ArrayBuffer, fromFormat: SupportedFormat, options: ConversionOptions): Promise<PDFImagePage[]> {
+    if (['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'].includes(fromFormat)) {
+      const blob = new Blob([content], { type: `image/${fromFormat === 'jpg' ? 'jpeg' : fromFormat}` });
+      const bitmap = await createImageBitmap(blob);
+      const size = { width: bitmap.width, height: bitmap.height };
+      bitmap.close();
+      return [{
+        image: await this.arrayBufferToBase64(content, fromFormat),
+        format: fromFormat === 'jpg' ? 'JPEG' : fromFormat.toUpperCase(),
+        ...size,
+        toCanvas: () => imageToCanvas(blob)
+      }];
+    }
+
+    // SVG is scaled to fit the page, so rasterize it sharper than its screen size
+    const canvases = await decodeImagePages(content, fromFormat, {
+      dpi: fromFormat === 'svg' ? options.imageResolution || 144 : undefined
+    });
+    // Photos are far smaller as JPEG; scans and drawings stay lossless
+    const photo = fromFormat === 'heic' || fromFormat === 'avif';
+    return canvases.map(canvas => ({
+      image: photo ? canvas.toDataURL('image/jpeg', 0.92) : canvas,
+      format: photo ? 'JPEG' : 'PNG',
+      width: canvas.width,
+      height: canvas.height,
+      toCanvas: async () => canvas
+    }));
+  }
+
+  private async convertToPDF(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat, options } = context;
     // Smart orientation detection
     const shouldUseLandscape = options.orientation === 'landscape' ||
-      (!options.orientation && ['csv', 'xlsx', 'xls', 'json', 'xml'].includes(fromFormat));
+      (!options.orientation && ['csv', 'tsv', 'xlsx', 'xls', 'ods', 'json', 'xml'].includes(fromFormat));
+    // Checked up front so a missing owner password fails before any layout work
+    const security = this.getPDFSecurity(options);
 
-    const doc = new jsPDF({
+    let doc = new jsPDF({
       orientation: shouldUseLandscape ? 'landscape' : 'portrait',
       unit: 'mm',
       format: options.pageSize || 'a4'
@@ -987,8 +1253,42 @@ export class ConversionService {
     doc.setFontSize(fontSize);
     doc.setFont(options.fontFamily || 'helvetica');
 
+    // Rich documents (docx/html/md/latex/odt/slides/e-books) are laid out as real, selectable PDF text
+    let fallbackText: string | undefined;
+    if (['html', 'docx', 'doc', 'odt', 'md', 'latex', 'pptx', 'ppt', 'odp', 'epub'].includes(fromFormat) || context.workbook) {
+      const model = this.toDocumentModel(content, context);
+      try {
+        const embeddedFont = await embedPDFFont(doc);
+        if (options.includeMetadata) {
+          doc.setProperties({
+            title: model.metadata.title || firstHeading(model) || 'Converted Document',
+            author: model.metadata.author || '',
+            creator: 'DocConverter Pro'
+          });
+        }
+        writePDFLayout(doc, model, {
+          margin,
+          fontSize,
+          fontFamily: embeddedFont || 'helvetica',
+          unicode: embeddedFont !== null
+        });
+        context.imageCount = countImages(model);
+        this.addPDFWatermark(doc, options.watermark);
+      } catch (e) {
+        console.warn('Falling back to text PDF path for rich content:', e);
+        // Start over on a clean document
+        doc = new jsPDF({
+          orientation: shouldUseLandscape ? 'landscape' : 'portrait',
+          unit: 'mm',
+          format: options.pageSize || 'a4'
+        });
+        fallbackText = writePlainText(model);
+      }
+      if (fallbackText === undefined) return this.outputPDF(doc, security);
+    }
+
     // Process content based on source format
-    let processedContent = await this.preprocessContentForPDF(content, fromFormat, options);
+    const processedContent = fallbackText ?? await this.preprocessContentForPDF(content, context);
 
     // Handle metadata
     if (options.includeMetadata) {
@@ -1009,28 +1309,12 @@ export class ConversionService {
     doc.setFontSize(fontSize);
     doc.setFont(options.fontFamily || 'helvetica', 'normal');
 
-    // If we have HTML-rich content (docx/html/md/odt), render via HTML snapshot to preserve tables/images
-    if (['html', 'docx', 'doc', 'odt', 'md'].includes(fromFormat)) {
-      try {
-        const htmlContent = this.prepareHTMLForRendering(processedContent, fromFormat, options);
-        await this.renderHTMLToPDF(doc, htmlContent, {
-          margin,
-          pageWidth,
-          pageHeight,
-          fontFamily: options.fontFamily || 'helvetica'
-        });
-      } catch (e) {
-        console.warn('Falling back to text PDF path for rich content:', e);
-        y = this.renderPlainLinesToPDF(doc, lines, y, lineHeight, margin, pageHeight);
-      }
-    }
     // CSV → table path
-    else if (fromFormat === 'csv') {
+    if (fromFormat === 'csv' || fromFormat === 'tsv') {
       try {
-        const parsed = Papa.parse(content, { header: true });
-        if (parsed.data && parsed.data.length > 0) {
-          const headers = Object.keys(parsed.data[0] as any).map(h => ({ title: h, dataKey: h }));
-          const data = parsed.data;
+        const table = this.toDocumentModel(content, context).blocks.find(block => block.type === 'table');
+        if (table && table.type === 'table') {
+          const [headers = [], ...data] = tableToRows(table);
 
           // Dynamic font size based on column count to fit wide tables
           const colCount = headers.length;
@@ -1040,8 +1324,8 @@ export class ConversionService {
           else if (colCount > 5) safeFontSize = 8;
 
           autoTable(doc, {
-            head: [headers.map(h => h.title)],
-            body: data.map((row: any) => headers.map(h => row[h.dataKey])),
+            head: [headers],
+            body: data,
             startY: y,
             margin: { top: margin, right: margin, bottom: margin, left: margin },
             theme: 'grid',
@@ -1079,42 +1363,31 @@ export class ConversionService {
       y = this.renderPlainLinesToPDF(doc, lines, y, lineHeight, margin, pageHeight);
     }
 
-    // Add watermark if specified
-    if (options.watermark) {
-      const pageCount = doc.getNumberOfPages();
-      for (let i = 1; i <= pageCount; i++) {
-        doc.setPage(i);
-        doc.setTextColor(200, 200, 200);
-        doc.setFontSize(60);
-        doc.text(options.watermark, pageWidth / 2, pageHeight / 2, {
-          angle: 45,
-          align: 'center'
-        });
-        doc.setTextColor(0, 0, 0); // Reset color
-      }
-    }
+    this.addPDFWatermark(doc, options.watermark);
 
-    return doc.output('blob');
+    return this.outputPDF(doc, security);
   }
 
-  private async preprocessContentForPDF(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<string> {
-    switch (fromFormat) {
-      case 'md':
-        // Keep rich HTML to preserve headings/lists/tables via HTML snapshot
-        return this.md.render(content);
-
-      case 'html':
-        return content;
-
-      case 'docx':
-      case 'doc':
-        // If normalizeContent already returned HTML, keep it
-        return content;
-
-      case 'odt':
-        // Currently normalized to text; keep as-is
-        return content;
+  private addPDFWatermark(doc: jsPDF, watermark?: string): void {
+    if (!watermark) return;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setTextColor(200, 200, 200);
+      doc.setFontSize(60);
+      doc.text(watermark, pageWidth / 2, pageHeight / 2, {
+        angle: 45,
+        align: 'center'
+      });
+      doc.setTextColor(0, 0, 0); // Reset color
+    }
+  }
 
+  private async preprocessContentForPDF(content: string, context: ConversionContext): Promise<string> {
+    const { fromFormat } = context;
+    switch (fromFormat) {
       case 'json':
         try {
           const jsonData = JSON.parse(content);
@@ -1124,6 +1397,7 @@ export class ConversionService {
         }
 
       case 'csv':
+      case 'tsv':
         // Return raw content for CSV as we'll handle it specially in convertToPDF
         return content;
 
@@ -1153,181 +1427,23 @@ export class ConversionService {
     return y;
   }
 
-  // Prepare HTML with consistent styling for PDF/image rendering
-  private prepareHTMLForRendering(htmlContent: string, fromFormat: SupportedFormat, options: ConversionOptions): string {
-    const fontFamily = options.fontFamily || 'Arial, sans-serif';
-    return `
-      <style>
-        body { font-family: ${fontFamily}; font-size: ${options.fontSize || 14}px; line-height: 1.6; color: #222; }
-        table { border-collapse: collapse; width: 100%; margin: 12px 0; }
-        th, td { border: 1px solid #ccc; padding: 8px; text-align: left; }
-        th { background: #f5f5f5; font-weight: 600; }
-        img { max-width: 100%; height: auto; }
-        h1, h2, h3, h4, h5, h6 { margin: 16px 0 8px; }
-        ul, ol { margin: 8px 0 8px 20px; }
-        pre, code { font-family: "Fira Code", "Courier New", monospace; background: #f8f8f8; padding: 6px; display: block; white-space: pre-wrap; }
-      </style>
-      <div data-source="${fromFormat}">
-        ${htmlContent}
-      </div>
-    `;
-  }
-
-  // Render HTML content to PDF pages using html2canvas snapshots (preserves tables/images)
-  private async renderHTMLToPDF(
-    doc: jsPDF,
-    htmlContent: string,
-    opts: { margin: number; pageWidth: number; pageHeight: number; fontFamily: string }
-  ) {
-    const container = document.createElement('div');
-    container.style.position = 'fixed';
-    container.style.left = '-10000px';
-    container.style.top = '0';
-    container.style.width = `${opts.pageWidth * 3}px`; // generous width for clarity
-    container.style.padding = `${opts.margin}px`;
-    container.style.background = '#fff';
-    container.innerHTML = htmlContent;
-    document.body.appendChild(container);
-
-    try {
-      const canvas = await html2canvas(container, { scale: 2, backgroundColor: '#ffffff' });
-      const imgData = canvas.toDataURL('image/png');
-
-      const pxPerMm = 96 / 25.4; // approximate CSS px to mm
-      const pageWidthPx = (opts.pageWidth - opts.margin * 2) * pxPerMm;
-      const pageHeightPx = (opts.pageHeight - opts.margin * 2) * pxPerMm;
-
-      const totalPages = Math.ceil(canvas.height / pageHeightPx);
-
-      for (let page = 0; page < totalPages; page++) {
-        const sourceY = page * pageHeightPx;
-        const slice = document.createElement('canvas');
-        slice.width = canvas.width;
-        slice.height = Math.min(pageHeightPx, canvas.height - sourceY);
-        const ctx = slice.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(canvas, 0, sourceY, canvas.width, slice.height, 0, 0, canvas.width, slice.height);
-          const sliceData = slice.toDataURL('image/png');
-          const imgProps = doc.getImageProperties(sliceData);
-          const pdfWidth = opts.pageWidth - opts.margin * 2;
-          const pdfHeight = (imgProps.height * pdfWidth) / imgProps.width;
-
-          if (page > 0) doc.addPage();
-          doc.addImage(sliceData, 'PNG', opts.margin, opts.margin, pdfWidth, pdfHeight);
-        }
-      }
-    } finally {
-      if (document.body.contains(container)) {
-        document.body.removeChild(container);
-      }
-    }
-  }
-
   // Enhanced HTML conversion with better styling
-  // Helper: Convert rich PDF content to HTML
-  private richPDFToHTML(): string {
-    if (!this.richPDFContent || this.richPDFContent.elements.length === 0) {
-      return `<pre>${this.escapeHTML(this.richPDFContent?.plainText || '')}</pre>`;
-    }
-
-    let htmlContent = '';
-
-    for (const element of this.richPDFContent.elements) {
-      if (element.type === 'paragraph') {
-        const escaped = this.escapeHTML(element.text);
-        // Add headings based on font size
-        if (element.fontSize >= 24) {
-          htmlContent += `<h1>${escaped}</h1>\n`;
-        } else if (element.fontSize >= 18) {
-          htmlContent += `<h2>${escaped}</h2>\n`;
-        } else if (element.fontSize >= 14) {
-          htmlContent += `<h3>${escaped}</h3>\n`;
-        } else {
-          htmlContent += `<p>${escaped}</p>\n`;
-        }
-      } else if (element.type === 'table') {
-        // Convert to HTML table
-        if (element.rows.length > 0) {
-          htmlContent += '<table border="1" cellpadding="5" cellspacing="0" style="border-collapse: collapse; margin: 20px 0;">\n';
-          
-          // Header row
-          htmlContent += '  <thead><tr>';
-          element.rows[0].forEach(cell => {
-            htmlContent += `<th>${this.escapeHTML(cell.text || '')}</th>`;
-          });
-          htmlContent += '</tr></thead>\n';
-          
-          // Body rows
-          htmlContent += '  <tbody>\n';
-          for (let i = 1; i < element.rows.length; i++) {
-            htmlContent += '    <tr>';
-            element.rows[i].forEach(cell => {
-              htmlContent += `<td>${this.escapeHTML(cell.text || '')}</td>`;
-            });
-            htmlContent += '</tr>\n';
-          }
-          htmlContent += '  </tbody>\n</table>\n';
-        }
-      }
-    }
-
-    return htmlContent;
-  }
-
-  private async convertToHTML(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    let htmlContent = '';
-    let title = 'Converted Document';
-
-    // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      htmlContent = this.richPDFToHTML();
-      this.richPDFContent = null; // Clean up
-      title = 'PDF Document';
-    } else {
-      switch (fromFormat) {
-        case 'md':
-          htmlContent = this.md.render(content);
-          // Extract title from first heading
-          const titleMatch = content.match(/^#\s+(.+)$/m);
-          if (titleMatch) title = titleMatch[1];
-          break;
-
-        case 'pdf':
-          // Fallback for non-rich PDF
-          htmlContent = this.md.render(content);
-          break;
-
-      case 'txt':
-        htmlContent = `<pre class="text-content">${this.escapeHTML(content)}</pre>`;
-        break;
-
-      case 'json':
-        try {
-          const jsonData = JSON.parse(content);
-          htmlContent = `<pre class="json-content"><code>${JSON.stringify(jsonData, null, 2)}</code></pre>`;
-          title = 'JSON Document';
-        } catch {
-          htmlContent = `<pre class="text-content">${this.escapeHTML(content)}</pre>`;
-        }
-        break;
-
-      case 'csv':
-        htmlContent = this.csvToHTMLTable(content);
-        title = 'CSV Data';
-        break;
-
-      case 'xml':
-        htmlContent = `<pre class="xml-content"><code>${this.escapeXML(content)}</code></pre>`;
-        title = 'XML Document';
-        break;
-
-      default:
-        htmlContent = content;
-      }
-    }
+  private async convertToHTML(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat, options } = context;
+    const model = fromFormat === 'json' ? this.jsonDocument(content, context) : this.toDocumentModel(content, context);
+    const htmlContent = writeHTML(model);
+    context.imageCount = countImages(model);
+
+    const defaultTitles: Partial<Record<SupportedFormat, string>> = {
+      pdf: 'PDF Document',
+      json: 'JSON Document',
+      csv: 'CSV Data',
+      xml: 'XML Document'
+    };
+    const title = escapeHTML(model.metadata.title || firstHeading(model) || defaultTitles[fromFormat] || 'Converted Document');
 
     const fullHTML = `<!DOCTYPE html>
-<html lang="en">
+<html lang="${escapeHTML(model.metadata.language || 'en')}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -1343,21 +1459,6 @@ export class ConversionService {
             color: #333;
             background: #fff;
         }
-        .text-content {
-            white-space: pre-wrap;
-            font-family: 'Courier New', monospace;
-            background: #f5f5f5;
-            padding: 1rem;
-            border-radius: 4px;
-            overflow-x: auto;
-        }
-        .json-content, .xml-content {
-            background: #f8f9fa;
-            border: 1px solid #e9ecef;
-            border-radius: 4px;
-            padding: 1rem;
-            overflow-x: auto;
-        }
         table {
             width: 100%;
             border-collapse: collapse;
@@ -1383,6 +1484,22 @@ export class ConversionService {
             border-radius: 3px;
             font-family: 'Courier New', monospace;
         }
+        pre {
+            background: #f8f9fa;
+            border: 1px solid #e9ecef;
+            border-radius: 4px;
+            padding: 1rem;
+            overflow-x: auto;
+            white-space: pre-wrap;
+        }
+        pre code {
+            background: none;
+            padding: 0;
+        }
+        img {
+            max-width: 100%;
+            height: auto;
+        }
         blockquote {
             border-left: 4px solid #3498db;
             margin: 1rem 0;
@@ -1405,1186 +1522,249 @@ export class ConversionService {
     return new Blob([fullHTML], { type: 'text/html;charset=utf-8' });
   }
 
-  public csvToHTMLTable(csvContent: string): string {
-    try {
-      const parsed = Papa.parse(csvContent, { header: true });
-      if (parsed.errors.length > 0) throw new Error('CSV parsing failed');
-
-      const headers = Object.keys(parsed.data[0] || {});
-      let html = '<table><thead><tr>';
-
-      headers.forEach(header => {
-        html += `<th>${this.escapeHTML(header)}</th>`;
-      });
-
-      html += '</tr></thead><tbody>';
-
-      parsed.data.forEach((row: any) => {
-        html += '<tr>';
-        headers.forEach(header => {
-          html += `<td>${this.escapeHTML(row[header] || '')}</td>`;
-        });
-        html += '</tr>';
-      });
-
-      html += '</tbody></table>';
-      return html;
-    } catch {
-      // Fallback to simple table
-      const lines = csvContent.split('\n').filter(line => line.trim());
-      let html = '<table>';
-
-      lines.forEach((line, index) => {
-        const cells = line.split(',');
-        const tag = index === 0 ? 'th' : 'td';
-        html += '<tr>';
-        cells.forEach(cell => {
-          html += `<${tag}>${this.escapeHTML(cell.trim())}</${tag}>`;
-        });
-        html += '</tr>';
-      });
-
-      html += '</table>';
-      return html;
-    }
+  public csvToHTMLTable(csvContent: string, options: ConversionOptions = {}, format: SupportedFormat = 'csv'): string {
+    return writeHTML(readCSV(csvContent, this.csvDialect(options, format)));
   }
 
   // Additional conversion methods for new formats
-  private async convertToRTF(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      content = this.richPDFContent.plainText;
-      this.richPDFContent = null;
-    }
-
-    // Basic RTF generation
-    let rtfContent = '{\\rtf1\\ansi\\deff0\n';
-
-    // Add font table
-    rtfContent += '{\\fonttbl{\\f0 Arial;}}\n';
-    rtfContent += '\\f0\\fs24\n'; // Arial 12pt
-
-    // Add content
-    let textContent = content;
-
-    if (fromFormat === 'csv') {
-      try {
-        const parsed = Papa.parse(content, { header: true });
-        if (parsed.data && parsed.data.length > 0) {
-          const headers = Object.keys(parsed.data[0] as any);
-          const data = parsed.data as any[];
-
-          // RTF Table Generation
-          // Header Row
-          rtfContent += '\\trowd\\trgaph108\\trleft-108\n'; // Start row definition
-          headers.forEach((h, i) => {
-            rtfContent += `\\clbrdrt\\brdrs\\brdrw10 \\clbrdrl\\brdrs\\brdrw10 \\clbrdrb\\brdrs\\brdrw10 \\clbrdrr\\brdrs\\brdrw10 \\cellx${(i + 1) * 2000}\n`;
-          });
-
-          headers.forEach(h => {
-            rtfContent += `\\pard\\intbl {\\b ${this.escapeRTF(h)}}\\cell\n`;
-          });
-          rtfContent += '\\row\n'; // End header row
-
-          // Data Rows
-          data.forEach(row => {
-            rtfContent += '\\trowd\\trgaph108\\trleft-108\n';
-            headers.forEach((h, i) => {
-              rtfContent += `\\clbrdrt\\brdrs\\brdrw10 \\clbrdrl\\brdrs\\brdrw10 \\clbrdrb\\brdrs\\brdrw10 \\clbrdrr\\brdrs\\brdrw10 \\cellx${(i + 1) * 2000}\n`;
-            });
-
-            headers.forEach(h => {
-              rtfContent += `\\pard\\intbl ${this.escapeRTF(String(row[h] || ''))}\\cell\n`;
-            });
-            rtfContent += '\\row\n';
-          });
-
-          textContent = ''; // Handled above
-        }
-      } catch (e) {
-        // Fallback to text
-        textContent = content;
-      }
-    } else if (fromFormat === 'html') {
-      const hasTable = /<table/i.test(content);
-      const hasImg = /<img[^>]*src=/i.test(content);
-      if (hasTable) {
-        rtfContent += '\\pard\\sa200\\sl276\\slmult1 ' + this.escapeRTF('[Table omitted in RTF export]') + '\\par\n';
-      }
-      if (hasImg) {
-        rtfContent += '\\pard\\sa200\\sl276\\slmult1 ' + this.escapeRTF('[Image omitted in RTF export]') + '\\par\n';
-      }
-      textContent = this.stripHTML(content);
-    } else if (fromFormat === 'md' || fromFormat === 'pdf') {
-      textContent = this.stripMarkdown(content);
-    }
-
-    if (textContent) {
-      // Improved paragraph handling for PDF/Text
-      // Split by double newline to detect paragraphs
-      const paragraphs = textContent.split(/\n\s*\n/);
-
-      paragraphs.forEach(para => {
-        if (para.trim()) {
-          // Reflow text: Join single newlines with space
-          const cleanPara = para.replace(/\r/g, '').replace(/\n/g, ' ').trim();
-          // Add paragraph (\\pard resets paragraph props, \\par ends it)
-          // Add extra \\par for spacing if desired, or relying on \\pard spacing if defined
-          // Here we just use standard paragraph blocks
-          rtfContent += '\\pard\\sa200\\sl276\\slmult1 ' + this.escapeRTF(cleanPara) + '\\par\n';
-        }
-      });
-    }
-
-    rtfContent += '}';
-
+  private async convertToRTF(content: string, context: ConversionContext): Promise<Blob> {
+    const rtfContent = writeRTF(this.toDocumentModel(content, context));
     return new Blob([rtfContent], { type: 'application/rtf' });
   }
 
-  private escapeRTF(text: string): string {
-    return text.replace(/[\\{}]/g, '\\$&');
-  }
-
-  private async convertToEPUB(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    const zip = new JSZip();
-
-    // EPUB structure
-    zip.file('mimetype', 'application/epub+zip');
-
-    // META-INF
-    const metaInf = zip.folder('META-INF');
-    metaInf?.file('container.xml', `<?xml version="1.0"?>
-<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
-  <rootfiles>
-    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
-  </rootfiles>
-</container>`);
-
-    // OEBPS
-    const oebps = zip.folder('OEBPS');
-
-    // Chapters
-    let chapterContent = '';
-
-    if (fromFormat === 'csv') {
-      chapterContent = this.csvToHTMLTable(content);
-    } else if (fromFormat === 'md') {
-      chapterContent = this.md.render(content);
-    } else if (fromFormat === 'html') {
-      chapterContent = content;
-    } else {
-      // Improved paragraph handling
-      const paragraphs = content.split(/\n\s*\n/);
-      chapterContent = paragraphs.map(para => {
-        if (!para.trim()) return '';
-        const cleanPara = para.replace(/\r/g, '').replace(/\n/g, ' ').trim();
-        return `<p>${this.escapeHTML(cleanPara)}</p>`;
-      }).join('');
-    }
-
-    const chapterXHTML = `<?xml version="1.0" encoding="UTF-8"?>
-<html xmlns="http://www.w3.org/1999/xhtml">
-<head>
-  <title>Chapter 1</title>
-  <style>
-    body { font-family: serif; line-height: 1.5; padding: 1em; } 
-    table { border-collapse: collapse; width: 100%; margin: 1em 0; }
-    th { background: #eee; font-weight: bold; text-align: left; }
-    td, th { border: 1px solid #ddd; padding: 0.5em; }
-  </style>
-</head>
-<body>
-  ${chapterContent}
-</body>
-</html>`;
-
-    // Content file
-    oebps?.file('content.html', chapterXHTML);
-
-    // Package file
-    oebps?.file('content.opf', `<?xml version="1.0" encoding="UTF-8"?>
-<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="bookid" version="2.0">
-  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
-    <dc:title>Converted Document</dc:title>
-    <dc:creator>DocConverter Pro</dc:creator>
-    <dc:identifier id="bookid">converted-doc-${Date.now()}</dc:identifier>
-    <dc:language>en</dc:language>
-  </metadata>
-  <manifest>
-    <item id="content" href="content.html" media-type="application/xhtml+xml"/>
-    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
-  </manifest>
-  <spine toc="ncx">
-    <itemref idref="content"/>
-  </spine>
-</package>`);
-
-    // Table of contents
-    oebps?.file('toc.ncx', `<?xml version="1.0" encoding="UTF-8"?>
-<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
-  <head>
-    <meta name="dtb:uid" content="converted-doc-${Date.now()}"/>
-    <meta name="dtb:depth" content="1"/>
-  </head>
-  <docTitle><text>Converted Document</text></docTitle>
-  <navMap>
-    <navPoint id="content">
-      <navLabel><text>Content</text></navLabel>
-      <content src="content.html"/>
-    </navPoint>
-  </navMap>
-</ncx>`);
-
-    return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip' });
-  }
-
-  // Helper: Convert rich PDF content to LaTeX
-  private richPDFToLaTeX(): string {
-    if (!this.richPDFContent || this.richPDFContent.elements.length === 0) {
-      return this.richPDFContent?.plainText || '';
-    }
-
-    let latexBody = '';
-
-    for (const element of this.richPDFContent.elements) {
-      if (element.type === 'paragraph') {
-        const escaped = element.text.replace(/[&%$#_{}~^\\]/g, '\\$&');
-        if (element.fontSize >= 24) {
-          latexBody += `\\section{${escaped}}\n`;
-        } else if (element.fontSize >= 18) {
-          latexBody += `\\subsection{${escaped}}\n`;
-        } else {
-          latexBody += `${escaped}\n\n`;
-        }
-      } else if (element.type === 'table') {
-        if (element.rows.length > 0) {
-          const colCount = element.rows[0].length;
-          latexBody += `\\begin{table}[h]\n\\centering\n\\begin{tabular}{|${'c|'.repeat(colCount)}}\n\\hline\n`;
-          
-          element.rows.forEach((row, idx) => {
-            const cells = row.map(cell => (cell.text || '').replace(/[&%$#_{}~^\\]/g, '\\$&'));
-            latexBody += cells.join(' & ') + ' \\\\\n\\hline\n';
-          });
-          
-          latexBody += '\\end{tabular}\n\\end{table}\n\n';
-        }
-      }
-    }
-
-    return latexBody;
-  }
-
-  // Helper: Extract tables as CSV
-  private richPDFToCSV(): string {
-    if (!this.richPDFContent || this.richPDFContent.elements.length === 0) {
-      return '';
-    }
-
-    let csvContent = '';
-    
-    for (const element of this.richPDFContent.elements) {
-      if (element.type === 'table') {
-        element.rows.forEach(row => {
-          const cells = row.map(cell => {
-            const text = cell.text || '';
-            // Escape quotes and wrap in quotes if contains comma/quote/newline
-            if (text.includes(',') || text.includes('"') || text.includes('\n')) {
-              return `"${text.replace(/"/g, '""')}"`;
-            }
-            return text;
-          });
-          csvContent += cells.join(',') + '\n';
-        });
-        csvContent += '\n'; // Blank line between tables
-      }
-    }
-
-    return csvContent.trim();
-  }
-
-  // Helper: Convert rich PDF to JSON
-  private richPDFToJSON(): string {
-    if (!this.richPDFContent || this.richPDFContent.elements.length === 0) {
-      return JSON.stringify({ text: this.richPDFContent?.plainText || '' }, null, 2);
-    }
-
-    const jsonData: any = {
-      document: {
-        paragraphs: [],
-        tables: []
-      }
-    };
-
-    for (const element of this.richPDFContent.elements) {
-      if (element.type === 'paragraph') {
-        jsonData.document.paragraphs.push({
-          text: element.text,
-          fontSize: element.fontSize,
-          page: element.pageNumber
-        });
-      } else if (element.type === 'table') {
-        jsonData.document.tables.push({
-          rows: element.rows.map(row => row.map(cell => cell.text)),
-          page: element.pageNumber
-        });
-      }
-    }
-
-    return JSON.stringify(jsonData, null, 2);
-  }
-
-  // Helper: Convert rich PDF to XML
-  private richPDFToXML(): string {
-    if (!this.richPDFContent || this.richPDFContent.elements.length === 0) {
-      return `<?xml version="1.0" encoding="UTF-8"?>\n<document>\n  <text>${this.escapeHTML(this.richPDFContent?.plainText || '')}</text>\n</document>`;
-    }
-
-    let xmlContent = '<?xml version="1.0" encoding="UTF-8"?>\n<document>\n';
-
-    for (const element of this.richPDFContent.elements) {
-      if (element.type === 'paragraph') {
-        xmlContent += `  <paragraph fontSize="${element.fontSize}" page="${element.pageNumber}">${this.escapeHTML(element.text)}</paragraph>\n`;
-      } else if (element.type === 'table') {
-        xmlContent += `  <table page="${element.pageNumber}">\n`;
-        element.rows.forEach((row, idx) => {
-          xmlContent += `    <row index="${idx}">\n`;
-          row.forEach((cell, cellIdx) => {
-            xmlContent += `      <cell index="${cellIdx}">${this.escapeHTML(cell.text || '')}</cell>\n`;
-          });
-          xmlContent += `    </row>\n`;
-        });
-        xmlContent += `  </table>\n`;
-      }
-    }
-
-    xmlContent += '</document>';
-    return xmlContent;
-  }
-
-  private async convertToLaTeX(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    let latexContent = `\\documentclass{article}
-\\usepackage[utf8]{inputenc}
-\\usepackage{geometry}
-\\geometry{margin=1in}
-\\usepackage{listings}
-\\usepackage{xcolor}
-
-\\title{Converted Document}
-\\author{DocConverter Pro}
-\\date{\\today}
-
-\\begin{document}
-\\maketitle
-
-`;
-
-    // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      latexContent += this.richPDFToLaTeX();
-      this.richPDFContent = null;
-    } else {
-      switch (fromFormat) {
-        case 'md':
-          latexContent += this.markdownToLaTeX(content);
-          break;
-      case 'html':
-        latexContent += this.htmlToLaTeX(content);
-        break;
-      case 'csv':
-        try {
-          const parsed = Papa.parse(content, { header: true });
-          if (parsed.data && parsed.data.length > 0) {
-            const headers = Object.keys(parsed.data[0] as any);
-            const data = parsed.data as any[];
-
-            // LaTeX Table
-            latexContent += '\\begin{table}[h]\n';
-            latexContent += '\\centering\n';
-            latexContent += `\\begin{tabular}{|${headers.map(() => 'l').join('|')}|}\n`;
-            latexContent += '\\hline\n';
-            latexContent += `${headers.map(h => this.escapeLaTeX(h)).join(' & ')} \\\\\n`;
-            latexContent += '\\hline\n';
-
-            data.forEach(row => {
-              latexContent += `${headers.map(h => this.escapeLaTeX(String(row[h] || ''))).join(' & ')} \\\\\n`;
-            });
-
-            latexContent += '\\hline\n';
-            latexContent += '\\end{tabular}\n';
-            latexContent += '\\caption{Converted Data}\n';
-            latexContent += '\\end{table}\n';
-          } else {
-            latexContent += `\\begin{verbatim}\n${content}\n\\end{verbatim}`;
-          }
-        } catch {
-          latexContent += `\\begin{verbatim}\n${content}\n\\end{verbatim}`;
-        }
-        break;
-      default:
-        latexContent += `\\begin{verbatim}\n${content}\n\\end{verbatim}`;
-      }
-    }
-
-    latexContent += '\n\\end{document}';
-
-    return new Blob([latexContent], { type: 'application/x-latex' });
-  }
-
-  private async convertToODT(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      content = this.richPDFContent.plainText;
-      this.richPDFContent = null;
-    }
-
-    const zip = new JSZip();
-
-    // Mimetype - MUST be first and uncompressed
-    zip.file('mimetype', 'application/vnd.oasis.opendocument.text', { compression: 'STORE' });
-
-    let contentXMLBody = '';
-
-    const hasImages = /<img[^>]*>/i.test(content);
-
-    if (fromFormat === 'csv') {
-      try {
-        const parsed = Papa.parse(content, { header: true, skipEmptyLines: true });
-        if (parsed.data && parsed.data.length > 0) {
-          contentXMLBody = this.csvToODFTable(parsed.data as any[], Object.keys(parsed.data[0] as any));
-        } else {
-          contentXMLBody = `<text:p>${this.escapeXML("No data found")}</text:p>`;
-        }
-      } catch {
-        contentXMLBody = `<text:p>${this.escapeXML(content)}</text:p>`;
-      }
-    } else {
-      let processedContent = content;
-      if (fromFormat === 'md' || fromFormat === 'pdf') {
-        processedContent = this.stripMarkdown(content);
-      } else if (fromFormat === 'html') {
-        processedContent = this.stripHTML(content);
-      }
-
-      // Improved paragraph handling
-      const paragraphs = processedContent.split(/\n\s*\n/);
-      contentXMLBody = paragraphs.map(para => {
-        if (!para.trim()) return '';
-        // Reflow text
-        const cleanPara = para.replace(/\r/g, '').replace(/\n/g, ' ').trim();
-        return `<text:p>${this.escapeXML(cleanPara)}</text:p>`;
-      }).join('');
-
-      if (hasImages) {
-        contentXMLBody += `<text:p>${this.escapeXML('[Image omitted - not supported in ODT export]')}</text:p>`;
-      }
-    }
-
-    // Manifest
-    zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
-<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0">
-  <manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>
-  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
-</manifest:manifest>`);
-
-    // Content
-    zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
-<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
-                        xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"
-                        xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0">
-  <office:body>
-    <office:text>
-      ${contentXMLBody}
-    </office:text>
-  </office:body>
-</office:document-content>`);
-
-    return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.oasis.opendocument.text' });
-  }
-
-  // Helper to generate OpenDocument Format Table XML
-  private csvToODFTable(data: any[], headers: string[]): string {
-    let xml = `<table:table table:name="Table1">`;
-
-    // Columns (simple auto width)
-    xml += `<table:table-column table:number-columns-repeated="${headers.length}"/>`;
-
-    // Header Row
-    xml += `<table:table-row>`;
-    headers.forEach(h => {
-      xml += `<table:table-cell office:value-type="string"><text:p>${this.escapeXML(h)}</text:p></table:table-cell>`;
-    });
-    xml += `</table:table-row>`;
-
-    // Data Rows
-    data.forEach(row => {
-      xml += `<table:table-row>`;
-      headers.forEach(h => {
-        xml += `<table:table-cell office:value-type="string"><text:p>${this.escapeXML(String(row[h] || ''))}</text:p></table:table-cell>`;
-      });
-      xml += `</table:table-row>`;
-    });
-
-    xml += `</table:table>`;
-    return xml;
-  }
-
-  // Helper methods for format conversion
-  private markdownToLaTeX(markdown: string): string {
-    return markdown
-      .replace(/^# (.+)$/gm, '\\section{$1}')
-      .replace(/^## (.+)$/gm, '\\subsection{$1}')
-      .replace(/^### (.+)$/gm, '\\subsubsection{$1}')
-      .replace(/\*\*(.+?)\*\*/g, '\\textbf{$1}')
-      .replace(/\*(.+?)\*/g, '\\textit{$1}')
-      .replace(/`(.+?)`/g, '\\texttt{$1}')
-      .replace(/\n\n/g, '\n\n\\par\n');
-  }
-
-  private htmlToLaTeX(html: string): string {
-    // Basic HTML to LaTeX conversion
-    return this.stripHTML(html)
-      .replace(/&/g, '\\&')
-      .replace(/_/g, '\\_')
-      .replace(/%/g, '\\%');
-  }
-
-  private escapeLaTeX(text: string): string {
-    return text
-      .replace(/\\/g, '\\textbackslash{}')
-      .replace(/{/g, '\\{')
-      .replace(/}/g, '\\}')
-      .replace(/&/g, '\\&')
-      .replace(/_/g, '\\_')
-      .replace(/%/g, '\\%')
-      .replace(/\$/g, '\\$')
-      .replace(/#/g, '\\#')
-      .replace(/~/g, '\\textasciitilde{}')
-      .replace(/\^/g, '\\textasciicircum{}');
-  }
-
-  private escapeXML(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
-  }
-
-  // ... existing helper methods remain the same ...
-  private stripHTML(html: string): string {
-    return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
-  }
-
-  private stripMarkdown(markdown: string): string {
-    return markdown
-      .replace(/^#{1,6}\s+/gm, '')
-      .replace(/\*\*(.+?)\*\*/g, '$1')
-      .replace(/\*(.+?)\*/g, '$1')
-      .replace(/`(.+?)`/g, '$1')
-      .replace(/\[(.+?)\]\(.+?\)/g, '$1')
-      .trim();
-  }
-
-  private escapeHTML(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
+  private async convertToEPUB(content: string, context: ConversionContext): Promise<Blob> {
+    // Chapters, navigation, images and stylesheets as separate files in the package
+    const book = await writeEPUB(this.toDocumentModel(content, context), this.epubOptions(context.options));
+    context.imageCount = book.imageCount;
+    return book.blob;
   }
 
-  // ... rest of existing methods remain the same but with enhanced error handling ...
-
-  // Helper: Convert rich PDF content to Markdown
-  private richPDFToMarkdown(): string {
-    if (!this.richPDFContent || this.richPDFContent.elements.length === 0) {
-      return this.richPDFContent?.plainText || '';
-    }
-
-    let mdContent = '# Converted Document\n\n';
-
-    for (const element of this.richPDFContent.elements) {
-      if (element.type === 'paragraph') {
-        // Add headings based on font size
-        if (element.fontSize >= 24) {
-          mdContent += `# ${element.text}\n\n`;
-        } else if (element.fontSize >= 18) {
-          mdContent += `## ${element.text}\n\n`;
-        } else if (element.fontSize >= 14) {
-          mdContent += `### ${element.text}\n\n`;
-        } else {
-          mdContent += `${element.text}\n\n`;
-        }
-      } else if (element.type === 'table') {
-        // Convert to Markdown table
-        if (element.rows.length > 0) {
-          const firstRow = element.rows[0];
-          
-          // Table header
-          mdContent += '| ' + firstRow.map(cell => cell.text || ' ').join(' | ') + ' |\n';
-          mdContent += '| ' + firstRow.map(() => '---').join(' | ') + ' |\n';
-          
-          // Table body (skip first row as it's the header)
-          for (let i = 1; i < element.rows.length; i++) {
-            const row = element.rows[i];
-            mdContent += '| ' + row.map(cell => (cell.text || ' ').replace(/\|/g, '\\|')).join(' | ') + ' |\n';
-          }
-          
-          mdContent += '\n';
-        }
-      }
-    }
-
-    return mdContent;
-  }
-
-  private async convertToMarkdown(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    let mdContent = '';
-
-    // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      mdContent = this.richPDFToMarkdown();
-      this.richPDFContent = null; // Clean up
-      return new Blob([mdContent], { type: 'text/markdown' });
-    }
-
-    switch (fromFormat) {
-      case 'html':
-        mdContent = this.turndown.turndown(content);
-        break;
-
-      case 'txt':
-        // Convert plain text to markdown with basic formatting
-        mdContent = content
-          .split('\n\n')
-          .map(paragraph => paragraph.trim())
-          .filter(paragraph => paragraph.length > 0)
-          .join('\n\n');
-        break;
-
-      case 'json':
-        try {
-          const jsonData = JSON.parse(content);
-          mdContent = `# JSON Document\n\n\`\`\`json\n${JSON.stringify(jsonData, null, 2)}\n\`\`\``;
-        } catch {
-          mdContent = `# Document\n\n\`\`\`\n${content}\n\`\`\``;
-        }
-        break;
-
-      case 'csv':
-        try {
-          // Robust CSV to Markdown Table
-          const parsed = Papa.parse(content, { header: true, skipEmptyLines: true });
-          if (parsed.data && parsed.data.length > 0) {
-            const headers = Object.keys(parsed.data[0] as any);
-            const data = parsed.data as any[];
-
-            // Markdown Table Header
-            mdContent = '| ' + headers.join(' | ') + ' |\n';
-            mdContent += '| ' + headers.map(() => '---').join(' | ') + ' |\n';
-
-            // Markdown Table Rows
-            data.forEach(row => {
-              // Escape pipes in content to prevent breaking md table
-              const rowStr = headers.map(h => {
-                let val = String(row[h] || '');
-                return val.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
-              }).join(' | ');
-              mdContent += '| ' + rowStr + ' |\n';
-            });
-          } else {
-            mdContent = this.csvToMarkdownTable(content);
-          }
-        } catch (e) {
-          console.warn('Papa parse failed for md, falling back to manual', e);
-          mdContent = this.csvToMarkdownTable(content);
-        }
-        break;
-
-      default:
-        mdContent = content;
-    }
-
-    return new Blob([mdContent], { type: 'text/markdown;charset=utf-8' });
-  }
-
-  private async convertToText(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    let textContent = '';
-
-    // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      // Use plain text representation with formatted tables
-      textContent = this.richPDFContent.plainText;
-      this.richPDFContent = null;
-      return new Blob([textContent], { type: 'text/plain' });
-    }
-
-    switch (fromFormat) {
-      case 'html':
-        textContent = this.stripHTML(content);
-        break;
-
-      case 'md':
-        textContent = this.stripMarkdown(content);
-        break;
-
-      case 'json':
-        try {
-          const jsonData = JSON.parse(content);
-          textContent = JSON.stringify(jsonData, null, 2);
-        } catch {
-          textContent = content;
-        }
-        break;
-
-      case 'csv':
-        // Convert CSV to aligned text table
-        try {
-          const parsed = Papa.parse(content, { header: true, skipEmptyLines: true });
-          if (parsed.data && parsed.data.length > 0) {
-            const headers = Object.keys(parsed.data[0] as any);
-            const data = parsed.data as any[];
-
-            // Calculate column widths
-            const colWidths = headers.map(h => h.length);
-            data.forEach(row => {
-              headers.forEach((h, i) => {
-                const val = String(row[h] || '');
-                if (val.length > colWidths[i]) colWidths[i] = val.length;
-              });
-            });
-
-            // Add padding
-            const padding = 2;
-            const paddedHeaders = headers.map((h, i) => h.padEnd(colWidths[i] + padding));
-
-            // Header
-            textContent = paddedHeaders.join('') + '\n';
-
-            // Separator
-            textContent += headers.map((h, i) => '-'.repeat(colWidths[i] + padding)).join('') + '\n';
-
-            // Data
-            data.forEach(row => {
-              textContent += headers.map((h, i) => String(row[h] || '').padEnd(colWidths[i] + padding)).join('') + '\n';
-            });
-          } else {
-            textContent = content;
-          }
-        } catch {
-          const lines = content.split('\n');
-          textContent = lines.map(line => line.replace(/,/g, ' | ')).join('\n');
-        }
-        break;
-
-      case 'xml':
-        textContent = this.stripHTML(content); // XML tags are similar to HTML
-        break;
-
-      default:
-        textContent = content;
-    }
-
-    return new Blob([textContent], { type: 'text/plain;charset=utf-8' });
+  private async convertToLaTeX(content: string, context: ConversionContext): Promise<Blob> {
+    const model = this.toDocumentModel(content, context);
+    model.metadata.title = model.metadata.title || firstHeading(model) || 'Converted Document';
+    const { latex, assets } = writeLaTeX(model, this.latexOptions(context.options));
+
+    // Included images go next to the document in images/
+    if (assets.length > 0) {
+      const zip = new JSZip();
+      zip.file('document.tex', latex);
+      assets.forEach(asset => zip.file(asset.path, asset.data));
+      context.isZip = true;
+      context.imageCount = assets.length;
+      return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+    }
+    return new Blob([latex], { type: 'application/x-latex' });
   }
 
-  private async convertToDocx(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    const children: (Paragraph | Table)[] = [];
+  private async convertToODT(content: string, context: ConversionContext): Promise<Blob> {
+    const zip = new JSZip();
 
-    // Add Title
-    children.push(new Paragraph({
-      text: "Converted Document",
-      heading: HeadingLevel.HEADING_1,
-      spacing: { after: 200 }
-    }));
+    // Mimetype - MUST be first and uncompressed
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.text', { compression: 'STORE' });
 
-    // Handle rich PDF content if available (tables and images)
-    if (fromFormat === 'pdf' && this.richPDFContent && this.richPDFContent.elements.length > 0) {
-      console.log(`Processing ${this.richPDFContent.elements.length} PDF elements (paragraphs, tables, images)`);
-      
-      for (const element of this.richPDFContent.elements) {
-        if (element.type === 'paragraph') {
-          // Add heading detection
-          let heading: typeof HeadingLevel[keyof typeof HeadingLevel] | undefined;
-          if (element.fontSize >= 24) {
-            heading = HeadingLevel.HEADING_1;
-          } else if (element.fontSize >= 18) {
-            heading = HeadingLevel.HEADING_2;
-          } else if (element.fontSize >= 14) {
-            heading = HeadingLevel.HEADING_3;
-          }
+    const contentXMLBody = writeODTBody(this.toDocumentModel(content, context));
 
-          children.push(new Paragraph({
-            text: element.text,
-            heading: heading,
-            spacing: { after: 200 },
-            alignment: AlignmentType.BOTH
-          }));
-        } else if (element.type === 'table') {
-          // Create DOCX table from PDF table
-          const tableRows = element.rows.map((row, rowIdx) => {
-            return new TableRow({
-              children: row.map((cell, cellIdx) => new TableCell({
-                children: [new Paragraph({
-                  children: [new TextRun({
-                    text: cell.text,
-                    bold: rowIdx === 0, // Make first row bold (header)
-                    color: "000000"
-                  })]
-                })],
-                shading: rowIdx === 0 ? { fill: "EFEFEF" } : undefined,
-                width: { size: 100 / row.length, type: WidthType.PERCENTAGE },
-                margins: {
-                  top: 100,
-                  bottom: 100,
-                  left: 100,
-                  right: 100
-                }
-              }))
-            });
-          });
+    // Manifest
+    zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0">
+  <manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`);
 
-          children.push(new Table({
-            rows: tableRows,
-            width: { size: 100, type: WidthType.PERCENTAGE },
-            borders: {
-              top: { style: BorderStyle.SINGLE, size: 1, color: "999999" },
-              bottom: { style: BorderStyle.SINGLE, size: 1, color: "999999" },
-              left: { style: BorderStyle.SINGLE, size: 1, color: "999999" },
-              right: { style: BorderStyle.SINGLE, size: 1, color: "999999" },
-              insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" },
-              insideVertical: { style: BorderStyle.SINGLE, size: 1, color: "CCCCCC" }
-            }
-          }));
+    // Content
+    zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+                        xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"
+                        xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"
+                        xmlns:xlink="http://www.w3.org/1999/xlink"
+                        xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"
+                        xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"
+                        office:version="1.2">
+  ${ODT_AUTOMATIC_STYLES}
+  <office:body>
+    <office:text>
+      ${contentXMLBody}
+    </office:text>
+  </office:body>
+</office:document-content>`);
 
-          // Add spacing after table
-          children.push(new Paragraph({
-            text: "",
-            spacing: { after: 200 }
-          }));
-        } else if (element.type === 'image') {
-          // Images are extracted separately and included in ZIP file
-          // Only add placeholder if images will be in ZIP (they have data)
-          if (this.richPDFContent && this.richPDFContent.images.length > 0) {
-            children.push(new Paragraph({
-              children: [
-                new TextRun({
-                  text: `[Image from Page ${element.pageNumber} - See 'image_page${element.pageNumber}_*.png' in the downloaded ZIP file]`,
-                  italics: true,
-                  color: "0066CC"
-                })
-              ],
-              spacing: { after: 200 }
-            }));
-          }
-        }
-      }
-    } else if (fromFormat === 'csv') {
-      try {
-        const parsed = Papa.parse(content, { header: true, skipEmptyLines: true });
-        if (parsed.data && parsed.data.length > 0) {
-          const headers = Object.keys(parsed.data[0] as any);
-          const data = parsed.data as any[];
-
-          // Create Header Row
-          const headerRow = new TableRow({
-            children: headers.map(header => new TableCell({
-              children: [new Paragraph({
-                children: [new TextRun({ text: header, bold: true, color: "000000" })]
-              })],
-              shading: { fill: "EFEFEF" },
-              width: { size: 100 / headers.length, type: WidthType.PERCENTAGE }
-            }))
-          });
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.oasis.opendocument.text' });
+  }
 
-          // Create Data Rows
-          const dataRows = data.map(row =>
-            new TableRow({
-              children: headers.map(header => new TableCell({
-                children: [new Paragraph(String(row[header] || ''))],
-                width: { size: 100 / headers.length, type: WidthType.PERCENTAGE }
-              }))
-            })
-          );
+  // XML tag stripping for data conversions
+  private stripHTML(html: string): string {
+    return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+  }
 
-          children.push(new Table({
-            rows: [headerRow, ...dataRows],
-            width: { size: 100, type: WidthType.PERCENTAGE }
-          }));
-        } else {
-          children.push(new Paragraph("No data found in CSV."));
-        }
-      } catch (e) {
-        console.warn('Failed to parse CSV for DOCX', e);
-        children.push(new Paragraph(content));
-      }
-    } else if (fromFormat === 'html' || fromFormat === 'docx' || fromFormat === 'doc') {
-      const hasTables = /<table/i.test(content);
-      const hasImages = /<img[^>]*src=/i.test(content);
+  private async convertToMarkdown(content: string, context: ConversionContext): Promise<Blob> {
+    const { document: model, assets } = externalizeImages(this.toDocumentModel(content, context), 'assets');
+    const mdContent = writeMarkdown(model);
+    if (assets.length === 0) {
+      return new Blob([mdContent], { type: 'text/markdown;charset=utf-8' });
+    }
 
-      // Parse basic HTML tables to DOCX tables
-      if (hasTables && typeof DOMParser !== 'undefined') {
-        try {
-          const parser = new DOMParser();
-          const doc = parser.parseFromString(content, 'text/html');
-          const tables = Array.from(doc.querySelectorAll('table'));
-
-          tables.forEach(table => {
-            const rows = Array.from(table.querySelectorAll('tr'));
-            if (rows.length === 0) return;
-
-            // Build DOCX table rows
-            const docxRows = rows.map(tr => {
-              const cells = Array.from(tr.querySelectorAll('th,td'));
-              return new TableRow({
-                children: cells.map(td => new TableCell({
-                  children: [new Paragraph(td.textContent?.trim() || '')],
-                  width: { size: 100 / Math.max(cells.length, 1), type: WidthType.PERCENTAGE }
-                }))
-              });
-            });
+    // Embedded images go next to the Markdown file instead of inline base64
+    const zip = new JSZip();
+    zip.file('document.md', mdContent);
+    assets.forEach(asset => zip.file(asset.path, asset.data));
+    context.isZip = true;
+    context.imageCount = assets.length;
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  }
 
-            children.push(new Table({
-              rows: docxRows,
-              width: { size: 100, type: WidthType.PERCENTAGE }
-            }));
-          });
-        } catch (e) {
-          console.warn('Failed to parse HTML tables for DOCX', e);
-        }
-      }
+  private async convertToText(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat } = context;
+    // XML keeps its character data only
+    const textContent = fromFormat === 'xml'
+      ? this.stripHTML(content)
+      : writePlainText(this.toDocumentModel(content, context));
 
-      if (hasImages) {
-        children.push(new Paragraph({
-          children: [
-            new TextRun({
-              text: '[Image omitted - embedding not available in current converter]',
-              italics: true
-            })
-          ]
-        }));
-      }
+    return new Blob([textContent], { type: 'text/plain;charset=utf-8' });
+  }
 
-      // Add plain text content for the rest
-      const textContent = this.stripHTML(content);
-      const paragraphs = textContent.split(/\n\s*\n/);
-      paragraphs.forEach(para => {
-        if (para.trim()) {
-          const cleanPara = para.replace(/\r/g, '').replace(/\n/g, ' ').trim();
-          children.push(new Paragraph({
-            text: cleanPara,
-            spacing: { after: 200 },
-            alignment: AlignmentType.BOTH
-          }));
-        }
-      });
-    } else if (fromFormat === 'md' || fromFormat === 'pdf') {
-      // Parse Markdown for DOCX
-      const lines = content.split('\n');
-      lines.forEach(line => {
-        const trimmed = line.trim();
-        // Headings
-        const headingMatch = trimmed.match(/^(#{1,6})\s+(.+)$/);
-        if (headingMatch) {
-          const level = headingMatch[1].length;
-          const text = headingMatch[2];
-          const headingLevel =
-            level === 1 ? HeadingLevel.HEADING_1 :
-              level === 2 ? HeadingLevel.HEADING_2 :
-                level === 3 ? HeadingLevel.HEADING_3 :
-                  level === 4 ? HeadingLevel.HEADING_4 :
-                    level === 5 ? HeadingLevel.HEADING_5 : HeadingLevel.HEADING_6;
-
-          children.push(new Paragraph({
-            text: text,
-            heading: headingLevel,
-            spacing: { before: 200, after: 100 }
-          }));
-        }
-        // List Items
-        else if (trimmed.match(/^[\*\-]\s+(.+)$/)) {
-          const text = trimmed.replace(/^[\*\-]\s+/, '');
-          children.push(new Paragraph({
-            text: text,
-            bullet: { level: 0 }
-          }));
-        }
-        // Ordered List
-        else if (trimmed.match(/^\d+\.\s+(.+)$/)) {
-          const text = trimmed.replace(/^\d+\.\s+/, '');
-          children.push(new Paragraph({
-            text: text,
-            bullet: { level: 0 } // docx simple support for now, ideally numbering
-          }));
-        }
-        else {
-          // Plain text
-          children.push(new Paragraph(trimmed));
-        }
-      });
-    } else {
-      // Handle Text/PDF to DOCX (html and md are handled above)
-      let textContent = content;
-
-      // Better paragraph handling for PDF/Text
-      // Split by double newline for paragraphs to capture structure
-      const paragraphs = textContent.split(/\n\s*\n/);
-
-      paragraphs.forEach(para => {
-        if (para.trim()) {
-          // For PDFs and wrapped text, join single newlines with spaces for better reflow
-          // unless it looks like a list or specific formatting
-          const cleanPara = para.replace(/\r/g, '').replace(/\n/g, ' ').trim();
-
-          children.push(new Paragraph({
-            text: cleanPara,
-            spacing: { after: 200 }, // Standard paragraph spacing
-            alignment: AlignmentType.BOTH // Justify text for professional look
-          }));
-        }
-      });
+  private async convertToDocx(content: string, context: ConversionContext): Promise<Blob> {
+    const model = this.toDocumentModel(content, context);
+    const title = model.metadata.title || firstHeading(model) || 'Converted Document';
+    const children: (Paragraph | Table)[] = [];
+
+    // Add a title unless the document already opens with its own heading
+    if (model.blocks[0]?.type !== 'heading') {
+      children.push(new Paragraph({
+        text: title,
+        heading: HeadingLevel.HEADING_1,
+        spacing: { after: 200 }
+      }));
     }
 
+    children.push(...writeDocxChildren(model));
+    context.imageCount = countImages(model);
+
     const doc = new Document({
-      creator: 'DocConverter Pro',
-      title: 'Converted Document',
+      creator: model.metadata.author || 'DocConverter Pro',
+      title,
+      numbering: DOCX_NUMBERING,
       sections: [{
         properties: {},
         children: children
       }]
     });
 
-    // Clean up rich PDF content after use
-    if (this.richPDFContent) {
-      this.richPDFContent = null;
-    }
-
     return await Packer.toBlob(doc);
   }
 
-  private async convertToDoc(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    // Convert to RTF format which is compatible with older Word versions
-    return this.convertToRTF(content, fromFormat, options);
+  private async convertToDoc(content: string, context: ConversionContext): Promise<Blob> {
+    // Word 97-2003 opens RTF saved with a .doc extension, so RTF is the legacy Word body
+    const rtf = await this.convertToRTF(content, context);
+    context.formatNote = 'Saved as Rich Text Format with a .doc extension; Word and LibreOffice open it as a Word 97-2003 document.';
+    return new Blob([rtf], { type: 'application/msword' });
   }
 
-  private async convertToPPTX(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
+  private async convertToPPTX(content: string, context: ConversionContext): Promise<Blob> {
+    const { options } = context;
     const pptx = new PptxGenJS();
-    const slide = pptx.addSlide();
-
-    // Add Title
-    slide.addText('Converted Document', { x: 0.5, y: 0.5, w: '90%', fontSize: 24, bold: true, color: '363636' });
-
-    if (fromFormat === 'csv') {
-      try {
-        const parsed = Papa.parse(content, { header: true, skipEmptyLines: true });
-        if (parsed.data && parsed.data.length > 0) {
-          const headers = Object.keys(parsed.data[0] as any);
-          const data = parsed.data as any[];
-
-          // Prepare table data for PptxGenJS
-          // Row 1: Headers
-          const tableData: any[] = [
-            headers.map(h => ({ text: h, options: { fill: 'EFEFEF', color: '000000', bold: true } }))
-          ];
-
-          // Data Rows
-          data.forEach(row => {
-            tableData.push(headers.map(h => String(row[h] || '')));
-          });
-
-          slide.addTable(tableData, { x: 0.5, y: 1.5, w: '90%', fontSize: 10 });
-        } else {
-          slide.addText('No data found in CSV.', { x: 0.5, y: 1.5 });
-        }
-      } catch (e) {
-        console.warn('Failed to parse CSV for PPTX', e);
-        slide.addText(content.substring(0, 1000), { x: 0.5, y: 1.5, w: '90%', fontSize: 12 });
-      }
-    } else {
-      // Handle Text/Markdown/HTML
-      let textContent = content;
-      if (fromFormat === 'html') textContent = this.stripHTML(content);
-      if (fromFormat === 'md') textContent = this.stripMarkdown(content);
+    const model = this.toDocumentModel(content, context);
+    const layout = options.slideLayout || '16x9';
 
-      // Basic text slide (handling long text)
-      slide.addText(textContent.substring(0, 2000), { x: 0.5, y: 1.5, w: '90%', h: '80%', fontSize: 12, wrap: true });
+    // Headings start slides, long text and tables continue on follow-up slides
+    const slides = planSlides(model, { layout, tableRowsPerSlide: options.tableRowsPerSlide });
+    if (slides.length === 0) {
+      throw new Error('The document has no content to place on slides');
     }
 
+    if (model.metadata.title) pptx.title = model.metadata.title;
+    if (model.metadata.author) pptx.author = model.metadata.author;
+    writePptxSlides(pptx, slides, { layout, theme: options.slideTheme });
+    context.imageCount = countImages(model);
+
     return await pptx.write({ outputType: 'blob' }) as Blob;
   }
 
-  private async convertToPPT(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    // For older PPT format, we'll create a PPTX and let the user know it's in newer format
-    return this.convertToPPTX(content, fromFormat, options);
+  private async convertToPPT(content: string, context: ConversionContext): Promise<Blob> {
+    // There is no PowerPoint 97-2003 writer; write PPTX and say so rather than mislabel the bytes
+    const blob = await this.convertToPPTX(content, context);
+    context.actualFormat = 'pptx';
+    context.formatNote = 'PowerPoint 97-2003 (.ppt) output is not available, so the presentation was saved as .pptx (PowerPoint 2007 and later).';
+    return blob;
   }
 
-  private async convertToXLSX(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
+  private async convertToXLSX(content: string, context: ConversionContext): Promise<Blob> {
     try {
       // Use XLSX library for better Excel generation
-      const workbook = XLSX.utils.book_new();
-      let worksheetData: any[][] = [];
+      const workbook = this.buildWorkbook(content, context);
+      return await writeXLSX(workbook);
 
-      switch (fromFormat) {
-        case 'csv':
-          try {
-            const parsed = Papa.parse(content, { header: false });
-            worksheetData = parsed.data as any[][];
-          } catch {
-            worksheetData = [['Error'], ['Failed to parse CSV data']];
-          }
-          break;
-        case 'json':
-          try {
-            const jsonData = JSON.parse(content);
-            if (Array.isArray(jsonData)) {
-              // Convert array of objects to 2D array
-              if (jsonData.length > 0 && typeof jsonData[0] === 'object') {
-                const headers = Object.keys(jsonData[0]);
-                worksheetData = [headers, ...jsonData.map(obj => headers.map(key => obj[key]))];
-              } else {
-                worksheetData = [['Value'], ...jsonData.map(item => [item])];
-              }
-            } else {
-              // Convert object to key-value pairs
-              worksheetData = [['Key', 'Value'], ...Object.entries(jsonData)];
-            }
-          } catch {
-            worksheetData = [['Error'], ['Failed to parse JSON data']];
-          }
-          break;
-        case 'txt':
-          // Convert text lines to rows
-          const lines = content.split('\n').filter(line => line.trim());
-          worksheetData = [['Line', 'Content'], ...lines.map((line, index) => [index + 1, line])];
-          break;
-        default:
-          // For other formats, create a simple text content sheet
-          worksheetData = [['Content'], [content]];
-      }
+    } catch (error) {
+      console.warn('Failed to create XLSX with XLSX library, falling back to basic method');
+      // Fallback to the original method
+      return this.convertToXLSXFallback(content, context);
+    }
+  }
 
-      // Create worksheet from data
-      const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
+  /**
+   * Workbook for the spreadsheet writers (XLSX, BIFF8 XLS and ODS): spreadsheet and
+   * JSON input keep their sheets, anything else becomes a single sheet. Sheets
+   * built here are laid out as reports; spreadsheet input keeps its own layout.
+   */
+  private buildWorkbook(content: string, context: ConversionContext): XLSX.WorkBook {
+    const { fromFormat, options } = context;
+    const workbook = XLSX.utils.book_new();
+    let worksheetData: CellValue[][] = [];
+    let hasHeader = true;
+
+    if (context.workbook) {
+      return subsetWorkbook(context.workbook, this.sheetSelection(options));
+    }
 
-      // Add worksheet to workbook
-      XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
+    switch (fromFormat) {
+      case 'csv':
+      case 'tsv':
+        try {
+          // Typed cells, so numbers and dates can be summed and sorted in Excel
+          const table = parseCSV(content, this.csvDialect(options, fromFormat));
+          worksheetData = table.hasHeader ? [table.columns, ...typedRows(table)] : typedRows(table);
+          hasHeader = table.hasHeader;
+        } catch {
+          worksheetData = [['Error'], ['Failed to parse CSV data']];
+        }
+        break;
+      case 'json': {
+        let jsonData: unknown;
+        try {
+          jsonData = JSON.parse(content);
+        } catch {
+          worksheetData = [['Error'], ['Failed to parse JSON data']];
+          break;
+        }
+        if (!Array.isArray(jsonData) && !options.jsonRowsPath) {
+          // A sheet per top-level list
+          return jsonToWorkbook(jsonData, this.sheetFormat(options));
+        }
+        worksheetData = jsonTableRows(this.jsonTable(jsonData, context));
+        break;
+      }
+      case 'txt': {
+        // Convert text lines to rows
+        const lines = content.split('\n').filter(line => line.trim());
+        worksheetData = [['Line', 'Content'], ...lines.map((line, index) => [index + 1, line])];
+        break;
+      }
+      default:
+        // For other formats, create a simple text content sheet
+        worksheetData = [['Content'], [content]];
+    }
 
-      // Generate Excel file
-      const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    // Create worksheet from data
+    const worksheet = rowsToSheet(worksheetData);
+    formatSheet(worksheet, this.sheetFormat(options), hasHeader);
 
-      return new Blob([excelBuffer], {
-        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-      });
+    // Add worksheet to workbook
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
 
-    } catch (error) {
-      console.warn('Failed to create XLSX with XLSX library, falling back to basic method');
-      // Fallback to the original method
-      return this.convertToXLSXFallback(content, fromFormat, options);
-    }
+    return workbook;
   }
 
-  private async convertToXLSXFallback(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
+  private async convertToXLSXFallback(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat, options } = context;
     // Original XLSX creation method as fallback
     const zip = new JSZip();
 
@@ -2593,27 +1773,26 @@ export class ConversionService {
 
     switch (fromFormat) {
       case 'csv':
+      case 'tsv':
         try {
-          const parsed = Papa.parse(content, { header: false });
-          worksheetData = this.csvToXLSXWorksheet(parsed.data as any[][]);
+          worksheetData = this.csvToXLSXWorksheet(tableRows(parseCSV(content, this.csvDialect(options, fromFormat))));
         } catch {
           worksheetData = this.textToXLSXWorksheet(content);
         }
         break;
-      case 'json':
+      case 'json': {
+        let jsonData: unknown;
         try {
-          const jsonData = JSON.parse(content);
-          if (Array.isArray(jsonData)) {
-            const csvData = Papa.unparse(jsonData);
-            const parsed = Papa.parse(csvData, { header: false });
-            worksheetData = this.csvToXLSXWorksheet(parsed.data as any[][]);
-          } else {
-            worksheetData = this.objectToXLSXWorksheet(jsonData);
-          }
+          jsonData = JSON.parse(content);
         } catch {
           worksheetData = this.textToXLSXWorksheet(content);
+          break;
         }
+        worksheetData = Array.isArray(jsonData) || options.jsonRowsPath
+          ? this.csvToXLSXWorksheet(jsonTableRows(this.jsonTable(jsonData, context)))
+          : this.objectToXLSXWorksheet(jsonData);
         break;
+      }
       default:
         worksheetData = this.textToXLSXWorksheet(content);
     }
@@ -2649,28 +1828,29 @@ export class ConversionService {
     return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
   }
 
-  private async convertToXLS(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    // For older XLS format, we'll create an XLSX and let the user know it's in newer format
-    return this.convertToXLSX(content, fromFormat, options);
+  private async convertToXLS(content: string, context: ConversionContext): Promise<Blob> {
+    // SheetJS writes the Excel 97-2003 BIFF8 binary format directly
+    const workbook = this.buildWorkbook(content, context);
+    const excelBuffer = XLSX.write(workbook, { bookType: 'biff8', type: 'array' });
+
+    return new Blob([excelBuffer], { type: 'application/vnd.ms-excel' });
+  }
+
+  private async convertToODS(content: string, context: ConversionContext): Promise<Blob> {
+    // SheetJS writes OpenDocument spreadsheets; header styling and frozen rows are XLSX only
+    const workbook = this.buildWorkbook(content, context);
+    const odsBuffer = XLSX.write(workbook, { bookType: 'ods', type: 'array' });
+
+    return new Blob([odsBuffer], { type: 'application/vnd.oasis.opendocument.spreadsheet' });
   }
 
-  private async convertToODP(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
+  private async convertToODP(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat } = context;
     // Create OpenDocument Presentation format
     const zip = new JSZip();
 
-    let processedContent = content;
-
-    if (fromFormat === 'csv') {
-      // Use Markdown table fallback for ODP slides - properly escaped
-      // Actually, let's use the object table generator we made for better quality
-      processedContent = ''; // Will be handled by slide structure
-    } else if (fromFormat === 'md') {
-      processedContent = this.stripMarkdown(content);
-    } else if (fromFormat === 'html') {
-      processedContent = this.stripHTML(content);
-    }
+    const model = this.toDocumentModel(content, context);
 
-    // ODP structure
     // ODP structure
     zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
 <manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0">
@@ -2679,23 +1859,18 @@ export class ConversionService {
   <manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
 </manifest:manifest>`);
 
-    let slideContentXML = '';
+    let slideContentXML: string;
 
-    if (fromFormat === 'csv') {
-      try {
-        const parsed = Papa.parse(content, { header: true, skipEmptyLines: true });
-        if (parsed.data && parsed.data.length > 0) {
-          slideContentXML = `<draw:frame draw:style-name="standard" draw:layer="layout" svg:width="25cm" svg:height="15cm" svg:x="1.5cm" svg:y="1.5cm">
+    const table = fromFormat === 'csv' || fromFormat === 'tsv' ? model.blocks.find(block => block.type === 'table') : undefined;
+    if (table) {
+      slideContentXML = `<draw:frame draw:style-name="standard" draw:layer="layout" svg:width="25cm" svg:height="15cm" svg:x="1.5cm" svg:y="1.5cm">
                                 <draw:object>
-                                   ${this.csvToODFTable(parsed.data as any[], Object.keys(parsed.data[0] as any))}
+                                   ${writeODTBody(createDocument([table]))}
                                 </draw:object>
                               </draw:frame>`;
-        }
-      } catch {
-        slideContentXML = `<draw:text-box><text:p>${this.escapeXML(content)}</text:p></draw:text-box>`;
-      }
     } else {
-      slideContentXML = `<draw:text-box><text:p>${this.escapeXML(processedContent)}</text:p></draw:text-box>`;
+      const paragraphs = writePlainText(model).split('\n').map(line => `<text:p>${escapeXML(line)}</text:p>`);
+      slideContentXML = `<draw:text-box>${paragraphs.join('')}</draw:text-box>`;
     }
 
     zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
@@ -2733,7 +1908,13 @@ export class ConversionService {
       worksheet += `<row r="${rowIndex + 1}">`;
       row.forEach((cell, colIndex) => {
         const cellRef = this.numberToColumn(colIndex + 1) + (rowIndex + 1);
-        worksheet += `<c r="${cellRef}" t="inlineStr"><is><t>${this.escapeXML(String(cell || ''))}</t></is></c>`;
+        if (typeof cell === 'number' && isFinite(cell)) {
+          worksheet += `<c r="${cellRef}"><v>${cell}</v></c>`;
+        } else if (typeof cell === 'boolean') {
+          worksheet += `<c r="${cellRef}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+        } else {
+          worksheet += `<c r="${cellRef}" t="inlineStr"><is><t>${escapeXML(String(cell ?? ''))}</t></is></c>`;
+        }
       });
       worksheet += '</row>';
     });
@@ -2765,50 +1946,33 @@ export class ConversionService {
     return result;
   }
 
-  private async convertToImage(content: string | ArrayBuffer, fromFormat: SupportedFormat, toFormat: 'png' | 'jpg' | 'jpeg' | 'gif' | 'bmp' | 'webp', options: ConversionOptions): Promise<Blob> {
+  private async convertToImage(content: string | ArrayBuffer, context: ConversionContext): Promise<Blob> {
+    const { fromFormat, toFormat, options } = context;
 
     // 1. Specialized High-Fidelity PDF Handling
     if (fromFormat === 'pdf' && content instanceof ArrayBuffer) {
       try {
-        const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(content) }).promise;
-
-        // Map format to MIME type (default to png if not supported by browser canvas)
-        const mimeTypeMap: Record<string, string> = {
-          'png': 'image/png',
-          'jpg': 'image/jpeg',
-          'jpeg': 'image/jpeg',
-          'webp': 'image/webp'
-        };
-        const mimeType = mimeTypeMap[toFormat] || 'image/png';
+        const pdf = await this.loadPDF(content, options.inputPassword);
+
+        const encodeOptions = this.pdfEncodeOptions(options);
         const fileExt = (toFormat === 'jpeg' || toFormat === 'jpg') ? 'jpg' : toFormat;
 
         const images: { blob: Blob; name: string }[] = [];
+        // Multi-page PDF -> GIF is one animated GIF, a frame per page
+        const animation = toFormat === 'gif' && pdf.numPages > 1 ? await this.renderPDFAnimation(pdf, context) : null;
+        if (animation) {
+          context.imageCount = pdf.numPages;
+          return animation;
+        }
 
         // Render each page
         for (let i = 1; i <= pdf.numPages; i++) {
           const page = await pdf.getPage(i);
-          // 2.0 scale offers good balance of quality and performance
-          const viewport = page.getViewport({ scale: 2.0 });
-
-          const canvas = document.createElement('canvas');
-          canvas.width = viewport.width;
-          canvas.height = viewport.height;
-          const ctx = canvas.getContext('2d');
-
-          if (ctx) {
-            await page.render({ canvasContext: ctx, viewport }).promise;
-
-            const blob = await new Promise<Blob | null>(resolve =>
-              canvas.toBlob(resolve, mimeType, 0.9)
-            );
-
-            if (blob) {
-              images.push({
-                blob,
-                name: `page-${String(i).padStart(3, '0')}.${fileExt}`
-              });
-            }
-          }
+          const canvas = await renderPageToCanvas(page, this.pdfRenderScale(options));
+          images.push({
+            blob: await this.encodeImageOutput(canvas, context, encodeOptions),
+            name: `page-${String(i).padStart(3, '0')}.${fileExt}`
+          });
         }
 
         if (images.length === 0) throw new Error('Failed to render PDF pages');
@@ -2819,22 +1983,57 @@ export class ConversionService {
         } else {
           const zip = new JSZip();
           images.forEach(img => zip.file(img.name, img.blob));
+          context.isZip = true;
+          context.imageCount = images.length;
           return await zip.generateAsync({ type: 'blob' });
         }
 
       } catch (error) {
         console.error('PDF to Image conversion error', error);
+        if (this.isPDFPasswordError(error)) throw error;
         throw new Error('Failed to convert PDF to images');
       }
     }
 
-    // 2. Standard Text/HTML/CSV Handling (Legacy)
+    // 2. Image -> image: decode, re-encode in the target format
+    if (this.isImageFormat(fromFormat) && content instanceof ArrayBuffer) {
+      // SVG is rasterized at the requested DPI (its own size by default), and the output records it
+      const dpi = fromFormat === 'svg' ? options.imageResolution || 96 : undefined;
+      const pages = await decodeImagePages(content, fromFormat, { dpi });
+      const encodeOptions = { ...this.imageEncodeOptions(options), dpi };
+
+      // Multi-page TIFF: one image per page, zipped like PDF pages
+      if (pages.length > 1) {
+        const fileExt = toFormat === 'jpeg' ? 'jpg' : toFormat;
+        const zip = new JSZip();
+        for (let i = 0; i < pages.length; i++) {
+          zip.file(`page-${String(i + 1).padStart(3, '0')}.${fileExt}`, await this.encodeImageOutput(pages[i], context, encodeOptions));
+        }
+        context.isZip = true;
+        context.imageCount = pages.length;
+        return zip.generateAsync({ type: 'blob' });
+      }
+
+      const output = await this.encodeImageOutput(pages[0], context, encodeOptions);
+
+      // Re-encoding drops EXIF; carry it over to JPEG output when asked to
+      const metadata = options.imageMetadata || 'strip';
+      if (metadata !== 'strip' && ['jpg', 'jpeg'].includes(fromFormat) && ['jpg', 'jpeg'].includes(toFormat)) {
+        const bytes = copyJPEGExif(new Uint8Array(content), new Uint8Array(await output.arrayBuffer()), {
+          stripGPS: metadata === 'strip-gps'
+        });
+        return new Blob([bytes as BlobPart], { type: output.type });
+      }
+      return output;
+    }
+
+    // 3. Standard Text/HTML/CSV Handling (Legacy)
     // Normalize content
     let textContent = '';
     if (typeof content === 'string') {
       textContent = content;
     } else {
-      textContent = new TextDecoder().decode(content);
+      textContent = decodeText(new Uint8Array(content), options.inputEncoding);
     }
 
     // Create a temporary HTML element to render content
@@ -2862,7 +2061,7 @@ export class ConversionService {
     switch (fromFormat) {
       case 'md':
       case 'pdf': // Treat processed PDF text (which is MD-like) as MD for image generation if we fell through here (e.g. if content was string)
-        displayContent = this.md.render(textContent);
+        displayContent = writeHTML(this.toDocumentModel(textContent, context));
         break;
       case 'html':
         displayContent = textContent;
@@ -2874,10 +2073,11 @@ export class ConversionService {
         if (/<[a-z][\s\S]*>/i.test(textContent)) {
           displayContent = textContent;
         } else {
-          displayContent = `<pre style="white-space: pre-wrap; font-family: ${options.fontFamily || 'Arial'};">${this.escapeHTML(textContent)}</pre>`;
+          displayContent = `<pre style="white-space: pre-wrap; font-family: ${options.fontFamily || 'Arial'};">${escapeHTML(textContent)}</pre>`;
         }
         break;
       case 'csv':
+      case 'tsv':
         // Add some basic styling for the image capture
         displayContent = `
           <style>
@@ -2887,38 +2087,25 @@ export class ConversionService {
             tr:nth-child(even) { background-color: #f9f9f9; }
             img { max-width: 100%; height: auto; }
           </style>
-          ${this.csvToHTMLTable(textContent)}
+          ${this.csvToHTMLTable(textContent, options, fromFormat)}
         `;
         break;
       case 'txt':
         // Handle Logs/Text files explicitly for better rendering
         displayContent = `
            <div style="font-family: monospace; white-space: pre-wrap; word-break: break-all; color: #333; background: #f8f9fa; padding: 20px; border-radius: 8px;">
-             ${this.escapeHTML(textContent)}
+             ${escapeHTML(textContent)}
            </div>
         `;
         break;
       default:
-        displayContent = `<pre style="white-space: pre-wrap; font-family: monospace; padding: 20px;">${this.escapeHTML(textContent)}</pre>`;
+        displayContent = `<pre style="white-space: pre-wrap; font-family: monospace; padding: 20px;">${escapeHTML(textContent)}</pre>`;
     }
 
     tempDiv.innerHTML = displayContent;
     document.body.appendChild(tempDiv);
 
     try {
-      // Map format to MIME type
-      const mimeTypeMap: Record<string, string> = {
-        'png': 'image/png',
-        'jpg': 'image/jpeg',
-        'jpeg': 'image/jpeg',
-        'gif': 'image/gif',
-        'bmp': 'image/bmp',
-        'webp': 'image/webp'
-      };
-
-      const mimeType = mimeTypeMap[toFormat] || 'image/png';
-      const quality = options.quality === 'high' ? 0.95 : options.quality === 'low' ? 0.7 : 0.85;
-
       const canvas = await html2canvas(tempDiv, {
         scale: 2, // Retain high quality
         backgroundColor: '#ffffff',
@@ -2928,14 +2115,10 @@ export class ConversionService {
         windowHeight: tempDiv.scrollHeight + 100
       });
 
-      return new Promise((resolve) => {
-        canvas.toBlob((blob) => {
-          if (document.body.contains(tempDiv)) {
-            document.body.removeChild(tempDiv);
-          }
-          resolve(blob!);
-        }, mimeType, quality);
-      });
+      if (document.body.contains(tempDiv)) {
+        document.body.removeChild(tempDiv);
+      }
+      return await this.encodeImageOutput(canvas, context, this.imageEncodeOptions(options));
 
     } catch (error) {
       if (document.body.contains(tempDiv)) {
@@ -2945,31 +2128,170 @@ export class ConversionService {
     }
   }
 
-  // Helper methods for specific conversions
-  private csvToMarkdownTable(csvContent: string): string {
-    try {
-      const lines = csvContent.split('\n').filter(line => line.trim());
-      if (lines.length === 0) return '';
+  private isImageFormat(format: SupportedFormat): boolean {
+    return ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'heic', 'avif', 'tiff', 'svg'].includes(format);
+  }
+
+  private imageEncodeOptions(options: ConversionOptions): ImageEncodeOptions {
+    return {
+      quality: options.quality === 'high' ? 0.95 : options.quality === 'low' ? 0.7 : 0.85,
+      targetSize: options.imageTargetSize,
+      gifDither: options.gifDither,
+      bmpBitDepth: options.bmpBitDepth
+    };
+  }
+
+  // PDF pages are rendered at a known resolution, so the output records it
+  private pdfEncodeOptions(options: ConversionOptions): ImageEncodeOptions {
+    return { ...this.imageEncodeOptions(options), dpi: options.imageResolution || 144 };
+  }
+
+  // pdf.js renders at 72 DPI at scale 1
+  private pdfRenderScale(options: ConversionOptions): number {
+    return (options.imageResolution || 144) / 72;
+  }
+
+  private sheetSelection(options: ConversionOptions): SheetSelection {
+    return { sheets: options.sheets, range: options.sheetRange, formulas: options.sheetFormulas };
+  }
+
+  private sheetFormat(options: ConversionOptions): SheetFormat {
+    return {
+      headerStyle: options.sheetHeaderStyle !== false,
+      autoWidth: options.sheetAutoWidth !== false,
+      freezeHeader: options.sheetFreezeHeader !== false,
+      autoFilter: options.sheetAutoFilter !== false,
+      totals: options.sheetTotals === true
+    };
+  }
+
+  // Selected sheets flattened to "Sheet: name" + CSV text, for the text-based converters
+  private workbookText(workbook: XLSX.WorkBook, options: ConversionOptions): string {
+    return selectSheets(workbook, this.sheetSelection(options))
+      .map(selected => `Sheet: ${selected.name}\n${writeCSV(sheetRows(selected))}`)
+      .join('\n\n') || '[Excel content - no data found in worksheets]';
+  }
 
-      const headers = lines[0].split(',').map(h => h.trim());
-      let markdown = '# CSV Data\n\n';
+  // The CSV options as a dialect for reading or writing `format`
+  private csvDialect(options: ConversionOptions, format: SupportedFormat): CSVDialect {
+    return {
+      delimiter: format === 'tsv' ? '\t' : options.csvDelimiter,
+      quoteChar: options.csvQuoteChar,
+      escapeChar: options.csvEscapeChar,
+      header: options.csvHeader,
+      skipLines: options.csvSkipLines,
+      commentChar: options.csvCommentChar,
+      inferTypes: options.csvInferTypes
+    };
+  }
+
+  private epubOptions(options: ConversionOptions): EPUBOptions {
+    return {
+      title: options.epubTitle?.trim() || undefined,
+      author: options.epubAuthor?.trim() || undefined,
+      language: options.epubLanguage?.trim() || undefined,
+      identifier: options.epubIdentifier?.trim() || undefined,
+      cover: options.epubCover,
+      stylesheet: options.epubStylesheet,
+      chapterLevel: options.epubChapterLevel
+    };
+  }
 
-      // Table header
-      markdown += '| ' + headers.join(' | ') + ' |\n';
-      markdown += '| ' + headers.map(() => '---').join(' | ') + ' |\n';
+  private latexOptions(options: ConversionOptions): LaTeXOptions {
+    return {
+      documentClass: options.latexDocumentClass?.trim() || undefined,
+      classOptions: options.latexClassOptions?.trim() || undefined,
+      packages: (options.latexPackages || '').split(/\n|,(?![^[]*\])/).map(line => line.trim()).filter(Boolean)
+    };
+  }
 
-      // Table rows
-      for (let i = 1; i < lines.length; i++) {
-        const cells = lines[i].split(',').map(c => c.trim());
-        markdown += '| ' + cells.join(' | ') + ' |\n';
+  private jsonTableOptions(options: ConversionOptions): JSONTableOptions {
+    let schema = options.jsonSchema;
+    if (typeof schema === 'string') {
+      try {
+        schema = schema.trim() ? JSON.parse(schema) as JSONSchema : undefined;
+      } catch {
+        throw new Error('The JSON Schema is not valid JSON');
       }
+    }
+    return {
+      rowsPath: options.jsonRowsPath?.trim() || undefined,
+      arrayMode: options.jsonArrayMode,
+      separator: options.jsonSeparator,
+      schema: schema as JSONSchema | undefined,
+      skipInvalid: options.jsonSkipInvalid
+    };
+  }
 
-      return markdown;
+  // JSON rows for the table writers; rows failing the schema are listed on the context
+  private jsonTable(data: unknown, context: ConversionContext): JSONTable {
+    const options = this.jsonTableOptions(context.options);
+    const table = jsonToTable(data, options);
+    if (table.errors.length > 0) {
+      context.validationErrors = table.errors.map(error =>
+        `${error.row === 0 ? 'Rows' : `Row ${error.row}`}${error.path ? ` ${error.path}` : ''}: ${error.message}`);
+      const invalidRows = new Set(table.errors.map(error => error.row).filter(row => row > 0)).size;
+      context.formatNote = `${invalidRows} of ${table.sourceRows} rows do not match the JSON Schema${options.skipInvalid ? ' and were left out' : ''}. First problem: ${context.validationErrors[0]}`;
+    }
+    return table;
+  }
+
+  // JSON -> HTML: a list (or the rows a path selects) as a table, anything else as formatted JSON
+  private jsonDocument(content: string, context: ConversionContext): DocumentModel {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
     } catch {
-      return `# CSV Data\n\n\`\`\`\n${csvContent}\n\`\`\``;
+      return this.toDocumentModel(content, context);
+    }
+    if (!Array.isArray(data) && !context.options.jsonRowsPath) {
+      return this.toDocumentModel(content, context);
+    }
+    const rows = jsonTableRows(this.jsonTable(data, context));
+    return createDocument([tableFromRows(rows.map(row => row.map(cell => cell === null || cell === undefined ? '' : String(cell))))]);
+  }
+
+  private imageTransform(options: ConversionOptions): ImageTransform {
+    return {
+      crop: options.imageCrop,
+      rotate: options.imageRotate,
+      flipHorizontal: options.imageFlipHorizontal,
+      flipVertical: options.imageFlipVertical,
+      width: options.imageWidth,
+      height: options.imageHeight,
+      fit: options.imageFit
+    };
+  }
+
+  /**
+   * Crop, rotate/flip and resize a rendered canvas as the options ask, then encode it
+   */
+  private async encodeImageOutput(canvas: HTMLCanvasElement, context: ConversionContext, encodeOptions: ImageEncodeOptions): Promise<Blob> {
+    const { options, toFormat } = context;
+    const output = transformCanvas(canvas, this.imageTransform(options));
+    context.imageDimensions = context.imageDimensions || { width: output.width, height: output.height };
+    return encodeCanvas(output, toFormat, encodeOptions);
+  }
+
+  /**
+   * Every page as a frame of one looping GIF
+   */
+  private async renderPDFAnimation(pdf: PDFDocumentProxy, context: ConversionContext): Promise<Blob> {
+    const { options } = context;
+    const animation = createGIFAnimation({
+      delay: options.gifFrameDelay ?? 1000,
+      dither: options.gifDither
+    });
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const canvas = await renderPageToCanvas(await pdf.getPage(i), this.pdfRenderScale(options));
+      const frame = transformCanvas(canvas, this.imageTransform(options));
+      context.imageDimensions = context.imageDimensions || { width: frame.width, height: frame.height };
+      animation.addFrame(frame);
     }
+    return animation.finish();
   }
 
+  // Helper methods for specific conversions
   private jsonToXML(obj: any, rootName = 'root'): string {
     let xml = `<?xml version="1.0" encoding="UTF-8"?>\n<${rootName}>`;
 
@@ -2988,7 +2310,7 @@ export class ConversionService {
           return result;
         }
       } else {
-        return `<${key}>${this.escapeXML(String(value))}</${key}>`;
+        return `<${key}>${escapeXML(String(value))}</${key}>`;
       }
     };
 
@@ -2997,24 +2319,24 @@ export class ConversionService {
         xml += convertValue(value, key);
       }
     } else {
-      xml += this.escapeXML(String(obj));
+      xml += escapeXML(String(obj));
     }
 
     xml += `</${rootName}>`;
     return xml;
   }
 
-  private csvToXML(csvContent: string): string {
+  private csvToXML(csvContent: string, dialect: CSVDialect): string {
     try {
-      const parsed = Papa.parse(csvContent, { header: true, skipEmptyLines: true });
+      const table = parseCSV(csvContent, dialect);
+      const keys = table.columns.map(column => column.replace(/[^a-zA-Z0-9_-]/g, '_').replace(/^(?=[\d-])/, '_'));
       let xml = '<?xml version="1.0" encoding="UTF-8"?>\n<data>\n';
 
-      parsed.data.forEach((row: any, index: number) => {
+      table.rows.forEach((row, index) => {
         xml += `  <row id="${index + 1}">\n`;
-        for (const [key, value] of Object.entries(row)) {
-          const safeKey = key.replace(/[^a-zA-Z0-9_-]/g, '_');
-          xml += `    <${safeKey}>${this.escapeXML(String(value))}</${safeKey}>\n`;
-        }
+        keys.forEach((key, column) => {
+          xml += `    <${key}>${escapeXML(row[column])}</${key}>\n`;
+        });
         xml += '  </row>\n';
       });
 
@@ -3024,7 +2346,7 @@ export class ConversionService {
       return `<?xml version="1.0" encoding="UTF-8"?>
 <document>
   <error>Failed to parse CSV</error>
-  <content>${this.escapeXML(csvContent)}</content>
+  <content>${escapeXML(csvContent)}</content>
 </document>`;
     }
   }
@@ -3080,8 +2402,8 @@ export class ConversionService {
   getSupportedFormats(): SupportedFormat[] {
     return [
       'txt', 'md', 'html', 'pdf', 'docx', 'doc', 'pptx', 'ppt', 'xlsx', 'xls',
-      'rtf', 'epub', 'csv', 'json', 'xml', 'latex', 'odt', 'odp',
-      'png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'
+      'rtf', 'epub', 'csv', 'tsv', 'json', 'xml', 'latex', 'odt', 'odp', 'ods',
+      'png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'heic', 'avif', 'tiff', 'svg'
     ];
   }
 
@@ -3095,6 +2417,7 @@ export class ConversionService {
       rtf: { name: 'Rich Text Format', description: 'Rich text document', mimeType: 'application/rtf', category: 'Document' },
       epub: { name: 'EPUB', description: 'Electronic publication format', mimeType: 'application/epub+zip', category: 'eBook' },
       csv: { name: 'CSV', description: 'Comma-separated values', mimeType: 'text/csv', category: 'Data' },
+      tsv: { name: 'TSV', description: 'Tab-separated values', mimeType: 'text/tab-separated-values', category: 'Data' },
       json: { name: 'JSON', description: 'JavaScript Object Notation', mimeType: 'application/json', category: 'Data' },
       xml: { name: 'XML', description: 'Extensible Markup Language', mimeType: 'application/xml', category: 'Data' },
       latex: { name: 'LaTeX', description: 'Document preparation system', mimeType: 'application/x-latex', category: 'Academic' },
@@ -3108,9 +2431,14 @@ export class ConversionService {
       gif: { name: 'GIF Image', description: 'Graphics Interchange Format', mimeType: 'image/gif', category: 'Image' },
       bmp: { name: 'Bitmap Image', description: 'Bitmap Graphics Format', mimeType: 'image/bmp', category: 'Image' },
       webp: { name: 'WebP Image', description: 'WebP Graphics Format', mimeType: 'image/webp', category: 'Image' },
+      heic: { name: 'HEIC Image', description: 'High Efficiency Image Format (iPhone photos)', mimeType: 'image/heic', category: 'Image' },
+      avif: { name: 'AVIF Image', description: 'AV1 Image File Format', mimeType: 'image/avif', category: 'Image' },
+      tiff: { name: 'TIFF Image', description: 'Tagged Image File Format, including multi-page scans', mimeType: 'image/tiff', category: 'Image' },
+      svg: { name: 'SVG Image', description: 'Scalable Vector Graphics', mimeType: 'image/svg+xml', category: 'Image' },
       doc: { name: 'Word Document', description: 'Microsoft Word legacy format', mimeType: 'application/msword', category: 'Document' },
       jpeg: { name: 'JPEG Image', description: 'Joint Photographic Experts Group', mimeType: 'image/jpeg', category: 'Image' },
-      odp: { name: 'OpenDocument Presentation', description: 'Open standard presentation format', mimeType: 'application/vnd.oasis.opendocument.presentation', category: 'Presentation' }
+      odp: { name: 'OpenDocument Presentation', description: 'Open standard presentation format', mimeType: 'application/vnd.oasis.opendocument.presentation', category: 'Presentation' },
+      ods: { name: 'OpenDocument Spreadsheet', description: 'Open standard spreadsheet format', mimeType: 'application/vnd.oasis.opendocument.spreadsheet', category: 'Spreadsheet' }
     };
 
     return formatInfo[format];
@@ -3120,6 +2448,12 @@ export class ConversionService {
   suggestOptimalFormat(content: string, currentFormat: SupportedFormat): SupportedFormat[] {
     const suggestions: SupportedFormat[] = [];
 
+    // Images only convert to other images and PDF
+    if (this.isImageFormat(currentFormat)) {
+      const targets: SupportedFormat[] = currentFormat === 'svg' ? ['png', 'pdf'] : ['jpg', 'png', 'pdf'];
+      return targets.filter(format => format !== currentFormat);
+    }
+
     // Analyze content characteristics
     const hasStructure = content.includes('\n\n') || content.includes('#') || content.includes('<');
     const hasData = content.includes(',') || content.includes('\t') || content.includes('|');
@@ -3127,7 +2461,7 @@ export class ConversionService {
     const isLong = content.length > 5000;
 
     // Make suggestions based on content analysis
-    if (hasData && currentFormat !== 'csv') {
+    if (hasData && currentFormat !== 'csv' && currentFormat !== 'tsv') {
       suggestions.push('csv', 'json', 'xml');
     }
 
@@ -3150,19 +2484,36 @@ export class ConversionService {
     return suggestions.slice(0, 5); // Limit to top 5 suggestions
   }
 
-  private async convertToCSV(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
-    let csvContent = '';
+  private async convertToCSV(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat, toFormat, options } = context;
+    const dialect = this.csvDialect(options, toFormat);
+    const type = toFormat === 'tsv' ? 'text/tab-separated-values;charset=utf-8' : 'text/csv;charset=utf-8';
+    let rows: unknown[][] | object[] | null = null;
 
     // Handle PDF with rich content (extract tables only)
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      csvContent = this.richPDFToCSV();
-      this.richPDFContent = null;
-      return new Blob([csvContent], { type: 'text/csv' });
+    if (fromFormat === 'pdf' && context.pdfDocument) {
+      return new Blob([writeTablesCSV(this.toDocumentModel(content, context), dialect)], { type });
     }
 
     switch (fromFormat) {
+      case 'csv':
+      case 'tsv':
+        // Re-written in the output dialect (e.g. semicolons to commas, or CSV to TSV)
+        rows = tableRows(parseCSV(content, this.csvDialect(options, fromFormat)));
+        break;
+
       case 'xlsx':
       case 'xls':
+      case 'ods':
+        if (context.workbook) {
+          // CSV holds a single sheet - the first one selected
+          const [first, ...others] = selectSheets(context.workbook, this.sheetSelection(options));
+          rows = first ? sheetRows(first) : [];
+          if (others.length > 0) {
+            context.formatNote = `${toFormat.toUpperCase()} holds one sheet, so only "${first.name}" was converted. Choose the sheet in the spreadsheet options to convert another.`;
+          }
+          break;
+        }
         try {
           // Use XLSX library to convert Excel to CSV
           const workbook = XLSX.read(content, { type: 'string' });
@@ -3171,82 +2522,79 @@ export class ConversionService {
           if (workbook.SheetNames.length > 0) {
             const firstSheetName = workbook.SheetNames[0];
             const worksheet = workbook.Sheets[firstSheetName];
-            csvContent = XLSX.utils.sheet_to_csv(worksheet);
+            rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false, defval: '' });
           } else {
-            csvContent = 'Error,Message\n"No worksheets found","Excel file appears to be empty"';
+            rows = [['Error', 'Message'], ['No worksheets found', 'Excel file appears to be empty']];
           }
         } catch (error) {
           console.warn('Failed to convert Excel to CSV with XLSX library');
-          csvContent = 'Error,Message\n"Conversion failed","Could not parse Excel file"';
+          rows = [['Error', 'Message'], ['Conversion failed', 'Could not parse Excel file']];
         }
         break;
-      case 'json':
+      case 'json': {
+        let jsonData: unknown;
         try {
-          const jsonData = JSON.parse(content);
-          if (Array.isArray(jsonData)) {
-            csvContent = Papa.unparse(jsonData);
-          } else {
-            // Convert object to CSV
-            const headers = Object.keys(jsonData);
-            const values = Object.values(jsonData);
-            csvContent = headers.join(',') + '\n' + values.join(',');
-          }
+          jsonData = JSON.parse(content);
         } catch {
-          csvContent = 'Error,Message\n"Invalid JSON","Could not parse JSON data"';
+          rows = [['Error', 'Message'], ['Invalid JSON', 'Could not parse JSON data']];
+          break;
         }
+        // Flattened rows (an object is a single row); a bad path or schema fails the conversion
+        rows = jsonTableRows(this.jsonTable(jsonData, context));
         break;
+      }
 
       case 'xml':
         // Basic XML to CSV conversion (extract text content)
-        const xmlText = this.stripHTML(content);
-        csvContent = 'Content\n"' + xmlText.replace(/"/g, '""') + '"';
+        rows = [['Content'], [this.stripHTML(content)]];
         break;
 
       case 'txt':
         // Convert text lines to CSV
-        const lines = content.split('\n').filter(line => line.trim());
-        csvContent = 'Line,Content\n' +
-          lines.map((line, index) => `${index + 1},"${line.replace(/"/g, '""')}"`).join('\n');
+        rows = [['Line', 'Content'], ...content.split('\n').filter(line => line.trim()).map((line, index) => [index + 1, line])];
         break;
 
       case 'pdf':
         // PDF text to CSV - split by paragraphs/pages
-        const pdfLines = content.split('\n').filter(line => line.trim());
-        csvContent = 'Line,Content\n' +
-          pdfLines.map((line, index) => {
+        rows = [
+          ['Line', 'Content'],
+          ...content.split('\n').filter(line => line.trim()).map((line, index) => [
+            index + 1,
             // Handle page separators
-            if (line.startsWith('--- Page')) {
-              return `${index + 1},"[Page Break]"`;
-            }
-            return `${index + 1},"${line.replace(/"/g, '""')}"`;
-          }).join('\n');
+            line.startsWith('--- Page') ? '[Page Break]' : line
+          ])
+        ];
         break;
-
-      default:
-        csvContent = content;
     }
 
-    return new Blob([csvContent], { type: 'text/csv;charset=utf-8' });
+    return new Blob([rows ? writeCSV(rows, dialect) : content], { type });
   }
 
-  private async convertToJSON(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
+  private async convertToJSON(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat } = context;
     let jsonContent = '';
 
     // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      jsonContent = this.richPDFToJSON();
-      this.richPDFContent = null;
+    if (fromFormat === 'pdf' && context.pdfDocument) {
+      jsonContent = writeJSONOutline(this.toDocumentModel(content, context));
       return new Blob([jsonContent], { type: 'application/json' });
     }
 
+    // Workbooks keep a key per sheet
+    if (context.workbook) {
+      jsonContent = JSON.stringify(workbookToJSON(context.workbook, this.sheetSelection(context.options)), null, 2);
+      return new Blob([jsonContent], { type: 'application/json;charset=utf-8' });
+    }
+
     switch (fromFormat) {
       case 'csv':
+      case 'tsv':
         try {
-          const parsed = Papa.parse(content, { header: true, skipEmptyLines: true });
-          if (parsed.errors.length > 0) {
-            throw new Error('CSV parsing failed');
+          const table = parseCSV(content, this.csvDialect(context.options, fromFormat));
+          if (table.errors.length > 0) {
+            throw new Error(`CSV parsing failed (${table.errors[0]})`);
           }
-          jsonContent = JSON.stringify(parsed.data, null, 2);
+          jsonContent = JSON.stringify(csvRecords(table), null, 2);
         } catch (error) {
           console.warn('Failed to parse CSV, creating error JSON');
           jsonContent = JSON.stringify({
@@ -3348,7 +2696,7 @@ export class ConversionService {
             },
             content: {
               headings,
-              plainText: this.stripMarkdown(content),
+              plainText: writePlainText(this.toDocumentModel(content, context)),
               rawMarkdown: content
             }
           }, null, 2);
@@ -3407,13 +2755,13 @@ export class ConversionService {
     return new Blob([jsonContent], { type: 'application/json;charset=utf-8' });
   }
 
-  private async convertToXML(content: string, fromFormat: SupportedFormat, options: ConversionOptions): Promise<Blob> {
+  private async convertToXML(content: string, context: ConversionContext): Promise<Blob> {
+    const { fromFormat } = context;
     let xmlContent = '';
 
     // Handle PDF with rich content
-    if (fromFormat === 'pdf' && this.richPDFContent) {
-      xmlContent = this.richPDFToXML();
-      this.richPDFContent = null;
+    if (fromFormat === 'pdf' && context.pdfDocument) {
+      xmlContent = writeXMLOutline(this.toDocumentModel(content, context));
       return new Blob([xmlContent], { type: 'application/xml' });
     }
 
@@ -3426,14 +2774,15 @@ export class ConversionService {
           xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
 <document>
   <error>Failed to parse JSON</error>
-  <message>${error instanceof Error ? this.escapeXML(error.message) : 'Unknown error'}</message>
-  <rawContent>${this.escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
+  <message>${error instanceof Error ? escapeXML(error.message) : 'Unknown error'}</message>
+  <rawContent>${escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
 </document>`;
         }
         break;
 
       case 'csv':
-        xmlContent = this.csvToXML(content);
+      case 'tsv':
+        xmlContent = this.csvToXML(content, this.csvDialect(context.options, fromFormat));
         break;
 
       case 'txt':
@@ -3448,7 +2797,7 @@ export class ConversionService {
   <content>`;
 
         lines.forEach((line, index) => {
-          xmlContent += `<line number="${index + 1}">${this.escapeXML(line)}</line>`;
+          xmlContent += `<line number="${index + 1}">${escapeXML(line)}</line>`;
         });
 
         xmlContent += `</content>
@@ -3464,22 +2813,22 @@ export class ConversionService {
           xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
 <document>
   <metadata>
-    <title>${this.escapeXML(htmlDoc.title || 'Untitled')}</title>
+    <title>${escapeXML(htmlDoc.title || 'Untitled')}</title>
     <convertedAt>${new Date().toISOString()}</convertedAt>
   </metadata>
   <content>
-    <text>${this.escapeXML(htmlDoc.body?.textContent || '')}</text>
+    <text>${escapeXML(htmlDoc.body?.textContent || '')}</text>
     <headings>`;
 
           htmlDoc.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(heading => {
-            xmlContent += `<heading level="${heading.tagName.charAt(1)}">${this.escapeXML(heading.textContent || '')}</heading>`;
+            xmlContent += `<heading level="${heading.tagName.charAt(1)}">${escapeXML(heading.textContent || '')}</heading>`;
           });
 
           xmlContent += `</headings>
     <links>`;
 
           htmlDoc.querySelectorAll('a[href]').forEach(link => {
-            xmlContent += `<link href="${this.escapeXML(link.getAttribute('href') || '')}">${this.escapeXML(link.textContent || '')}</link>`;
+            xmlContent += `<link href="${escapeXML(link.getAttribute('href') || '')}">${escapeXML(link.textContent || '')}</link>`;
           });
 
           xmlContent += `</links>
@@ -3489,8 +2838,8 @@ export class ConversionService {
           xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
 <document>
   <error>Failed to parse HTML</error>
-  <message>${error instanceof Error ? this.escapeXML(error.message) : 'Unknown error'}</message>
-  <rawContent>${this.escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
+  <message>${error instanceof Error ? escapeXML(error.message) : 'Unknown error'}</message>
+  <rawContent>${escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
 </document>`;
         }
         break;
@@ -3508,26 +2857,26 @@ export class ConversionService {
     <convertedAt>${new Date().toISOString()}</convertedAt>
   </metadata>
   <content>
-    <plainText>${this.escapeXML(this.stripMarkdown(content))}</plainText>
+    <plainText>${escapeXML(writePlainText(this.toDocumentModel(content, context)))}</plainText>
     <headings>`;
 
           headings.forEach(heading => {
             const match = heading.match(/^(#{1,6})\s(.+)$/);
             if (match) {
-              xmlContent += `<heading level="${match[1].length}">${this.escapeXML(match[2])}</heading>`;
+              xmlContent += `<heading level="${match[1].length}">${escapeXML(match[2])}</heading>`;
             }
           });
 
           xmlContent += `</headings>
-    <rawMarkdown>${this.escapeXML(content)}</rawMarkdown>
+    <rawMarkdown>${escapeXML(content)}</rawMarkdown>
   </content>
 </document>`;
         } catch (error) {
           xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
 <document>
   <error>Failed to parse Markdown</error>
-  <message>${error instanceof Error ? this.escapeXML(error.message) : 'Unknown error'}</message>
-  <rawContent>${this.escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
+  <message>${error instanceof Error ? escapeXML(error.message) : 'Unknown error'}</message>
+  <rawContent>${escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
 </document>`;
         }
         break;
@@ -3554,7 +2903,7 @@ export class ConversionService {
 
             paragraphs.forEach((para, pIndex) => {
               xmlContent += `
-      <paragraph id="${index + 1}-${pIndex + 1}">${this.escapeXML(para.trim())}</paragraph>`;
+      <paragraph id="${index + 1}-${pIndex + 1}">${escapeXML(para.trim())}</paragraph>`;
             });
 
             xmlContent += `
@@ -3568,8 +2917,8 @@ export class ConversionService {
           xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
 <document>
   <error>Failed to process PDF content</error>
-  <message>${error instanceof Error ? this.escapeXML(error.message) : 'Unknown error'}</message>
-  <rawContent>${this.escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
+  <message>${error instanceof Error ? escapeXML(error.message) : 'Unknown error'}</message>
+  <rawContent>${escapeXML(content.substring(0, 500))}${content.length > 500 ? '...' : ''}</rawContent>
 </document>`;
         }
         break;
@@ -3582,7 +2931,7 @@ export class ConversionService {
     <convertedAt>${new Date().toISOString()}</convertedAt>
     <contentLength>${content.length}</contentLength>
   </metadata>
-  <content>${this.escapeXML(content)}</content>
+  <content>${escapeXML(content)}</content>
 </document>`;
     }
 
@@ -3659,9 +3008,10 @@ export function getFileExtension(format: SupportedFormat): string {
   const extensions: Record<SupportedFormat, string> = {
     txt: 'txt', md: 'md', html: 'html', pdf: 'pdf', docx: 'docx', doc: 'doc',
     pptx: 'pptx', ppt: 'ppt', xlsx: 'xlsx', xls: 'xls',
-    rtf: 'rtf', epub: 'epub', csv: 'csv', json: 'json', xml: 'xml',
-    latex: 'tex', odt: 'odt', odp: 'odp',
-    png: 'png', jpg: 'jpg', jpeg: 'jpeg', gif: 'gif', bmp: 'bmp', webp: 'webp'
+    rtf: 'rtf', epub: 'epub', csv: 'csv', tsv: 'tsv', json: 'json', xml: 'xml',
+    latex: 'tex', odt: 'odt', odp: 'odp', ods: 'ods',
+    png: 'png', jpg: 'jpg', jpeg: 'jpeg', gif: 'gif', bmp: 'bmp', webp: 'webp',
+    heic: 'heic', avif: 'avif', tiff: 'tiff', svg: 'svg'
   };
   return extensions[format];
 }
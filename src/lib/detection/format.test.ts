@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { detectFileFormat, detectionWarning, sniffTextFormat } from './format';
+import { powerPointDocument, wordDocument } from '@/test/office';
+
+const text = (value: string) => new TextEncoder().encode(value).buffer;
+
+async function zip(files: Record<string, string>): Promise<ArrayBuffer> {
+  const archive = new JSZip();
+  Object.entries(files).forEach(([path, content]) => archive.file(path, content));
+  return archive.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('detectFileFormat', () => {
+  it('recognizes signatures whatever the file is called', async () => {
+    const cases: [number[] | string, string][] = [
+      ['%PDF-1.7\n', 'pdf'],
+      [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0], 'png'],
+      [[0xff, 0xd8, 0xff, 0xe0, 0, 0], 'jpg'],
+      ['GIF89a\x01\x00', 'gif'],
+      ['RIFF\0\0\0\0WEBPVP8 ', 'webp'],
+      ['\0\0\0\x18ftypheic\0\0\0\0', 'heic'],
+      ['{\\rtf1\\ansi Hello}', 'rtf']
+    ];
+    for (const [signature, format] of cases) {
+      const bytes = typeof signature === 'string' ? Uint8Array.from(signature, char => char.charCodeAt(0)) : Uint8Array.from(signature);
+      const detection = await detectFileFormat(bytes.buffer, 'upload.bin');
+      expect([detection.format, detection.source]).toEqual([format, 'signature']);
+    }
+  });
+
+  it('needs a BMP info header after the "BM" signature', async () => {
+    const bitmap = new Uint8Array(54);
+    bitmap.set([0x42, 0x4d]);
+    bitmap[14] = 40;
+    expect((await detectFileFormat(bitmap.buffer, 'scan')).format).toBe('bmp');
+    expect((await detectFileFormat(text('BM is a set of initials\nnothing more'), 'notes')).format).toBe('txt');
+  });
+
+  it('looks inside ZIP packages for the manifest or main part', async () => {
+    const docx = await zip({ '[Content_Types].xml': '<Override ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' });
+    const odt = await zip({ mimetype: 'application/vnd.oasis.opendocument.text' });
+    const epub = await zip({ mimetype: 'application/epub+zip' });
+    const damaged = await zip({ 'ppt/presentation.xml': '<p:presentation/>' });
+
+    expect(await detectFileFormat(docx, 'report.docx')).toMatchObject({ format: 'docx', source: 'container', mismatch: false });
+    expect((await detectFileFormat(odt, 'report')).format).toBe('odt');
+    expect((await detectFileFormat(epub, 'book.zip')).format).toBe('epub');
+    expect((await detectFileFormat(damaged, 'deck')).format).toBe('pptx');
+  });
+
+  it('tells Office 97-2003 files apart by their main stream', async () => {
+    expect(await detectFileFormat(wordDocument([{ text: 'Hello' }]), 'letter.doc')).toMatchObject({ format: 'doc', source: 'container' });
+    expect((await detectFileFormat(powerPointDocument([{ title: 'Hi', body: [] }]), 'letter.doc')).format).toBe('ppt');
+  });
+
+  it('reports content that contradicts the extension', async () => {
+    const detection = await detectFileFormat(Uint8Array.from('%PDF-1.4', char => char.charCodeAt(0)).buffer, 'photo.png');
+    expect(detection).toMatchObject({ format: 'pdf', extensionFormat: 'png', mismatch: true });
+    expect(detectionWarning('photo.png', detection)).toBe('photo.png looks like PDF, not PNG - it will be converted as PDF');
+  });
+
+  it('accepts formats saved under each other\'s extension', async () => {
+    expect((await detectFileFormat(text('{\\rtf1 Hello}'), 'letter.doc')).mismatch).toBe(false);
+    expect(await detectFileFormat(text('a\tb\n1\t2\n3\t4'), 'export.csv')).toMatchObject({ format: 'csv', mismatch: false });
+    expect((await detectFileFormat(Uint8Array.from([0xff, 0xd8, 0xff, 0xe0]).buffer, 'photo.jpeg')).format).toBe('jpeg');
+  });
+
+  it('keeps a text extension over weak content evidence', async () => {
+    const detection = await detectFileFormat(text('- milk\n- eggs'), 'shopping.txt');
+    expect(detection).toMatchObject({ format: 'txt', source: 'extension', mismatch: false });
+    expect(detection.encoding?.encoding).toBeDefined();
+  });
+
+  it('falls back to the extension for unrecognized binary data, with a low-confidence warning', async () => {
+    const noise = Uint8Array.from({ length: 64 }, (_, i) => (i * 37) % 256).buffer;
+    expect(await detectFileFormat(noise, 'data.xlsx')).toMatchObject({ format: 'xlsx', source: 'extension', confidence: 0.3 });
+
+    const unnamed = await detectFileFormat(noise, 'data');
+    expect(unnamed.format).toBe('txt');
+    expect(detectionWarning('data', unnamed)).toBe("Couldn't identify data from its content - treating it as TXT");
+  });
+});
+
+describe('sniffTextFormat', () => {
+  it('recognizes markup, data and document sources', () => {
+    expect(sniffTextFormat('<!DOCTYPE html><html><body>Hi</body></html>').format).toBe('html');
+    expect(sniffTextFormat('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"/>').format).toBe('svg');
+    expect(sniffTextFormat('<?xml version="1.0"?><feed/>').format).toBe('xml');
+    expect(sniffTextFormat('{"name": "report", "pages": 3}').format).toBe('json');
+    expect(sniffTextFormat('\\documentclass{article}\n\\begin{document}Hi\\end{document}').format).toBe('latex');
+    expect(sniffTextFormat('# Title\n\nSome text').format).toBe('md');
+  });
+
+  it('takes consistently delimited lines as CSV or TSV, but not prose', () => {
+    expect(sniffTextFormat('name,age\n"Smith, J",40\nLee,35')).toEqual({ format: 'csv', confidence: 0.85 });
+    expect(sniffTextFormat('name;age\nSmith;40').format).toBe('csv');
+    expect(sniffTextFormat('name\tage\nSmith\t40').format).toBe('tsv');
+    expect(sniffTextFormat('First, we met.\nThen, we left.\nLater, we ate.').format).toBe('txt');
+  });
+
+  it('does not take log lines for Markdown lists', () => {
+    expect(sniffTextFormat('- first\n- second').format).toBe('md');
+    expect(sniffTextFormat('2024-01-01 started\n- worker 1 up').format).toBe('txt');
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * File Format Detection
+ * What a file is comes from its bytes first: a signature, then the manifest
+ * inside ZIP and OLE2 containers, then the shape of its text. The extension only
+ * decides when the content is inconclusive, and a content/extension disagreement
+ * is reported so the UI can warn about misnamed files.
+ */
+
+import * as CFB from 'cfb';
+import JSZip from 'jszip';
+import type { SupportedFormat } from '../conversionService';
+import { decodeText, isBinary, sniffEncoding, type EncodingGuess } from '../text/encoding';
+
+export type DetectionSource = 'signature' | 'container' | 'content' | 'extension';
+
+export interface FormatDetection {
+  format: SupportedFormat;
+  confidence: number; // 0-1
+  source: DetectionSource;
+  extensionFormat: SupportedFormat | null; // What the file name claims
+  mismatch: boolean; // The content contradicts the extension
+  encoding?: EncodingGuess; // Text files only
+}
+
+interface Guess {
+  format: SupportedFormat;
+  confidence: number;
+}
+
+// Content evidence at least this strong overrides a text file's extension
+const STRONG_CONTENT = 0.8;
+// Lines looked at to judge delimited data
+const CSV_SAMPLE_LINES = 20;
+
+const EXTENSIONS: Record<string, SupportedFormat> = {
+  'txt': 'txt', 'text': 'txt',
+  'md': 'md', 'markdown': 'md', 'mdown': 'md',
+  'html': 'html', 'htm': 'html',
+  'pdf': 'pdf',
+  'docx': 'docx', 'doc': 'doc',
+  'pptx': 'pptx', 'ppt': 'ppt',
+  'xlsx': 'xlsx', 'xls': 'xls',
+  'rtf': 'rtf',
+  'epub': 'epub',
+  'csv': 'csv',
+  'tsv': 'tsv', 'tab': 'tsv',
+  'json': 'json',
+  'xml': 'xml',
+  'tex': 'latex', 'latex': 'latex',
+  'png': 'png',
+  'jpg': 'jpg', 'jpeg': 'jpg',
+  'gif': 'gif',
+  'bmp': 'bmp',
+  'webp': 'webp',
+  'heic': 'heic', 'heif': 'heic',
+  'avif': 'avif',
+  'tif': 'tiff', 'tiff': 'tiff',
+  'svg': 'svg',
+  'odt': 'odt',
+  'odp': 'odp',
+  'ods': 'ods'
+};
+
+const TEXT_FORMATS: SupportedFormat[] = ['txt', 'md', 'html', 'csv', 'tsv', 'json', 'xml', 'latex', 'rtf', 'svg'];
+
+// Formats that are legitimately saved under each other's extension
+const EQUIVALENT_FORMATS: SupportedFormat[][] = [
+  ['jpg', 'jpeg'],
+  // Word opens RTF saved as .doc, and our own .doc output is RTF
+  ['doc', 'rtf'],
+  // Spreadsheets save any delimiter under .csv
+  ['csv', 'tsv']
+];
+
+// `mimetype` entry of ODF and EPUB packages
+const PACKAGE_MIMETYPES: Record<string, SupportedFormat> = {
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'application/vnd.oasis.opendocument.presentation': 'odp',
+  'application/vnd.oasis.opendocument.spreadsheet': 'ods',
+  'application/epub+zip': 'epub'
+};
+
+// Main part content types in an OOXML [Content_Types].xml (macro-enabled and template variants included)
+const OOXML_CONTENT_TYPES: [string, SupportedFormat][] = [
+  ['wordprocessingml.document.main', 'docx'],
+  ['wordprocessingml.template.main', 'docx'],
+  ['ms-word.document.macroEnabled.main', 'docx'],
+  ['presentationml.presentation.main', 'pptx'],
+  ['presentationml.slideshow.main', 'pptx'],
+  ['ms-powerpoint.presentation.macroEnabled.main', 'pptx'],
+  ['spreadsheetml.sheet.main', 'xlsx'],
+  ['spreadsheetml.template.main', 'xlsx'],
+  ['ms-excel.sheet.macroEnabled.main', 'xlsx']
+];
+
+// Parts that identify a package whose manifest is missing or damaged
+const PACKAGE_PARTS: [string, SupportedFormat][] = [
+  ['word/document.xml', 'docx'],
+  ['ppt/presentation.xml', 'pptx'],
+  ['xl/workbook.xml', 'xlsx'],
+  ['META-INF/container.xml', 'epub']
+];
+
+// Main stream of each Office 97-2003 compound file
+const COMPOUND_STREAMS: [string, SupportedFormat][] = [
+  ['WordDocument', 'doc'],
+  ['Workbook', 'xls'],
+  ['Book', 'xls'],
+  ['PowerPoint Document', 'ppt']
+];
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+// BITMAPCOREHEADER through BITMAPV5HEADER
+const BMP_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+export function formatFromExtension(filename: string): SupportedFormat | null {
+  const dot = filename.lastIndexOf('.');
+  if (dot < 0) return null;
+  return EXTENSIONS[filename.slice(dot + 1).toLowerCase()] || null;
+}
+
+export async function detectFileFormat(data: Blob | ArrayBuffer, filename: string): Promise<FormatDetection> {
+  const bytes = new Uint8Array(data instanceof ArrayBuffer ? data : await data.arrayBuffer());
+  const extensionFormat = formatFromExtension(filename);
+  const result = (format: SupportedFormat, confidence: number, source: DetectionSource, encoding?: EncodingGuess): FormatDetection => ({
+    format,
+    confidence,
+    source,
+    extensionFormat,
+    mismatch: source !== 'extension' && extensionFormat !== null && !sameFormat(format, extensionFormat),
+    encoding
+  });
+
+  const signature = matchSignature(bytes);
+  if (signature) {
+    return result(keepJPEGSpelling(signature.format, filename), signature.confidence, 'signature');
+  }
+
+  if (isZip(bytes)) {
+    const format = await inspectZip(bytes);
+    return format
+      ? result(format, 0.99, 'container')
+      : result(extensionFormat || 'txt', 0.2, 'extension');
+  }
+
+  if (isCompound(bytes)) {
+    const format = inspectCompoundFile(bytes);
+    return format
+      ? result(format, 0.99, 'container')
+      : result(extensionFormat || 'doc', 0.3, 'extension');
+  }
+
+  if (isBinary(bytes)) {
+    // Nothing recognizable - the name is all there is to go on
+    return result(extensionFormat || 'txt', extensionFormat ? 0.3 : 0.1, 'extension');
+  }
+
+  const encoding = sniffEncoding(bytes);
+  const guess = sniffTextFormat(decodeText(bytes, encoding.encoding));
+  if (extensionFormat && TEXT_FORMATS.includes(extensionFormat)) {
+    if (sameFormat(guess.format, extensionFormat)) {
+      return result(extensionFormat, Math.max(guess.confidence, 0.9), 'content', encoding);
+    }
+    // Weak evidence (a comma, a list line) doesn't overrule a text extension
+    if (guess.confidence < STRONG_CONTENT) {
+      return result(extensionFormat, 0.6, 'extension', encoding);
+    }
+  }
+  return result(guess.format, guess.confidence, 'content', encoding);
+}
+
+function sameFormat(a: SupportedFormat, b: SupportedFormat): boolean {
+  return a === b || EQUIVALENT_FORMATS.some(group => group.includes(a) && group.includes(b));
+}
+
+// A JPEG named .jpeg stays "jpeg"
+function keepJPEGSpelling(format: SupportedFormat, filename: string): SupportedFormat {
+  return format === 'jpg' && /\.jpeg$/i.test(filename) ? 'jpeg' : format;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[] | string, offset = 0): boolean {
+  const values = typeof signature === 'string' ? Array.from(signature, char => char.charCodeAt(0)) : signature;
+  return values.every((value, index) => bytes[offset + index] === value);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function matchSignature(bytes: Uint8Array): Guess | null {
+  // The PDF header may follow up to 1 KB of (binary) junk; text that merely mentions it doesn't count
+  const pdfHeader = ascii(bytes, 0, 1024).indexOf('%PDF-');
+  if (pdfHeader === 0 || (pdfHeader > 0 && isBinary(bytes.subarray(0, pdfHeader)))) return { format: 'pdf', confidence: 0.99 };
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return { format: 'png', confidence: 0.99 };
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return { format: 'jpg', confidence: 0.99 };
+  if (startsWith(bytes, 'GIF87a') || startsWith(bytes, 'GIF89a')) return { format: 'gif', confidence: 0.99 };
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) return { format: 'webp', confidence: 0.99 };
+  if (startsWith(bytes, 'II*\u0000') || startsWith(bytes, 'MM\u0000*')) return { format: 'tiff', confidence: 0.95 };
+  if (startsWith(bytes, 'ftyp', 4)) {
+    const brand = ascii(bytes, 8, 12);
+    if (AVIF_BRANDS.includes(brand)) return { format: 'avif', confidence: 0.95 };
+    if (HEIC_BRANDS.includes(brand)) return { format: 'heic', confidence: 0.95 };
+  }
+  // "BM" alone is common in text, so check the info header size too
+  if (startsWith(bytes, 'BM') && bytes.length > 18) {
+    const headerSize = bytes[14] | (bytes[15] << 8) | (bytes[16] << 16) | (bytes[17] << 24);
+    if (BMP_HEADER_SIZES.includes(headerSize)) return { format: 'bmp', confidence: 0.9 };
+  }
+  if (startsWith(bytes, '{\\rtf')) return { format: 'rtf', confidence: 0.99 };
+  return null;
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  // Local file header, or the end record of an empty archive
+  return startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06]);
+}
+
+function isCompound(bytes: Uint8Array): boolean {
+  return startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+}
+
+async function inspectZip(bytes: Uint8Array): Promise<SupportedFormat | null> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    return null;
+  }
+
+  const mimetype = zip.file('mimetype');
+  if (mimetype) {
+    const format = PACKAGE_MIMETYPES[(await mimetype.async('string')).trim()];
+    if (format) return format;
+  }
+
+  const contentTypes = zip.file('[Content_Types].xml');
+  if (contentTypes) {
+    const xml = await contentTypes.async('string');
+    const match = OOXML_CONTENT_TYPES.find(([contentType]) => xml.includes(contentType));
+    if (match) return match[1];
+  }
+
+  const part = PACKAGE_PARTS.find(([path]) => zip.file(path));
+  return part ? part[1] : null;
+}
+
+function inspectCompoundFile(bytes: Uint8Array): SupportedFormat | null {
+  try {
+    const container = CFB.read(bytes, { type: 'array' });
+    const stream = COMPOUND_STREAMS.find(([name]) => CFB.find(container, `/${name}`));
+    return stream ? stream[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Best guess at what kind of text this is, strongest evidence first
+ */
+export function sniffTextFormat(content: string): Guess {
+  const text = content.trimStart();
+
+  if (text.startsWith('{\\rtf')) return { format: 'rtf', confidence: 0.99 };
+  if (/^<!doctype html/i.test(text) || /<html[\s>]/i.test(text)) return { format: 'html', confidence: 0.95 };
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)) return { format: 'svg', confidence: 0.95 };
+  if (text.startsWith('<?xml')) return { format: 'xml', confidence: 0.9 };
+  if (/^(\{|\[)/.test(text) && isJSON(text)) return { format: 'json', confidence: 0.95 };
+  if (text.includes('\\documentclass') || text.includes('\\begin{document}')) return { format: 'latex', confidence: 0.95 };
+  if (/<(head|body)[\s>]/i.test(text)) return { format: 'html', confidence: 0.8 };
+  if (/^<([A-Za-z_][\w:.-]*)[^>]*>[\s\S]*<\/\1>\s*$/.test(text)) return { format: 'xml', confidence: 0.7 };
+
+  const delimited = delimitedConfidence(text);
+  if (delimited) return { format: delimited.delimiter === '\t' ? 'tsv' : 'csv', confidence: delimited.confidence };
+
+  // Headings are strong Markdown indicators; lists are weaker and also appear in logs
+  if (/(^|\n)#{1,6}\s/.test(text)) return { format: 'md', confidence: 0.7 };
+  const isLogLine = /(^|\n)(\[|\d{4}-\d{2}-\d{2}|\d{2}:\d{2}:\d{2})/;
+  if ((/(^|\n)([*-]\s|\d+\.\s)/.test(text) || /```|\[[^\]]+\]\([^)]+\)/.test(text)) && !isLogLine.test(text)) {
+    return { format: 'md', confidence: 0.5 };
+  }
+  if (/\\(section|subsection|begin)\{/.test(text)) return { format: 'latex', confidence: 0.6 };
+
+  return { format: 'txt', confidence: 0.5 };
+}
+
+function isJSON(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Confidence that text is delimited data: the same number of fields on every
+ * line for some delimiter. Prose with a comma per sentence doesn't count.
+ */
+function delimitedConfidence(text: string): { delimiter: string; confidence: number } | null {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, CSV_SAMPLE_LINES);
+  if (lines.length < 2) return null;
+  const prose = lines.filter(line => /[.!?]["')]?\s*$/.test(line)).length > lines.length / 2;
+  if (prose) return null;
+
+  let best = 0;
+  let bestDelimiter = ',';
+  // Not '|': Markdown tables would pass for pipe-separated data
+  for (const delimiter of [',', ';', '\t']) {
+    const counts = lines.map(line => countFields(line, delimiter));
+    if (counts[0] < 2) continue;
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    if (consistent > best) {
+      best = consistent;
+      bestDelimiter = delimiter;
+    }
+  }
+  if (best === 1) return { delimiter: bestDelimiter, confidence: lines.length >= 3 ? 0.85 : 0.7 };
+  return best >= 0.8 ? { delimiter: bestDelimiter, confidence: 0.65 } : null;
+}
+
+function countFields(line: string, delimiter: string): number {
+  let fields = 1;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) fields++;
+  }
+  return fields;
+}
+
+// Below this the UI should say the format is a guess
+export const LOW_CONFIDENCE = 0.5;
+
+/**
+ * A warning for the user when the detected format is doubtful or contradicts the file name
+ */
+export function detectionWarning(filename: string, detection: FormatDetection): string | null {
+  const name = detection.format.toUpperCase();
+  if (detection.mismatch && detection.extensionFormat) {
+    return `${filename} looks like ${name}, not ${detection.extensionFormat.toUpperCase()} - it will be converted as ${name}`;
+  }
+  if (detection.confidence < LOW_CONFIDENCE) {
+    return `Couldn't identify ${filename} from its content - treating it as ${name}`;
+  }
+  return null;
+}
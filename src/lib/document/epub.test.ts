@@ -0,0 +1,132 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { readEPUB, writeEPUB } from './epub';
+import { createDocument, inlineText, paragraph } from './utils';
+import type { Block } from './types';
+import { installDOMParser } from '@/test/dom';
+
+beforeAll(installDOMParser);
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+
+async function bookFiles(blob: Blob): Promise<JSZip> {
+  return JSZip.loadAsync(await blob.arrayBuffer());
+}
+
+function blockText(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(item => item.blocks.map(blockText).join(' ')).join(' | ');
+    case 'image':
+      return `image:${block.mimeType}`;
+    default:
+      return block.type;
+  }
+}
+
+// An EPUB 2 book: an NCX table of contents, a chapter without a heading and a footnote page outside the reading order
+async function epub2(extra: Record<string, string> = {}): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file('META-INF/container.xml', '<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="OPS/book.opf"/></rootfiles></container>');
+  zip.file('OPS/book.opf', `<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+    <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Old Book</dc:title><dc:subject>Sea</dc:subject><dc:subject>Travel</dc:subject></metadata>
+    <manifest>
+      <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+      <item id="one" href="text/one.html" media-type="application/xhtml+xml"/>
+      <item id="notes" href="text/notes.html" media-type="application/xhtml+xml"/>
+      <item id="two" href="text/two%20b.html" media-type="application/xhtml+xml"/>
+      <item id="pic" href="img/pic.png" media-type="image/png"/>
+    </manifest>
+    <spine toc="ncx"><itemref idref="one"/><itemref idref="notes" linear="no"/><itemref idref="two"/></spine>
+  </package>`);
+  zip.file('OPS/toc.ncx', `<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/"><navMap>
+    <navPoint><navLabel><text>Chapter One</text></navLabel><content src="text/one.html"/>
+      <navPoint><navLabel><text>Part A</text></navLabel><content src="text/one.html#a"/></navPoint>
+    </navPoint>
+    <navPoint><navLabel><text>Chapter Two</text></navLabel><content src="text/two%20b.html"/></navPoint>
+  </navMap></ncx>`);
+  const page = (body: string) => `<html xmlns="http://www.w3.org/1999/xhtml"><body>${body}</body></html>`;
+  zip.file('OPS/text/one.html', page('<p>It began.</p><p><img src="../img/pic.png" alt="Map"/></p>'));
+  zip.file('OPS/text/notes.html', page('<p>A footnote.</p>'));
+  zip.file('OPS/text/two b.html', page('<h2>Second</h2><p>It ended.</p>'));
+  zip.file('OPS/img/pic.png', PNG);
+  Object.entries(extra).forEach(([path, content]) => zip.file(path, content));
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('writeEPUB', () => {
+  it('packages only image types every reader supports', async () => {
+    const doc = createDocument([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Figures' }] },
+      { type: 'image', data: PNG, mimeType: 'image/png', alt: 'Chart' },
+      { type: 'image', data: new Uint8Array([1, 0, 0, 0, 0x20, 0x45, 0x4d, 0x46]), mimeType: 'image/x-emf', alt: 'Org drawing' }
+    ]);
+    const zip = await bookFiles((await writeEPUB(doc)).blob);
+
+    const opf = await zip.file('OEBPS/content.opf')!.async('string');
+    const mediaTypes = [...opf.matchAll(/href="images\/[^"]+" media-type="([^"]+)"/g)].map(match => match[1]);
+    expect(mediaTypes).toEqual(['image/png']);
+    expect(Object.values(zip.files).filter(file => !file.dir && file.name.startsWith('OEBPS/images/')).map(file => file.name)).toEqual(['OEBPS/images/image-1.png']);
+
+    const chapter = await zip.file('OEBPS/chapter-1.xhtml')!.async('string');
+    expect(chapter).toContain('src="images/image-1.png"');
+    expect(chapter).toContain('<span>Org drawing</span>');
+  });
+
+  it('writes chapters at headings with an EPUB 3 navigation document and an NCX', async () => {
+    const heading = (level: 1 | 2, value: string): Block => ({ type: 'heading', level, children: [{ type: 'text', text: value }] });
+    const doc = createDocument([heading(1, 'Arrival'), paragraph('The ship docks.'), heading(2, 'Departure'), paragraph('It leaves.')]);
+    const zip = await bookFiles((await writeEPUB(doc, { title: 'Voyage', author: 'A. Writer', language: 'fr' })).blob);
+
+    expect(await zip.file('mimetype')!.async('string')).toBe('application/epub+zip');
+    const opf = await zip.file('OEBPS/content.opf')!.async('string');
+    expect(opf).toContain('<dc:title>Voyage</dc:title>');
+    expect(opf).toContain('<dc:creator>A. Writer</dc:creator>');
+    expect(opf).toContain('<dc:language>fr</dc:language>');
+    expect(await zip.file('OEBPS/nav.xhtml')!.async('string')).toContain('<a href="chapter-2.xhtml">Departure</a>');
+    expect(await zip.file('OEBPS/toc.ncx')!.async('string')).toContain('<text>Arrival</text>');
+  });
+});
+
+describe('readEPUB', () => {
+  it('reads back what writeEPUB wrote, one chapter per page', async () => {
+    const doc = createDocument([paragraph('First page.'), { type: 'pageBreak' }, paragraph('Second page.')]);
+    const { blob } = await writeEPUB(doc, { title: 'Round trip', author: 'A. Writer' });
+    const book = await readEPUB(await blob.arrayBuffer());
+
+    expect(book.metadata).toMatchObject({ title: 'Round trip', author: 'A. Writer' });
+    const texts = book.blocks.map(blockText);
+    expect(texts.indexOf('First page.')).toBeGreaterThan(-1);
+    expect(texts.indexOf('First page.')).toBeLessThan(texts.indexOf('Second page.'));
+  });
+
+  it('follows the spine and the NCX, titling chapters without a heading from it', async () => {
+    const book = await readEPUB(await epub2());
+
+    expect(book.blocks.map(blockText)).toEqual([
+      'Contents',
+      'Chapter One Part A | Chapter Two',
+      'pageBreak',
+      'Chapter One',
+      'It began.',
+      'image:image/png',
+      'pageBreak',
+      'Second',
+      'It ended.'
+    ]);
+    expect(book.metadata).toMatchObject({ title: 'Old Book', keywords: ['Sea', 'Travel'] });
+  });
+
+  it('refuses DRM-protected chapters and files that are not books', async () => {
+    const encryption = '<encryption xmlns:enc="http://www.w3.org/2001/04/xmlenc#"><enc:CipherReference URI="OPS/text/one.html"/></encryption>';
+    await expect(readEPUB(await epub2({ 'META-INF/encryption.xml': encryption }))).rejects.toThrow('DRM-protected');
+
+    const zip = new JSZip();
+    zip.file('readme.txt', 'hello');
+    await expect(readEPUB(await zip.generateAsync({ type: 'arraybuffer' }))).rejects.toThrow('Not an EPUB book');
+  });
+});
@@ -0,0 +1,570 @@
+/**
+ * EPUB Reader and Writer
+ * Write a DocumentModel as an EPUB 3 book: one XHTML file per chapter (split at
+ * H1/H2 headings, or at page and section breaks in documents without them), the
+ * EPUB 3 navigation document with a nested table of contents plus an NCX for
+ * EPUB 2 readers, images and stylesheets as package files, and an optional cover.
+ * Read EPUB 2 and 3 books back in spine order, one chapter per page, behind a
+ * table of contents taken from the navigation document or the NCX.
+ */
+
+import JSZip from 'jszip';
+import type { Block, DocumentMetadata, DocumentModel, ListBlock } from './types';
+import { createDocument, escapeXML, externalizeImages, firstHeading, imageExtension, inlineText, mapImages, text, type ImageAsset } from './utils';
+import { writeHTML, writeHTMLInlines } from './writers';
+import { readHTMLBlocks } from './readers';
+import { decodeImage, decodeImagePages } from '../image/decode';
+import { encodeCanvas } from '../image/encode';
+
+export interface EPUBOptions {
+  title?: string; // The document's title or first heading when not set
+  author?: string;
+  language?: string; // BCP 47 tag - the document's language, else 'en'
+  identifier?: string; // ISBN, URN or URL identifying the book (a random urn:uuid when not set)
+  cover?: Blob; // Cover image
+  stylesheet?: string; // CSS applied after the built-in stylesheet
+  chapterLevel?: 1 | 2; // Deepest heading level that starts a chapter (2 by default)
+}
+
+export interface Chapter {
+  title: string; // Empty for the text before the first chapter heading
+  level: number; // Heading level of the chapter in the table of contents (0 for page and section chapters)
+  blocks: Block[];
+}
+
+interface TocEntry {
+  title: string;
+  href: string;
+  level: number;
+  children: TocEntry[];
+}
+
+interface ManifestItem {
+  path: string; // Package path (resolved against the package document's folder)
+  mediaType: string;
+  properties: string[];
+}
+
+// Headings below this level stay out of the table of contents
+const TOC_DEPTH = 3;
+
+// Image types every EPUB reader has to support; others are converted to PNG
+const CORE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/svg+xml', 'image/webp'];
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+const OPS_NS = 'http://www.idpf.org/2007/ops';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 1em; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.2; page-break-after: avoid; }
+p { margin: 0.5em 0; }
+table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+th { background: #eee; font-weight: bold; text-align: left; }
+td, th { border: 1px solid #ddd; padding: 0.5em; }
+pre { white-space: pre-wrap; font-family: monospace; font-size: 0.9em; }
+blockquote { margin: 1em 2em; font-style: italic; }
+figure { margin: 1em 0; text-align: center; }
+figcaption { font-size: 0.9em; }
+img { max-width: 100%; }
+hr.page-break { border: 0; margin: 0; page-break-after: always; }
+.cover { margin: 0; padding: 0; text-align: center; }
+.cover img { max-height: 100%; }
+`;
+
+/**
+ * Chapters at H1/H2 headings (or H1 only with chapterLevel 1); documents without
+ * those headings are split at their page breaks (PDF pages, Word sections)
+ */
+export function splitChapters(doc: DocumentModel, chapterLevel: 1 | 2 = 2): Chapter[] {
+  const startsChapter = (block: Block) => block.type === 'heading' && block.level <= chapterLevel;
+  const byHeadings = doc.blocks.some(startsChapter);
+  const chapters: Chapter[] = [];
+
+  for (const block of doc.blocks) {
+    if (byHeadings && block.type === 'heading' && block.level <= chapterLevel) {
+      chapters.push({ title: inlineText(block.children), level: block.level, blocks: [block] });
+    } else if (!byHeadings && block.type === 'pageBreak') {
+      chapters.push({ title: block.source?.pageNumber ? `Page ${block.source.pageNumber}` : '', level: 0, blocks: [] });
+    } else {
+      if (chapters.length === 0) {
+        chapters.push({ title: '', level: byHeadings ? 1 : 0, blocks: [] });
+      }
+      chapters[chapters.length - 1].blocks.push(block);
+    }
+  }
+
+  const result = chapters.filter(chapter => chapter.blocks.some(block => block.type !== 'pageBreak'));
+  if (!byHeadings) {
+    // Page and section chapters are named after their first heading when they have one
+    const paged = doc.blocks.some(block => block.type === 'pageBreak' && block.source?.pageNumber);
+    result.forEach((chapter, index) => {
+      const heading = chapter.blocks.find(block => block.type === 'heading');
+      const label = paged ? chapter.title || `Page ${index + 1}` : `Section ${index + 1}`;
+      chapter.title = heading && heading.type === 'heading' ? inlineText(heading.children) : result.length > 1 ? label : '';
+    });
+  }
+  return result.length > 0 ? result : [{ title: '', level: 0, blocks: [] }];
+}
+
+/**
+ * The book as an .epub file, with the number of images it holds
+ */
+export async function writeEPUB(doc: DocumentModel, options: EPUBOptions = {}): Promise<{ blob: Blob; imageCount: number }> {
+  const title = options.title || doc.metadata.title || firstHeading(doc) || 'Converted Document';
+  const language = options.language || doc.metadata.language || 'en';
+  const author = options.author || doc.metadata.author;
+  const identifier = options.identifier || `urn:uuid:${crypto.randomUUID()}`;
+
+  const { document: book, assets: images } = externalizeImages(doc, 'images');
+  const chapters = splitChapters(book, options.chapterLevel);
+  // Chapter images in types every reader supports, by the path the chapters use
+  const converted = await Promise.all(images.map(coreImage));
+  const packaged = new Map(images.map((image, index) => [image.path, converted[index]?.path]));
+  const assets = converted.filter((asset): asset is ImageAsset => asset !== null);
+  const cover = options.cover ? await coverImage(options.cover) : null;
+
+  const zip = new JSZip();
+  // The mimetype file comes first and uncompressed, so readers can sniff the type
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`);
+
+  const oebps = zip.folder('OEBPS')!;
+  assets.forEach(asset => oebps.file(asset.path, asset.data));
+  oebps.file('styles/book.css', STYLESHEET);
+  if (options.stylesheet) oebps.file('styles/custom.css', options.stylesheet);
+  const stylesheets = options.stylesheet ? ['styles/book.css', 'styles/custom.css'] : ['styles/book.css'];
+
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    ...stylesheets.map((href, index) => `<item id="css-${index + 1}" href="${href}" media-type="text/css"/>`),
+    ...assets.map((asset, index) => `<item id="image-${index + 1}" href="${escapeXML(asset.path)}" media-type="${asset.mimeType}"/>`)
+  ];
+  const spine: string[] = [];
+
+  if (cover) {
+    const coverPath = `images/cover.${imageExtension(cover.mimeType)}`;
+    oebps.file(coverPath, cover.data);
+    oebps.file('cover.xhtml', xhtmlPage('Cover', language, stylesheets, `<div class="cover"><img src="${coverPath}" alt="${escapeXML(title)}" /></div>`));
+    manifest.push(
+      `<item id="cover-image" href="${coverPath}" media-type="${cover.mimeType}" properties="cover-image"/>`,
+      '<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>'
+    );
+    spine.push('<itemref idref="cover"/>');
+  }
+
+  const toc: { title: string; href: string; level: number }[] = [];
+  chapters.forEach((chapter, index) => {
+    const file = `chapter-${index + 1}.xhtml`;
+    const chapterTitle = chapter.title || title;
+    toc.push({ title: chapterTitle, href: file, level: chapter.level });
+
+    let headingCount = 0;
+    const body = chapter.blocks.map(block => {
+      if (block.type !== 'heading') return writeHTML(createDocument([block]));
+      const id = `h${index + 1}-${++headingCount}`;
+      // The heading that names the chapter is the chapter's own entry
+      const namesChapter = headingCount === 1 && inlineText(block.children) === chapter.title;
+      if (!namesChapter && block.level <= TOC_DEPTH) {
+        toc.push({ title: inlineText(block.children), href: `${file}#${id}`, level: block.level });
+      }
+      return `<h${block.level} id="${id}">${writeHTMLInlines(block.children)}</h${block.level}>`;
+    }).join('\n');
+
+    const html = packagedImages(body, packaged);
+    oebps.file(file, xhtmlPage(chapterTitle, language, stylesheets, `<section epub:type="chapter">\n${html}\n</section>`));
+    // MathML and images linked from the web are allowed, but have to be declared
+    const properties = [
+      ...(html.includes('<math ') ? ['mathml'] : []),
+      ...(/<img [^>]*src="https?:/.test(html) ? ['remote-resources'] : [])
+    ];
+    const attribute = properties.length > 0 ? ` properties="${properties.join(' ')}"` : '';
+    manifest.push(`<item id="chapter-${index + 1}" href="${file}" media-type="application/xhtml+xml"${attribute}/>`);
+    spine.push(`<itemref idref="chapter-${index + 1}"/>`);
+  });
+
+  const entries = nestEntries(toc);
+  oebps.file('nav.xhtml', xhtmlPage(title, language, stylesheets, `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+${navList(entries)}
+</nav>`));
+  oebps.file('toc.ncx', ncx(title, identifier, entries));
+
+  // dcterms:modified is required, to the second and in UTC
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  oebps.file('content.opf', xmlText(`<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXML(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXML(identifier)}</dc:identifier>
+    <dc:title>${escapeXML(title)}</dc:title>
+    <dc:language>${escapeXML(language)}</dc:language>${author ? `
+    <dc:creator>${escapeXML(author)}</dc:creator>` : ''}${doc.metadata.subject ? `
+    <dc:subject>${escapeXML(doc.metadata.subject)}</dc:subject>` : ''}
+    <meta property="dcterms:modified">${modified}</meta>${cover ? `
+    <meta name="cover" content="cover-image"/>` : ''}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine toc="ncx">
+    ${spine.join('\n    ')}
+  </spine>
+</package>`));
+
+  const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+  return { blob, imageCount: assets.length + (cover ? 1 : 0) };
+}
+
+function xhtmlPage(title: string, language: string, stylesheets: string[], body: string): string {
+  return xmlText(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXML(language)}" lang="${escapeXML(language)}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeXML(title)}</title>
+${stylesheets.map(href => `  <link rel="stylesheet" type="text/css" href="${href}" />`).join('\n')}
+</head>
+<body>
+${body}
+</body>
+</html>`);
+}
+
+// Control characters (form feeds in PDF text and the like) are not allowed in XML
+function xmlText(value: string): string {
+  return value.replace(/[^\t\n\r\u0020-\uFFFD]/g, '');
+}
+
+/**
+ * Images must be in the package or on the web; any other reference (a local
+ * path from the source document, or an image that couldn't be converted) is
+ * replaced by its alt text
+ */
+function packagedImages(html: string, packaged: Map<string, string | undefined>): string {
+  return html.replace(/<img src="([^"]*)" alt="([^"]*)"[^>]*\/>/g, (img, src: string, alt: string) => {
+    const path = packaged.get(src);
+    if (path) return img.replace(`src="${src}"`, `src="${path}"`);
+    return /^https?:/.test(src) ? img : alt ? `<span>${alt}</span>` : '';
+  });
+}
+
+// Flat entries in reading order -> a tree, each entry under the closest shallower one before it
+function nestEntries(flat: { title: string; href: string; level: number }[]): TocEntry[] {
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+  for (const item of flat) {
+    const entry: TocEntry = { ...item, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : root).push(entry);
+    stack.push(entry);
+  }
+  return root;
+}
+
+function navList(entries: TocEntry[]): string {
+  const items = entries.map(entry =>
+    `<li><a href="${escapeXML(entry.href)}">${escapeXML(entry.title)}</a>${entry.children.length > 0 ? `\n${navList(entry.children)}\n` : ''}</li>`);
+  return `<ol>\n${items.join('\n')}\n</ol>`;
+}
+
+function ncx(title: string, identifier: string, entries: TocEntry[]): string {
+  let playOrder = 0;
+  const depth = (list: TocEntry[]): number => list.length === 0 ? 0 : 1 + Math.max(...list.map(entry => depth(entry.children)));
+  const navPoints = (list: TocEntry[], indent: string): string => list.map(entry => {
+    const order = ++playOrder;
+    return `${indent}<navPoint id="nav-${order}" playOrder="${order}">
+${indent}  <navLabel><text>${escapeXML(entry.title)}</text></navLabel>
+${indent}  <content src="${escapeXML(entry.href)}"/>
+${navPoints(entry.children, indent + '  ')}${indent}</navPoint>
+`;
+  }).join('');
+
+  return xmlText(`<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXML(identifier)}"/>
+    <meta name="dtb:depth" content="${Math.max(1, depth(entries))}"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXML(title)}</text></docTitle>
+  <navMap>
+${navPoints(entries, '    ')}  </navMap>
+</ncx>`);
+}
+
+// A chapter image every reader can show: other types become PNG, and those the
+// browser can't decode (EMF and WMF drawings) are left out
+async function coreImage(asset: ImageAsset): Promise<ImageAsset | null> {
+  if (asset.mimeType === 'image/jpg') return { ...asset, mimeType: 'image/jpeg' };
+  if (CORE_IMAGE_TYPES.includes(asset.mimeType)) return asset;
+  try {
+    const [canvas] = await decodeImagePages(asset.data.slice().buffer, asset.mimeType.replace(/^image\//, ''));
+    const png = await encodeCanvas(canvas, 'png');
+    return { path: asset.path.replace(/\.\w+$/, '.png'), data: new Uint8Array(await png.arrayBuffer()), mimeType: 'image/png' };
+  } catch {
+    return null;
+  }
+}
+
+// The cover as a file every reader can show
+async function coverImage(cover: Blob): Promise<{ data: Uint8Array; mimeType: string }> {
+  if (CORE_IMAGE_TYPES.includes(cover.type)) {
+    return { data: new Uint8Array(await cover.arrayBuffer()), mimeType: cover.type };
+  }
+  const png = await encodeCanvas(await decodeImage(cover), 'png');
+  return { data: new Uint8Array(await png.arrayBuffer()), mimeType: 'image/png' };
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/**
+ * Read an EPUB book: the spine documents in reading order (skipping those marked
+ * linear="no", such as footnote pages), each starting on a new page, with the
+ * table of contents in front. Package images are carried as bytes.
+ */
+export async function readEPUB(data: ArrayBuffer): Promise<DocumentModel> {
+  const zip = await JSZip.loadAsync(data);
+  const container = await readXMLFile(zip, 'META-INF/container.xml');
+  const packagePath = container && elementsByName(container, 'rootfile')[0]?.getAttribute('full-path');
+  const opf = packagePath ? await readXMLFile(zip, packagePath) : null;
+  if (!packagePath || !opf) {
+    throw new Error('Not an EPUB book (META-INF/container.xml or the package document is missing)');
+  }
+  const folder = folderOf(packagePath);
+
+  const manifest = new Map<string, ManifestItem>();
+  elementsByName(opf, 'item').forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) return;
+    manifest.set(id, {
+      path: resolvePath(folder, decodeHref(href)),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: (item.getAttribute('properties') || '').split(/\s+/)
+    });
+  });
+
+  // Font obfuscation also lists files here; encrypted chapters mean DRM
+  const encryption = await readXMLFile(zip, 'META-INF/encryption.xml');
+  const encrypted = new Set(encryption
+    ? elementsByName(encryption, 'CipherReference').map(reference => resolvePath('', decodeHref(reference.getAttribute('URI') || '')))
+    : []);
+
+  const images = new Map<string, { data: Uint8Array; mimeType: string }>();
+  for (const item of manifest.values()) {
+    const file = zip.file(item.path);
+    if (file && item.mediaType.startsWith('image/')) {
+      images.set(item.path, { data: await file.async('uint8array'), mimeType: item.mediaType });
+    }
+  }
+
+  const spine = elementsByName(opf, 'spine')[0];
+  const nav = [...manifest.values()].find(item => item.properties.includes('nav'));
+  const ncxItem = manifest.get(spine?.getAttribute('toc') || '')
+    || [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+  let toc = nav ? await readNav(zip, nav.path) : [];
+  if (toc.length === 0 && ncxItem) {
+    toc = await readNCX(zip, ncxItem.path);
+  }
+
+  // A chapter without a heading of its own is titled by its table of contents entry
+  const titles = new Map<string, string>();
+  const collectTitles = (entries: TocEntry[]) => entries.forEach(entry => {
+    const path = entry.href.split('#')[0];
+    if (!titles.has(path)) titles.set(path, entry.title);
+    collectTitles(entry.children);
+  });
+  collectTitles(toc);
+
+  const blocks: Block[] = [];
+  if (toc.length > 0) {
+    blocks.push({ type: 'heading', level: 1, children: [text('Contents')] }, tocList(toc));
+  }
+
+  const itemrefs = spine ? elementsByName(spine, 'itemref') : [];
+  for (const itemref of itemrefs) {
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || item === nav || itemref.getAttribute('linear') === 'no') continue;
+    if (item.mediaType !== 'application/xhtml+xml' && item.mediaType !== 'text/html') continue;
+    if (encrypted.has(item.path)) {
+      throw new Error('This EPUB is DRM-protected and cannot be read');
+    }
+
+    const page = await readXHTMLFile(zip, item.path);
+    if (!page) continue;
+    const body = elementsByName(page, 'body')[0] || page.documentElement;
+    svgImagesToImg(body);
+
+    const chapterFolder = folderOf(item.path);
+    const chapter = mapImages(readHTMLBlocks(body), image => {
+      if (!image.src || /^[a-z][a-z0-9+.-]*:/i.test(image.src)) return image; // Data URLs and web images
+      const bytes = images.get(resolvePath(chapterFolder, decodeHref(image.src)));
+      return bytes ? { ...image, src: undefined, ...bytes } : image;
+    });
+    if (chapter.length === 0) continue;
+
+    const title = titles.get(item.path);
+    if (title && !chapter.some(block => block.type === 'heading')) {
+      chapter.unshift({ type: 'heading', level: 1, children: [text(title)] });
+    }
+    if (blocks.length > 0) blocks.push({ type: 'pageBreak' });
+    blocks.push(...chapter);
+  }
+
+  return createDocument(blocks, readPackageMetadata(opf));
+}
+
+function readPackageMetadata(opf: Document): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  const container = elementsByName(opf, 'metadata')[0];
+  if (!container) return metadata;
+
+  const value = (name: string) => elementsByName(container, name)
+    .map(element => element.textContent?.trim() || '')
+    .filter(Boolean);
+  const [title] = value('title');
+  const [author] = value('creator');
+  const [language] = value('language');
+  const [date] = value('date');
+  const subjects = value('subject');
+  if (title) metadata.title = title;
+  if (author) metadata.author = author;
+  if (language) metadata.language = language;
+  if (date) metadata.createdAt = date;
+  if (subjects.length > 0) metadata.keywords = subjects;
+  return metadata;
+}
+
+// EPUB 3: the <nav epub:type="toc"> list in the navigation document
+async function readNav(zip: JSZip, path: string): Promise<TocEntry[]> {
+  const page = await readXHTMLFile(zip, path);
+  if (!page) return [];
+  const navs = elementsByName(page, 'nav');
+  const toc = navs.find(nav => (nav.getAttributeNS(OPS_NS, 'type') || nav.getAttribute('epub:type') || '').split(/\s+/).includes('toc'))
+    || navs[0];
+  const list = toc && childElements(toc).find(child => child.localName === 'ol' || child.localName === 'ul');
+  return list ? navEntries(list, folderOf(path), 1) : [];
+}
+
+function navEntries(list: Element, folder: string, level: number): TocEntry[] {
+  return childElements(list).filter(item => item.localName === 'li').map(item => {
+    const label = childElements(item).find(child => child.localName === 'a' || child.localName === 'span');
+    const href = label?.getAttribute('href');
+    const sublist = childElements(item).find(child => child.localName === 'ol' || child.localName === 'ul');
+    return {
+      title: (label?.textContent || '').replace(/\s+/g, ' ').trim(),
+      href: href ? resolvePath(folder, decodeHref(href)) : '',
+      level,
+      children: sublist ? navEntries(sublist, folder, level + 1) : []
+    };
+  }).filter(entry => entry.title);
+}
+
+// EPUB 2: the NCX navMap
+async function readNCX(zip: JSZip, path: string): Promise<TocEntry[]> {
+  const ncxDocument = await readXMLFile(zip, path);
+  const navMap = ncxDocument && elementsByName(ncxDocument, 'navMap')[0];
+  return navMap ? navPointEntries(navMap, folderOf(path), 1) : [];
+}
+
+function navPointEntries(parent: Element, folder: string, level: number): TocEntry[] {
+  return childElements(parent).filter(point => point.localName === 'navPoint').map(point => {
+    const label = childElements(point).find(child => child.localName === 'navLabel');
+    const src = childElements(point).find(child => child.localName === 'content')?.getAttribute('src');
+    return {
+      title: (label?.textContent || '').replace(/\s+/g, ' ').trim(),
+      href: src ? resolvePath(folder, decodeHref(src)) : '',
+      level,
+      children: navPointEntries(point, folder, level + 1)
+    };
+  }).filter(entry => entry.title);
+}
+
+function tocList(entries: TocEntry[]): ListBlock {
+  return {
+    type: 'list',
+    ordered: false,
+    items: entries.map(entry => ({
+      blocks: [
+        { type: 'paragraph', children: [text(entry.title)] },
+        ...(entry.children.length > 0 ? [tocList(entry.children)] : [])
+      ]
+    }))
+  };
+}
+
+/**
+ * Covers and illustrations are often an <svg> wrapping an <image>; make them
+ * plain <img> elements so the HTML reader picks them up
+ */
+function svgImagesToImg(body: Element): void {
+  elementsByName(body, 'svg').forEach(svg => {
+    const image = elementsByName(svg, 'image')[0];
+    const href = image && (image.getAttributeNS(XLINK_NS, 'href') || image.getAttribute('href'));
+    if (!href) return;
+    const img = svg.ownerDocument.createElementNS(XHTML_NS, 'img');
+    img.setAttribute('src', href);
+    const title = elementsByName(svg, 'title')[0]?.textContent?.trim();
+    if (title) img.setAttribute('alt', title);
+    svg.parentNode?.replaceChild(img, svg);
+  });
+}
+
+async function readXMLFile(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('XML parsing is not available in this environment');
+  }
+  const xml = new DOMParser().parseFromString(await file.async('text'), 'application/xml');
+  return xml.getElementsByTagName('parsererror').length > 0 ? null : xml;
+}
+
+// Chapters that aren't well-formed XML (HTML entities, unclosed tags) are read as HTML
+async function readXHTMLFile(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  const source = await file.async('text');
+  const xhtml = new DOMParser().parseFromString(source, 'application/xhtml+xml');
+  return xhtml.getElementsByTagName('parsererror').length > 0
+    ? new DOMParser().parseFromString(source, 'text/html')
+    : xhtml;
+}
+
+function folderOf(path: string): string {
+  return path.slice(0, path.lastIndexOf('/') + 1);
+}
+
+// Package path of an href relative to `folder`, keeping any #fragment
+function resolvePath(folder: string, href: string): string {
+  const parts: string[] = [];
+  (href.startsWith('/') ? href.slice(1) : folder + href).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function decodeHref(href: string): string {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href; // A stray % that isn't an escape
+  }
+}
+
+function childElements(parent: Element): Element[] {
+  return Array.from(parent.childNodes).filter((node): node is Element => node.nodeType === 1);
+}
+
+function elementsByName(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { readLaTeX, writeLaTeX } from './latex';
+import { createDocument, inlineText, paragraph, text } from './utils';
+import type { Block } from './types';
+
+function blockText(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `h${block.level}:${inlineText(block.children)}`;
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return `${block.ordered ? 'ol' : 'ul'}:${block.items.map(item => item.blocks.map(blockText).join(' ')).join(' | ')}`;
+    case 'table':
+      return block.rows.map(row => row.cells.map(cell => inlineText(cell.children)).join(',')).join(';');
+    case 'math':
+      return `math:${block.tex}`;
+    case 'code':
+      return `code:${block.language ?? ''}:${block.text}`;
+    default:
+      return block.type;
+  }
+}
+
+const ARTICLE = String.raw`\documentclass{article}
+\usepackage[ngerman]{babel}
+\newcommand{\product}{Widget}
+\title{Quarterly \product{} report}
+\author{Ann \and Bob}
+\begin{document}
+\maketitle
+\section{Results}\label{sec:results}
+Sales of the \product{} rose by 10\% % not counted yet
+in \textbf{every} region.\footnote{Except the north.}
+
+\subsection*{Regions}
+\begin{itemize}
+  \item North
+  \item South
+\end{itemize}
+\begin{enumerate}
+  \item First
+\end{enumerate}
+\begin{table}
+\begin{tabular}{lr}
+\toprule
+Region & Sales \\
+\midrule
+North & 12 \\
+\bottomrule
+\end{tabular}
+\end{table}
+\begin{equation}
+E = mc^2
+\end{equation}
+See Section~\ref{sec:results} and $a^2$.
+\begin{verbatim}
+100% literal \textbf{x}
+\end{verbatim}
+\end{document}`;
+
+describe('readLaTeX', () => {
+  it('reads the title block, sectioning, lists, tables, math and verbatim text', () => {
+    const doc = readLaTeX(ARTICLE);
+
+    expect(doc.blocks.map(blockText)).toEqual([
+      'h1:Quarterly Widget report',
+      'Ann, Bob',
+      'h2:Results',
+      'Sales of the Widget rose by 10% in every region.1',
+      'h3:Regions',
+      'ul:North | South',
+      'ol:First',
+      'Region,Sales;North,12',
+      'math:E = mc^2 \\tag{1}',
+      'See Section\u00a01 and a^2.',
+      'code::100% literal \\textbf{x}',
+      'rule',
+      '1 Except the north.'
+    ]);
+    expect(doc.metadata).toEqual({ title: 'Quarterly Widget report', author: 'Ann, Bob', language: 'de' });
+  });
+
+  it('keeps text styles as marks and inline math as math', () => {
+    const [block] = readLaTeX(String.raw`Plain \textbf{bold \emph{both}} and $x_1$.`).blocks;
+    expect(block.type === 'paragraph' && block.children).toEqual([
+      text('Plain '),
+      text('bold ', ['bold']),
+      text('both', ['bold', 'italic']),
+      text(' and '),
+      { type: 'math', tex: 'x_1' },
+      text('.')
+    ]);
+  });
+
+  it('reads listings with their language', () => {
+    const doc = readLaTeX(String.raw`\begin{lstlisting}[language=Python]
+print("50%")
+\end{lstlisting}`);
+    expect(doc.blocks.map(blockText)).toEqual(['code:python:print("50%")']);
+  });
+});
+
+describe('writeLaTeX', () => {
+  it('writes a complete article that loads only the packages the content needs', () => {
+    const { latex } = writeLaTeX(createDocument([paragraph('Plain text.')]));
+
+    expect(latex.startsWith('\\documentclass{article}\n\\usepackage[utf8]{inputenc}\n\\usepackage[T1]{fontenc}\n\\usepackage[margin=1in]{geometry}\n')).toBe(true);
+    expect(latex).not.toContain('booktabs');
+    expect(latex).not.toContain('\\maketitle');
+    expect(latex).toContain('\\begin{document}\n\nPlain text.\n\n\\end{document}');
+  });
+
+  it('escapes special characters and turns a title heading into \\maketitle', () => {
+    const doc = createDocument([
+      { type: 'heading', level: 1, children: [text('Costs & Benefits')] },
+      { type: 'heading', level: 2, children: [text('Overview')] },
+      paragraph('50% of $10_000 in #3 {draft} ~ ^ \\')
+    ], { author: 'Ann' });
+    const { latex } = writeLaTeX(doc);
+
+    expect(latex).toContain('\\title{Costs \\& Benefits}');
+    expect(latex).toContain('\\author{Ann}');
+    expect(latex).toContain('\\maketitle');
+    expect(latex).toContain('\\section{Overview}');
+    expect(latex).toContain('50\\% of \\$10\\_000 in \\#3 \\{draft\\} \\textasciitilde{} \\textasciicircum{} \\textbackslash{}');
+  });
+
+  it('uses chapters in chaptered classes and adds the caller\'s packages and options', () => {
+    const doc = createDocument([{ type: 'heading', level: 1, children: [text('One')] }, { type: 'heading', level: 1, children: [text('Two')] }], { title: 'Book' });
+    const { latex } = writeLaTeX(doc, { documentClass: 'book', classOptions: '[11pt,a4paper]', packages: ['geometry[margin=2cm]', 'microtype', '\\setlength{\\parskip}{1em}'] });
+
+    expect(latex).toContain('\\documentclass[11pt,a4paper]{book}');
+    expect(latex).toContain('\\chapter{One}');
+    expect(latex).toContain('\\usepackage[margin=2cm]{geometry}');
+    expect(latex).not.toContain('margin=1in');
+    expect(latex).toContain('\\usepackage{microtype}');
+    expect(latex).toContain('\\setlength{\\parskip}{1em}');
+  });
+
+  it('writes tables with booktabs and math with amsmath', () => {
+    const doc = createDocument([
+      { type: 'table', headerRows: 1, rows: [{ cells: [{ children: [text('Region')] }, { children: [text('Sales')], align: 'right' }] }, { cells: [{ children: [text('North')] }, { children: [text('12')], align: 'right' }] }] },
+      { type: 'math', tex: 'E = mc^2' }
+    ]);
+    const { latex } = writeLaTeX(doc);
+
+    expect(latex).toContain('\\usepackage{amsmath}\n\\usepackage{booktabs}');
+    expect(latex).toContain('\\begin{tabular}{lr}\n\\toprule\n\\textbf{Region} & \\textbf{Sales} \\\\\n\\midrule\nNorth & 12 \\\\\n\\bottomrule\n\\end{tabular}');
+    expect(latex).toContain('\\[\nE = mc^2\n\\]');
+  });
+
+  it('writes ASCII code as listings and other code as verbatim', () => {
+    const doc = createDocument([
+      { type: 'code', language: 'python', text: 'print("hi")' },
+      { type: 'code', language: 'python', text: 'print("héllo")' },
+      { type: 'code', text: 'plain' }
+    ]);
+    const { latex } = writeLaTeX(doc);
+
+    expect(latex).toContain('\\usepackage{listings}');
+    expect(latex).toContain('\\begin{lstlisting}[language=Python]\nprint("hi")\n\\end{lstlisting}');
+    expect(latex).toContain('\\begin{verbatim}\nprint("héllo")\n\\end{verbatim}');
+    expect(latex).toContain('\\begin{verbatim}\nplain\n\\end{verbatim}');
+  });
+
+  it('reads back what it wrote', () => {
+    const doc = createDocument([
+      { type: 'heading', level: 1, children: [text('Notes')] },
+      { type: 'heading', level: 2, children: [text('Plan')] },
+      paragraph('Ship 50% & more.'),
+      { type: 'list', ordered: true, items: [{ blocks: [paragraph('Draft')] }, { blocks: [paragraph('Review')] }] }
+    ], { createdAt: '2025-01-31T09:00:00Z' });
+    const back = readLaTeX(writeLaTeX(doc).latex);
+
+    expect(back.metadata.title).toBe('Notes');
+    expect(back.blocks.map(blockText)).toEqual(['h1:Notes', 'DocConverter Pro', '2025-01-31', 'h2:Plan', 'Ship 50% & more.', 'ol:Draft | Review']);
+  });
+});
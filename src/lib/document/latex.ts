@@ -0,0 +1,1495 @@
+/**
+ * LaTeX Reader and Writer
+ * Write a DocumentModel as a complete LaTeX document: sections (chapters in the
+ * report and book classes), lists, booktabs tables with spanning cells, figures,
+ * hyperlinks, listings and verbatim code, and math passed through as TeX. Only
+ * the packages the content needs are loaded, plus any the caller adds.
+ * Read common article-class documents back: the title block, sectioning, text
+ * styles, lists, tabular environments, floats with captions, footnotes, math,
+ * cross-references, citations and thebibliography.
+ */
+
+import type { Block, CodeBlock, DocumentMetadata, DocumentModel, Inline, InlineMark, ListBlock, TableBlock, TableCell, TableRow } from './types';
+import {
+  createDocument,
+  escapeLaTeX,
+  firstHeading,
+  imageBytes,
+  imageExtension,
+  inlineText,
+  mapImages,
+  readImageSize,
+  text,
+  walkBlocks,
+  type ImageAsset
+} from './utils';
+import { trimInlines } from './readers';
+
+export interface LaTeXOptions {
+  documentClass?: string; // 'article' by default; report, book and other chaptered classes turn H1 into \chapter
+  classOptions?: string; // Such as "11pt,a4paper"
+  packages?: string[]; // "name" or "name[options]"; lines starting with "\" go into the preamble as written
+}
+
+// ---------------------------------------------------------------------------
+// Writer
+// ---------------------------------------------------------------------------
+
+// Sectioning commands by heading level
+const ARTICLE_SECTIONS = ['section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph', 'subparagraph'];
+const CHAPTER_SECTIONS = ['chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
+const CHAPTER_CLASSES = new Set(['report', 'book', 'memoir', 'scrreprt', 'scrbook']);
+
+const LATEX_MARKS: Record<InlineMark, string> = {
+  bold: 'textbf',
+  italic: 'textit',
+  code: 'texttt',
+  strike: 'sout',
+  underline: 'underline',
+  superscript: 'textsuperscript',
+  subscript: 'textsubscript'
+};
+
+// Image types pdfLaTeX can include; others are written as a placeholder
+const LATEX_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/jpg']);
+
+// listings' names for the languages Markdown code fences use
+const LISTINGS_LANGUAGES: Record<string, string> = {
+  bash: 'bash', sh: 'sh', shell: 'bash', c: 'C', cpp: 'C++', 'c++': 'C++', fortran: 'Fortran', haskell: 'Haskell',
+  html: 'HTML', java: 'Java', latex: '[LaTeX]TeX', tex: 'TeX', lisp: 'Lisp', lua: 'Lua', matlab: 'Matlab',
+  pascal: 'Pascal', perl: 'Perl', php: 'PHP', python: 'Python', py: 'Python', r: 'R', ruby: 'Ruby', rb: 'Ruby',
+  sql: 'SQL', xml: 'XML'
+};
+
+// Packages the content can call for, in loading order (hyperref goes last, after the caller's packages)
+const CONTENT_PACKAGES = ['amsmath', 'amssymb', 'graphicx', 'booktabs', 'multirow', 'listings', 'ulem'];
+const PACKAGE_OPTIONS: Record<string, string> = { ulem: 'normalem' };
+const BASE_PACKAGES: [string, string][] = [['inputenc', 'utf8'], ['fontenc', 'T1'], ['geometry', 'margin=1in']];
+
+// Display environments that can't go inside \[ \]
+const DISPLAY_ENVIRONMENT = /^\\begin\{(equation|align|alignat|flalign|gather|multline|eqnarray)\*?\}/;
+
+// Text width in points, for sizing images given in pixels
+const TEXT_WIDTH_PT = 468;
+
+/**
+ * The .tex source, and the embedded images it includes from images/
+ */
+export function writeLaTeX(doc: DocumentModel, options: LaTeXOptions = {}): { latex: string; assets: ImageAsset[] } {
+  const documentClass = options.documentClass?.trim() || 'article';
+  const sections = CHAPTER_CLASSES.has(documentClass) ? CHAPTER_SECTIONS : ARTICLE_SECTIONS;
+  const used = new Set<string>();
+  const assets: ImageAsset[] = [];
+
+  // Embedded PNG and JPEG images become files next to the document
+  let blocks = mapImages(doc.blocks, image => {
+    const bytes = imageBytes(image);
+    if (!bytes || !LATEX_IMAGE_TYPES.has(bytes.mimeType)) return image;
+    const size = readImageSize(bytes.data);
+    const path = `images/image-${assets.length + 1}.${imageExtension(bytes.mimeType)}`;
+    assets.push({ path, data: bytes.data, mimeType: bytes.mimeType });
+    return { ...image, src: path, data: undefined, width: image.width || size?.width, height: image.height || size?.height };
+  });
+  const packaged = new Set(assets.map(asset => asset.path));
+
+  // An opening H1 that repeats the title becomes \maketitle, and the headings under it move up a level
+  const title = doc.metadata.title || firstHeading(doc);
+  let shift = 0;
+  const first = blocks[0];
+  if (title && first?.type === 'heading' && first.level === 1 && inlineText(first.children).trim() === title.trim()) {
+    blocks = blocks.slice(1);
+    if (!blocks.some(block => block.type === 'heading' && block.level === 1)) shift = 1;
+  }
+
+  const inlines = (items: Inline[], lineBreak = '\\\\\n'): string => items.map(inline => {
+    switch (inline.type) {
+      case 'text':
+        return (inline.marks || []).reduceRight((value, mark) => {
+          if (mark === 'strike') used.add('ulem');
+          return `\\${LATEX_MARKS[mark]}{${value}}`;
+        }, escapeLaTeX(inline.text.replace(/\n\s*\n/g, '\n')));
+      case 'link': {
+        const label = inlines(inline.children, ' ');
+        if (inline.href.startsWith('#')) return label;
+        used.add('hyperref');
+        const url = latexURL(inline.href);
+        return inlineText(inline.children) === inline.href ? `\\url{${url}}` : `\\href{${url}}{${label}}`;
+      }
+      case 'image':
+        return image(inline);
+      case 'lineBreak':
+        return lineBreak;
+      case 'math':
+        used.add('amsmath');
+        return `$${inline.tex}$`;
+    }
+  }).join('');
+
+  const image = (source: { src?: string; alt?: string; width?: number }): string => {
+    const alt = escapeLaTeX(`[Image${source.alt ? `: ${source.alt}` : ''}]`);
+    if (source.src && packaged.has(source.src)) {
+      used.add('graphicx');
+      const points = source.width ? Math.round(source.width * 0.75) : 0;
+      const width = !points || points >= TEXT_WIDTH_PT ? '\\linewidth' : `${points}pt`;
+      return `\\includegraphics[width=${width}]{${source.src}}`;
+    }
+    if (source.src && /^https?:/i.test(source.src)) {
+      used.add('hyperref');
+      return `\\href{${latexURL(source.src)}}{${alt}}`;
+    }
+    return alt;
+  };
+
+  const table = (block: TableBlock): string => {
+    // Place each cell on the grid, skipping the columns row spans from above cover
+    const covered: number[] = [];
+    const layout = block.rows.map(row => {
+      const cells = new Map<number, TableCell>();
+      let column = 0;
+      row.cells.forEach(cell => {
+        while ((covered[column] || 0) > 0) column++;
+        cells.set(column, cell);
+        for (let offset = 0; offset < (cell.colSpan || 1); offset++) covered[column + offset] = cell.rowSpan || 1;
+        column += cell.colSpan || 1;
+      });
+      covered.forEach((rows, index) => { covered[index] = Math.max(0, rows - 1); });
+      return cells;
+    });
+    const columnCount = Math.max(0, ...layout.map(cells => Math.max(0, ...[...cells].map(([column, cell]) => column + (cell.colSpan || 1)))));
+    if (columnCount === 0) return '';
+
+    // Column alignment from the first body row, and paragraph columns when the text is long
+    const alignRow = layout[block.headerRows] || layout[0];
+    const aligns = Array.from({ length: columnCount }, (_, column) => (alignRow.get(column)?.align || 'left')[0]);
+    const lengths = Array.from({ length: columnCount }, (_, column) => Math.max(8, ...layout.map(cells => {
+      const cell = cells.get(column);
+      return cell && (cell.colSpan || 1) === 1 ? inlineText(cell.children).length : 0;
+    })));
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    const wrap = total > 90;
+    const spec = wrap
+      ? lengths.map(length => `p{${(length / total * 0.9).toFixed(2)}\\linewidth}`).join('')
+      : aligns.join('');
+
+    const lines = layout.map((cells, rowIndex) => {
+      const values: string[] = [];
+      for (let column = 0; column < columnCount;) {
+        const cell = cells.get(column);
+        if (!cell) {
+          values.push('');
+          column++;
+          continue;
+        }
+        let value = inlines(cell.children, wrap ? '\\newline ' : ' ').trim();
+        if (rowIndex < block.headerRows && !cell.children.some(inline => inline.type === 'text' && inline.marks?.includes('bold'))) {
+          value = value && `\\textbf{${value}}`;
+        }
+        if ((cell.rowSpan || 1) > 1) {
+          used.add('multirow');
+          value = `\\multirow{${cell.rowSpan}}{*}{${value}}`;
+        }
+        const span = cell.colSpan || 1;
+        const align = (cell.align || 'left')[0];
+        if (span > 1 || (!wrap && align !== aligns[column])) value = `\\multicolumn{${span}}{${align}}{${value}}`;
+        values.push(value);
+        column += span;
+      }
+      return `${values.join(' & ')} \\\\${rowIndex === block.headerRows - 1 ? '\n\\midrule' : ''}`;
+    });
+
+    used.add('booktabs');
+    const tabular = `\\begin{tabular}{${spec}}\n\\toprule\n${lines.join('\n')}\n\\bottomrule\n\\end{tabular}`;
+    return block.caption
+      ? `\\begin{table}[!htbp]\n\\centering\n\\caption{${escapeLaTeX(block.caption)}}\n${tabular}\n\\end{table}`
+      : `\\begin{center}\n${tabular}\n\\end{center}`;
+  };
+
+  const code = (block: CodeBlock): string => {
+    const language = LISTINGS_LANGUAGES[(block.language || '').toLowerCase()];
+    // listings can't take non-ASCII input, so other text stays verbatim
+    if (language && /^\p{ASCII}*$/u.test(block.text) && !block.text.includes('\\end{lstlisting}')) {
+      used.add('listings');
+      return `\\begin{lstlisting}[language=${language}]\n${block.text}\n\\end{lstlisting}`;
+    }
+    return `\\begin{verbatim}\n${block.text.replace(/\\end\{verbatim\}/g, '\\end {verbatim}')}\n\\end{verbatim}`;
+  };
+
+  const block = (item: Block, depth: number): string => {
+    switch (item.type) {
+      case 'heading': {
+        const level = Math.max(1, item.level - shift);
+        return `\\${sections[level - 1]}{${inlines(item.children.filter(inline => inline.type !== 'image'), ' ').trim()}}`;
+      }
+      case 'paragraph':
+        // A line break at either end is an error in LaTeX ("There's no line here to end")
+        return inlines(trimLineBreaks(item.children)).trim();
+      case 'list': {
+        const env = item.ordered ? 'enumerate' : 'itemize';
+        const counter = `enum${['i', 'ii', 'iii', 'iv'][Math.min(depth, 3)]}`;
+        const start = item.ordered && item.start !== undefined && item.start !== 1 ? `\n  \\setcounter{${counter}}{${item.start - 1}}` : '';
+        const items = item.items.map(listItem => {
+          if (listItem.checked !== undefined) used.add('amssymb');
+          const marker = listItem.checked === undefined ? '\\item' : `\\item[${listItem.checked ? '$\\boxtimes$' : '$\\square$'}]`;
+          const body = listItem.blocks.map(child => block(child, child.type === 'list' ? depth + 1 : depth)).filter(Boolean).join('\n\n');
+          // A bracket right after \item would be read as its label
+          return `  ${marker}${body ? ` ${body.startsWith('[') ? '{}' : ''}${body}` : ''}`;
+        });
+        return `\\begin{${env}}${start}\n${items.join('\n')}\n\\end{${env}}`;
+      }
+      case 'table':
+        return table(item);
+      case 'image': {
+        const caption = item.caption ? `\n\\caption{${escapeLaTeX(item.caption)}}` : '';
+        return `\\begin{figure}[!htbp]\n\\centering\n${image(item)}${caption}\n\\end{figure}`;
+      }
+      case 'code':
+        return code(item);
+      case 'blockquote':
+        return `\\begin{quote}\n${item.children.map(child => block(child, depth)).filter(Boolean).join('\n\n')}\n\\end{quote}`;
+      case 'rule':
+        return '\\noindent\\rule{\\linewidth}{0.4pt}';
+      case 'pageBreak':
+        return '\\newpage';
+      case 'math':
+        used.add('amsmath');
+        return DISPLAY_ENVIRONMENT.test(item.tex.trim()) ? item.tex.trim() : `\\[\n${item.tex}\n\\]`;
+    }
+  };
+
+  const body = blocks.map(item => block(item, 0)).filter(Boolean).join('\n\n');
+  const metadataTitle = title ? inlines([text(title)]) : '';
+
+  const custom = (options.packages || []).map(line => line.trim()).filter(Boolean);
+  const customNames = new Set(custom.filter(line => !line.startsWith('\\')).map(line => line.replace(/\[.*$/, '').trim()));
+  const classOptions = options.classOptions?.trim().replace(/^\[|\]$/g, '');
+  const preamble = [
+    `\\documentclass${classOptions ? `[${classOptions}]` : ''}{${documentClass}}`,
+    ...BASE_PACKAGES.filter(([name]) => !customNames.has(name)).map(([name, packageOptions]) => `\\usepackage[${packageOptions}]{${name}}`),
+    ...CONTENT_PACKAGES.filter(name => used.has(name) && !customNames.has(name)).map(name => packageLine(name, PACKAGE_OPTIONS[name])),
+    ...custom.map(line => (line.startsWith('\\') ? line : packageLine(line.replace(/\[.*$/, '').trim(), line.match(/\[(.*)\]/)?.[1]))),
+    ...(used.has('hyperref') && !customNames.has('hyperref') ? ['\\usepackage{hyperref}'] : []),
+    ...(used.has('listings') ? ['\\lstset{basicstyle=\\ttfamily\\small, breaklines=true, columns=fullflexible, frame=single}'] : [])
+  ];
+
+  const titleBlock = title ? [
+    '',
+    `\\title{${metadataTitle}}`,
+    `\\author{${escapeLaTeX(doc.metadata.author || 'DocConverter Pro')}}`,
+    `\\date{${doc.metadata.createdAt ? escapeLaTeX(doc.metadata.createdAt.slice(0, 10)) : '\\today'}}`
+  ] : [];
+
+  const latex = [
+    ...preamble,
+    ...titleBlock,
+    '',
+    '\\begin{document}',
+    ...(title ? ['\\maketitle'] : []),
+    '',
+    body,
+    '',
+    '\\end{document}',
+    ''
+  ].join('\n');
+  return { latex, assets };
+}
+
+function packageLine(name: string, packageOptions?: string): string {
+  return packageOptions ? `\\usepackage[${packageOptions}]{${name}}` : `\\usepackage{${name}}`;
+}
+
+// URLs keep their characters, except those TeX would read as a comment or parameter
+function latexURL(url: string): string {
+  return url.replace(/[%#]/g, '\\$&').replace(/\\(?![%#])/g, '%5C').replace(/\{/g, '%7B').replace(/\}/g, '%7D');
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+/**
+ * What the reader collects while it goes: macro definitions, what labels and
+ * citations print, footnotes for the end of the document, and verbatim text cut
+ * out before comments are stripped
+ */
+interface LaTeXContext {
+  macros: Map<string, Macro>;
+  theorems: Map<string, { title: string; counter?: string }>; // \newtheorem environments (no counter when unnumbered)
+  citations: Map<string, string>; // \bibitem keys -> their label or number
+  labels: Map<string, string>; // \label keys -> the number \ref prints
+  target: string; // What a \label here refers to: the latest section, float, equation or theorem number
+  sectionNumbers: number[];
+  counters: Map<string, number>;
+  notes: Block[];
+  verbatim: string[];
+  code: CodeBlock[];
+  topDepth: number; // Sectioning depth (0 chapter, 1 section...) that becomes the top heading level
+  headingOffset: number; // 1 when \maketitle takes the H1
+  chapters: boolean; // report and book classes
+  title?: string; // TeX source of \title, \author and \date
+  author?: string;
+  date?: string;
+}
+
+interface Macro {
+  args: number;
+  defaultArg?: string; // The first argument is optional when it has a default
+  body: string;
+}
+
+const SECTION_DEPTHS: Record<string, number> = {
+  part: -1, chapter: 0, section: 1, subsection: 2, subsubsection: 3, paragraph: 4, subparagraph: 5
+};
+
+const TEXT_MARKS: Record<string, InlineMark> = {
+  textbf: 'bold', textit: 'italic', textsl: 'italic', emph: 'italic', texttt: 'code', underline: 'underline',
+  uline: 'underline', sout: 'strike', st: 'strike', xout: 'strike', textsuperscript: 'superscript', textsubscript: 'subscript'
+};
+
+// Font switches that last to the end of the group (null resets to upright roman)
+const DECLARATIONS: Record<string, InlineMark | null> = {
+  bfseries: 'bold', bf: 'bold', itshape: 'italic', it: 'italic', slshape: 'italic', sl: 'italic', em: 'italic',
+  ttfamily: 'code', tt: 'code', normalfont: null, rmfamily: null, rm: null, upshape: null, mdseries: null
+};
+
+const SYMBOLS: Record<string, string> = {
+  '%': '%', '&': '&', $: '$', '#': '#', _: '_', '{': '{', '}': '}', ' ': ' ', ',': ' ', ';': ' ', ':': ' ', '>': ' ',
+  '!': '', '-': '', '/': '', '@': '', textbackslash: '\\', ldots: '…', dots: '…', textellipsis: '…', LaTeX: 'LaTeX',
+  LaTeXe: 'LaTeX2ε', TeX: 'TeX', copyright: '©', textcopyright: '©', textregistered: '®', texttrademark: '™', S: '§',
+  textsection: '§', P: '¶', dag: '†', ddag: '‡', pounds: '£', textsterling: '£', euro: '€', texteuro: '€',
+  textdegree: '°', textasciitilde: '~', textasciicircum: '^', textless: '<', textgreater: '>', textbar: '|',
+  textendash: '–', textemdash: '—', textquoteleft: '‘', textquoteright: '’', textquotedblleft: '“',
+  textquotedblright: '”', guillemotleft: '«', guillemotright: '»', textbullet: '•', textperiodcentered: '·',
+  textunderscore: '_', textdollar: '$', slash: '/', quad: ' ', qquad: '  ', enspace: ' ',
+  thinspace: ' ', hfill: ' ', i: 'ı', j: 'ȷ', ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ',
+  aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', textvisiblespace: '␣'
+};
+
+// Accent commands -> combining characters
+const ACCENTS: Record<string, string> = {
+  "'": '́', '`': '̀', '^': '̂', '"': '̈', '~': '̃', '=': '̄', '.': '̇',
+  u: '̆', v: '̌', H: '̋', c: '̧', k: '̨', r: '̊', d: '̣', b: '̱'
+};
+
+// Commands whose text is their last argument (after this many others)
+const CONTENT_COMMANDS: Record<string, number> = {
+  text: 0, textrm: 0, textsf: 0, textnormal: 0, textup: 0, textmd: 0, textsc: 0, mbox: 0, hbox: 0, makebox: 0,
+  fbox: 0, framebox: 0, makecell: 0, shortstack: 0, caption: 0, textcolor: 1, colorbox: 1, foreignlanguage: 1,
+  raisebox: 1, parbox: 1, scalebox: 1, rotatebox: 1, resizebox: 2, fcolorbox: 2, multicolumn: 2, multirow: 2,
+  hyperlink: 1, hypertarget: 1
+};
+
+// Commands dropped with this many arguments (layout, setup and things a converter can't follow)
+const DROPPED_COMMANDS: Record<string, number> = {
+  vspace: 1, hspace: 1, setlength: 2, addtolength: 2, setcounter: 2, addtocounter: 2, stepcounter: 1, pagestyle: 1,
+  thispagestyle: 1, pagenumbering: 1, bibliographystyle: 1, bibliography: 1, addbibresource: 1, printbibliography: 0,
+  index: 1, nocite: 1, usepackage: 1, RequirePackage: 1, documentclass: 1, graphicspath: 1, hypersetup: 1, geometry: 1,
+  title: 1, author: 1, date: 1, thanks: 1, color: 1, definecolor: 3, phantom: 1, hphantom: 1, vphantom: 1, input: 1,
+  include: 1, newcounter: 1, lstset: 1, captionsetup: 1, theoremstyle: 1, tableofcontents: 0, listoffigures: 0,
+  listoftables: 0, maketitle: 0, centering: 0, raggedright: 0, raggedleft: 0, noindent: 0, indent: 0, smallskip: 0,
+  medskip: 0, bigskip: 0, vfill: 0, hfil: 0, protect: 0, relax: 0, selectfont: 0, appendix: 0, frontmatter: 0,
+  mainmatter: 0, backmatter: 0, footnotemark: 0, FloatBarrier: 0, linespread: 1, fontsize: 2, doublespacing: 0,
+  onehalfspacing: 0, singlespacing: 0, allowbreak: 0, nobreak: 0, nolinebreak: 0, hline: 0, toprule: 0, midrule: 0,
+  bottomrule: 0, cline: 1, newblock: 0, tiny: 0, scriptsize: 0, footnotesize: 0, small: 0, normalsize: 0, large: 0,
+  Large: 0, LARGE: 0, huge: 0, Huge: 0, scshape: 0, sffamily: 0, bibitem: 1, label: 1, par: 0, item: 0, end: 1
+};
+
+const CITE_COMMANDS = new Set(['cite', 'citep', 'citet', 'citealp', 'citealt', 'parencite', 'textcite', 'autocite', 'footcite', 'Cite', 'Citep', 'Citet', 'Textcite', 'Parencite', 'Autocite']);
+const REF_COMMANDS = new Set(['ref', 'eqref', 'pageref', 'autoref', 'cref', 'Cref', 'vref', 'nameref']);
+const PAGE_BREAKS = new Set(['newpage', 'clearpage', 'cleardoublepage', 'pagebreak']);
+
+const LIST_ENVIRONMENTS = new Set(['itemize', 'enumerate', 'description', 'compactitem', 'compactenum', 'compactdesc', 'inparaenum', 'asparaenum', 'asparaitem']);
+const TABULAR_ENVIRONMENTS = new Set(['tabular', 'tabularx', 'tabulary', 'longtable', 'supertabular', 'xltabular', 'tabu']);
+const FLOAT_ENVIRONMENTS = new Set(['figure', 'table', 'wrapfigure', 'wraptable', 'subfigure', 'subtable', 'sidewaysfigure', 'sidewaystable']);
+const QUOTE_ENVIRONMENTS = new Set(['quote', 'quotation', 'verse']);
+const SKIPPED_ENVIRONMENTS = new Set(['comment', 'tikzpicture', 'pgfpicture', 'picture', 'filecontents', 'titlepage']);
+// Arguments each environment takes after \begin{...} (not counting optional ones)
+const ENVIRONMENT_ARGUMENTS: Record<string, number> = {
+  minipage: 1, multicols: 1, wrapfigure: 2, wraptable: 2, subfigure: 1, subtable: 1, tabularx: 2, tabulary: 2,
+  'tabular*': 2, xltabular: 2, thebibliography: 1, alignat: 1, 'alignat*': 1
+};
+
+// Display math environments, and what they become inside a single display
+const MATH_ENVIRONMENTS: Record<string, string | null> = {
+  equation: null, displaymath: null, align: 'aligned', flalign: 'aligned', alignat: 'alignedat', gather: 'gathered',
+  multline: 'gathered', eqnarray: 'array'
+};
+
+// Babel and polyglossia language names -> language tags
+const LANGUAGES: Record<string, string> = {
+  english: 'en', american: 'en-US', USenglish: 'en-US', british: 'en-GB', UKenglish: 'en-GB', ngerman: 'de', german: 'de',
+  naustrian: 'de-AT', french: 'fr', francais: 'fr', spanish: 'es', italian: 'it', portuguese: 'pt', portuges: 'pt',
+  brazil: 'pt-BR', brazilian: 'pt-BR', dutch: 'nl', russian: 'ru', polish: 'pl', swedish: 'sv', danish: 'da',
+  norsk: 'nb', nynorsk: 'nn', finnish: 'fi', czech: 'cs', greek: 'el', turkish: 'tr', japanese: 'ja', chinese: 'zh'
+};
+
+const COMMAND_NAME = /[A-Za-z@]+/y;
+// Spaces (and one line break) after a control word or before an argument; a blank line is a paragraph break
+const SPACES = /[ \t]*(?:\n(?![ \t]*\n)[ \t]*)?/y;
+const BLANK_LINE = /\n[ \t]*\n\s*/y;
+const BEGIN_ENVIRONMENT = /\\begin\s*\{([^}]*)\}/y;
+const ROW_SEPARATOR = /\\\\\*?(?:[ \t]*\[[^\]]*\])?|\\tabularnewline(?![A-Za-z])/y;
+const CELL_SEPARATOR = /&/y;
+const ITEM = /\\item(?![A-Za-z@])/y;
+const BIBITEM = /\\bibitem(?![A-Za-z@])/y;
+const CAPTION = /\\caption(?![A-Za-z@])\*?/y;
+const TABLE_RULE = /\s*\\(?:hline|toprule|midrule|bottomrule|cline\s*\{[^}]*\}|cmidrule(?:\([^)]*\))?\s*\{[^}]*\}|addlinespace(?:\[[^\]]*\])?|specialrule\s*\{[^}]*\}\s*\{[^}]*\}\s*\{[^}]*\}|rowcolor(?:\[[^\]]*\])?\s*\{[^}]*\}|hhline\s*\{[^}]*\})(?![A-Za-z])/y;
+// \ref keys wait between these private-use characters until every label is known
+const REFERENCE = /\uE000([^\uE001]*)\uE001/g;
+
+export function readLaTeX(source: string): DocumentModel {
+  const context: LaTeXContext = {
+    macros: new Map(),
+    theorems: new Map(),
+    citations: new Map(),
+    labels: new Map(),
+    target: '',
+    sectionNumbers: [],
+    counters: new Map(),
+    notes: [],
+    verbatim: [],
+    code: [],
+    topDepth: 1,
+    headingOffset: 0,
+    chapters: false
+  };
+
+  const src = stripComments(protectVerbatim(source.replace(/\r\n?/g, '\n'), context));
+  const begin = src.indexOf('\\begin{document}');
+  const preamble = readDefinitions(begin >= 0 ? src.slice(0, begin) : '', context);
+  let body = begin >= 0 ? src.slice(begin + '\\begin{document}'.length) : src;
+  const end = body.indexOf('\\end{document}');
+  if (end >= 0) body = body.slice(0, end);
+  body = expandMacros(readDefinitions(body, context), context.macros);
+
+  const documentClass = preamble.match(/\\documentclass\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/)?.[1].trim();
+  context.chapters = CHAPTER_CLASSES.has(documentClass || '');
+  for (const name of ['title', 'author', 'date'] as const) {
+    const value = commandArgument(preamble, name) ?? commandArgument(body, name);
+    // Authors separated by \and are listed with commas
+    if (value !== undefined) context[name] = expandMacros(value, context.macros).replace(/\s*\\and(?![A-Za-z])\s*/g, ', ');
+  }
+
+  // Citations print the \bibitem's label, or its number
+  let bibitems = 0;
+  for (const match of body.matchAll(/\\bibitem\s*(?:\[([^\]]*)\])?\s*\{([^}]*)\}/g)) {
+    bibitems++;
+    context.citations.set(match[2].trim(), match[1] ? inlineText(readLaTeXInlines(match[1], context)) : String(bibitems));
+  }
+
+  // The shallowest sectioning command becomes H1, or H2 under the \maketitle title
+  const depths = [...body.matchAll(/\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)(?![A-Za-z])\*?\s*[[{]/g)]
+    .map(match => SECTION_DEPTHS[match[1]]);
+  context.topDepth = depths.length > 0 ? Math.min(...depths) : 1;
+  context.headingOffset = context.title && /\\maketitle(?![A-Za-z])/.test(body) ? 1 : 0;
+
+  const blocks = readLaTeXBlocks(body, context);
+  if (context.notes.length > 0) {
+    blocks.push({ type: 'rule' }, ...context.notes);
+  }
+  resolveReferences(blocks, context.labels);
+
+  const doc = createDocument(blocks, readLaTeXMetadata(preamble, context));
+  doc.metadata.title = doc.metadata.title || firstHeading(doc);
+  return doc;
+}
+
+function readLaTeXMetadata(preamble: string, context: LaTeXContext): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  const plain = (value?: string) => value === undefined ? '' : inlineText(readLaTeXInlines(value, context)).replace(/\s+/g, ' ').trim();
+  if (plain(context.title)) metadata.title = plain(context.title);
+  const author = plain(context.author?.replace(/\\thanks\s*\{[^}]*\}/g, ''));
+  if (author) metadata.author = author;
+
+  const babel = preamble.match(/\\usepackage\s*\[([^\]]*)\]\s*\{babel\}/)?.[1].split(',').map(option => option.trim());
+  const main = babel?.find(option => option.startsWith('main='))?.slice(5) || babel?.[babel.length - 1];
+  const polyglossia = preamble.match(/\\set(?:default|main)language\s*(?:\[[^\]]*\])?\s*\{(\w+)\}/)?.[1];
+  const language = LANGUAGES[polyglossia || main || ''];
+  if (language) metadata.language = language;
+  return metadata;
+}
+
+// ---------------------------------------------------------------------------
+// Preprocessing
+// ---------------------------------------------------------------------------
+
+/**
+ * Cut verbatim environments and \verb text out before comments are stripped
+ * (a % in code is not a comment), leaving \@verbatim{n} and \@verb{n} behind.
+ * URLs are protected the same way.
+ */
+function protectVerbatim(src: string, context: LaTeXContext): string {
+  return src
+    .replace(/\\begin\{(verbatim\*?|Verbatim|lstlisting|minted)\}([\s\S]*?)\\end\{\1\}/g, (_, name: string, body: string) => {
+      let content = body;
+      let language: string | undefined;
+      const options = name === 'minted'
+        ? content.match(/^\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/)
+        : name.startsWith('verbatim') ? null : content.match(/^\s*\[([^\]]*)\]/);
+      if (options) {
+        language = name === 'minted' ? options[1] : options[1].match(/language\s*=\s*(?:\[[^\]]*\])?\s*\{?([\w+#-]+)/)?.[1];
+        content = content.slice(options[0].length);
+      }
+      context.code.push({ type: 'code', text: content.replace(/^[ \t]*\n/, '').replace(/\n[ \t]*$/, ''), language: language?.toLowerCase() });
+      return `\n\n\\@verbatim{${context.code.length - 1}}\n\n`;
+    })
+    .replace(/\\(?:verb\*?|lstinline(?:\[[^\]]*\])?)([^A-Za-z\s{])(.*?)\1/g, (_, _delimiter: string, value: string) => {
+      context.verbatim.push(value);
+      return `\\@verb{${context.verbatim.length - 1}}`;
+    })
+    .replace(/\\(url|href)\s*\{([^{}]*)\}/g, (_, name: string, value: string) => {
+      context.verbatim.push(value.replace(/\\([#%&_~$])/g, '$1').trim());
+      return `\\${name}{\\@verb{${context.verbatim.length - 1}}}`;
+    });
+}
+
+// A % to the end of the line, with the line break and the next line's indentation (unless it is blank)
+function stripComments(src: string): string {
+  return src.replace(/(^|[^\\])((?:\\\\)*)%.*(?:\n(?![ \t]*\n)[ \t]*)?/gm, '$1$2');
+}
+
+/**
+ * Collect \newcommand, \def, \DeclareMathOperator and \newtheorem definitions,
+ * returning the source without them
+ */
+function readDefinitions(src: string, context: LaTeXContext): string {
+  const pattern = /\\(newcommand|renewcommand|providecommand|def|DeclareMathOperator|newtheorem|newenvironment|renewenvironment)(?![A-Za-z])\*?/g;
+  let result = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(src))) {
+    let i = match.index + match[0].length;
+    const starred = match[0].endsWith('*');
+    const read = (optional = false) => {
+      const group = optional ? readOptional(src, i) : readGroup(src, i);
+      if (group) i = group.end;
+      return group?.value;
+    };
+
+    if (match[1] === 'newtheorem') {
+      const name = read();
+      const counter = read(true);
+      const title = read();
+      read(true);
+      if (name && title) context.theorems.set(name.trim(), { title, counter: starred ? undefined : counter?.trim() || name.trim() });
+    } else if (match[1] === 'newenvironment' || match[1] === 'renewenvironment') {
+      read();
+      read(true);
+      read(true);
+      read();
+      read();
+    } else {
+      // The name comes braced ({\name}) or bare (\name)
+      let name = read();
+      if (name === undefined) {
+        const bare = src.slice(i).match(/^\s*\\([A-Za-z@]+)/);
+        if (!bare) continue;
+        name = bare[1];
+        i += bare[0].length;
+      }
+      name = name.trim().replace(/^\\/, '');
+
+      let args = 0;
+      let defaultArg: string | undefined;
+      if (match[1] === 'def') {
+        const parameters = src.slice(i).match(/^(#\d)*/)![0];
+        args = parameters.length / 2;
+        i += parameters.length;
+      } else if (match[1] !== 'DeclareMathOperator') {
+        args = parseInt(read(true) || '0', 10) || 0;
+        defaultArg = read(true);
+      }
+      const body = read() ?? '';
+      // \renewcommand leaves built-in commands alone: their meaning here is what the reader already knows
+      if (match[1] === 'DeclareMathOperator') {
+        context.macros.set(name, { args: 0, body: `\\operatorname${starred ? '*' : ''}{${body}}` });
+      } else if (match[1] !== 'renewcommand' || context.macros.has(name)) {
+        context.macros.set(name, { args, defaultArg, body });
+      }
+    }
+    result += src.slice(last, match.index);
+    last = i;
+    pattern.lastIndex = i;
+  }
+  return result + src.slice(last);
+}
+
+// Substitute user macros until none are left (or they turn out to be recursive)
+function expandMacros(src: string, macros: Map<string, Macro>): string {
+  if (macros.size === 0) return src;
+  let result = src;
+  for (let pass = 0; pass < 10; pass++) {
+    let changed = false;
+    let output = '';
+    let last = 0;
+    const pattern = /\\([A-Za-z@]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(result))) {
+      const macro = macros.get(match[1]);
+      if (!macro) continue;
+      let i = match.index + match[0].length;
+      const args: string[] = [];
+      for (let index = 0; index < macro.args; index++) {
+        const group = index === 0 && macro.defaultArg !== undefined ? readOptional(result, i) : readGroup(result, i);
+        if (group) {
+          args.push(group.value);
+          i = group.end;
+        } else if (index === 0 && macro.defaultArg !== undefined) {
+          args.push(macro.defaultArg);
+        } else {
+          // An unbraced argument is the next character
+          const next = matchAt(SPACES, result, i);
+          i += next ? next[0].length : 0;
+          args.push(result[i] || '');
+          i++;
+        }
+      }
+      if (macro.args === 0) {
+        const spaces = matchAt(SPACES, result, i);
+        if (spaces) i += spaces[0].length;
+      }
+      output += result.slice(last, match.index) + macro.body.replace(/#(\d)/g, (_, n: string) => args[Number(n) - 1] ?? '') + (macro.args === 0 && i > match.index + match[0].length ? ' ' : '');
+      last = i;
+      pattern.lastIndex = i;
+      changed = true;
+    }
+    if (!changed) break;
+    result = output + result.slice(last);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+function readLaTeXBlocks(src: string, context: LaTeXContext): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: Inline[] = [];
+  const marks: InlineMark[] = [];
+
+  const flush = () => {
+    const children = trimInlines(trimLineBreaks(paragraph));
+    paragraph = [];
+    if (children.length === 0) return;
+    // A paragraph holding a single image is a block-level image
+    if (children.length === 1 && children[0].type === 'image') {
+      blocks.push({ ...children[0], type: 'image' });
+    } else {
+      blocks.push({ type: 'paragraph', children });
+    }
+  };
+  const add = (...items: Block[]) => {
+    flush();
+    blocks.push(...items);
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const blank = matchAt(BLANK_LINE, src, i);
+    if (blank) {
+      flush();
+      i += blank[0].length;
+      continue;
+    }
+
+    if (src.startsWith('$$', i) || src.startsWith('\\[', i)) {
+      const close = src[i] === '$' ? '$$' : '\\]';
+      const end = findClosing(src, close, i + 2);
+      add({ type: 'math', tex: cleanMath(src.slice(i + 2, end), context) });
+      i = Math.min(src.length, end + close.length);
+      continue;
+    }
+
+    if (src[i] === '\\') {
+      const command = readCommandName(src, i);
+      const name = command.name;
+
+      if (name === 'begin') {
+        const env = readGroup(src, command.end);
+        const envName = env?.value.trim() || '';
+        if (env && envName !== 'math') {
+          const { body, end } = environmentBody(src, envName, env.end);
+          add(...readEnvironment(envName, body, context));
+          i = end;
+          continue;
+        }
+      } else if (name in SECTION_DEPTHS) {
+        const section = readSection(src, command.end, name, context);
+        add(section.heading);
+        i = section.end;
+        continue;
+      } else if (name === 'maketitle') {
+        add(...titleBlocks(context));
+        i = command.end;
+        continue;
+      } else if (PAGE_BREAKS.has(name)) {
+        add({ type: 'pageBreak' });
+        i = readOptional(src, command.end)?.end ?? command.end;
+        continue;
+      } else if (name === '@verbatim') {
+        const group = readGroup(src, command.end);
+        const code = context.code[Number(group?.value)];
+        if (code) add({ ...code });
+        i = group?.end ?? command.end;
+        continue;
+      } else if (name === 'hrule' || name === 'hrulefill') {
+        add({ type: 'rule' });
+        i = command.end;
+        continue;
+      } else if (name === 'par' || name === 'item' || name === 'bibitem') {
+        flush();
+      }
+    }
+
+    const inline = readInlineAt(src, i, marks, context);
+    appendInlines(paragraph, inline.inlines);
+    i = inline.end;
+  }
+  flush();
+  return blocks;
+}
+
+function readSection(src: string, start: number, name: string, context: LaTeXContext): { heading: Block; end: number } {
+  let i = start;
+  const starred = src[i] === '*';
+  if (starred) i++;
+  i = readOptional(src, i)?.end ?? i;
+  const title = readGroup(src, i);
+
+  const depth = SECTION_DEPTHS[name];
+  if (!starred && depth >= context.topDepth) {
+    const index = depth - context.topDepth;
+    const numbers = context.sectionNumbers.slice(0, index + 1);
+    while (numbers.length <= index) numbers.push(0);
+    numbers[index]++;
+    context.sectionNumbers = numbers;
+    context.target = numbers.join('.');
+  }
+  const heading: Block = {
+    type: 'heading',
+    level: headingLevel(depth, context),
+    children: trimInlines(trimLineBreaks(readLaTeXInlines(title?.value || '', context)))
+  };
+  return { heading, end: title?.end ?? i };
+}
+
+function headingLevel(depth: number, context: LaTeXContext): 1 | 2 | 3 | 4 | 5 | 6 {
+  return Math.min(6, Math.max(1, depth - context.topDepth + 1 + context.headingOffset)) as 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+function titleBlocks(context: LaTeXContext): Block[] {
+  if (!context.title) return [];
+  const blocks: Block[] = [{ type: 'heading', level: 1, children: trimInlines(readLaTeXInlines(context.title, context)) }];
+  for (const value of [context.author, context.date]) {
+    const children = trimInlines(trimLineBreaks(readLaTeXInlines(value || '', context)));
+    if (children.length > 0) blocks.push({ type: 'paragraph', children });
+  }
+  return blocks;
+}
+
+function readEnvironment(name: string, body: string, context: LaTeXContext): Block[] {
+  const base = name.replace(/\*$/, '');
+  const { args, rest } = environmentArguments(name, body);
+
+  if (SKIPPED_ENVIRONMENTS.has(base)) return [];
+  if (LIST_ENVIRONMENTS.has(base)) return [readList(base, body, context)];
+  if (TABULAR_ENVIRONMENTS.has(base)) {
+    const table = readTabular(args[args.length - 1] || '', rest, context);
+    return table ? [table] : [];
+  }
+  if (FLOAT_ENVIRONMENTS.has(base)) return readFloat(base, rest, context);
+  if (QUOTE_ENVIRONMENTS.has(base)) return [{ type: 'blockquote', children: readLaTeXBlocks(rest, context) }];
+  if (base in MATH_ENVIRONMENTS) return [readMathEnvironment(name, args[0], rest, context)];
+
+  if (base === 'abstract') {
+    return [{ type: 'heading', level: headingLevel(1, context), children: [text('Abstract')] }, ...readLaTeXBlocks(rest, context)];
+  }
+  if (base === 'thebibliography') return readBibliography(rest, context);
+
+  const theorem = context.theorems.get(base);
+  if (theorem || base === 'proof') {
+    let content = body;
+    const note = readOptional(content, 0);
+    if (note) content = content.slice(note.end);
+    let label: Inline[];
+    if (theorem) {
+      let number = '';
+      if (theorem.counter) {
+        const count = (context.counters.get(theorem.counter) || 0) + 1;
+        context.counters.set(theorem.counter, count);
+        number = ` ${count}`;
+        context.target = String(count);
+      }
+      const heading = `${inlineText(readLaTeXInlines(theorem.title, context))}${number}`;
+      label = note
+        ? [text(heading, ['bold']), text(` (${inlineText(readLaTeXInlines(note.value, context)).trim()}). `)]
+        : [text(`${heading}. `, ['bold'])];
+    } else {
+      label = [text(`${note ? inlineText(readLaTeXInlines(note.value, context)).trim() : 'Proof'}. `, ['italic'])];
+    }
+    return prependInlines(readLaTeXBlocks(content, context), label);
+  }
+
+  // Layout environments (center, minipage, multicols...) and unknown ones keep their content
+  return readLaTeXBlocks(rest, context);
+}
+
+function environmentArguments(name: string, body: string): { args: string[]; rest: string } {
+  const args: string[] = [];
+  let i = readOptional(body, 0)?.end ?? 0;
+  for (let index = 0; index < (ENVIRONMENT_ARGUMENTS[name] ?? (TABULAR_ENVIRONMENTS.has(name) ? 1 : 0)); index++) {
+    const group = readGroup(body, i);
+    if (!group) break;
+    args.push(group.value);
+    i = readOptional(body, group.end)?.end ?? group.end;
+  }
+  return { args, rest: body.slice(i) };
+}
+
+function readList(name: string, body: string, context: LaTeXContext): ListBlock {
+  const ordered = name.endsWith('enum') || name === 'enumerate';
+  const options = readOptional(body, 0);
+  const [before, ...items] = splitTopLevel(options ? body.slice(options.end) : body, ITEM);
+  const list: ListBlock = { type: 'list', ordered, items: [] };
+
+  // The start from \setcounter{enumi}{n} or enumitem's start=n
+  const counter = before.match(/\\setcounter\s*\{enum[iv]+\}\s*\{(\d+)\}/);
+  const start = options?.value.match(/start\s*=\s*(\d+)/);
+  if (ordered && counter) list.start = Number(counter[1]) + 1;
+  else if (ordered && start) list.start = Number(start[1]);
+
+  items.forEach(item => {
+    let content = item;
+    const label = readOptional(content, 0);
+    if (label) content = content.slice(label.end);
+    let blocks = readLaTeXBlocks(content, context);
+    let checked: boolean | undefined;
+    if (label && /\\(square|Box|boxempty)\b|^\s*\[\s*\]\s*$/.test(label.value)) checked = false;
+    else if (label && /\\(boxtimes|checkmark|CheckedBox|XBox|blacksquare)\b|^\s*\[[xX]\]\s*$/.test(label.value)) checked = true;
+    else if (label) {
+      // Description terms (and other custom labels) lead the item in bold
+      const term = trimInlines(readLaTeXInlines(label.value, context)).map(inline => inline.type === 'text'
+        ? { ...inline, marks: [...new Set([...(inline.marks || []), 'bold' as InlineMark])] }
+        : inline);
+      blocks = prependInlines(blocks, [...term, text(' ')]);
+    }
+    list.items.push(checked === undefined ? { blocks } : { blocks, checked });
+  });
+  return list;
+}
+
+function readTabular(spec: string, body: string, context: LaTeXContext): TableBlock | null {
+  const aligns = columnAligns(spec);
+  let content = body;
+
+  // longtable: the first-page header is kept and the repeated one dropped
+  content = content.replace(/\\endfirsthead[\s\S]*?\\endhead/, '\\endhead').replace(/\\end(?:foot|lastfoot)(?![A-Za-z])/g, '');
+  const headEnd = splitTopLevel(content, /\\endhead(?![A-Za-z])/y);
+  const explicitHeader = headEnd.length > 1 ? splitTopLevel(headEnd[0], ROW_SEPARATOR).filter(row => stripRules(row).text.trim()).length : null;
+  content = headEnd.join('');
+
+  const caption = splitTopLevel(content, CAPTION);
+  let captionText: string | undefined;
+  if (caption.length > 1) {
+    const group = readGroup(caption[1], readOptional(caption[1], 0)?.end ?? 0);
+    captionText = group ? inlineText(readLaTeXInlines(group.value, context)).trim() : undefined;
+    content = caption[0] + caption[1].slice(group?.end ?? 0) + caption.slice(2).join('');
+  }
+
+  const rawRows = splitTopLevel(content, ROW_SEPARATOR).map(stripRules);
+  // Rules before a row, and rows with no cells (the \bottomrule after the last \\)
+  const rows = rawRows.filter(row => row.text.trim() || splitTopLevel(row.text, CELL_SEPARATOR).length > 1);
+  if (rows.length === 0) return null;
+
+  const pending: number[] = [];
+  const tableRows: TableRow[] = rows.map(row => {
+    const cells: TableCell[] = [];
+    let column = 0;
+    splitTopLevel(row.text, CELL_SEPARATOR).forEach(raw => {
+      const cell = readTableCell(raw, aligns[column], context);
+      const span = cell.colSpan || 1;
+      if ((pending[column] || 0) > 0 && cell.children.length === 0) {
+        column += span;
+        return;
+      }
+      cells.push(cell);
+      for (let offset = 0; offset < span; offset++) pending[column + offset] = cell.rowSpan || 1;
+      column += span;
+    });
+    pending.forEach((count, index) => { pending[index] = Math.max(0, count - 1); });
+    return { cells };
+  });
+
+  let headerRows = 0;
+  const midrule = rows.findIndex((row, index) => index > 0 && /\\midrule/.test(row.rules));
+  const ruled = rows.map((row, index) => index > 0 && row.rules.length > 0);
+  if (explicitHeader !== null) headerRows = explicitHeader;
+  else if (midrule > 0) headerRows = midrule;
+  else if (ruled[1] && rows.length > 2 && ruled.slice(2).some(rule => !rule)) headerRows = 1;
+  else if (rows.length > 1 && tableRows[0].cells.length > 0 && tableRows[0].cells.every(cell =>
+    cell.children.length > 0 && cell.children.every(inline => inline.type !== 'text' || !inline.text.trim() || inline.marks?.includes('bold')))) {
+    headerRows = 1;
+  }
+
+  const table: TableBlock = { type: 'table', rows: tableRows, headerRows };
+  if (captionText) table.caption = captionText;
+  return table;
+}
+
+// Leading \hline, \toprule and the like, kept apart from the row's cells
+function stripRules(row: string): { text: string; rules: string } {
+  let i = 0;
+  let rules = '';
+  let match: RegExpExecArray | null;
+  while ((match = matchAt(TABLE_RULE, row, i))) {
+    rules += match[0];
+    i += match[0].length;
+  }
+  return { text: row.slice(i), rules };
+}
+
+function readTableCell(raw: string, align: TableCell['align'], context: LaTeXContext): TableCell {
+  let content = raw.trim();
+  let colSpan = 1;
+  let rowSpan = 1;
+  let cellAlign = align;
+
+  const multicolumn = content.match(/^\\multicolumn\s*\{(\d+)\}/);
+  if (multicolumn) {
+    const spec = readGroup(content, multicolumn[0].length);
+    const value = spec && readGroup(content, spec.end);
+    if (spec && value) {
+      colSpan = Number(multicolumn[1]);
+      cellAlign = columnAligns(spec.value)[0] || align;
+      content = value.value.trim();
+    }
+  }
+  const multirow = content.match(/^\\multirow\s*(?:\[[^\]]*\])?\s*\{(-?\d+)\}/);
+  if (multirow) {
+    let i = multirow[0].length;
+    i = readOptional(content, i)?.end ?? i;
+    const width = readGroup(content, i);
+    i = width ? readOptional(content, width.end)?.end ?? width.end : i;
+    const value = readGroup(content, i);
+    if (value) {
+      rowSpan = Math.abs(Number(multirow[1])) || 1;
+      content = value.value.trim();
+    }
+  }
+
+  const cell: TableCell = { children: trimInlines(trimLineBreaks(readLaTeXInlines(content, context))) };
+  if (colSpan > 1) cell.colSpan = colSpan;
+  if (rowSpan > 1) cell.rowSpan = rowSpan;
+  if (cellAlign && cellAlign !== 'left') cell.align = cellAlign;
+  return cell;
+}
+
+// Alignment of each column in a tabular spec such as "|l|c|r|p{3cm}|" or "*{3}{c}"
+function columnAligns(spec: string): TableCell['align'][] {
+  const expanded = spec.replace(/\*\s*\{(\d+)\}\s*\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/g, (_, count: string, columns: string) => columns.repeat(Number(count)));
+  const aligns: TableCell['align'][] = [];
+  let i = 0;
+  while (i < expanded.length) {
+    const char = expanded[i];
+    if (char === '{') {
+      // Widths and the code in >{...}, <{...} and @{...}
+      i = readGroup(expanded, i)?.end ?? i + 1;
+      continue;
+    }
+    if (char === 'l' || char === 'p' || char === 'm' || char === 'b' || char === 'X' || char === 'L' || char === 'J') aligns.push('left');
+    else if (char === 'c' || char === 'C') aligns.push('center');
+    else if (char === 'r' || char === 'R') aligns.push('right');
+    i++;
+  }
+  return aligns;
+}
+
+function readFloat(name: string, body: string, context: LaTeXContext): Block[] {
+  const kind = name.includes('table') ? 'table' : 'figure';
+  if (!name.startsWith('sub')) {
+    const count = (context.counters.get(kind) || 0) + 1;
+    context.counters.set(kind, count);
+    context.target = String(count);
+  }
+
+  let content = body;
+  let caption: string | undefined;
+  const parts = splitTopLevel(content, CAPTION);
+  if (parts.length > 1) {
+    const group = readGroup(parts[1], readOptional(parts[1], 0)?.end ?? 0);
+    caption = group ? inlineText(readLaTeXInlines(group.value, context)).replace(/\s+/g, ' ').trim() : undefined;
+    content = parts[0] + parts[1].slice(group?.end ?? 0) + parts.slice(2).join('');
+  }
+
+  const blocks = readLaTeXBlocks(content, context);
+  if (!caption) return blocks;
+
+  const captioned = blocks.find(block => (block.type === 'table' || block.type === 'image') && block.type === (kind === 'table' ? 'table' : 'image') && !block.caption);
+  if (captioned?.type === 'table' || captioned?.type === 'image') {
+    captioned.caption = caption;
+    return blocks;
+  }
+  return [...blocks, { type: 'paragraph', children: [text(caption, ['italic'])] }];
+}
+
+function readMathEnvironment(name: string, argument: string | undefined, body: string, context: LaTeXContext): Block {
+  const base = name.replace(/\*$/, '');
+  const inner = MATH_ENVIRONMENTS[base];
+  const numbered = !name.endsWith('*') && base !== 'displaymath' && !/\\tag\s*\{/.test(body);
+
+  // Multi-line environments number each row that isn't \nonumber'ed
+  const rows = inner ? splitTopLevel(body, ROW_SEPARATOR) : [body];
+  const numbers: number[] = [];
+  rows.forEach(row => {
+    if (!numbered || (inner && /\\(nonumber|notag)(?![A-Za-z])/.test(row))) {
+      labelsIn(row).forEach(label => context.labels.set(label, context.target));
+      return;
+    }
+    const count = (context.counters.get('equation') || 0) + 1;
+    context.counters.set('equation', count);
+    numbers.push(count);
+    context.target = String(count);
+    labelsIn(row).forEach(label => context.labels.set(label, String(count)));
+  });
+
+  let tex = body.replace(/\\(label\s*\{[^}]*\}|nonumber(?![A-Za-z])|notag(?![A-Za-z]))/g, '').trim();
+  if (inner === 'alignedat') tex = `\\begin{alignedat}{${argument || 1}}\n${tex}\n\\end{alignedat}`;
+  else if (inner === 'array') tex = `\\begin{array}{rcl}\n${tex.replace(/&\s*=\s*&/g, '&=&')}\n\\end{array}`;
+  else if (inner) tex = `\\begin{${inner}}\n${tex}\n\\end{${inner}}`;
+  if (numbers.length > 0) {
+    tex += ` \\tag{${numbers.length === 1 ? numbers[0] : `${numbers[0]}–${numbers[numbers.length - 1]}`}}`;
+  }
+  return { type: 'math', tex };
+}
+
+function labelsIn(tex: string): string[] {
+  return [...tex.matchAll(/\\label\s*\{([^}]*)\}/g)].map(match => match[1].trim());
+}
+
+// Inline and display math without its labels (which point at the current target)
+function cleanMath(tex: string, context: LaTeXContext): string {
+  labelsIn(tex).forEach(label => context.labels.set(label, context.target));
+  return tex.replace(/\\label\s*\{[^}]*\}/g, '').trim();
+}
+
+function readBibliography(body: string, context: LaTeXContext): Block[] {
+  const [, ...entries] = splitTopLevel(body, BIBITEM);
+  const labelled = entries.some(entry => readOptional(entry, 0));
+  const list: ListBlock = { type: 'list', ordered: !labelled, items: [] };
+
+  entries.forEach(entry => {
+    let i = 0;
+    const label = readOptional(entry, i);
+    if (label) i = label.end;
+    const key = readGroup(entry, i);
+    if (key) i = key.end;
+    let blocks = readLaTeXBlocks(entry.slice(i).replace(/\\newblock(?![A-Za-z])/g, ' '), context);
+    if (label) blocks = prependInlines(blocks, [text(`[${inlineText(readLaTeXInlines(label.value, context))}] `)]);
+    list.items.push({ blocks });
+  });
+
+  return [
+    { type: 'heading', level: headingLevel(context.chapters ? 0 : 1, context), children: [text(context.chapters ? 'Bibliography' : 'References')] },
+    list
+  ];
+}
+
+// Put inline content at the start of the first paragraph (or a new one)
+function prependInlines(blocks: Block[], inlines: Inline[]): Block[] {
+  const [first, ...rest] = blocks;
+  if (first?.type === 'paragraph') return [{ ...first, children: [...inlines, ...first.children] }, ...rest];
+  return [{ type: 'paragraph', children: trimInlines(inlines) }, ...blocks];
+}
+
+// ---------------------------------------------------------------------------
+// Inlines
+// ---------------------------------------------------------------------------
+
+function readLaTeXInlines(src: string, context: LaTeXContext, marks: InlineMark[] = []): Inline[] {
+  const inlines: Inline[] = [];
+  const scoped = [...marks];
+  let i = 0;
+  while (i < src.length) {
+    const blank = matchAt(BLANK_LINE, src, i);
+    if (blank) {
+      appendInlines(inlines, [text(' ', scoped)]);
+      i += blank[0].length;
+      continue;
+    }
+    const inline = readInlineAt(src, i, scoped, context);
+    appendInlines(inlines, inline.inlines);
+    i = inline.end;
+  }
+  return inlines;
+}
+
+// One piece of inline content at `start`: a text run, a group, math or a command
+function readInlineAt(src: string, start: number, marks: InlineMark[], context: LaTeXContext): { inlines: Inline[]; end: number } {
+  const char = src[start];
+  if (char === '\\') return readCommand(src, start, marks, context);
+  if (char === '{') {
+    const group = readGroup(src, start);
+    if (!group) return { inlines: [], end: start + 1 };
+    return { inlines: readLaTeXInlines(group.value, context, marks), end: group.end };
+  }
+  if (char === '}' || char === '&') return { inlines: [], end: start + 1 };
+  if (char === '~') return { inlines: [text(' ', marks)], end: start + 1 };
+  if (char === '$') {
+    const delimiter = src.startsWith('$$', start) ? '$$' : '$';
+    const end = findClosing(src, delimiter, start + delimiter.length);
+    return {
+      inlines: [{ type: 'math', tex: cleanMath(src.slice(start + delimiter.length, end), context) }],
+      end: Math.min(src.length, end + delimiter.length)
+    };
+  }
+
+  // Plain text up to the next special character or paragraph break
+  const special = /[\\{}$~&]|\n[ \t]*\n/g;
+  special.lastIndex = start;
+  const end = special.exec(src)?.index ?? src.length;
+  return { inlines: [text(typography(src.slice(start, end)), marks)], end };
+}
+
+function readCommand(src: string, start: number, marks: InlineMark[], context: LaTeXContext): { inlines: Inline[]; end: number } {
+  const { name, end } = readCommandName(src, start);
+  let next = end;
+  // \section*, \\* and the like
+  if (src[next] === '*' && (/^[A-Za-z]/.test(name) || name === '\\')) next++;
+
+  const optional = () => {
+    const group = readOptional(src, next);
+    if (group) next = group.end;
+    return group?.value;
+  };
+  const argument = () => {
+    const group = readGroup(src, next);
+    if (group) {
+      next = group.end;
+      return group.value;
+    }
+    // Without braces the argument is the next token
+    const spaces = matchAt(SPACES, src, next);
+    next += spaces ? spaces[0].length : 0;
+    if (src[next] === '\\') {
+      const command = readCommandName(src, next);
+      const value = src.slice(next, command.end);
+      next = command.end;
+      return value;
+    }
+    return src[next++] || '';
+  };
+  const inlines = (value: string, mark?: InlineMark) => readLaTeXInlines(value, context, mark ? [...marks, mark] : marks);
+  const result = (items: Inline[]) => ({ inlines: items, end: next });
+
+  if (name in TEXT_MARKS) return result(inlines(argument(), TEXT_MARKS[name]));
+  if (name in DECLARATIONS) {
+    const mark = DECLARATIONS[name];
+    if (mark === null) marks.length = 0;
+    else if (name === 'em' && marks.includes(mark)) marks.splice(marks.indexOf(mark), 1);
+    else if (!marks.includes(mark)) marks.push(mark);
+    return result([]);
+  }
+  if (name in ACCENTS) {
+    const base = inlineText(inlines(argument()));
+    return result([text((base.slice(0, 1) + ACCENTS[name] + base.slice(1)).normalize('NFC'), marks)]);
+  }
+  if (name in SYMBOLS) return result([text(SYMBOLS[name], marks)]);
+
+  switch (name) {
+    case '\\':
+    case 'newline':
+    case 'linebreak':
+      optional();
+      return result([{ type: 'lineBreak' }]);
+    case '(':
+    case '[': {
+      const close = name === '(' ? '\\)' : '\\]';
+      const closing = findClosing(src, close, next);
+      next = Math.min(src.length, closing + close.length);
+      return result([{ type: 'math', tex: cleanMath(src.slice(end, closing), context) }]);
+    }
+    case 'begin': {
+      const env = argument().trim();
+      const { body, end: envEnd } = environmentBody(src, env, next);
+      next = envEnd;
+      if (env === 'math') return result([{ type: 'math', tex: cleanMath(body, context) }]);
+      return result(blocksToInlines(readEnvironment(env, body, context)));
+    }
+    case '@verb':
+      return result([text(context.verbatim[Number(argument())] ?? '', [...marks, 'code'])]);
+    case '@verbatim':
+      return result([text(context.code[Number(argument())]?.text ?? '', [...marks, 'code'])]);
+    case 'today':
+      return result([text(new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }), marks)]);
+    case 'href': {
+      const href = verbatimArgument(argument(), context);
+      return result([{ type: 'link', href, children: inlines(argument()) }]);
+    }
+    case 'url':
+    case 'nolinkurl': {
+      const href = verbatimArgument(argument(), context);
+      return result([{ type: 'link', href, children: [text(href, marks)] }]);
+    }
+    case 'hyperref':
+      optional();
+      return result(inlines(argument()));
+    case 'footnote':
+    case 'footnotetext': {
+      optional();
+      const count = (context.counters.get('footnote') || 0) + 1;
+      context.counters.set('footnote', count);
+      const number = String(count);
+      context.notes.push(...prependInlines(readLaTeXBlocks(argument(), context), [text(`${number} `, ['superscript'])]));
+      return result(name === 'footnote' ? [text(number, ['superscript'])] : []);
+    }
+    case 'label':
+      context.labels.set(argument().trim(), context.target);
+      return result([]);
+    case 'includegraphics': {
+      optional();
+      const path = argument().trim();
+      const alt = path.split('/').pop()!.replace(/\.[^.]+$/, '');
+      return result([{ type: 'image', src: path, alt }]);
+    }
+    case 'enquote':
+    case 'textquote':
+      return result([text('“', marks), ...inlines(argument()), text('”', marks)]);
+    case 'MakeUppercase':
+    case 'uppercase':
+      return result([text(inlineText(inlines(argument())).toUpperCase(), marks)]);
+    case 'MakeLowercase':
+    case 'lowercase':
+      return result([text(inlineText(inlines(argument())).toLowerCase(), marks)]);
+  }
+
+  if (CITE_COMMANDS.has(name)) {
+    const first = optional();
+    const second = optional();
+    const note = second ?? first;
+    const keys = argument().split(',').map(key => key.trim()).filter(Boolean);
+    const cited = keys.map(key => context.citations.get(key) ?? key);
+    if (second && first) cited.unshift(first);
+    return result([text(`[${[...cited, ...(note ? [note] : [])].join(', ')}]`, marks)]);
+  }
+  if (REF_COMMANDS.has(name)) {
+    const keys = argument().split(',').map(key => `\uE000${key.trim()}\uE001`).join(', ');
+    return result([text(name === 'eqref' ? `(${keys})` : keys, marks)]);
+  }
+  if (name in CONTENT_COMMANDS) {
+    for (let index = 0; index < CONTENT_COMMANDS[name]; index++) {
+      optional();
+      argument();
+    }
+    optional();
+    optional();
+    return result(inlines(argument()));
+  }
+  if (name in DROPPED_COMMANDS) {
+    if (name === 'title' || name === 'usepackage' || name === 'documentclass') optional();
+    for (let index = 0; index < DROPPED_COMMANDS[name]; index++) {
+      const group = readGroup(src, next);
+      if (!group) break;
+      next = group.end;
+    }
+    return result([]);
+  }
+
+  // Unknown commands keep the text of their first argument
+  optional();
+  const group = readGroup(src, next);
+  if (group) {
+    next = group.end;
+    return result(inlines(group.value));
+  }
+  return result([]);
+}
+
+// A URL protected by protectVerbatim, or a plain argument
+function verbatimArgument(value: string, context: LaTeXContext): string {
+  const protectedValue = value.match(/^\s*\\@verb\s*\{(\d+)\}\s*$/);
+  return protectedValue ? context.verbatim[Number(protectedValue[1])] : value.trim();
+}
+
+// Block content in an inline position (a tabular in a cell): paragraphs joined by line breaks
+function blocksToInlines(blocks: Block[]): Inline[] {
+  const inlines: Inline[] = [];
+  walkBlocks(blocks, block => {
+    if (block.type === 'table') {
+      block.rows.forEach(row => {
+        if (inlines.length > 0) inlines.push({ type: 'lineBreak' });
+        row.cells.forEach((cell, index) => inlines.push(...(index > 0 ? [text(' ')] : []), ...cell.children));
+      });
+      return;
+    }
+    const children = block.type === 'paragraph' || block.type === 'heading' ? block.children
+      : block.type === 'math' ? [{ type: 'math' as const, tex: block.tex }]
+      : block.type === 'code' ? [text(block.text, ['code'])]
+      : null;
+    if (!children) return;
+    if (inlines.length > 0) inlines.push({ type: 'lineBreak' });
+    inlines.push(...children);
+  });
+  return inlines;
+}
+
+function typography(value: string): string {
+  return value
+    .replace(/\s+/g, ' ')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/``/g, '“')
+    .replace(/''/g, '”')
+    .replace(/!`/g, '¡')
+    .replace(/\?`/g, '¿')
+    .replace(/`/g, '‘')
+    .replace(/'/g, '’');
+}
+
+// Adjacent text with the same marks is one run
+function appendInlines(target: Inline[], items: Inline[]): void {
+  items.forEach(item => {
+    const last = target[target.length - 1];
+    if (item.type === 'text' && last?.type === 'text' && (last.marks || []).join() === (item.marks || []).join()) {
+      const joined = last.text + item.text;
+      target[target.length - 1] = { ...last, text: item.marks?.includes('code') ? joined : joined.replace(/ {2,}/g, ' ') };
+    } else if (item.type !== 'text' || item.text) {
+      target.push(item);
+    }
+  });
+}
+
+function trimLineBreaks(inlines: Inline[]): Inline[] {
+  const isBlank = (inline: Inline) => inline.type === 'lineBreak' || (inline.type === 'text' && !inline.text.trim());
+  let start = 0;
+  let end = inlines.length;
+  while (start < end && isBlank(inlines[start])) start++;
+  while (end > start && isBlank(inlines[end - 1])) end--;
+  return inlines.slice(start, end);
+}
+
+// \ref placeholders become the numbers their labels were given
+function resolveReferences(blocks: Block[], labels: Map<string, string>): void {
+  const resolve = (inlines: Inline[]) => inlines.forEach((inline, index) => {
+    if (inline.type === 'text' && inline.text.includes('\uE000')) {
+      inlines[index] = { ...inline, text: inline.text.replace(REFERENCE, (_, key: string) => labels.get(key) || key) };
+    } else if (inline.type === 'link') {
+      resolve(inline.children);
+    }
+  });
+  walkBlocks(blocks, block => {
+    if (block.type === 'paragraph' || block.type === 'heading') resolve(block.children);
+    if (block.type === 'table') block.rows.forEach(row => row.cells.forEach(cell => resolve(cell.children)));
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Scanning
+// ---------------------------------------------------------------------------
+
+function matchAt(pattern: RegExp, src: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(src);
+}
+
+// A command's name (a control word, or one non-letter character) and where its arguments start
+function readCommandName(src: string, start: number): { name: string; end: number } {
+  const word = matchAt(COMMAND_NAME, src, start + 1);
+  if (!word) return { name: src[start + 1] || '', end: Math.min(src.length, start + 2) };
+  const end = start + 1 + word[0].length;
+  return { name: word[0], end: end + (matchAt(SPACES, src, end)?.[0].length || 0) };
+}
+
+function readGroup(src: string, start: number): { value: string; end: number } | null {
+  return readDelimited(src, start, '{', '}');
+}
+
+function readOptional(src: string, start: number): { value: string; end: number } | null {
+  return readDelimited(src, start, '[', ']');
+}
+
+// A balanced {...} or [...] at `start` (after spaces), braces inside brackets included
+function readDelimited(src: string, start: number, open: string, close: string): { value: string; end: number } | null {
+  const from = start + (matchAt(SPACES, src, start)?.[0].length || 0);
+  if (src[from] !== open) return null;
+  let depth = 0;
+  let braces = 0;
+  for (let i = from; i < src.length; i++) {
+    const char = src[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (open === '[') {
+      if (char === '{') braces++;
+      else if (char === '}') braces--;
+      if (braces > 0 || char === '}') continue;
+    }
+    if (char === open) depth++;
+    else if (char === close && --depth === 0) return { value: src.slice(from + 1, i), end: i + 1 };
+  }
+  return null;
+}
+
+// The position of an unescaped closing delimiter (the end of the source when there is none)
+function findClosing(src: string, close: string, start: number): number {
+  for (let i = start; i < src.length; i++) {
+    if (src.startsWith(close, i) && (close.startsWith('\\') || src[i - 1] !== '\\')) return i;
+    if (src[i] === '\\' && !close.startsWith('\\')) i++;
+  }
+  return src.length;
+}
+
+// The body of an environment opened just before `start`, and where its \end{...} finishes
+function environmentBody(src: string, name: string, start: number): { body: string; end: number } {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`\\\\(begin|end)\\s*\\{${escaped}\\}`, 'g');
+  pattern.lastIndex = start;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(src))) {
+    depth += match[1] === 'begin' ? 1 : -1;
+    if (depth === 0) return { body: src.slice(start, match.index), end: match.index + match[0].length };
+  }
+  return { body: src.slice(start), end: src.length };
+}
+
+// Split at `separator` outside groups and nested environments
+function splitTopLevel(src: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < src.length; i++) {
+    if (depth === 0) {
+      const match = matchAt(separator, src, i);
+      if (match) {
+        parts.push(src.slice(start, i));
+        start = i + match[0].length;
+        i = start - 1;
+        continue;
+      }
+      const begin = matchAt(BEGIN_ENVIRONMENT, src, i);
+      if (begin) {
+        i = environmentBody(src, begin[1], i + begin[0].length).end - 1;
+        continue;
+      }
+    }
+    const char = src[i];
+    if (char === '\\') i++;
+    else if (char === '{') depth++;
+    else if (char === '}') depth = Math.max(0, depth - 1);
+  }
+  parts.push(src.slice(start));
+  return parts;
+}
+
+// The argument of the first \name{...} in `src`
+function commandArgument(src: string, name: string): string | undefined {
+  const pattern = new RegExp(`\\\\${name}(?![A-Za-z])`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(src))) {
+    const i = readOptional(src, match.index + match[0].length)?.end ?? match.index + match[0].length;
+    const group = readGroup(src, i);
+    if (group) return group.value;
+  }
+  return undefined;
+}
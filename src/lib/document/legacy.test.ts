@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { isCompoundFile, readDOC, readPPT } from './legacy';
+import { inlineText } from './utils';
+import type { Block } from './types';
+import { SPRM_IN_TABLE, SPRM_ROW_END, powerPointDocument, wordDocument } from '@/test/office';
+
+function blockText(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(item => item.blocks.map(blockText).join(' ')).join(' | ');
+    case 'table':
+      return block.rows.map(row => row.cells.map(cell => inlineText(cell.children)).join(',')).join(';');
+    default:
+      return block.type;
+  }
+}
+
+describe('readDOC', () => {
+  it('reads headings, paragraphs, tables and page breaks', () => {
+    const doc = readDOC(wordDocument([
+      { text: 'Annual report', istd: 1 },
+      { text: 'Sales rose.', mark: '\x0C' },
+      { text: 'Region', mark: '\x07', sprms: SPRM_IN_TABLE },
+      { text: 'Sales', mark: '\x07', sprms: SPRM_IN_TABLE },
+      { text: '', mark: '\x07', sprms: [...SPRM_IN_TABLE, ...SPRM_ROW_END] },
+      { text: 'North', mark: '\x07', sprms: SPRM_IN_TABLE },
+      { text: '12', mark: '\x07', sprms: SPRM_IN_TABLE },
+      { text: '', mark: '\x07', sprms: [...SPRM_IN_TABLE, ...SPRM_ROW_END] },
+      { text: 'Thanks for reading.' }
+    ]));
+
+    expect(doc.blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'pageBreak', 'table', 'paragraph']);
+    expect(doc.blocks.map(blockText)).toEqual(['Annual report', 'Sales rose.', 'pageBreak', 'Region,Sales;North,12', 'Thanks for reading.']);
+    expect(doc.metadata.title).toBe('Annual report');
+  });
+
+  it('keeps only the result of fields', () => {
+    const doc = readDOC(wordDocument([{ text: 'See page \x13 PAGEREF _Toc1 \x144\x15.' }]));
+    expect(doc.blocks.map(blockText)).toEqual(['See page 4.']);
+  });
+
+  it('rejects files that are not compound files', () => {
+    const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0, 0, 0]).buffer;
+    expect(isCompoundFile(zip)).toBe(false);
+    expect(() => readDOC(zip)).toThrow('OLE2 compound file header is missing');
+  });
+});
+
+describe('readPPT', () => {
+  it('reads slides in order with titles and bulleted body text', () => {
+    const doc = readPPT(powerPointDocument([
+      { title: 'Welcome', body: ['Agenda', 'Goals'] },
+      { title: 'Results', body: ['Up 10%'] }
+    ]));
+
+    expect(doc.metadata.pageCount).toBe(2);
+    expect(doc.blocks.map(blockText)).toEqual(['Welcome', 'Agenda | Goals', 'pageBreak', 'Results', 'Up 10%']);
+    expect(doc.blocks[1].type).toBe('list');
+  });
+});
@@ -0,0 +1,675 @@
+/**
+ * Office 97-2003 Readers
+ * Word (.doc) and PowerPoint (.ppt) binaries are OLE2 compound files - a small
+ * FAT file system whose streams hold the document records. Excel (.xls) workbooks
+ * are left to SheetJS, which reads BIFF itself.
+ */
+
+import * as CFB from 'cfb';
+import type { Block, DocumentMetadata, DocumentModel, Inline, TableBlock, TableCell } from './types';
+import { buildPresentation, paragraphsToBlocks, type SlideContent, type TextParagraph } from './presentation';
+import { createDocument, firstHeading, text } from './utils';
+
+const CFB_SIGNATURE = [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1];
+
+/**
+ * True for OLE2 compound files (.doc, .xls, .ppt, .msg ...)
+ */
+export function isCompoundFile(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data, 0, Math.min(CFB_SIGNATURE.length, data.byteLength));
+  return CFB_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+function openCompoundFile(data: ArrayBuffer, kind: string): CFB.CFB$Container {
+  if (!isCompoundFile(data)) {
+    throw new Error(`Not a ${kind} file (the OLE2 compound file header is missing)`);
+  }
+  return CFB.read(new Uint8Array(data), { type: 'array' });
+}
+
+function readStream(container: CFB.CFB$Container, name: string): Uint8Array | null {
+  // A leading slash limits the lookup to the root storage (embedded objects have their own streams)
+  const entry = CFB.find(container, `/${name}`);
+  if (!entry?.content || entry.content.length === 0) return null;
+  return entry.content instanceof Uint8Array ? entry.content : Uint8Array.from(entry.content);
+}
+
+function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Line breaks inside a paragraph are vertical tabs in both Word and PowerPoint
+ */
+function toInlines(value: string): Inline[] {
+  return value.split('\x0B').flatMap((part, index): Inline[] => {
+    const parts: Inline[] = part ? [text(part)] : [];
+    return index > 0 ? [{ type: 'lineBreak' }, ...parts] : parts;
+  });
+}
+
+/**
+ * Title and author from the \x05SummaryInformation property set
+ */
+function readSummaryInformation(container: CFB.CFB$Container): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+  const bytes = readStream(container, '\u0005SummaryInformation');
+  if (!bytes || bytes.length < 48) return metadata;
+
+  try {
+    const view = dataView(bytes);
+    const section = view.getUint32(44, true);
+    const count = view.getUint32(section + 4, true);
+    let codePage = 1252;
+    const strings = new Map<number, Uint8Array>();
+
+    for (let i = 0; i < count; i++) {
+      const id = view.getUint32(section + 8 + i * 8, true);
+      const offset = section + view.getUint32(section + 12 + i * 8, true);
+      const type = view.getUint32(offset, true);
+      if (id === PID_CODEPAGE && type === VT_I2) {
+        codePage = view.getUint16(offset + 4, true);
+      } else if (type === VT_LPSTR) {
+        strings.set(id, bytes.subarray(offset + 8, offset + 8 + view.getUint32(offset + 4, true)));
+      }
+    }
+
+    const decoder = codePage === 1200 ? new TextDecoder('utf-16le')
+      : codePage === 65001 ? new TextDecoder('utf-8')
+        : new TextDecoder(`windows-${codePage}`);
+    const read = (id: number) => {
+      const value = strings.get(id);
+      return value ? decoder.decode(value).replace(/\0+$/, '').trim() : '';
+    };
+
+    const title = read(PID_TITLE);
+    const author = read(PID_AUTHOR);
+    if (title) metadata.title = title;
+    if (author) metadata.author = author;
+  } catch (error) {
+    console.warn('Could not read the document summary information', error);
+  }
+  return metadata;
+}
+
+const PID_CODEPAGE = 1;
+const PID_TITLE = 2;
+const PID_AUTHOR = 4;
+const VT_I2 = 0x02;
+const VT_LPSTR = 0x1E;
+
+// ---------------------------------------------------------------------------
+// Word 97-2003 (.doc)
+// ---------------------------------------------------------------------------
+
+// File Information Block offsets (Word 97 and later)
+const FIB_IDENT = 0xA5EC;
+const FIB_FLAGS = 0x000A;
+const FIB_CCP_TEXT = 0x004C;
+const FIB_FC_PLCF_BTE_PAPX = 0x0102;
+const FIB_FC_CLX = 0x01A2;
+const FIB_MIN_SIZE = 0x01AA;
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_WHICH_TABLE = 0x0200;
+const NFIB_WORD_97 = 0x00C0;
+
+// Paragraph property modifiers we read
+const SPRM_P_IN_TABLE = 0x2416;
+const SPRM_P_TTP = 0x2417;
+const SPRM_P_ILVL = 0x260A;
+const SPRM_P_ILFO = 0x460B;
+const SPRM_T_TABLE_HEADER = 0x3404;
+const SPRM_T_DEF_TABLE = 0xD608;
+
+// Formatted disk pages holding paragraph properties are 512 bytes
+const FKP_SIZE = 512;
+
+interface Piece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number; // Byte offset of the first character in the WordDocument stream
+  compressed: boolean; // 8-bit Windows-1252 text instead of UTF-16
+}
+
+interface ParagraphProperties {
+  istd: number; // Style index - 1-9 are the built-in Heading 1-9
+  inTable: boolean;
+  rowEnd: boolean;
+  tableHeader: boolean;
+  listLevel: number | null;
+}
+
+interface ParagraphRun {
+  fcStart: number;
+  fcEnd: number;
+  properties: ParagraphProperties;
+}
+
+const PLAIN_PARAGRAPH: ParagraphProperties = { istd: 0, inTable: false, rowEnd: false, tableHeader: false, listLevel: null };
+
+/**
+ * Read the main text of a Word 97-2003 document: headings (from the built-in
+ * heading styles), paragraphs, list items and tables. Footnotes, headers and
+ * character formatting are not read.
+ */
+export function readDOC(data: ArrayBuffer): DocumentModel {
+  const container = openCompoundFile(data, 'Word 97-2003');
+  const wordDocument = readStream(container, 'WordDocument');
+  if (!wordDocument || wordDocument.length < FIB_MIN_SIZE) {
+    throw new Error('Not a Word 97-2003 document (the WordDocument stream is missing)');
+  }
+
+  const fib = dataView(wordDocument);
+  if (fib.getUint16(0, true) !== FIB_IDENT) {
+    throw new Error('Not a Word 97-2003 document (unknown file information block)');
+  }
+  if (fib.getUint16(2, true) < NFIB_WORD_97) {
+    throw new Error('Word 6.0/95 documents are not supported - save the file as Word 97-2003 or .docx');
+  }
+  const flags = fib.getUint16(FIB_FLAGS, true);
+  if (flags & FLAG_ENCRYPTED) {
+    throw new Error('This Word document is password-protected - remove the password in Word and try again');
+  }
+
+  const table = readStream(container, flags & FLAG_WHICH_TABLE ? '1Table' : '0Table');
+  if (!table) {
+    throw new Error('The Word document is damaged (its table stream is missing)');
+  }
+
+  const pieces = readPieceTable(table, fib.getUint32(FIB_FC_CLX, true), fib.getUint32(FIB_FC_CLX + 4, true));
+  const { content, fcs } = readMainText(wordDocument, pieces, fib.getUint32(FIB_CCP_TEXT, true));
+  const runs = readParagraphRuns(wordDocument, table, fib.getUint32(FIB_FC_PLCF_BTE_PAPX, true), fib.getUint32(FIB_FC_PLCF_BTE_PAPX + 4, true));
+
+  const doc = createDocument(readWordBlocks(content, fcs, runs), readSummaryInformation(container));
+  doc.metadata.title = doc.metadata.title || firstHeading(doc);
+  return doc;
+}
+
+/**
+ * The piece table maps character positions to where their text is stored
+ */
+function readPieceTable(table: Uint8Array, fcClx: number, lcbClx: number): Piece[] {
+  const view = dataView(table);
+  let pos = fcClx;
+  const end = Math.min(fcClx + lcbClx, table.length);
+
+  // Skip the property modifier blocks (Prc) that precede the piece table (Pcdt)
+  while (pos < end && table[pos] === 0x01) {
+    pos += 3 + view.getUint16(pos + 1, true);
+  }
+  if (pos >= end || table[pos] !== 0x02) {
+    throw new Error('The Word document is damaged (its piece table is missing)');
+  }
+
+  const base = pos + 5;
+  const count = (view.getUint32(pos + 1, true) - 4) / 12;
+  const pieces: Piece[] = [];
+  for (let i = 0; i < count; i++) {
+    const fcCompressed = view.getUint32(base + (count + 1) * 4 + i * 8 + 2, true);
+    const compressed = (fcCompressed & 0x40000000) !== 0;
+    const fc = fcCompressed & 0x3FFFFFFF;
+    pieces.push({
+      cpStart: view.getUint32(base + i * 4, true),
+      cpEnd: view.getUint32(base + (i + 1) * 4, true),
+      fc: compressed ? fc / 2 : fc,
+      compressed
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Main document text plus the stream offset of every character, used to find
+ * each paragraph's properties
+ */
+function readMainText(wordDocument: Uint8Array, pieces: Piece[], ccpText: number): { content: string; fcs: Uint32Array } {
+  const ansi = new TextDecoder('windows-1252');
+  const unicode = new TextDecoder('utf-16le');
+  const fcs = new Uint32Array(ccpText);
+  let content = '';
+
+  pieces.forEach(piece => {
+    if (piece.cpStart >= ccpText) return;
+    const count = Math.min(piece.cpEnd, ccpText) - piece.cpStart;
+    const width = piece.compressed ? 1 : 2;
+    const bytes = wordDocument.subarray(piece.fc, piece.fc + count * width);
+    // Keep character positions aligned even if the stream is short
+    content += (piece.compressed ? ansi : unicode).decode(bytes).padEnd(count, ' ').slice(0, count);
+    for (let i = 0; i < count; i++) {
+      fcs[piece.cpStart + i] = piece.fc + i * width;
+    }
+  });
+
+  return { content, fcs };
+}
+
+function readParagraphRuns(wordDocument: Uint8Array, table: Uint8Array, fcPlcf: number, lcbPlcf: number): ParagraphRun[] {
+  const view = dataView(table);
+  const count = (lcbPlcf - 4) / 8;
+  const runs: ParagraphRun[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const page = (view.getUint32(fcPlcf + (count + 1) * 4 + i * 4, true) & 0x3FFFFF) * FKP_SIZE;
+    if (page + FKP_SIZE > wordDocument.length) continue;
+
+    const fkp = new DataView(wordDocument.buffer, wordDocument.byteOffset + page, FKP_SIZE);
+    const runCount = fkp.getUint8(FKP_SIZE - 1);
+    for (let run = 0; run < runCount; run++) {
+      const offset = fkp.getUint8((runCount + 1) * 4 + run * 13) * 2;
+      runs.push({
+        fcStart: fkp.getUint32(run * 4, true),
+        fcEnd: fkp.getUint32((run + 1) * 4, true),
+        properties: offset ? readParagraphProperties(wordDocument, page + offset) : PLAIN_PARAGRAPH
+      });
+    }
+  }
+
+  return runs.sort((a, b) => a.fcStart - b.fcStart);
+}
+
+function readParagraphProperties(bytes: Uint8Array, offset: number): ParagraphProperties {
+  const view = dataView(bytes);
+  const cb = bytes[offset];
+  const start = cb ? offset + 1 : offset + 2;
+  const end = Math.min(start + (cb ? cb * 2 - 1 : bytes[offset + 1] * 2), bytes.length);
+  const properties: ParagraphProperties = { ...PLAIN_PARAGRAPH, istd: view.getUint16(start, true) };
+  let inList = false;
+  let level = 0;
+
+  let pos = start + 2;
+  while (pos + 2 <= end) {
+    const sprm = view.getUint16(pos, true);
+    const operand = pos + 2;
+    // The top three bits give the operand size
+    switch (sprm >>> 13) {
+      case 0:
+      case 1:
+        pos = operand + 1;
+        break;
+      case 2:
+      case 4:
+      case 5:
+        pos = operand + 2;
+        break;
+      case 3:
+        pos = operand + 4;
+        break;
+      case 7:
+        pos = operand + 3;
+        break;
+      default:
+        pos = sprm === SPRM_T_DEF_TABLE ? operand + view.getUint16(operand, true) + 1 : operand + bytes[operand] + 1;
+    }
+    if (pos > end) break;
+
+    switch (sprm) {
+      case SPRM_P_IN_TABLE:
+        properties.inTable = bytes[operand] !== 0;
+        break;
+      case SPRM_P_TTP:
+        properties.rowEnd = bytes[operand] !== 0;
+        break;
+      case SPRM_T_TABLE_HEADER:
+        properties.tableHeader = bytes[operand] !== 0;
+        break;
+      case SPRM_P_ILVL:
+        level = bytes[operand];
+        break;
+      case SPRM_P_ILFO:
+        inList = view.getInt16(operand, true) > 0;
+        break;
+    }
+  }
+
+  if (inList) properties.listLevel = level;
+  return properties;
+}
+
+function propertiesAt(runs: ParagraphRun[], fc: number): ParagraphProperties {
+  let low = 0;
+  let high = runs.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const run = runs[middle];
+    if (fc < run.fcStart) high = middle - 1;
+    else if (fc >= run.fcEnd) low = middle + 1;
+    else return run.properties;
+  }
+  return PLAIN_PARAGRAPH;
+}
+
+/**
+ * Split the text at paragraph marks (\r), cell marks (\x07) and page breaks (\x0C)
+ * and build blocks from each paragraph's properties
+ */
+function readWordBlocks(content: string, fcs: Uint32Array, runs: ParagraphRun[]): Block[] {
+  const blocks: Block[] = [];
+  let paragraph = '';
+  let table: TableBlock | null = null;
+  let row: TableCell[] = [];
+  let cell: string[] = [];
+  let listItems: TextParagraph[] = [];
+  // One entry per open field: true while in its instruction code, false once in its result
+  const fields: boolean[] = [];
+
+  const flushList = () => {
+    if (listItems.length === 0) return;
+    blocks.push(...paragraphsToBlocks(listItems));
+    listItems = [];
+  };
+  const flushTable = () => {
+    if (table && table.rows.length > 0) blocks.push(table);
+    table = null;
+  };
+
+  const endParagraph = (mark: string, properties: ParagraphProperties) => {
+    const value = paragraph.trim();
+    paragraph = '';
+
+    if (properties.rowEnd) {
+      table = table || { type: 'table', rows: [], headerRows: 0 };
+      if (properties.tableHeader && table.headerRows === table.rows.length) table.headerRows++;
+      table.rows.push({ cells: row });
+      row = [];
+      cell = [];
+      return;
+    }
+    if (properties.inTable) {
+      flushList();
+      table = table || { type: 'table', rows: [], headerRows: 0 };
+      cell.push(value);
+      if (mark === '\x07') {
+        row.push({ children: toInlines(cell.filter(Boolean).join('\x0B')) });
+        cell = [];
+      }
+      return;
+    }
+
+    flushTable();
+    if (properties.listLevel !== null && value) {
+      listItems.push({ inlines: toInlines(value), level: properties.listLevel, bullet: 'bullet' });
+    } else {
+      flushList();
+      if (value && properties.istd >= 1 && properties.istd <= 9) {
+        blocks.push({ type: 'heading', level: Math.min(properties.istd, 6) as 1 | 2 | 3 | 4 | 5 | 6, children: toInlines(value) });
+      } else if (value) {
+        blocks.push({ type: 'paragraph', children: toInlines(value) });
+      }
+    }
+    if (mark === '\x0C') {
+      flushList();
+      blocks.push({ type: 'pageBreak' });
+    }
+  };
+
+  for (let cp = 0; cp < content.length; cp++) {
+    const char = content[cp];
+    switch (char) {
+      case '\x13': // Field begin
+        fields.push(true);
+        continue;
+      case '\x14': // Field separator - the result follows
+        if (fields.length > 0) fields[fields.length - 1] = false;
+        continue;
+      case '\x15': // Field end
+        fields.pop();
+        continue;
+    }
+    if (fields.includes(true)) continue;
+
+    if (char === '\r' || char === '\x07' || char === '\x0C') {
+      endParagraph(char, propertiesAt(runs, fcs[cp]));
+    } else if (char === '\x1E') {
+      paragraph += '-'; // Non-breaking hyphen
+    } else if (char === '\t' || char === '\x0B' || char >= ' ') {
+      paragraph += char;
+    }
+    // Other control characters mark pictures, footnote references and drawn objects
+  }
+  if (paragraph.trim()) endParagraph('\r', PLAIN_PARAGRAPH);
+
+  flushList();
+  flushTable();
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// PowerPoint 97-2003 (.ppt)
+// ---------------------------------------------------------------------------
+
+// Record types
+const RT_DOCUMENT = 0x03E8;
+const RT_SLIDE_ATOM = 0x03EF;
+const RT_SLIDE_PERSIST_ATOM = 0x03F3;
+const RT_TEXT_HEADER_ATOM = 0x0F9F;
+const RT_TEXT_CHARS_ATOM = 0x0FA0;
+const RT_TEXT_BYTES_ATOM = 0x0FA8;
+const RT_SLIDE_LIST_WITH_TEXT = 0x0FF0;
+const RT_USER_EDIT_ATOM = 0x0FF5;
+const RT_PERSIST_DIRECTORY_ATOM = 0x1772;
+
+// Text types from the TextHeaderAtom
+const TEXT_TITLE = 0;
+const TEXT_BODY = 1;
+const TEXT_NOTES = 2;
+const TEXT_CENTER_TITLE = 6;
+const TEXT_HALF_BODY = 7;
+const TEXT_QUARTER_BODY = 8;
+
+const ENCRYPTED_HEADER_TOKEN = 0xF3D1C4DF;
+
+interface PPTRecord {
+  type: number;
+  instance: number;
+  container: boolean;
+  start: number; // First byte after the 8-byte record header
+  end: number;
+}
+
+interface PPTText {
+  type: number;
+  value: string;
+}
+
+/**
+ * Read the slides of a PowerPoint 97-2003 presentation in slide order: titles,
+ * body text as bullets, text boxes and speaker notes. Tables and pictures are
+ * not read.
+ */
+export function readPPT(data: ArrayBuffer): DocumentModel {
+  const container = openCompoundFile(data, 'PowerPoint 97-2003');
+  const stream = readStream(container, 'PowerPoint Document');
+  if (!stream) {
+    throw new Error('Not a PowerPoint 97-2003 presentation (the PowerPoint Document stream is missing)');
+  }
+  if (readStream(container, 'EncryptedSummary')) {
+    throw new Error('This presentation is password-protected - remove the password in PowerPoint and try again');
+  }
+
+  const view = dataView(stream);
+  const { directory, documentOffset } = readPersistDirectory(view, readStream(container, 'Current User'));
+  const documentRecord = documentOffset !== null ? readRecord(view, documentOffset) : findLastDocument(view);
+  if (!documentRecord || documentRecord.type !== RT_DOCUMENT) {
+    throw new Error('The presentation is damaged (its document record is missing)');
+  }
+
+  // Slide order and placeholder text come from the slide list
+  const slideList = childRecords(view, documentRecord)
+    .find(record => record.type === RT_SLIDE_LIST_WITH_TEXT && record.instance === 0);
+  const listed: { persistId: number; texts: PPTText[] }[] = [];
+  let textType = TEXT_BODY;
+  (slideList ? childRecords(view, slideList) : []).forEach(record => {
+    if (record.type === RT_SLIDE_PERSIST_ATOM) {
+      listed.push({ persistId: view.getUint32(record.start, true), texts: [] });
+    } else if (record.type === RT_TEXT_HEADER_ATOM) {
+      textType = view.getUint32(record.start, true);
+    } else if (isTextAtom(record) && listed.length > 0) {
+      listed[listed.length - 1].texts.push({ type: textType, value: readTextAtom(view, record) });
+    }
+  });
+
+  const slides = listed.map(({ persistId, texts }) => {
+    const slideOffset = directory.get(persistId);
+    const slideRecord = slideOffset !== undefined ? readRecord(view, slideOffset) : null;
+    // Text boxes that are not placeholders keep their text in the slide's drawing
+    const drawingTexts = slideRecord ? collectTexts(view, slideRecord) : [];
+
+    const slideAtom = slideRecord && findRecord(view, slideRecord, RT_SLIDE_ATOM);
+    const notesOffset = slideAtom ? directory.get(view.getUint32(slideAtom.start + 16, true)) : undefined;
+    const notesRecord = notesOffset !== undefined ? readRecord(view, notesOffset) : null;
+    const notes = notesRecord ? collectTexts(view, notesRecord).filter(item => item.type === TEXT_NOTES) : [];
+
+    return buildSlide([...texts, ...drawingTexts], notes);
+  });
+
+  return buildPresentation(slides, readSummaryInformation(container));
+}
+
+function buildSlide(texts: PPTText[], notes: PPTText[]): SlideContent {
+  const slide: SlideContent = { title: [], blocks: [], notes: [] };
+  const paragraphs: TextParagraph[] = [];
+
+  texts.forEach(({ type, value }) => {
+    if ((type === TEXT_TITLE || type === TEXT_CENTER_TITLE) && slide.title.length === 0) {
+      slide.title = toInlines(value.trim().replace(/\r/g, '\x0B'));
+      return;
+    }
+    if (type === TEXT_NOTES) return;
+
+    const isBody = type === TEXT_BODY || type === TEXT_HALF_BODY || type === TEXT_QUARTER_BODY;
+    value.split('\r').forEach(line => {
+      if (line.trim()) paragraphs.push({ inlines: toInlines(line.trim()), level: 0, bullet: isBody ? 'bullet' : 'none' });
+    });
+  });
+
+  slide.blocks = paragraphsToBlocks(paragraphs);
+  slide.notes = notes
+    .flatMap(note => note.value.split('\r'))
+    .filter(line => line.trim())
+    .map((line): Block => ({ type: 'paragraph', children: toInlines(line.trim()) }));
+  return slide;
+}
+
+function readRecord(view: DataView, offset: number): PPTRecord | null {
+  if (offset < 0 || offset + 8 > view.byteLength) return null;
+  const header = view.getUint16(offset, true);
+  return {
+    type: view.getUint16(offset + 2, true),
+    instance: header >>> 4,
+    container: (header & 0xF) === 0xF,
+    start: offset + 8,
+    end: Math.min(offset + 8 + view.getUint32(offset + 4, true), view.byteLength)
+  };
+}
+
+function childRecords(view: DataView, parent: PPTRecord): PPTRecord[] {
+  const records: PPTRecord[] = [];
+  let offset = parent.start;
+  while (offset + 8 <= parent.end) {
+    const record = readRecord(view, offset);
+    if (!record) break;
+    records.push(record);
+    offset = record.end;
+  }
+  return records;
+}
+
+function findRecord(view: DataView, parent: PPTRecord, type: number): PPTRecord | null {
+  for (const record of childRecords(view, parent)) {
+    if (record.type === type) return record;
+    const nested = record.container ? findRecord(view, record, type) : null;
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function isTextAtom(record: PPTRecord): boolean {
+  return record.type === RT_TEXT_CHARS_ATOM || record.type === RT_TEXT_BYTES_ATOM;
+}
+
+function readTextAtom(view: DataView, record: PPTRecord): string {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + record.start, record.end - record.start);
+  if (record.type === RT_TEXT_CHARS_ATOM) {
+    return new TextDecoder('utf-16le').decode(bytes);
+  }
+  // Text bytes are the low bytes of UTF-16 code units (ISO 8859-1)
+  let value = '';
+  bytes.forEach(byte => {
+    value += String.fromCharCode(byte);
+  });
+  return value;
+}
+
+/**
+ * Text atoms anywhere inside a slide or notes container, with their text type
+ */
+function collectTexts(view: DataView, parent: PPTRecord, texts: PPTText[] = []): PPTText[] {
+  let textType = TEXT_BODY;
+  childRecords(view, parent).forEach(record => {
+    if (record.container) {
+      collectTexts(view, record, texts);
+    } else if (record.type === RT_TEXT_HEADER_ATOM) {
+      textType = view.getUint32(record.start, true);
+    } else if (isTextAtom(record)) {
+      texts.push({ type: textType, value: readTextAtom(view, record) });
+    }
+  });
+  return texts;
+}
+
+/**
+ * Map persist ids to stream offsets by replaying the user edits, oldest first
+ */
+function readPersistDirectory(view: DataView, currentUser: Uint8Array | null): { directory: Map<number, number>; documentOffset: number | null } {
+  const directory = new Map<number, number>();
+  if (!currentUser || currentUser.length < 20) return { directory, documentOffset: null };
+
+  const user = dataView(currentUser);
+  if (user.getUint32(12, true) === ENCRYPTED_HEADER_TOKEN) {
+    throw new Error('This presentation is password-protected - remove the password in PowerPoint and try again');
+  }
+
+  const directoryOffsets: number[] = [];
+  const visited = new Set<number>();
+  let documentPersistId: number | null = null;
+  let offset = user.getUint32(16, true);
+  while (offset > 0 && !visited.has(offset)) {
+    const edit = readRecord(view, offset);
+    if (!edit || edit.type !== RT_USER_EDIT_ATOM || edit.end - edit.start < 20) break;
+    visited.add(offset);
+    if (documentPersistId === null) documentPersistId = view.getUint32(edit.start + 16, true);
+    directoryOffsets.push(view.getUint32(edit.start + 12, true));
+    offset = view.getUint32(edit.start + 8, true);
+  }
+
+  directoryOffsets.reverse().forEach(directoryOffset => {
+    const record = readRecord(view, directoryOffset);
+    if (!record || record.type !== RT_PERSIST_DIRECTORY_ATOM) return;
+    let pos = record.start;
+    while (pos + 4 <= record.end) {
+      const entry = view.getUint32(pos, true);
+      pos += 4;
+      const firstId = entry & 0xFFFFF;
+      const count = entry >>> 20;
+      for (let i = 0; i < count && pos + 4 <= record.end; i++, pos += 4) {
+        directory.set(firstId + i, view.getUint32(pos, true));
+      }
+    }
+  });
+
+  const documentOffset = documentPersistId !== null ? directory.get(documentPersistId) ?? null : null;
+  return { directory, documentOffset };
+}
+
+// Without a usable edit history, the last top-level document record is the current one
+function findLastDocument(view: DataView): PPTRecord | null {
+  let found: PPTRecord | null = null;
+  let offset = 0;
+  while (offset + 8 <= view.byteLength) {
+    const record = readRecord(view, offset);
+    if (!record) break;
+    if (record.type === RT_DOCUMENT) found = record;
+    offset = record.end;
+  }
+  return found;
+}
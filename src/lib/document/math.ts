@@ -0,0 +1,1487 @@
+/**
+ * TeX Math
+ * Parse TeX math (the LaTeX and amsmath subset people write in Markdown and
+ * papers) once into a small tree, then render the tree for each target: MathML
+ * for HTML and EPUB, Word equations (OMML) for DOCX, and a box layout of glyphs
+ * and strokes that the PDF writer draws as vector text and lines.
+ */
+
+import {
+  ImportedXmlComponent,
+  Math as DocxMath,
+  MathAngledBrackets,
+  MathCurlyBrackets,
+  MathFraction,
+  MathLimitLower,
+  MathLimitUpper,
+  MathRadical,
+  MathRoundBrackets,
+  MathRun,
+  MathSquareBrackets,
+  MathSubScript,
+  MathSubSuperScript,
+  MathSuperScript,
+  type MathComponent,
+  type ParagraphChild
+} from 'docx';
+import { escapeXML } from './utils';
+
+export type MathVariant = 'normal' | 'italic' | 'bold' | 'bold-italic' | 'double-struck' | 'script' | 'fraktur' | 'sans-serif' | 'monospace';
+
+type Align = 'left' | 'center' | 'right';
+type Limits = boolean | 'always'; // Limits above and below in display style, always, or never
+
+type AccentName = 'hat' | 'check' | 'tilde' | 'bar' | 'vec' | 'dot' | 'ddot' | 'breve' | 'acute' | 'grave'
+  | 'overline' | 'underline' | 'overrightarrow' | 'overleftarrow' | 'overleftrightarrow' | 'overbrace' | 'underbrace';
+
+export type MathNode =
+  | { type: 'row'; children: MathNode[] }
+  | { type: 'identifier'; text: string; variant?: MathVariant; limits?: Limits }
+  | { type: 'number'; text: string; variant?: MathVariant }
+  | { type: 'operator'; text: string; large?: boolean; limits?: Limits; fence?: boolean; size?: number }
+  | { type: 'text'; text: string; variant?: MathVariant }
+  | { type: 'fraction'; numerator: MathNode; denominator: MathNode; line: boolean; style?: 'display' | 'text' }
+  | { type: 'root'; body: MathNode; index?: MathNode }
+  | { type: 'scripts'; base: MathNode; sub?: MathNode; sup?: MathNode; limits?: Limits }
+  | { type: 'fenced'; open: string; close: string; body: MathNode }
+  | { type: 'accent'; base: MathNode; accent: AccentName; limits?: Limits }
+  | { type: 'table'; rows: MathNode[][]; align: Align[]; kind: 'matrix' | 'aligned' | 'gathered' | 'cases'; small?: boolean }
+  | { type: 'space'; width: number }; // em
+
+export interface ParsedMath {
+  root: MathNode;
+  tag?: string; // Equation number from \tag, with its parentheses
+}
+
+// ---------------------------------------------------------------------------
+// Symbols
+// ---------------------------------------------------------------------------
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ',
+  vartheta: 'ϑ', iota: 'ι', kappa: 'κ', varkappa: 'ϰ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', omicron: 'ο', pi: 'π',
+  varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ',
+  psi: 'ψ', omega: 'ω', digamma: 'ϝ'
+};
+
+// Capital Greek is upright in TeX
+const CAPITAL_GREEK: Record<string, string> = {
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω'
+};
+
+// Ordinary symbols (set in <mi>)
+const IDENTIFIER_SYMBOLS: Record<string, string> = {
+  infty: '∞', partial: '∂', nabla: '∇', hbar: 'ℏ', hslash: 'ℏ', ell: 'ℓ', emptyset: '∅', varnothing: '∅', aleph: 'ℵ',
+  beth: 'ℶ', Re: 'ℜ', Im: 'ℑ', wp: '℘', imath: 'ı', jmath: 'ȷ', top: '⊤', bot: '⊥', angle: '∠', measuredangle: '∡',
+  triangle: '△', Box: '□', square: '□', blacksquare: '■', clubsuit: '♣', diamondsuit: '♢', heartsuit: '♡',
+  spadesuit: '♠', flat: '♭', natural: '♮', sharp: '♯', degree: '°', checkmark: '✓', complement: '∁', mho: '℧',
+  eth: 'ð', Finv: 'Ⅎ', Game: '⅁', surd: '√'
+};
+
+// Operators, relations, arrows and punctuation (set in <mo>)
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  pm: '±', mp: '∓', times: '×', div: '÷', cdot: '⋅', ast: '∗', star: '⋆', circ: '∘', bullet: '∙', oplus: '⊕',
+  ominus: '⊖', otimes: '⊗', oslash: '⊘', odot: '⊙', cup: '∪', cap: '∩', sqcup: '⊔', sqcap: '⊓', uplus: '⊎',
+  setminus: '∖', smallsetminus: '∖', wedge: '∧', land: '∧', vee: '∨', lor: '∨', diamond: '⋄', dagger: '†',
+  ddagger: '‡', wr: '≀', amalg: '⨿', leq: '≤', le: '≤', geq: '≥', ge: '≥', leqslant: '⩽', geqslant: '⩾', neq: '≠',
+  ne: '≠', approx: '≈', equiv: '≡', sim: '∼', simeq: '≃', cong: '≅', propto: '∝', doteq: '≐', ll: '≪', gg: '≫',
+  prec: '≺', succ: '≻', preceq: '⪯', succeq: '⪰', in: '∈', notin: '∉', ni: '∋', owns: '∋', subset: '⊂',
+  subseteq: '⊆', subsetneq: '⊊', supset: '⊃', supseteq: '⊇', supsetneq: '⊋', sqsubseteq: '⊑', sqsupseteq: '⊒',
+  perp: '⊥', parallel: '∥', mid: '∣', nmid: '∤', vdash: '⊢', dashv: '⊣', models: '⊨', approxeq: '≊', asymp: '≍',
+  lesssim: '≲', gtrsim: '≳', triangleq: '≜', coloneqq: '≔', to: '→', rightarrow: '→', leftarrow: '←', gets: '←',
+  leftrightarrow: '↔', Rightarrow: '⇒', Leftarrow: '⇐', Leftrightarrow: '⇔', implies: '⟹', impliedby: '⟸',
+  iff: '⟺', longrightarrow: '⟶', longleftarrow: '⟵', longleftrightarrow: '⟷', Longrightarrow: '⟹',
+  Longleftarrow: '⟸', Longleftrightarrow: '⟺', mapsto: '↦', longmapsto: '⟼', uparrow: '↑', downarrow: '↓',
+  updownarrow: '↕', Uparrow: '⇑', Downarrow: '⇓', nearrow: '↗', searrow: '↘', swarrow: '↙', nwarrow: '↖',
+  hookrightarrow: '↪', hookleftarrow: '↩', rightharpoonup: '⇀', leftharpoonup: '↼', rightleftharpoons: '⇌',
+  leadsto: '⇝', colon: ':', vert: '|', Vert: '‖', lvert: '|', rvert: '|', lVert: '‖', rVert: '‖', langle: '⟨',
+  rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', lbrace: '{', rbrace: '}', lbrack: '[', rbrack: ']',
+  backslash: '∖', ldots: '…', dots: '…', dotsc: '…', dotso: '…', cdots: '⋯', dotsb: '⋯', dotsm: '⋯', vdots: '⋮',
+  ddots: '⋱', therefore: '∴', because: '∵', forall: '∀', exists: '∃', nexists: '∄', neg: '¬', lnot: '¬',
+  prime: '′', '{': '{', '}': '}', '|': '‖', '%': '%', $: '$', '#': '#', '&': '&', _: '_'
+};
+
+const LARGE_OPERATORS: Record<string, string> = {
+  sum: '∑', prod: '∏', coprod: '∐', bigcup: '⋃', bigcap: '⋂', bigsqcup: '⨆', bigvee: '⋁', bigwedge: '⋀',
+  bigoplus: '⨁', bigotimes: '⨂', bigodot: '⨀', biguplus: '⨄', int: '∫', iint: '∬', iiint: '∭', oint: '∮'
+};
+const INTEGRALS = new Set(['∫', '∬', '∭', '∮']);
+
+// Function names, and whether they take limits (lim_{x \to 0})
+const FUNCTIONS: Record<string, boolean> = {
+  arccos: false, arcsin: false, arctan: false, arg: false, cos: false, cosh: false, cot: false, coth: false,
+  csc: false, deg: false, dim: false, exp: false, hom: false, ker: false, lg: false, ln: false, log: false,
+  sec: false, sin: false, sinh: false, tan: false, tanh: false, det: true, gcd: true, inf: true, lim: true,
+  liminf: true, limsup: true, max: true, min: true, Pr: true, sup: true, injlim: true, projlim: true
+};
+const FUNCTION_NAMES: Record<string, string> = { liminf: 'lim inf', limsup: 'lim sup', injlim: 'inj lim', projlim: 'proj lim' };
+
+const FONT_VARIANTS: Record<string, MathVariant> = {
+  mathbf: 'bold', mathrm: 'normal', mathup: 'normal', mathit: 'italic', mathnormal: 'italic', mathbb: 'double-struck',
+  Bbb: 'double-struck', mathcal: 'script', mathscr: 'script', mathfrak: 'fraktur', mathsf: 'sans-serif',
+  mathtt: 'monospace', boldsymbol: 'bold-italic', bm: 'bold-italic', pmb: 'bold'
+};
+
+const TEXT_COMMANDS: Record<string, MathVariant> = {
+  text: 'normal', textrm: 'normal', textnormal: 'normal', textup: 'normal', mbox: 'normal', hbox: 'normal',
+  textbf: 'bold', textit: 'italic', textsf: 'sans-serif', texttt: 'monospace'
+};
+
+const ACCENTS: Record<string, AccentName> = {
+  hat: 'hat', widehat: 'hat', check: 'check', widecheck: 'check', tilde: 'tilde', widetilde: 'tilde', bar: 'bar',
+  vec: 'vec', dot: 'dot', ddot: 'ddot', breve: 'breve', acute: 'acute', grave: 'grave', overline: 'overline',
+  underline: 'underline', overrightarrow: 'overrightarrow', overleftarrow: 'overleftarrow',
+  overleftrightarrow: 'overleftrightarrow', overbrace: 'overbrace', underbrace: 'underbrace'
+};
+const UNDER_ACCENTS = new Set<AccentName>(['underline', 'underbrace']);
+const STRETCHY_ACCENTS = new Set<AccentName>(['overline', 'underline', 'overrightarrow', 'overleftarrow', 'overleftrightarrow', 'overbrace', 'underbrace']);
+
+// em
+const SPACES: Record<string, number> = {
+  ',': 3 / 18, ':': 4 / 18, '>': 4 / 18, ';': 5 / 18, '!': -3 / 18, ' ': 1 / 3, quad: 1, qquad: 2, enspace: 0.5,
+  thinspace: 3 / 18, medspace: 4 / 18, thickspace: 5 / 18, negthinspace: -3 / 18, negmedspace: -4 / 18,
+  negthickspace: -5 / 18
+};
+
+// \big and friends: delimiter height in em
+const SIZED_DELIMITERS: Record<string, number> = { big: 1.2, Big: 1.8, bigg: 2.4, Bigg: 3 };
+
+// Negated relations for \not
+const NEGATIONS: Record<string, string> = {
+  '=': '≠', '<': '≮', '>': '≯', '∈': '∉', '≡': '≢', '⊂': '⊄', '⊃': '⊅', '⊆': '⊈', '⊇': '⊉', '∼': '≁', '≤': '≰',
+  '≥': '≱', '∃': '∄', '≈': '≉', '∣': '∤', '∥': '∦', '≅': '≇', '∋': '∌'
+};
+
+interface Environment {
+  align?: Align[]; // Repeated across the columns; array takes its own from the column spec
+  kind: 'matrix' | 'aligned' | 'gathered' | 'cases';
+  open?: string;
+  close?: string;
+  small?: boolean;
+  args?: number;
+}
+
+const ALIGNED: Environment = { align: ['right', 'left'], kind: 'aligned' };
+const GATHERED: Environment = { align: ['center'], kind: 'gathered' };
+const ENVIRONMENTS: Record<string, Environment> = {
+  matrix: { align: ['center'], kind: 'matrix' },
+  pmatrix: { align: ['center'], kind: 'matrix', open: '(', close: ')' },
+  bmatrix: { align: ['center'], kind: 'matrix', open: '[', close: ']' },
+  Bmatrix: { align: ['center'], kind: 'matrix', open: '{', close: '}' },
+  vmatrix: { align: ['center'], kind: 'matrix', open: '|', close: '|' },
+  Vmatrix: { align: ['center'], kind: 'matrix', open: '‖', close: '‖' },
+  smallmatrix: { align: ['center'], kind: 'matrix', small: true },
+  cases: { align: ['left', 'left'], kind: 'cases', open: '{', close: '' },
+  dcases: { align: ['left', 'left'], kind: 'cases', open: '{', close: '' },
+  rcases: { align: ['left', 'left'], kind: 'cases', open: '', close: '}' },
+  aligned: ALIGNED, align: ALIGNED, 'align*': ALIGNED, split: ALIGNED, flalign: ALIGNED, 'flalign*': ALIGNED,
+  alignat: { ...ALIGNED, args: 1 }, 'alignat*': { ...ALIGNED, args: 1 }, alignedat: { ...ALIGNED, args: 1 },
+  eqnarray: { align: ['right', 'center', 'left'], kind: 'aligned' }, 'eqnarray*': { align: ['right', 'center', 'left'], kind: 'aligned' },
+  gathered: GATHERED, gather: GATHERED, 'gather*': GATHERED, multline: GATHERED, 'multline*': GATHERED,
+  array: { kind: 'matrix' }, subarray: { kind: 'matrix', small: true }
+};
+// Environments that only wrap their content
+const PLAIN_ENVIRONMENTS = new Set(['equation', 'equation*', 'displaymath', 'math']);
+
+// Commands with no visible output, and how many arguments they take
+const IGNORED_COMMANDS: Record<string, number> = {
+  displaystyle: 0, textstyle: 0, scriptstyle: 0, scriptscriptstyle: 0, nonumber: 0, notag: 0, mathstrut: 0,
+  strut: 0, nobreak: 0, allowbreak: 0, label: 1, color: 1, phantom: 1, hphantom: 1, vphantom: 1, hspace: 1,
+  mspace: 1, hline: 0, hdashline: 0, cline: 1, centering: 0, protect: 0, relax: 0
+};
+
+// Commands whose last argument is their content (after skipping this many)
+const CONTENT_COMMANDS: Record<string, number> = {
+  textcolor: 1, colorbox: 1, boxed: 0, fbox: 0, cancel: 0, bcancel: 0, xcancel: 0, cancelto: 1, mathclap: 0,
+  mathllap: 0, mathrlap: 0, clap: 0, llap: 0, rlap: 0, smash: 0, operatornamewithlimits: 0, ensuremath: 0
+};
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+const row = (children: MathNode[]): MathNode => children.length === 1 ? children[0] : { type: 'row', children };
+
+type Terminator = 'top' | 'group' | 'optional' | 'end' | 'right';
+
+export function parseMath(tex: string): ParsedMath {
+  const parser = new MathParser(tex);
+  const root = parser.parse();
+  return parser.tag === undefined ? { root } : { root, tag: parser.tag };
+}
+
+// The source as text when it can't be parsed, so one bad formula doesn't fail the document
+function parseOrSource(tex: string): ParsedMath {
+  try {
+    return parseMath(tex);
+  } catch {
+    return { root: { type: 'text', text: tex } };
+  }
+}
+
+class MathParser {
+  private i = 0;
+  tag?: string;
+
+  constructor(private readonly src: string) {}
+
+  parse(): MathNode {
+    return this.lines(this.cells('top'));
+  }
+
+  /**
+   * Cells separated by & and rows by \\, up to the end of a group, environment
+   * or \left...\right pair
+   */
+  private cells(terminator: Terminator): MathNode[][] {
+    const rows: MathNode[][] = [[]];
+    for (;;) {
+      rows[rows.length - 1].push(row(this.expression(terminator === 'optional' ? ']' : undefined)));
+      this.skipSpaces();
+      if (this.i >= this.src.length) break;
+      const char = this.src[this.i];
+      if (char === '&') {
+        this.i++;
+      } else if (this.src.startsWith('\\\\', this.i)) {
+        this.i += 2;
+        if (this.src[this.i] === '*') this.i++;
+        this.skipSpaces();
+        if (this.src[this.i] === '[') this.rawGroup('[', ']');
+        rows.push([]);
+      } else if (char === '}' && terminator === 'group') {
+        this.i++;
+        break;
+      } else if (char === ']' && terminator === 'optional') {
+        this.i++;
+        break;
+      } else if (this.atCommand('end')) {
+        this.i += 4;
+        this.rawGroup();
+        if (terminator === 'end') break;
+      } else if (this.atCommand('right')) {
+        if (terminator === 'right') break;
+        this.i += 6;
+        this.delimiter();
+      } else {
+        // A stray closing brace or bracket
+        this.i++;
+      }
+    }
+    // A trailing \\ leaves an empty row
+    const last = rows[rows.length - 1];
+    if (rows.length > 1 && last.length === 1 && isEmpty(last[0])) rows.pop();
+    return rows;
+  }
+
+  // One node for parsed cells: the single cell itself, or a table
+  private body(rows: MathNode[][], environment: Environment): MathNode {
+    if (rows.length === 1 && rows[0].length === 1) return rows[0][0];
+    const columns = Math.max(...rows.map(cells => cells.length));
+    const pattern = environment.align || ['center'];
+    return {
+      type: 'table',
+      rows: environment.kind === 'aligned' ? alignedRows(rows) : rows,
+      align: Array.from({ length: columns }, (_, index) => pattern[index % pattern.length]),
+      kind: environment.kind,
+      small: environment.small
+    };
+  }
+
+  // Lines split with \\ are gathered, and aligned when they use &
+  private lines(rows: MathNode[][]): MathNode {
+    return this.body(rows, rows.some(cells => cells.length > 1) ? ALIGNED : GATHERED);
+  }
+
+  private expression(closer?: string): MathNode[] {
+    const nodes: MathNode[] = [];
+    let numerator: MathNode[] | null = null;
+    let fraction = '';
+
+    while (this.i < this.src.length) {
+      this.skipSpaces();
+      const char = this.src[this.i];
+      if (char === undefined || char === '}' || char === '&' || char === closer) break;
+      if (this.src.startsWith('\\\\', this.i) || this.atCommand('end') || this.atCommand('right')) break;
+
+      if (char === '^' || char === '_') {
+        this.i++;
+        this.attach(nodes, char === '^' ? 'sup' : 'sub', this.argument());
+        continue;
+      }
+      if (char === "'") {
+        let primes = '';
+        while (this.src[this.i] === "'") {
+          primes += '′';
+          this.i++;
+        }
+        this.attach(nodes, 'sup', { type: 'operator', text: primes });
+        continue;
+      }
+      const command = this.src.slice(this.i).match(/^\\(over|choose|atop|brack|brace|limits|nolimits)(?![A-Za-z])/);
+      if (command) {
+        this.i += command[0].length;
+        if (command[1] === 'limits' || command[1] === 'nolimits') {
+          const last = nodes[nodes.length - 1];
+          if (last && (last.type === 'operator' || last.type === 'identifier')) last.limits = command[1] === 'limits' ? 'always' : false;
+        } else {
+          numerator = nodes.splice(0);
+          fraction = command[1];
+        }
+        continue;
+      }
+
+      const node = this.atom();
+      if (node) nodes.push(node);
+    }
+
+    if (numerator) {
+      const result: MathNode = { type: 'fraction', numerator: row(numerator), denominator: row(nodes), line: fraction === 'over' };
+      const fences: Record<string, [string, string]> = { choose: ['(', ')'], brack: ['[', ']'], brace: ['{', '}'] };
+      return [fences[fraction] ? { type: 'fenced', open: fences[fraction][0], close: fences[fraction][1], body: result } : result];
+    }
+    return nodes;
+  }
+
+  private attach(nodes: MathNode[], kind: 'sub' | 'sup', script: MathNode): void {
+    const last = nodes.pop() || { type: 'row', children: [] };
+    if (last.type === 'scripts' && !last[kind]) {
+      last[kind] = script;
+      nodes.push(last);
+    } else if (last.type === 'scripts' && kind === 'sup' && last.sup?.type === 'operator' && /^′+$/.test(last.sup.text)) {
+      // f'^2
+      last.sup = row([last.sup, script]);
+      nodes.push(last);
+    } else {
+      const limits = last.type === 'operator' || last.type === 'identifier' || last.type === 'accent' ? last.limits : undefined;
+      nodes.push({ type: 'scripts', base: last, [kind]: script, limits });
+    }
+  }
+
+  // A braced group, or a single token (\frac12, \sqrt\pi, x^2)
+  private argument(): MathNode {
+    this.skipSpaces();
+    if (this.src[this.i] === '{') {
+      this.i++;
+      return this.body(this.cells('group'), { align: ['center'], kind: 'matrix', small: true });
+    }
+    return this.atom(true) || { type: 'row', children: [] };
+  }
+
+  private atom(single = false): MathNode | null {
+    // TeX cut off after ^, _ or a command that takes an argument
+    if (this.i >= this.src.length) return { type: 'row', children: [] };
+    const char = this.src[this.i];
+    if (char === '{') {
+      this.i++;
+      return this.body(this.cells('group'), { align: ['center'], kind: 'matrix', small: true });
+    }
+    if (char === '\\') return this.command();
+
+    const number = this.src.slice(this.i).match(single ? /^\d/ : /^(?:\d+(?:\.\d+)?|\.\d+)/);
+    if (number) {
+      this.i += number[0].length;
+      return { type: 'number', text: number[0] };
+    }
+
+    // Whole code points, so characters outside the BMP stay together
+    const symbol = String.fromCodePoint(this.src.codePointAt(this.i)!);
+    this.i += symbol.length;
+    if (/^\p{L}$/u.test(symbol)) return { type: 'identifier', text: symbol };
+    switch (symbol) {
+      case '~':
+        return { type: 'space', width: 1 / 3 };
+      case '$':
+      case '#':
+        return null;
+      case '-':
+        return { type: 'operator', text: '−' };
+      case '*':
+        return { type: 'operator', text: '∗' };
+      case ']':
+        return { type: 'operator', text: ']' };
+      default:
+        return { type: 'operator', text: symbol };
+    }
+  }
+
+  private command(): MathNode | null {
+    const match = this.src.slice(this.i).match(/^\\([A-Za-z]+\*?|.)/);
+    if (!match) {
+      this.i++;
+      return null;
+    }
+    let name = match[1];
+    // Only a few commands have starred forms
+    if (name.endsWith('*') && !['operatorname*', 'tag*'].includes(name)) name = name.slice(0, -1);
+    this.i += 1 + name.length;
+
+    if (name in GREEK) return { type: 'identifier', text: GREEK[name] };
+    if (name in CAPITAL_GREEK) return { type: 'identifier', text: CAPITAL_GREEK[name], variant: 'normal' };
+    if (name in IDENTIFIER_SYMBOLS) return { type: 'identifier', text: IDENTIFIER_SYMBOLS[name], variant: 'normal' };
+    if (name in OPERATOR_SYMBOLS) return { type: 'operator', text: OPERATOR_SYMBOLS[name] };
+    if (name in LARGE_OPERATORS) {
+      const text = LARGE_OPERATORS[name];
+      return { type: 'operator', text, large: true, limits: !INTEGRALS.has(text) };
+    }
+    if (name in FUNCTIONS) return { type: 'identifier', text: FUNCTION_NAMES[name] || name, variant: 'normal', limits: FUNCTIONS[name] };
+    if (name in SPACES) return { type: 'space', width: SPACES[name] };
+    if (name in FONT_VARIANTS) return withVariant(this.argument(), FONT_VARIANTS[name]);
+    if (name in TEXT_COMMANDS) return { type: 'text', text: textContent(this.rawGroup()), variant: TEXT_COMMANDS[name] };
+    if (name in ACCENTS) {
+      const accent = ACCENTS[name];
+      const base = this.argument();
+      return { type: 'accent', base, accent, ...(accent === 'overbrace' || accent === 'underbrace' ? { limits: 'always' as const } : {}) };
+    }
+    if (name in SIZED_DELIMITERS || /^(big|Big|bigg|Bigg)[lrm]$/.test(name)) {
+      const text = this.delimiter();
+      return text ? { type: 'operator', text, fence: true, size: SIZED_DELIMITERS[name.replace(/[lrm]$/, '')] } : null;
+    }
+    if (name in IGNORED_COMMANDS) {
+      for (let index = 0; index < IGNORED_COMMANDS[name]; index++) this.rawGroup();
+      return null;
+    }
+    if (name in CONTENT_COMMANDS) {
+      this.optional();
+      for (let index = 0; index < CONTENT_COMMANDS[name]; index++) this.rawGroup();
+      return this.argument();
+    }
+
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+      case 'cfrac': {
+        const numerator = this.argument();
+        const denominator = this.argument();
+        const style = name === 'dfrac' || name === 'cfrac' ? 'display' : name === 'tfrac' ? 'text' : undefined;
+        return { type: 'fraction', numerator, denominator, line: true, ...(style ? { style } : {}) };
+      }
+      case 'binom':
+      case 'dbinom':
+      case 'tbinom': {
+        const numerator = this.argument();
+        const denominator = this.argument();
+        const style = name === 'dbinom' ? 'display' : name === 'tbinom' ? 'text' : undefined;
+        return { type: 'fenced', open: '(', close: ')', body: { type: 'fraction', numerator, denominator, line: false, ...(style ? { style } : {}) } };
+      }
+      case 'sqrt': {
+        const index = this.optional();
+        const body = this.argument();
+        return index ? { type: 'root', body, index } : { type: 'root', body };
+      }
+      case 'left': {
+        const open = this.delimiter();
+        const body = this.body(this.cells('right'), { align: ['left'], kind: 'matrix' });
+        let close = '';
+        if (this.atCommand('right')) {
+          this.i += 6;
+          close = this.delimiter();
+        }
+        return { type: 'fenced', open, close, body };
+      }
+      case 'middle': {
+        const text = this.delimiter();
+        return text ? { type: 'operator', text, fence: true } : null;
+      }
+      case 'begin':
+        return this.environment(this.rawGroup().trim());
+      case 'operatorname':
+      case 'operatorname*':
+        return { type: 'identifier', text: textContent(this.rawGroup()), variant: 'normal', limits: name.endsWith('*') };
+      case 'not': {
+        this.skipSpaces();
+        const next = this.atom(true);
+        if (next?.type === 'operator' || next?.type === 'identifier') {
+          return { ...next, text: NEGATIONS[next.text] || `${next.text}\u0338` };
+        }
+        return next;
+      }
+      case 'overset':
+      case 'stackrel':
+      case 'underset': {
+        const script = this.argument();
+        const base = this.argument();
+        return { type: 'scripts', base, [name === 'underset' ? 'sub' : 'sup']: script, limits: 'always' };
+      }
+      case 'xrightarrow':
+      case 'xleftarrow': {
+        const sub = this.optional();
+        const sup = this.argument();
+        const base: MathNode = { type: 'operator', text: name === 'xrightarrow' ? '⟶' : '⟵' };
+        return { type: 'scripts', base, sup, ...(sub ? { sub } : {}), limits: 'always' };
+      }
+      case 'substack':
+        return this.argument();
+      case 'pmod':
+      case 'pod': {
+        const argument = this.argument();
+        const content: MathNode[] = name === 'pmod' ? [{ type: 'identifier', text: 'mod', variant: 'normal' }, { type: 'space', width: 1 / 3 }, argument] : [argument];
+        return row([{ type: 'space', width: 1 }, { type: 'fenced', open: '(', close: ')', body: row(content) }]);
+      }
+      case 'bmod':
+      case 'mod':
+        return row([{ type: 'space', width: name === 'mod' ? 1 : 5 / 18 }, { type: 'identifier', text: 'mod', variant: 'normal' }, { type: 'space', width: 5 / 18 }]);
+      case 'tag':
+      case 'tag*': {
+        const value = textContent(this.rawGroup());
+        this.tag = name === 'tag' ? `(${value})` : value;
+        return null;
+      }
+      case 'hskip':
+      case 'kern':
+      case 'mkern':
+      case 'mskip':
+        this.i += this.src.slice(this.i).match(/^\s*-?[\d.]+\s*[a-z]{2}/)?.[0].length || 0;
+        return null;
+    }
+
+    // Anything else shows its name, so unknown macros are visible rather than lost
+    return { type: 'text', text: `\\${name}` };
+  }
+
+  private environment(name: string): MathNode {
+    if (PLAIN_ENVIRONMENTS.has(name)) return this.lines(this.cells('end'));
+
+    const environment = ENVIRONMENTS[name] || ALIGNED;
+    let align = environment.align;
+    if (name === 'array' || name === 'subarray') {
+      this.skipSpaces();
+      if (this.src[this.i] === '[') this.rawGroup('[', ']');
+      align = columnAligns(this.rawGroup());
+    }
+    for (let index = 0; index < (environment.args || 0); index++) this.rawGroup();
+
+    const rows = this.cells('end');
+    const columns = Math.max(...rows.map(cells => cells.length));
+    const pattern = align && align.length > 0 ? align : ['center' as Align];
+    const table: MathNode = {
+      type: 'table',
+      rows: environment.kind === 'aligned' ? alignedRows(rows) : rows,
+      // Environment patterns repeat (r l r l ...); an array spec's last column carries on
+      align: Array.from({ length: columns }, (_, index) => environment.align ? pattern[index % pattern.length] : pattern[Math.min(index, pattern.length - 1)]),
+      kind: environment.kind,
+      small: environment.small
+    };
+    return environment.open !== undefined ? { type: 'fenced', open: environment.open, close: environment.close || '', body: table } : table;
+  }
+
+  // A delimiter after \left, \right, \middle or \big: a character or a command naming one ('' for ".")
+  private delimiter(): string {
+    this.skipSpaces();
+    const char = this.src[this.i];
+    if (char === undefined) return '';
+    if (char === '\\') {
+      // A lone backslash at the end of cut-off TeX is no delimiter
+      const match = this.src.slice(this.i).match(/^\\([A-Za-z]+|[\s\S])?/)!;
+      this.i += match[0].length;
+      return OPERATOR_SYMBOLS[match[1] ?? ''] ?? '';
+    }
+    this.i++;
+    if (char === '.') return '';
+    if (char === '<') return '⟨';
+    if (char === '>') return '⟩';
+    return char;
+  }
+
+  private optional(): MathNode | undefined {
+    this.skipSpaces();
+    if (this.src[this.i] !== '[') return undefined;
+    this.i++;
+    return this.body(this.cells('optional'), { align: ['center'], kind: 'matrix' });
+  }
+
+  // The source inside a {...} (or a single token when there are no braces)
+  private rawGroup(open = '{', close = '}'): string {
+    this.skipSpaces();
+    if (this.src[this.i] !== open) {
+      if (open !== '{') return '';
+      const token = this.src.slice(this.i).match(/^\\[A-Za-z]+|^./s)?.[0] || '';
+      this.i += token.length;
+      return token;
+    }
+    let depth = 0;
+    const start = this.i + 1;
+    for (; this.i < this.src.length; this.i++) {
+      const char = this.src[this.i];
+      if (char === '\\') {
+        this.i++;
+      } else if (char === open) {
+        depth++;
+      } else if (char === close && --depth === 0) {
+        this.i++;
+        return this.src.slice(start, this.i - 1);
+      }
+    }
+    return this.src.slice(start);
+  }
+
+  private atCommand(name: string): boolean {
+    return this.src.startsWith(`\\${name}`, this.i) && !/[A-Za-z]/.test(this.src[this.i + name.length + 1] || '');
+  }
+
+  private skipSpaces(): void {
+    while (/\s/.test(this.src[this.i] || '')) this.i++;
+  }
+}
+
+/**
+ * In `a &= b` the cell after & starts with an empty atom, as in TeX, so the
+ * relation keeps its spacing
+ */
+function alignedRows(rows: MathNode[][]): MathNode[][] {
+  return rows.map(cells => cells.map((cell, column) => {
+    const first = cell.type === 'row' ? cell.children[0] : cell;
+    if (column % 2 === 0 || first?.type !== 'operator') return cell;
+    return { type: 'row', children: [{ type: 'row', children: [] }, ...(cell.type === 'row' ? cell.children : [cell])] };
+  }));
+}
+
+function isEmpty(node: MathNode): boolean {
+  return node.type === 'row' && node.children.length === 0;
+}
+
+// \mathbf{x}, \mathrm{d}: a font for letters and digits (runs of letters become one identifier, as in \mathrm{sin})
+function withVariant(node: MathNode, variant: MathVariant): MathNode {
+  switch (node.type) {
+    case 'identifier':
+    case 'number':
+    case 'text':
+      return { ...node, variant };
+    case 'row': {
+      const children: MathNode[] = [];
+      node.children.map(child => withVariant(child, variant)).forEach(child => {
+        const last = children[children.length - 1];
+        if (variant !== 'italic' && child.type === 'identifier' && last?.type === 'identifier' && /^\p{L}+$/u.test(last.text + child.text)) {
+          children[children.length - 1] = { ...last, text: last.text + child.text };
+        } else {
+          children.push(child);
+        }
+      });
+      return row(children);
+    }
+    case 'scripts':
+      return { ...node, base: withVariant(node.base, variant) };
+    default:
+      return node;
+  }
+}
+
+// Plain text from a \text{...} argument
+function textContent(source: string): string {
+  return source
+    .replace(/\\([%&_$#{} ])/g, '$1')
+    .replace(/~/g, '\u00A0')
+    .replace(/\\[A-Za-z]+\s*/g, '')
+    .replace(/[{}$]/g, '');
+}
+
+// Column alignment from an array spec such as "lcr" or "c|c"
+function columnAligns(spec: string): Align[] {
+  const aligns: Align[] = [];
+  spec.replace(/[@!<>]\{[^}]*\}|p\{[^}]*\}/g, match => (match.startsWith('p') ? 'l' : '')).split('').forEach(char => {
+    if (char === 'l') aligns.push('left');
+    else if (char === 'c') aligns.push('center');
+    else if (char === 'r') aligns.push('right');
+  });
+  return aligns;
+}
+
+// ---------------------------------------------------------------------------
+// MathML (HTML and EPUB)
+// ---------------------------------------------------------------------------
+
+// Unicode Mathematical Alphanumeric Symbols for each variant: capital A, small a, digit 0
+const VARIANT_BASES: Partial<Record<MathVariant, [number, number, number?]>> = {
+  bold: [0x1D400, 0x1D41A, 0x1D7CE],
+  italic: [0x1D434, 0x1D44E],
+  'bold-italic': [0x1D468, 0x1D482],
+  script: [0x1D49C, 0x1D4B6],
+  fraktur: [0x1D504, 0x1D51E],
+  'double-struck': [0x1D538, 0x1D552, 0x1D7D8],
+  'sans-serif': [0x1D5A0, 0x1D5BA, 0x1D7E2],
+  monospace: [0x1D670, 0x1D68A, 0x1D7F6]
+};
+
+// Letters that were in Unicode before the alphanumeric block and left holes in it
+const VARIANT_HOLES: Record<number, string> = {
+  0x1D455: 'ℎ', 0x1D49D: 'ℬ', 0x1D4A0: 'ℰ', 0x1D4A1: 'ℱ', 0x1D4A3: 'ℋ', 0x1D4A4: 'ℐ', 0x1D4A7: 'ℒ', 0x1D4A8: 'ℳ',
+  0x1D4AD: 'ℛ', 0x1D4BA: 'ℯ', 0x1D4BC: 'ℊ', 0x1D4C4: 'ℴ', 0x1D506: 'ℭ', 0x1D50B: 'ℌ', 0x1D50C: 'ℑ', 0x1D515: 'ℜ',
+  0x1D51D: 'ℨ', 0x1D53A: 'ℂ', 0x1D53F: 'ℍ', 0x1D545: 'ℕ', 0x1D547: 'ℙ', 0x1D548: 'ℚ', 0x1D549: 'ℝ', 0x1D551: 'ℤ'
+};
+
+/**
+ * Letters and digits in a math alphabet (𝐱, ℝ, 𝓛), for renderers that only
+ * support mathvariant="normal"
+ */
+export function styledText(text: string, variant?: MathVariant): string {
+  const bases = variant && VARIANT_BASES[variant];
+  if (!bases) return text;
+  return text.replace(/[A-Za-z0-9]/g, char => {
+    const code = char.charCodeAt(0);
+    let point: number | undefined;
+    if (code >= 65 && code <= 90) point = bases[0] + code - 65;
+    else if (code >= 97 && code <= 122) point = bases[1] + code - 97;
+    else if (bases[2] !== undefined) point = bases[2] + code - 48;
+    if (point === undefined) return char;
+    return VARIANT_HOLES[point] || String.fromCodePoint(point);
+  });
+}
+
+const MATHML_ACCENTS: Record<AccentName, string> = {
+  hat: '^', check: 'ˇ', tilde: '~', bar: '¯', vec: '→', dot: '˙', ddot: '¨', breve: '˘', acute: '´', grave: '`',
+  overline: '‾', underline: '_', overrightarrow: '→', overleftarrow: '←', overleftrightarrow: '↔', overbrace: '⏞',
+  underbrace: '⏟'
+};
+
+/**
+ * A <math> element with the TeX source kept as an annotation
+ */
+export function writeMathML(tex: string, display = false): string {
+  const { root, tag } = parseOrSource(tex);
+  let content = mathML(root, display);
+  if (tag) content = `<mrow>${content}<mspace width="2em"/><mtext>${escapeXML(tag)}</mtext></mrow>`;
+  else if (!content.startsWith('<mrow>')) content = `<mrow>${content}</mrow>`;
+  return `<math xmlns="http://www.w3.org/1998/Math/MathML"${display ? ' display="block"' : ''}>`
+    + `<semantics>${content}<annotation encoding="application/x-tex">${escapeXML(tex)}</annotation></semantics></math>`;
+}
+
+function mathML(node: MathNode, display: boolean): string {
+  switch (node.type) {
+    case 'row':
+      return node.children.length === 1 ? mathML(node.children[0], display) : `<mrow>${node.children.map(child => mathML(child, display)).join('')}</mrow>`;
+    case 'identifier': {
+      const normal = node.variant === 'normal' && [...node.text].length === 1 ? ' mathvariant="normal"' : '';
+      const italic = node.variant === 'italic' && [...node.text].length > 1 ? 'italic' : node.variant;
+      return `<mi${normal}>${escapeXML(styledText(node.text, italic === 'normal' ? undefined : italic))}</mi>`;
+    }
+    case 'number':
+      return `<mn>${escapeXML(styledText(node.text, node.variant === 'normal' ? undefined : node.variant))}</mn>`;
+    case 'operator': {
+      let attributes = '';
+      if (node.size) attributes += ` stretchy="true" symmetric="true" minsize="${node.size}em" maxsize="${node.size}em"`;
+      else if (node.fence) attributes += ' stretchy="true"';
+      else if (/^[()[\]{}|‖⟨⟩⌊⌋⌈⌉]$/.test(node.text)) attributes += ' stretchy="false"';
+      if (node.large) attributes += ' largeop="true"';
+      return `<mo${attributes}>${escapeXML(node.text)}</mo>`;
+    }
+    case 'text':
+      return `<mtext>${escapeXML(styledText(node.text, node.variant === 'normal' ? undefined : node.variant))}</mtext>`;
+    case 'fraction': {
+      const fraction = `<mfrac${node.line ? '' : ' linethickness="0"'}>${mathML(node.numerator, false)}${mathML(node.denominator, false)}</mfrac>`;
+      return node.style ? `<mstyle displaystyle="${node.style === 'display'}">${fraction}</mstyle>` : fraction;
+    }
+    case 'root':
+      return node.index
+        ? `<mroot>${mathML(node.body, display)}${mathML(node.index, false)}</mroot>`
+        : `<msqrt>${mathML(node.body, display)}</msqrt>`;
+    case 'scripts': {
+      const sub = node.sub && mathML(node.sub, false);
+      const sup = node.sup && mathML(node.sup, false);
+      if (node.limits) {
+        // Limits move beside the operator in inline math, except after \limits
+        const movable = node.limits === true;
+        const base = node.base.type === 'identifier' && node.base.variant === 'normal'
+          ? `<mo form="prefix" movablelimits="${movable}">${escapeXML(node.base.text)}</mo>`
+          : node.base.type === 'operator'
+            ? mathML({ ...node.base }, display).replace('<mo', `<mo movablelimits="${movable}"`)
+            : mathML(node.base, display);
+        if (sub && sup) return `<munderover>${base}${sub}${sup}</munderover>`;
+        return sub ? `<munder>${base}${sub}</munder>` : `<mover>${base}${sup}</mover>`;
+      }
+      const base = mathML(node.base, display);
+      if (sub && sup) return `<msubsup>${base}${sub}${sup}</msubsup>`;
+      return sub ? `<msub>${base}${sub}</msub>` : `<msup>${base}${sup}</msup>`;
+    }
+    case 'fenced': {
+      const open = node.open ? `<mo fence="true" form="prefix">${escapeXML(node.open)}</mo>` : '';
+      const close = node.close ? `<mo fence="true" form="postfix">${escapeXML(node.close)}</mo>` : '';
+      return `<mrow>${open}${mathML(node.body, display)}${close}</mrow>`;
+    }
+    case 'accent': {
+      const stretchy = STRETCHY_ACCENTS.has(node.accent) ? 'true' : 'false';
+      const mark = `<mo stretchy="${stretchy}">${escapeXML(MATHML_ACCENTS[node.accent])}</mo>`;
+      return UNDER_ACCENTS.has(node.accent)
+        ? `<munder accentunder="true">${mathML(node.base, display)}${mark}</munder>`
+        : `<mover accent="true">${mathML(node.base, display)}${mark}</mover>`;
+    }
+    case 'table': {
+      const cellDisplay = node.kind === 'aligned' || node.kind === 'gathered';
+      const rows = node.rows.map(cells => `<mtr>${cells.map((cell, column) => {
+        const align = node.align[column] || 'center';
+        // Aligned columns meet at the relation between them
+        const padding = node.kind === 'aligned'
+          ? (column % 2 === 0 ? '; padding-right: 0' : '; padding-left: 0')
+          : '';
+        return `<mtd columnalign="${align}" style="text-align: ${align}${padding}">${mathML(cell, cellDisplay)}</mtd>`;
+      }).join('')}</mtr>`).join('');
+      return `<mtable${cellDisplay ? ' displaystyle="true"' : ''}>${rows}</mtable>`;
+    }
+    case 'space':
+      return node.width > 0 ? `<mspace width="${Number(node.width.toFixed(3))}em"/>` : '';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Word equations (OMML for DOCX)
+// ---------------------------------------------------------------------------
+
+const OMML_ACCENTS: Partial<Record<AccentName, string>> = {
+  hat: '\u0302', check: '\u030C', tilde: '\u0303', bar: '\u0305', vec: '\u20D7', dot: '\u0307', ddot: '\u0308',
+  breve: '\u0306', acute: '\u0301', grave: '\u0300', overrightarrow: '\u20D7', overleftarrow: '\u20D6',
+  overleftrightarrow: '\u20E1'
+};
+
+const OMML_SCRIPTS: Partial<Record<MathVariant, string>> = {
+  'double-struck': 'double-struck', script: 'script', fraktur: 'fraktur', 'sans-serif': 'sans-serif', monospace: 'monospace'
+};
+const OMML_STYLES: Partial<Record<MathVariant, string>> = {
+  normal: 'p', italic: 'i', bold: 'b', 'bold-italic': 'bi', 'double-struck': 'p', 'sans-serif': 'p', monospace: 'p'
+};
+
+// Operators that end the operand a sum or integral applies to
+const OPERAND_BREAKS = /^[+−=<>≤≥≠≈≡∼≃≅∝→←↔⇒⇐⇔⟹⟸⟺,;±∓]$/;
+
+/**
+ * An equation for a DOCX paragraph; display equations are wrapped in a math
+ * paragraph so Word sets them in display style
+ */
+export function writeDocxMath(tex: string, display = false): ParagraphChild {
+  const { root, tag } = parseOrSource(tex);
+  const children = omml(root);
+  if (tag) children.push(ommlRun(`\u2003${tag}`, 'normal'));
+  const equation = new DocxMath({ children });
+  if (!display) return equation;
+  const paragraph = ommlElement('m:oMathPara', ommlElement('m:oMathParaPr', ommlElement('m:jc', { 'm:val': 'center' })));
+  paragraph.push(equation);
+  return paragraph as unknown as ParagraphChild;
+}
+
+function omml(node: MathNode): MathComponent[] {
+  switch (node.type) {
+    case 'row':
+      return ommlRow(node.children);
+    case 'identifier':
+      // Function names and other multi-letter identifiers are upright
+      return [ommlRun(node.text, node.variant || ([...node.text].length > 1 ? 'normal' : undefined))];
+    case 'number':
+      return [ommlRun(node.text, node.variant)];
+    case 'operator':
+      return node.large ? [nary(node.text, !!node.limits, undefined, undefined, [])] : [ommlRun(node.text)];
+    case 'text':
+      return [ommlRun(node.text, node.variant || 'normal', true)];
+    case 'fraction':
+      return node.line
+        ? [new MathFraction({ numerator: omml(node.numerator), denominator: omml(node.denominator) })]
+        : [ommlElement('m:f', ommlElement('m:fPr', ommlElement('m:type', { 'm:val': 'noBar' })),
+          ommlElement('m:num', ...omml(node.numerator)), ommlElement('m:den', ...omml(node.denominator)))];
+    case 'root':
+      return [new MathRadical({ children: omml(node.body), degree: node.index ? omml(node.index) : undefined })];
+    case 'scripts':
+      return ommlRow([node]);
+    case 'fenced':
+      return [fencedOMML(node.open, node.close, omml(node.body))];
+    case 'accent': {
+      const base = ommlElement('m:e', ...omml(node.base));
+      if (node.accent === 'overline' || node.accent === 'underline') {
+        return [ommlElement('m:bar', ommlElement('m:barPr', ommlElement('m:pos', { 'm:val': node.accent === 'overline' ? 'top' : 'bot' })), base)];
+      }
+      if (node.accent === 'overbrace' || node.accent === 'underbrace') {
+        const top = node.accent === 'overbrace';
+        return [ommlElement('m:groupChr', ommlElement('m:groupChrPr',
+          ommlElement('m:chr', { 'm:val': top ? '⏞' : '⏟' }),
+          ommlElement('m:pos', { 'm:val': top ? 'top' : 'bot' }),
+          ommlElement('m:vertJc', { 'm:val': top ? 'bot' : 'top' })), base)];
+      }
+      return [ommlElement('m:acc', ommlElement('m:accPr', ommlElement('m:chr', { 'm:val': OMML_ACCENTS[node.accent] || '\u0302' })), base)];
+    }
+    case 'table': {
+      if (node.kind === 'matrix') {
+        return [ommlElement('m:m', ...node.rows.map(cells => ommlElement('m:mr', ...cells.map(cell => ommlElement('m:e', ...omml(cell))))))];
+      }
+      // Aligned and gathered lines, and cases, are an equation array of whole rows
+      return [ommlElement('m:eqArr', ...node.rows.map(cells => ommlElement('m:e', ...cells.flatMap((cell, column) => [
+        ...(column > 0 && node.kind === 'cases' ? [ommlRun('\u2003', 'normal')] : []),
+        ...omml(cell)
+      ]))))];
+    }
+    case 'space':
+      if (node.width <= 0) return [];
+      return [ommlRun(node.width >= 1 ? '\u2003'.repeat(Math.round(node.width)) : node.width >= 0.25 ? '\u2005' : '\u2009', 'normal')];
+  }
+}
+
+// A row, where a sum or integral takes the terms after it as its operand
+function ommlRow(children: MathNode[]): MathComponent[] {
+  const components: MathComponent[] = [];
+  for (let index = 0; index < children.length; index++) {
+    const node = children[index];
+    const operator = node.type === 'scripts' ? node.base : node;
+    if (operator.type === 'operator' && operator.large) {
+      let end = index + 1;
+      while (end < children.length && !(children[end].type === 'operator' && OPERAND_BREAKS.test((children[end] as { text: string }).text))) end++;
+      const scripts = node.type === 'scripts' ? node : undefined;
+      components.push(nary(operator.text, !!(scripts?.limits ?? operator.limits), scripts?.sub, scripts?.sup, ommlRow(children.slice(index + 1, end))));
+      index = end - 1;
+      continue;
+    }
+    if (node.type === 'scripts') {
+      components.push(scriptsOMML(node));
+      continue;
+    }
+    components.push(...omml(node));
+  }
+  return components;
+}
+
+function scriptsOMML(node: Extract<MathNode, { type: 'scripts' }>): MathComponent {
+  const base = omml(node.base);
+  if (node.limits) {
+    let result = base;
+    if (node.sub) result = [new MathLimitLower({ children: result, limit: omml(node.sub) }) as unknown as MathComponent];
+    if (node.sup) result = [new MathLimitUpper({ children: result, limit: omml(node.sup) }) as unknown as MathComponent];
+    return result.length === 1 ? result[0] : ommlElement('m:box', ommlElement('m:e', ...result));
+  }
+  if (node.sub && node.sup) return new MathSubSuperScript({ children: base, subScript: omml(node.sub), superScript: omml(node.sup) });
+  if (node.sub) return new MathSubScript({ children: base, subScript: omml(node.sub) });
+  return new MathSuperScript({ children: base, superScript: omml(node.sup!) });
+}
+
+function nary(char: string, limits: boolean, sub: MathNode | undefined, sup: MathNode | undefined, operand: MathComponent[]): MathComponent {
+  return ommlElement('m:nary',
+    ommlElement('m:naryPr',
+      ommlElement('m:chr', { 'm:val': char }),
+      ommlElement('m:limLoc', { 'm:val': limits ? 'undOvr' : 'subSup' }),
+      ...(sub ? [] : [ommlElement('m:subHide', { 'm:val': '1' })]),
+      ...(sup ? [] : [ommlElement('m:supHide', { 'm:val': '1' })])),
+    ommlElement('m:sub', ...(sub ? omml(sub) : [])),
+    ommlElement('m:sup', ...(sup ? omml(sup) : [])),
+    ommlElement('m:e', ...operand));
+}
+
+function fencedOMML(open: string, close: string, body: MathComponent[]): MathComponent {
+  const pair = open + close;
+  if (pair === '()') return new MathRoundBrackets({ children: body });
+  if (pair === '[]') return new MathSquareBrackets({ children: body });
+  if (pair === '{}') return new MathCurlyBrackets({ children: body });
+  if (pair === '⟨⟩') return new MathAngledBrackets({ children: body });
+  return ommlElement('m:d',
+    ommlElement('m:dPr', ommlElement('m:begChr', { 'm:val': open }), ommlElement('m:endChr', { 'm:val': close })),
+    ommlElement('m:e', ...body));
+}
+
+// A run in a math font style, or as normal text (\text)
+function ommlRun(text: string, variant?: MathVariant, normalText = false): MathComponent {
+  if (!variant && !normalText) return new MathRun(text);
+  const properties: ImportedXmlComponent[] = [];
+  if (normalText) properties.push(ommlElement('m:nor'));
+  if (variant && OMML_SCRIPTS[variant]) properties.push(ommlElement('m:scr', { 'm:val': OMML_SCRIPTS[variant]! }));
+  if (variant && OMML_STYLES[variant]) properties.push(ommlElement('m:sty', { 'm:val': OMML_STYLES[variant]! }));
+  const content = new ImportedXmlComponent('m:t', { 'xml:space': 'preserve' });
+  content.push(text);
+  return ommlElement('m:r', ommlElement('m:rPr', ...properties), content);
+}
+
+// OMML the docx package has no class for
+function ommlElement(name: string, ...children: (ImportedXmlComponent | MathComponent | Record<string, string>)[]): ImportedXmlComponent & MathComponent {
+  const attributes = children[0] && !(children[0] instanceof Object && 'prepForXml' in children[0]) ? children.shift() as Record<string, string> : undefined;
+  const element = new ImportedXmlComponent(name, attributes);
+  children.forEach(child => element.push(child as ImportedXmlComponent));
+  return element as ImportedXmlComponent & MathComponent;
+}
+
+// ---------------------------------------------------------------------------
+// Box layout (PDF)
+// ---------------------------------------------------------------------------
+
+export type MathFont = 'normal' | 'italic' | 'bold' | 'bold-italic';
+
+export interface MathGlyph {
+  type: 'glyph';
+  text: string;
+  font: MathFont;
+  size: number; // Points
+  x: number; // Points from the box's left edge
+  y: number; // Points below the box's baseline
+}
+
+export interface MathStroke {
+  type: 'stroke';
+  points: [number, number][];
+  width: number;
+}
+
+export interface MathBox {
+  width: number;
+  ascent: number;
+  descent: number;
+  items: (MathGlyph | MathStroke)[];
+}
+
+export interface MathLayoutOptions {
+  size: number; // Points
+  display?: boolean;
+  measure: (text: string, font: MathFont, size: number) => number; // Width in points
+}
+
+// Script sizes relative to the base size
+const SCRIPT_SCALES = [1, 0.7, 0.5];
+// Glyph extent above and below the baseline, in em
+const ASCENT = 0.72;
+const DESCENT = 0.21;
+// The math axis (where fraction bars sit), in em above the baseline
+const AXIS = 0.25;
+
+type SpacingClass = 'ord' | 'op' | 'bin' | 'rel' | 'open' | 'close' | 'punct';
+
+const RELATIONS = /^[=<>:≤≥≠≈≡∼≃≅∝≐≪≫≺≻⪯⪰∈∉∋⊂⊆⊊⊃⊇⊋⊑⊒⊥∥∣∤⊢⊣⊨≊≍≲≳≜≔→←↔⇒⇐⇔⟹⟸⟺⟶⟵⟷↦⟼↑↓↕⇑⇓↗↘↙↖↪↩⇀↼⇌⇝⩽⩾≮≯≰≱≢⊄⊅⊈⊉≁≉∦≇∌]$|\u0338$/;
+const BINARIES = /^[+−±∓×÷⋅∗⋆∘∙⊕⊖⊗⊘⊙∪∩⊔⊓⊎∖∧∨⋄†‡≀⨿]$/;
+const OPENING = /^[([{⟨⌊⌈]$/;
+const CLOSING = /^[)\]}⟩⌋⌉!]$/;
+// Delimiters drawn as lines at any size, since few fonts have them
+const DRAWN_DELIMITERS = /^[⌊⌋⌈⌉‖]$/;
+
+/**
+ * Lay TeX math out as glyphs and strokes around a baseline, for drawing with
+ * any text API that can measure strings
+ */
+export function layoutMath(tex: string, options: MathLayoutOptions): { box: MathBox; tag?: string } {
+  const { root, tag } = parseOrSource(tex);
+  return { box: new MathLayout(options).box(root, 0, !!options.display), tag };
+}
+
+class MathLayout {
+  constructor(private readonly options: MathLayoutOptions) {}
+
+  box(node: MathNode, level: number, display: boolean): MathBox {
+    const size = this.options.size * SCRIPT_SCALES[level];
+    switch (node.type) {
+      case 'row':
+        return this.row(node.children, level, display);
+      case 'identifier': {
+        const single = [...node.text].length === 1;
+        return this.glyph(node.text, variantFont(node.variant, single), size);
+      }
+      case 'number':
+        return this.glyph(node.text, variantFont(node.variant || 'normal', false), size);
+      case 'text':
+        return this.glyph(node.text, variantFont(node.variant || 'normal', false), size);
+      case 'operator': {
+        if (node.large) {
+          const integral = INTEGRALS.has(node.text);
+          const scale = display ? (integral ? 2 : 1.6) : (integral ? 1.4 : 1.2);
+          return this.centered(this.glyph(node.text, 'normal', size * scale), size);
+        }
+        if (node.size || DRAWN_DELIMITERS.test(node.text)) return this.delimiter(node.text, (node.size || 1) * size, size);
+        return this.glyph(node.text, 'normal', size);
+      }
+      case 'fraction':
+        return this.fraction(node, level, display, size);
+      case 'root':
+        return this.root(node, level, display, size);
+      case 'scripts':
+        return this.scripts(node, level, display, size);
+      case 'fenced': {
+        const body = this.box(node.body, level, display);
+        const axis = AXIS * size;
+        const height = 2 * Math.max(body.ascent - axis, body.descent + axis, 0.5 * size) + 0.1 * size;
+        return this.concat([this.delimiter(node.open, height, size), body, this.delimiter(node.close, height, size)]);
+      }
+      case 'accent':
+        return this.accent(node.base, node.accent, level, display, size);
+      case 'table':
+        return this.table(node, level, size);
+      case 'space':
+        return { width: node.width * size, ascent: 0, descent: 0, items: [] };
+    }
+  }
+
+  private row(children: MathNode[], level: number, display: boolean): MathBox {
+    const size = this.options.size * SCRIPT_SCALES[level];
+    const boxes: MathBox[] = [];
+    let previous: SpacingClass | null = null;
+    children.forEach(child => {
+      let kind = spacingClass(child);
+      // A binary operator with nothing to its left is a sign (-x)
+      if (kind === 'bin' && (previous === null || previous === 'bin' || previous === 'rel' || previous === 'open' || previous === 'punct' || previous === 'op')) kind = 'ord';
+      const space = previous === null || level > 0 && kind !== 'op' && previous !== 'op' ? 0 : spacing(previous, kind);
+      if (space > 0) boxes.push({ width: space * size, ascent: 0, descent: 0, items: [] });
+      boxes.push(this.box(child, level, display));
+      previous = kind;
+    });
+    return this.concat(boxes);
+  }
+
+  private fraction(node: Extract<MathNode, { type: 'fraction' }>, level: number, display: boolean, size: number): MathBox {
+    const fractionDisplay = node.style ? node.style === 'display' : display;
+    const inner = fractionDisplay ? level : Math.min(2, level + 1);
+    const numerator = this.box(node.numerator, inner, false);
+    const denominator = this.box(node.denominator, inner, false);
+    const axis = AXIS * size;
+    const thickness = 0.05 * size;
+    const gap = (node.line ? (fractionDisplay ? 0.15 : 0.08) : 0.2) * size;
+    const padding = 0.12 * size;
+    const width = Math.max(numerator.width, denominator.width) + padding * 2;
+
+    const numeratorY = -(axis + thickness / 2 + gap + numerator.descent);
+    const denominatorY = -axis + thickness / 2 + gap + denominator.ascent;
+    const items = [
+      ...place(numerator, (width - numerator.width) / 2, numeratorY),
+      ...place(denominator, (width - denominator.width) / 2, denominatorY)
+    ];
+    if (node.line) items.push({ type: 'stroke', points: [[padding / 2, -axis], [width - padding / 2, -axis]], width: thickness });
+    return { width, ascent: numerator.ascent - numeratorY, descent: denominatorY + denominator.descent, items };
+  }
+
+  private root(node: Extract<MathNode, { type: 'root' }>, level: number, display: boolean, size: number): MathBox {
+    const body = this.box(node.body, level, display);
+    const thickness = 0.05 * size;
+    const top = Math.max(body.ascent, ASCENT * size) + 0.12 * size;
+    const bottom = Math.max(body.descent, DESCENT * size);
+    const sign = 0.55 * size;
+
+    let offset = 0;
+    const items: (MathGlyph | MathStroke)[] = [];
+    if (node.index) {
+      const index = this.box(node.index, Math.min(2, level + 2), false);
+      offset = Math.max(0, index.width - 0.3 * size);
+      items.push(...place(index, 0, -top * 0.5 - index.descent));
+    }
+    items.push({
+      type: 'stroke',
+      width: thickness,
+      points: [
+        [offset, -0.28 * size],
+        [offset + 0.1 * size, -0.34 * size],
+        [offset + 0.28 * size, bottom],
+        [offset + sign, -top],
+        [offset + sign + body.width + 0.1 * size, -top]
+      ]
+    });
+    items.push(...place(body, offset + sign + 0.05 * size, 0));
+    return { width: offset + sign + body.width + 0.15 * size, ascent: top + thickness, descent: bottom, items };
+  }
+
+  private scripts(node: Extract<MathNode, { type: 'scripts' }>, level: number, display: boolean, size: number): MathBox {
+    const base = this.box(node.base, level, display);
+    const inner = Math.min(2, level + 1);
+    const sub = node.sub && this.box(node.sub, inner, false);
+    const sup = node.sup && this.box(node.sup, inner, false);
+
+    // Limits go above and below
+    if (node.limits === 'always' || (node.limits === true && display && level === 0)) {
+      const width = Math.max(base.width, sub?.width || 0, sup?.width || 0);
+      const gap = 0.1 * size;
+      const items = place(base, (width - base.width) / 2, 0);
+      let ascent = base.ascent;
+      let descent = base.descent;
+      if (sup) {
+        const y = -(base.ascent + gap + sup.descent);
+        items.push(...place(sup, (width - sup.width) / 2, y));
+        ascent = sup.ascent - y;
+      }
+      if (sub) {
+        const y = base.descent + gap + sub.ascent;
+        items.push(...place(sub, (width - sub.width) / 2, y));
+        descent = y + sub.descent;
+      }
+      return { width, ascent, descent, items };
+    }
+
+    let supY = sup ? -Math.max(0.4 * size, base.ascent - 0.3 * size) : 0;
+    let subY = sub ? Math.max(0.18 * size, base.descent + 0.05 * size) : 0;
+    if (sup && sub) {
+      subY = Math.max(subY, 0.28 * size);
+      // Keep the scripts apart
+      const overlap = 0.1 * size - ((subY - sub.ascent) - (supY + sup.descent));
+      if (overlap > 0) {
+        supY -= overlap / 2;
+        subY += overlap / 2;
+      }
+    }
+    const x = base.width + 0.04 * size;
+    const items = [...base.items];
+    let ascent = base.ascent;
+    let descent = base.descent;
+    if (sup) {
+      items.push(...place(sup, x, supY));
+      ascent = Math.max(ascent, sup.ascent - supY);
+    }
+    if (sub) {
+      items.push(...place(sub, x, subY));
+      descent = Math.max(descent, subY + sub.descent);
+    }
+    return { width: x + Math.max(sup?.width || 0, sub?.width || 0) + 0.04 * size, ascent, descent, items };
+  }
+
+  private accent(node: MathNode, accent: AccentName, level: number, display: boolean, size: number): MathBox {
+    const base = this.box(node, level, display);
+    const thickness = 0.045 * size;
+    const width = base.width;
+    const center = width / 2;
+    const items = [...base.items];
+
+    if (UNDER_ACCENTS.has(accent)) {
+      const y = base.descent + 0.08 * size;
+      if (accent === 'underline') {
+        items.push({ type: 'stroke', points: [[0, y], [width, y]], width: thickness });
+        return { ...base, descent: y + thickness, items };
+      }
+      items.push(brace(width, y, 0.12 * size, false, thickness));
+      return { ...base, descent: y + 0.15 * size, items };
+    }
+
+    const y = -(Math.max(base.ascent, 0.5 * size) + 0.08 * size);
+    const narrow = Math.min(width, 0.5 * size);
+    const height = 0.12 * size;
+    switch (accent) {
+      case 'hat':
+      case 'check': {
+        const tip = accent === 'hat' ? y - height : y;
+        const ends = accent === 'hat' ? y : y - height;
+        const half = (STRETCHY_ACCENTS.has(accent) ? width : narrow) / 2;
+        items.push({ type: 'stroke', points: [[center - half, ends], [center, tip], [center + half, ends]], width: thickness });
+        break;
+      }
+      case 'bar':
+      case 'overline': {
+        const half = accent === 'bar' ? narrow / 2 : width / 2;
+        items.push({ type: 'stroke', points: [[center - half, y], [center + half, y]], width: thickness });
+        break;
+      }
+      case 'vec':
+      case 'overrightarrow':
+      case 'overleftarrow':
+      case 'overleftrightarrow': {
+        const half = accent === 'vec' ? narrow / 2 : width / 2;
+        const [left, right] = [center - half, center + half];
+        const head = 0.1 * size;
+        items.push({ type: 'stroke', points: [[left, y], [right, y]], width: thickness });
+        if (accent !== 'overleftarrow') items.push({ type: 'stroke', points: [[right - head, y - head * 0.7], [right, y], [right - head, y + head * 0.7]], width: thickness });
+        if (accent === 'overleftarrow' || accent === 'overleftrightarrow') items.push({ type: 'stroke', points: [[left + head, y - head * 0.7], [left, y], [left + head, y + head * 0.7]], width: thickness });
+        break;
+      }
+      case 'dot':
+      case 'ddot': {
+        const dots = accent === 'dot' ? '.' : '..';
+        const dotWidth = this.options.measure(dots, 'normal', size);
+        items.push({ type: 'glyph', text: dots, font: 'normal', size, x: center - dotWidth / 2, y: y + 0.02 * size });
+        break;
+      }
+      case 'tilde': {
+        const tildeSize = Math.max(size, Math.min(width / 0.6, size * 2.5));
+        const tildeWidth = this.options.measure('~', 'normal', tildeSize);
+        items.push({ type: 'glyph', text: '~', font: 'normal', size: tildeSize, x: center - tildeWidth / 2, y: y + 0.22 * tildeSize });
+        break;
+      }
+      case 'breve': {
+        const half = narrow / 3;
+        const points: [number, number][] = [];
+        for (let step = 0; step <= 6; step++) {
+          const angle = Math.PI * step / 6;
+          points.push([center - half * Math.cos(angle), y - height + height * Math.sin(angle)]);
+        }
+        items.push({ type: 'stroke', points, width: thickness });
+        break;
+      }
+      case 'acute':
+      case 'grave': {
+        const lean = accent === 'acute' ? 1 : -1;
+        items.push({ type: 'stroke', points: [[center - lean * 0.05 * size, y], [center + lean * 0.08 * size, y - height]], width: thickness });
+        break;
+      }
+      case 'overbrace':
+        items.push(brace(width, y, 0.12 * size, true, thickness));
+        break;
+    }
+    return { ...base, ascent: -y + height + thickness, items };
+  }
+
+  private table(node: Extract<MathNode, { type: 'table' }>, level: number, size: number): MathBox {
+    const inner = node.small ? Math.min(2, level + 1) : level;
+    const innerSize = this.options.size * SCRIPT_SCALES[inner];
+    const cellDisplay = node.kind === 'aligned' || node.kind === 'gathered';
+    const boxes = node.rows.map(cells => cells.map(cell => this.box(cell, inner, cellDisplay)));
+    const columns = Math.max(...boxes.map(cells => cells.length));
+    const widths = Array.from({ length: columns }, (_, column) => Math.max(0, ...boxes.map(cells => cells[column]?.width || 0)));
+    const gaps = widths.map((_, column) => {
+      if (column === 0) return 0;
+      if (node.kind === 'aligned') return column % 2 === 1 ? 0 : 2 * innerSize;
+      return (node.kind === 'cases' ? 1 : node.small ? 0.5 : 0.8) * innerSize;
+    });
+    const rowGap = (cellDisplay ? 0.35 : 0.25) * innerSize;
+
+    const rows = boxes.map(cells => ({
+      ascent: Math.max(ASCENT * innerSize, ...cells.map(cell => cell.ascent)),
+      descent: Math.max(DESCENT * innerSize, ...cells.map(cell => cell.descent))
+    }));
+    const height = rows.reduce((sum, { ascent, descent }) => sum + ascent + descent, 0) + rowGap * Math.max(0, rows.length - 1);
+    const top = -AXIS * size - height / 2;
+
+    const items: (MathGlyph | MathStroke)[] = [];
+    let y = top;
+    boxes.forEach((cells, rowIndex) => {
+      const baseline = y + rows[rowIndex].ascent;
+      let x = 0;
+      widths.forEach((columnWidth, column) => {
+        x += gaps[column];
+        const cell = cells[column];
+        if (cell) {
+          const align = node.align[column] || 'center';
+          const offset = align === 'left' ? 0 : align === 'right' ? columnWidth - cell.width : (columnWidth - cell.width) / 2;
+          items.push(...place(cell, x + offset, baseline));
+        }
+        x += columnWidth;
+      });
+      y = baseline + rows[rowIndex].descent + rowGap;
+    });
+    const width = widths.reduce((sum, columnWidth) => sum + columnWidth, 0) + gaps.reduce((sum, gap) => sum + gap, 0);
+    return { width, ascent: -top, descent: top + height, items };
+  }
+
+  /**
+   * A delimiter tall enough for `height`, centred on the axis: brackets and bars
+   * are drawn, parentheses and braces are scaled glyphs
+   */
+  private delimiter(char: string, height: number, size: number): MathBox {
+    if (!char) return { width: 0.1 * size, ascent: 0, descent: 0, items: [] };
+    if (height <= 1.15 * size && !DRAWN_DELIMITERS.test(char)) return this.glyph(char, 'normal', size);
+
+    const axis = AXIS * size;
+    const top = -axis - height / 2;
+    const bottom = -axis + height / 2;
+    const thickness = 0.05 * size;
+    const width = 0.35 * size;
+    const inset = 0.08 * size;
+    const box = (items: (MathGlyph | MathStroke)[], boxWidth = width): MathBox => ({ width: boxWidth, ascent: -top, descent: bottom, items });
+    const stroke = (...points: [number, number][]): MathStroke => ({ type: 'stroke', points, width: thickness });
+
+    switch (char) {
+      case '[':
+        return box([stroke([width - inset, top], [inset, top], [inset, bottom], [width - inset, bottom])]);
+      case ']':
+        return box([stroke([inset, top], [width - inset, top], [width - inset, bottom], [inset, bottom])]);
+      case '⌊':
+        return box([stroke([inset, top], [inset, bottom], [width - inset, bottom])]);
+      case '⌋':
+        return box([stroke([width - inset, top], [width - inset, bottom], [inset, bottom])]);
+      case '⌈':
+        return box([stroke([width - inset, top], [inset, top], [inset, bottom])]);
+      case '⌉':
+        return box([stroke([inset, top], [width - inset, top], [width - inset, bottom])]);
+      case '|':
+      case '∣':
+        return box([stroke([width / 2, top], [width / 2, bottom])], width * 0.8);
+      case '‖':
+        return box([stroke([width * 0.35, top], [width * 0.35, bottom]), stroke([width * 0.65, top], [width * 0.65, bottom])]);
+      case '⟨':
+        return box([stroke([width - inset, top], [inset, -axis], [width - inset, bottom])]);
+      case '⟩':
+        return box([stroke([inset, top], [width - inset, -axis], [inset, bottom])]);
+      case '/':
+        return box([stroke([width - inset, top], [inset, bottom])]);
+      default:
+        return this.centered(this.glyph(char, 'normal', height / (ASCENT + DESCENT)), size);
+    }
+  }
+
+  // Move a glyph box so its middle sits on the math axis
+  private centered(box: MathBox, size: number): MathBox {
+    const shift = (box.ascent - box.descent) / 2 - AXIS * size;
+    return { width: box.width, ascent: box.ascent - shift, descent: box.descent + shift, items: place(box, 0, shift) };
+  }
+
+  private glyph(text: string, font: MathFont, size: number): MathBox {
+    return {
+      width: this.options.measure(text, font, size),
+      ascent: ASCENT * size,
+      descent: DESCENT * size,
+      items: [{ type: 'glyph', text, font, size, x: 0, y: 0 }]
+    };
+  }
+
+  private concat(boxes: MathBox[]): MathBox {
+    const items: (MathGlyph | MathStroke)[] = [];
+    let x = 0;
+    let ascent = 0;
+    let descent = 0;
+    boxes.forEach(box => {
+      items.push(...place(box, x, 0));
+      x += box.width;
+      ascent = Math.max(ascent, box.ascent);
+      descent = Math.max(descent, box.descent);
+    });
+    return { width: x, ascent, descent, items };
+  }
+}
+
+function place(box: MathBox, dx: number, dy: number): (MathGlyph | MathStroke)[] {
+  return box.items.map(item => item.type === 'glyph'
+    ? { ...item, x: item.x + dx, y: item.y + dy }
+    : { ...item, points: item.points.map(([x, y]) => [x + dx, y + dy] as [number, number]) });
+}
+
+// A horizontal curly brace over (or under) a width, with its tip toward the label
+function brace(width: number, y: number, height: number, over: boolean, thickness: number): MathStroke {
+  const direction = over ? -1 : 1;
+  const curl = Math.min(height, width / 6);
+  return {
+    type: 'stroke',
+    width: thickness,
+    points: [
+      [0, y - direction * curl * 0.8],
+      [curl, y],
+      [width / 2 - curl, y],
+      [width / 2, y + direction * curl],
+      [width / 2 + curl, y],
+      [width - curl, y],
+      [width, y - direction * curl * 0.8]
+    ]
+  };
+}
+
+function variantFont(variant: MathVariant | undefined, single: boolean): MathFont {
+  switch (variant) {
+    case 'bold':
+    case 'double-struck':
+      return 'bold';
+    case 'bold-italic':
+      return 'bold-italic';
+    case 'normal':
+    case 'sans-serif':
+    case 'monospace':
+      return 'normal';
+    case 'italic':
+    case 'script':
+    case 'fraktur':
+      return 'italic';
+    default:
+      return single ? 'italic' : 'normal';
+  }
+}
+
+function spacingClass(node: MathNode): SpacingClass {
+  if (node.type === 'operator') {
+    if (node.large) return 'op';
+    if (RELATIONS.test(node.text)) return 'rel';
+    if (BINARIES.test(node.text)) return 'bin';
+    if (node.text === ',' || node.text === ';') return 'punct';
+    if (OPENING.test(node.text)) return 'open';
+    if (CLOSING.test(node.text)) return 'close';
+    return 'ord';
+  }
+  if (node.type === 'identifier' && node.variant === 'normal' && [...node.text].length > 1) return 'op';
+  if (node.type === 'scripts') {
+    const base = spacingClass(node.base);
+    return base === 'op' || base === 'rel' ? base : 'ord';
+  }
+  return 'ord';
+}
+
+// TeX's spacing between atom classes, in em (thin 3/18, medium 4/18, thick 5/18)
+function spacing(left: SpacingClass, right: SpacingClass): number {
+  if (left === 'rel' || right === 'rel') return left === 'open' || right === 'close' || left === 'punct' ? 0 : 5 / 18;
+  if (left === 'bin' || right === 'bin') return 4 / 18;
+  if (left === 'punct') return 3 / 18;
+  if ((left === 'op' && (right === 'ord' || right === 'op')) || (right === 'op' && (left === 'ord' || left === 'close'))) return 3 / 18;
+  return 0;
+}
@@ -0,0 +1,130 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { lengthToPixels, readODT } from './odf';
+import { inlineText } from './utils';
+import type { Block } from './types';
+import { installDOMParser } from '@/test/dom';
+
+beforeAll(installDOMParser);
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"'
+].join(' ');
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+async function odt(body: string, { styles = '', automaticStyles = '', meta = '' } = {}): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.text');
+  zip.file('content.xml', `<office:document-content ${NAMESPACES}>
+    <office:automatic-styles>${automaticStyles}</office:automatic-styles>
+    <office:body><office:text>${body}</office:text></office:body>
+  </office:document-content>`);
+  zip.file('styles.xml', `<office:document-styles ${NAMESPACES}><office:styles>${styles}</office:styles></office:document-styles>`);
+  if (meta) zip.file('meta.xml', `<office:document-meta ${NAMESPACES}><office:meta>${meta}</office:meta></office:document-meta>`);
+  zip.file('Pictures/chart.png', PNG);
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+function blockText(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(item => item.blocks.map(blockText).join(' ')).join(' | ');
+    case 'table':
+      return block.rows.map(row => row.cells.map(cell => inlineText(cell.children)).join(',')).join(';');
+    default:
+      return block.type;
+  }
+}
+
+describe('readODT', () => {
+  it('reads headings, paragraphs, tables and page breaks in order', async () => {
+    const doc = await readODT(await odt(`
+      <text:h text:outline-level="1">Report</text:h>
+      <text:p text:style-name="Title2">Summary</text:p>
+      <text:p>Sales <text:span text:style-name="T1">rose</text:span>.</text:p>
+      <table:table>
+        <table:table-header-rows><table:table-row><table:table-cell><text:p>Region</text:p></table:table-cell><table:table-cell><text:p>Sales</text:p></table:table-cell></table:table-row></table:table-header-rows>
+        <table:table-row><table:table-cell table:number-columns-spanned="2"><text:p>North</text:p><text:p>12</text:p></table:table-cell></table:table-row>
+      </table:table>
+      <text:p text:style-name="P1">Appendix</text:p>`, {
+      styles: '<style:style style:name="Title2" style:default-outline-level="2"/>',
+      automaticStyles: `
+        <style:style style:name="T1"><style:text-properties fo:font-weight="bold"/></style:style>
+        <style:style style:name="P1" style:parent-style-name="Break"/>
+        <style:style style:name="Break"><style:paragraph-properties fo:break-before="page"/></style:style>`
+    }));
+
+    expect(doc.blocks.map(blockText)).toEqual(['Report', 'Summary', 'Sales rose.', 'Region,Sales;North\n12', 'pageBreak', 'Appendix']);
+    expect(doc.blocks.slice(0, 2).map(block => block.type === 'heading' && block.level)).toEqual([1, 2]);
+
+    const sales = doc.blocks[2];
+    expect(sales.type === 'paragraph' && sales.children[1]).toMatchObject({ type: 'text', text: 'rose', marks: ['bold'] });
+    const table = doc.blocks[3];
+    expect(table.type === 'table' && table.headerRows).toBe(1);
+    expect(table.type === 'table' && table.rows[1].cells[0]).toMatchObject({ colSpan: 2, children: [{ text: 'North' }, { type: 'lineBreak' }, { text: '12' }] });
+    expect(doc.metadata.title).toBe('Report');
+  });
+
+  it('numbers lists by their style, nested levels included', async () => {
+    const doc = await readODT(await odt(`
+      <text:list text:style-name="L1">
+        <text:list-item><text:p>First</text:p>
+          <text:list><text:list-item><text:p>Detail</text:p></text:list-item></text:list>
+        </text:list-item>
+        <text:list-item><text:p>Second</text:p></text:list-item>
+      </text:list>`, {
+      automaticStyles: '<text:list-style style:name="L1"><text:list-level-style-number text:level="1"/><text:list-level-style-bullet text:level="2"/></text:list-style>'
+    }));
+
+    const [list] = doc.blocks;
+    expect(list.type).toBe('list');
+    if (list.type !== 'list') return;
+    expect(list.ordered).toBe(true);
+    expect(list.items).toHaveLength(2);
+    expect(list.items[0].blocks[1]).toMatchObject({ type: 'list', ordered: false });
+    expect(blockText(list)).toBe('First Detail | Second');
+  });
+
+  it('moves notes to the end and keeps pictures as image blocks', async () => {
+    const doc = await readODT(await odt(`
+      <text:p>Claim<text:note text:note-class="footnote"><text:note-citation>1</text:note-citation><text:note-body><text:p>Source.</text:p></text:note-body></text:note>.</text:p>
+      <text:p><draw:frame draw:name="Chart" svg:width="1in" svg:height="0.5in"><draw:image xlink:href="Pictures/chart.png"/></draw:frame></text:p>`));
+
+    expect(doc.blocks.map(blockText)).toEqual(['Claim1.', 'image', 'rule', '1 Source.']);
+    expect(doc.blocks[1]).toMatchObject({ type: 'image', mimeType: 'image/png', alt: 'Chart', width: 96, height: 48 });
+  });
+
+  it('reads the document properties from meta.xml', async () => {
+    const doc = await readODT(await odt('<text:p>Body</text:p>', {
+      meta: '<dc:title>Plan</dc:title><meta:initial-creator>Ann</meta:initial-creator><dc:language>de</dc:language><meta:keyword>budget</meta:keyword><meta:keyword>2025</meta:keyword>'
+    }));
+    expect(doc.metadata).toMatchObject({ title: 'Plan', author: 'Ann', language: 'de', keywords: ['budget', '2025'] });
+  });
+
+  it('rejects packages without a text body', async () => {
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.spreadsheet');
+    await expect(readODT(await zip.generateAsync({ type: 'arraybuffer' }))).rejects.toThrow('Not an OpenDocument text document');
+  });
+});
+
+describe('lengthToPixels', () => {
+  it('converts ODF lengths at 96 pixels per inch', () => {
+    expect([lengthToPixels('2.54cm'), lengthToPixels('10mm'), lengthToPixels('12pt'), lengthToPixels('5px')]).toEqual([96, 38, 16, 5]);
+    expect(lengthToPixels('50%')).toBeUndefined();
+    expect(lengthToPixels(null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * OpenDocument Readers
+ * What every ODF package shares - styles from styles.xml and content.xml (with
+ * parent styles resolved), inline text, tables, pictures and meta.xml - and the
+ * ODT reader: headings by outline level, nested lists, tables, footnotes and
+ * endnotes, images from Pictures/ and page breaks. ODP decks are read in
+ * presentation.ts; ODS workbooks are read by SheetJS.
+ */
+
+import JSZip from 'jszip';
+import type { Block, DocumentImage, DocumentMetadata, DocumentModel, Inline, InlineMark, ListBlock, TableBlock, TableCell, TableRow } from './types';
+import { createDocument, firstHeading, inlineText, text } from './utils';
+
+export interface ODFStyles {
+  marks: Map<string, InlineMark[]>; // Text styles -> marks
+  listLevels: Map<string, boolean[]>; // List styles -> numbered or not, per level (index 0 is level 1)
+  outlineLevels: Map<string, number>; // Paragraph styles that make headings
+  pageBreaks: Set<string>; // Paragraph styles that start a new page
+}
+
+/**
+ * What the ODT reader collects besides blocks: pictures are loaded up front so
+ * inline text can be read synchronously, notes gather for the end of the document
+ */
+interface ODTContext {
+  styles: ODFStyles;
+  images: Map<string, { data: Uint8Array; mimeType: string }>;
+  notes: Block[];
+  frames: Block[]; // Text frames anchored in the paragraph being read, placed after it
+}
+
+interface RawStyle {
+  parent?: string;
+  marks?: InlineMark[];
+  outlineLevel?: number;
+  pageBreak?: boolean;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+// Elements whose text isn't part of the running text (comments, change tracking, index definitions)
+const SKIPPED_ELEMENTS = new Set(['annotation', 'annotation-end', 'tracked-changes', 'index-source', 'sequence-decls', 'variable-decls', 'user-field-decls', 'forms']);
+
+// ---------------------------------------------------------------------------
+// ODT
+// ---------------------------------------------------------------------------
+
+export async function readODT(data: ArrayBuffer): Promise<DocumentModel> {
+  const zip = await JSZip.loadAsync(data);
+  const content = await readODFPart(zip, 'content.xml');
+  const body = content && firstChild(firstChild(content.documentElement, 'body'), 'text');
+  if (!content || !body) {
+    throw new Error('Not an OpenDocument text document (content.xml has no text body)');
+  }
+
+  const context: ODTContext = {
+    styles: readODFStyles(await readODFPart(zip, 'styles.xml'), content),
+    images: await readODFPictures(zip),
+    notes: [],
+    frames: []
+  };
+  const blocks = readODTBlocks(body, context);
+  if (context.notes.length > 0) {
+    blocks.push({ type: 'rule' }, ...context.notes);
+  }
+
+  const doc = createDocument(blocks, await readODFMetadata(zip));
+  doc.metadata.title = doc.metadata.title || firstHeading(doc);
+  return doc;
+}
+
+function readODTBlocks(parent: Element, context: ODTContext, list?: { level: number; style?: string }): Block[] {
+  const blocks: Block[] = [];
+  const { styles } = context;
+
+  childElements(parent).forEach(child => {
+    const styleName = child.getAttribute('text:style-name') || '';
+    if ((child.localName === 'p' || child.localName === 'h') && styles.pageBreaks.has(styleName) && blocks.length > 0) {
+      blocks.push({ type: 'pageBreak' });
+    }
+
+    switch (child.localName) {
+      case 'h':
+      case 'p': {
+        const children = trimInlines(readODFInlines(child, styles, [], context));
+        const outlineLevel = child.localName === 'h'
+          ? Number(child.getAttribute('text:outline-level')) || styles.outlineLevels.get(styleName) || 1
+          : styles.outlineLevels.get(styleName);
+
+        if (children.length === 1 && children[0].type === 'image') {
+          const { type: _type, ...image } = children[0];
+          blocks.push({ type: 'image', ...image });
+        } else if (inlineText(children).trim() || children.some(inline => inline.type === 'image')) {
+          blocks.push(outlineLevel
+            ? { type: 'heading', level: Math.min(6, Math.max(1, outlineLevel)) as 1 | 2 | 3 | 4 | 5 | 6, children }
+            : { type: 'paragraph', children });
+        }
+        blocks.push(...context.frames.splice(0));
+        break;
+      }
+      case 'list':
+        blocks.push(readODTList(child, context, list ? list.level + 1 : 1, list?.style));
+        break;
+      case 'table':
+        blocks.push(readODFTable(child, styles, context), ...context.frames.splice(0));
+        break;
+      case 'section':
+      case 'index-body':
+        blocks.push(...readODTBlocks(child, context, list));
+        break;
+      default:
+        // Tables of contents and other indexes keep their generated text
+        if (child.localName === 'table-of-content' || child.localName.endsWith('-index')) {
+          const indexBody = firstChild(child, 'index-body');
+          if (indexBody) blocks.push(...readODTBlocks(indexBody, context, list));
+        }
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Nested lists without a style of their own continue the outer list's style one level deeper
+ */
+function readODTList(element: Element, context: ODTContext, level: number, inheritedStyle?: string): ListBlock {
+  const style = element.getAttribute('text:style-name') || inheritedStyle;
+  const list: ListBlock = { type: 'list', ordered: !!style && isNumberedList(context.styles, style, level), items: [] };
+
+  childElements(element)
+    .filter(item => item.localName === 'list-item' || item.localName === 'list-header')
+    .forEach((item, index) => {
+      const start = Number(item.getAttribute('text:start-value'));
+      if (index === 0 && list.ordered && start) list.start = start;
+      list.items.push({ blocks: readODTBlocks(item, context, { level, style }) });
+    });
+
+  return list;
+}
+
+function readODTNote(note: Element, context: ODTContext): Inline[] {
+  const citation = firstChild(note, 'note-citation')?.textContent?.trim() || String(context.notes.length + 1);
+  const body = firstChild(note, 'note-body');
+  if (body) {
+    const noteBlocks = withOwnFrames(context, () => readODTBlocks(body, context));
+    const marker = text(`${citation} `, ['superscript']);
+    const first = noteBlocks[0];
+    if (first?.type === 'paragraph') {
+      noteBlocks[0] = { ...first, children: [marker, ...first.children] };
+    } else {
+      noteBlocks.unshift({ type: 'paragraph', children: [marker] });
+    }
+    context.notes.push(...noteBlocks);
+  }
+  return [text(citation, ['superscript'])];
+}
+
+/**
+ * A frame holds a picture (becoming an inline image) or a text box (read as
+ * blocks that follow the paragraph, like a caption under an illustration)
+ */
+function readODTFrame(frame: Element, context: ODTContext): Inline[] {
+  const textBox = firstChild(frame, 'text-box');
+  if (textBox) {
+    context.frames.push(...withOwnFrames(context, () => readODTBlocks(textBox, context)));
+    return [];
+  }
+
+  const href = firstChild(frame, 'image')?.getAttribute('xlink:href') || '';
+  const image: DocumentImage = {
+    alt: firstChild(frame, 'desc')?.textContent || firstChild(frame, 'title')?.textContent || frame.getAttribute('draw:name') || undefined,
+    width: lengthToPixels(frame.getAttribute('svg:width')),
+    height: lengthToPixels(frame.getAttribute('svg:height'))
+  };
+  if (/^https?:/i.test(href)) {
+    return [{ type: 'image', ...image, src: href }];
+  }
+  const bytes = context.images.get(href.replace(/^\.\//, ''));
+  return bytes ? [{ type: 'image', ...image, ...bytes }] : [];
+}
+
+// Read nested content (a text box, a note) without flushing the frames of the paragraph around it
+function withOwnFrames(context: ODTContext, read: () => Block[]): Block[] {
+  const outer = context.frames.splice(0);
+  const blocks = read();
+  context.frames.push(...outer);
+  return blocks;
+}
+
+function trimInlines(inlines: Inline[]): Inline[] {
+  const result = [...inlines];
+  const first = result[0];
+  if (first?.type === 'text') result[0] = { ...first, text: first.text.replace(/^\s+/, '') };
+  const last = result[result.length - 1];
+  if (last?.type === 'text') result[result.length - 1] = { ...last, text: last.text.replace(/\s+$/, '') };
+  return result.filter(inline => inline.type !== 'text' || inline.text);
+}
+
+// ---------------------------------------------------------------------------
+// Shared
+// ---------------------------------------------------------------------------
+
+/**
+ * Styles from styles.xml (named styles) and content.xml (automatic styles) -
+ * later documents win, and each style takes what it doesn't set from its parent
+ */
+export function readODFStyles(...documents: (Document | null)[]): ODFStyles {
+  const raw = new Map<string, RawStyle>();
+  const listLevels = new Map<string, boolean[]>();
+
+  documents.forEach(doc => {
+    if (!doc) return;
+    descendants(doc, 'style').forEach(style => {
+      const name = style.getAttribute('style:name');
+      if (!name) return;
+
+      const entry: RawStyle = { parent: style.getAttribute('style:parent-style-name') || undefined };
+      const properties = firstChild(style, 'text-properties');
+      if (properties) entry.marks = textPropertyMarks(properties);
+      const outlineLevel = Number(style.getAttribute('style:default-outline-level'));
+      if (outlineLevel) entry.outlineLevel = outlineLevel;
+      const paragraph = firstChild(style, 'paragraph-properties');
+      if (paragraph?.getAttribute('fo:break-before') === 'page') entry.pageBreak = true;
+      raw.set(name, entry);
+    });
+
+    descendants(doc, 'list-style').forEach(listStyle => {
+      const name = listStyle.getAttribute('style:name');
+      if (!name) return;
+      const levels: boolean[] = [];
+      childElements(listStyle).forEach(level => {
+        const index = Number(level.getAttribute('text:level') || 1) - 1;
+        levels[index] = level.localName === 'list-level-style-number';
+      });
+      listLevels.set(name, levels);
+    });
+  });
+
+  const styles: ODFStyles = { marks: new Map(), listLevels, outlineLevels: new Map(), pageBreaks: new Set() };
+  raw.forEach((_, name) => {
+    const resolved: RawStyle = {};
+    // Walk up the parents; the depth limit guards against cycles in broken files
+    for (let style = raw.get(name), depth = 0; style && depth < 20; style = style.parent ? raw.get(style.parent) : undefined, depth++) {
+      resolved.marks = resolved.marks || style.marks;
+      resolved.outlineLevel = resolved.outlineLevel || style.outlineLevel;
+      resolved.pageBreak = resolved.pageBreak || style.pageBreak;
+    }
+    if (resolved.marks && resolved.marks.length > 0) styles.marks.set(name, resolved.marks);
+    if (resolved.outlineLevel) styles.outlineLevels.set(name, resolved.outlineLevel);
+    if (resolved.pageBreak) styles.pageBreaks.add(name);
+  });
+  return styles;
+}
+
+export function isNumberedList(styles: ODFStyles, styleName: string, level: number): boolean {
+  const levels = styles.listLevels.get(styleName);
+  return !!levels && !!(levels[level - 1] ?? levels[0]);
+}
+
+function textPropertyMarks(properties: Element): InlineMark[] {
+  const marks: InlineMark[] = [];
+  if (properties.getAttribute('fo:font-weight') === 'bold') marks.push('bold');
+  if (properties.getAttribute('fo:font-style') === 'italic') marks.push('italic');
+  const underline = properties.getAttribute('style:text-underline-style');
+  if (underline && underline !== 'none') marks.push('underline');
+  const strike = properties.getAttribute('style:text-line-through-style');
+  if (strike && strike !== 'none') marks.push('strike');
+  const position = properties.getAttribute('style:text-position') || '';
+  if (position.startsWith('super')) marks.push('superscript');
+  if (position.startsWith('sub')) marks.push('subscript');
+  return marks;
+}
+
+/**
+ * Inline text of a paragraph. Notes and frames are only read with an ODT
+ * context; other fields (dates, page numbers, references) keep their text.
+ */
+export function readODFInlines(parent: Element, styles: ODFStyles, inherited: InlineMark[] = [], context?: ODTContext): Inline[] {
+  const inlines: Inline[] = [];
+
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === 3) {
+      if (node.textContent) inlines.push(text(node.textContent, inherited));
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const element = node as Element;
+    if (SKIPPED_ELEMENTS.has(element.localName)) return;
+    switch (element.localName) {
+      case 'span': {
+        const marks = styles.marks.get(element.getAttribute('text:style-name') || '') || [];
+        inlines.push(...readODFInlines(element, styles, [...new Set([...inherited, ...marks])], context));
+        break;
+      }
+      case 'a':
+        inlines.push({ type: 'link', href: element.getAttribute('xlink:href') || '', children: readODFInlines(element, styles, inherited, context) });
+        break;
+      case 's':
+        inlines.push(text(' '.repeat(Number(element.getAttribute('text:c') || 1)), inherited));
+        break;
+      case 'tab':
+        inlines.push(text('\t', inherited));
+        break;
+      case 'line-break':
+        inlines.push({ type: 'lineBreak' });
+        break;
+      case 'note':
+        if (context) inlines.push(...readODTNote(element, context));
+        break;
+      case 'frame':
+        if (context) inlines.push(...readODTFrame(element, context));
+        break;
+      default:
+        inlines.push(...readODFInlines(element, styles, inherited, context));
+    }
+  });
+
+  return inlines;
+}
+
+/**
+ * A table with each cell's paragraphs (list items included) joined by line breaks
+ */
+export function readODFTable(table: Element, styles: ODFStyles, context?: ODTContext): TableBlock {
+  const rows: TableRow[] = [];
+  let headerRows = 0;
+
+  const collectRows = (parent: Element, header: boolean) => childElements(parent).forEach(child => {
+    if (child.localName === 'table-row') {
+      rows.push({ cells: childElements(child, 'table-cell').map(cell => readODFTableCell(cell, styles, context)) });
+      if (header) headerRows++;
+    } else if (['table-header-rows', 'table-rows', 'table-row-group'].includes(child.localName)) {
+      collectRows(child, header || child.localName === 'table-header-rows');
+    }
+  });
+  collectRows(table, false);
+
+  return { type: 'table', rows, headerRows };
+}
+
+function readODFTableCell(cell: Element, styles: ODFStyles, context?: ODTContext): TableCell {
+  const paragraphs: Inline[][] = [];
+  const collect = (parent: Element) => childElements(parent).forEach(child => {
+    if (child.localName === 'p' || child.localName === 'h') {
+      const inlines = trimInlines(readODFInlines(child, styles, [], context));
+      if (inlines.length > 0) paragraphs.push(inlines);
+    } else if (['list', 'list-item', 'list-header', 'section'].includes(child.localName)) {
+      collect(child);
+    }
+  });
+  collect(cell);
+
+  const tableCell: TableCell = {
+    children: paragraphs.flatMap((inlines, index) => index > 0 ? [{ type: 'lineBreak' } as Inline, ...inlines] : inlines)
+  };
+  const colSpan = Number(cell.getAttribute('table:number-columns-spanned') || 1);
+  const rowSpan = Number(cell.getAttribute('table:number-rows-spanned') || 1);
+  if (colSpan > 1) tableCell.colSpan = colSpan;
+  if (rowSpan > 1) tableCell.rowSpan = rowSpan;
+  return tableCell;
+}
+
+export async function readODFMetadata(zip: JSZip): Promise<DocumentMetadata> {
+  const meta = await readODFPart(zip, 'meta.xml');
+  const metadata: DocumentMetadata = {};
+  if (!meta) return metadata;
+
+  const value = (name: string) => descendants(meta, name)[0]?.textContent?.trim();
+  const title = value('title');
+  const author = value('creator') || value('initial-creator');
+  const language = value('language');
+  const subject = value('subject');
+  const createdAt = value('creation-date');
+  const keywords = descendants(meta, 'keyword').map(keyword => keyword.textContent?.trim() || '').filter(Boolean);
+  if (title) metadata.title = title;
+  if (author) metadata.author = author;
+  if (language) metadata.language = language;
+  if (subject) metadata.subject = subject;
+  if (createdAt) metadata.createdAt = createdAt;
+  if (keywords.length > 0) metadata.keywords = keywords;
+  return metadata;
+}
+
+/**
+ * The pictures in the package that browsers can display, by package path
+ */
+async function readODFPictures(zip: JSZip): Promise<Map<string, { data: Uint8Array; mimeType: string }>> {
+  const pictures = new Map<string, { data: Uint8Array; mimeType: string }>();
+  for (const file of zip.file(/^Pictures\//)) {
+    const mimeType = IMAGE_TYPES[file.name.split('.').pop()?.toLowerCase() || ''];
+    if (mimeType) pictures.set(file.name, { data: await file.async('uint8array'), mimeType });
+  }
+  return pictures;
+}
+
+// ODF lengths carry their unit ("12.5cm", "3in")
+export function lengthToPixels(value: string | null): number | undefined {
+  const match = value?.match(/^([\d.]+)(cm|mm|in|pt|px)$/);
+  if (!match) return undefined;
+  const perUnit: Record<string, number> = { cm: 96 / 2.54, mm: 96 / 25.4, in: 96, pt: 4 / 3, px: 1 };
+  return Math.round(Number(match[1]) * perUnit[match[2]]);
+}
+
+async function readODFPart(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('XML parsing is not available in this environment');
+  }
+  return new DOMParser().parseFromString(await file.async('text'), 'application/xml');
+}
+
+function childElements(parent: Node, localName?: string): Element[] {
+  return Array.from(parent.childNodes).filter((node): node is Element =>
+    node.nodeType === 1 && (!localName || (node as Element).localName === localName));
+}
+
+function firstChild(parent: Node | undefined, localName: string): Element | undefined {
+  return parent ? childElements(parent, localName)[0] : undefined;
+}
+
+function descendants(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
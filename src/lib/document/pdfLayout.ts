@@ -0,0 +1,703 @@
+/**
+ * PDF Layout
+ * Lay a DocumentModel out as real PDF text (selectable and searchable) with jsPDF:
+ * word-wrapped paragraphs with widow/orphan control, headings kept with the text
+ * that follows them, lists, code blocks, tables via jspdf-autotable (header rows
+ * repeat on every page), images, clickable links, and TeX math drawn as glyphs
+ * and lines.
+ */
+
+import type jsPDF from 'jspdf';
+import autoTable, { type CellDef, type CellHookData } from 'jspdf-autotable';
+import type { Block, DocumentImage, DocumentModel, ImageInline, Inline, InlineMark, TableBlock } from './types';
+import { imageBytes, inlineText, readImageSize } from './utils';
+import { layoutMath, type MathBox, type MathFont } from './math';
+
+export interface PDFLayoutOptions {
+  margin: number; // Page margin in document units (mm)
+  fontSize?: number; // Body text size in points
+  fontFamily: string; // jsPDF font family for text (registered with all four styles)
+  unicode?: boolean; // The font is an embedded TTF that can encode any character
+}
+
+interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  script?: 'super' | 'sub';
+  href?: string;
+  size: number; // Points
+}
+
+interface Fragment {
+  text: string;
+  style: TextStyle;
+  width: number;
+  math?: MathBox; // Inline math, laid out in points
+}
+
+interface Line {
+  fragments: Fragment[];
+  height: number;
+  ascent: number; // Baseline offset from the top of the line
+}
+
+interface Area {
+  x: number;
+  width: number;
+}
+
+const MONO_FONT = 'courier';
+const LINE_SPACING = 1.35;
+const HEADING_SCALE = [1.8, 1.5, 1.25, 1.1, 1, 0.9];
+const LIST_INDENT = 6; // mm per nesting level
+const QUOTE_INDENT = 6;
+const PX_TO_MM = 25.4 / 96;
+const LINK_COLOR: [number, number, number] = [17, 85, 204];
+const CODE_BACKGROUND: [number, number, number] = [245, 245, 245];
+
+// Characters outside WinAnsi that have a readable stand-in in the standard fonts
+const WIN_ANSI_FALLBACKS: Record<string, string> = {
+  '\u2018': "'", '\u2019': "'", '\u201C': '"', '\u201D': '"',
+  '\u2013': '-', '\u2014': '-', '\u2022': '\u00B7', '\u2026': '...'
+};
+
+// Math characters in the standard Symbol font, as the Symbol encoding's byte for each
+const SYMBOL_ENCODING: Record<string, string> = {
+  'α': 'a', 'β': 'b', 'χ': 'c', 'δ': 'd', 'ε': 'e', 'ϵ': 'e', 'φ': 'f', 'γ': 'g', 'η': 'h', 'ι': 'i', 'ϕ': 'j',
+  'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ο': 'o', 'π': 'p', 'θ': 'q', 'ρ': 'r', 'σ': 's', 'τ': 't', 'υ': 'u',
+  'ϖ': 'v', 'ω': 'w', 'ξ': 'x', 'ψ': 'y', 'ζ': 'z', 'ς': 'V', 'ϑ': 'J', 'Γ': 'G', 'Δ': 'D', 'Θ': 'Q', 'Λ': 'L',
+  'Ξ': 'X', 'Π': 'P', 'Σ': 'S', 'Υ': '\u00A1', 'Φ': 'F', 'Ψ': 'Y', 'Ω': 'W', '∀': '"', '∃': '$', '∋': "'",
+  '∗': '*', '−': '-', '≅': '@', '∴': '\\', '⊥': '^', '∼': '~', '∣': '|', '′': '\u00A2', '≤': '\u00A3',
+  '∞': '\u00A5', '↔': '\u00AB', '←': '\u00AC', '⟵': '\u00AC', '↑': '\u00AD', '→': '\u00AE', '⟶': '\u00AE',
+  '↓': '\u00AF', '∘': '\u00B0', '≥': '\u00B3', '∝': '\u00B5', '∂': '\u00B6', '∙': '\u00B7', '≠': '\u00B9',
+  '≡': '\u00BA', '≈': '\u00BB', '⋯': '\u00BC', 'ℵ': '\u00C0', 'ℑ': '\u00C1', 'ℜ': '\u00C2', '℘': '\u00C3',
+  '⊗': '\u00C4', '⊕': '\u00C5', '∅': '\u00C6', '∩': '\u00C7', '∪': '\u00C8', '⊃': '\u00C9', '⊇': '\u00CA',
+  '⊄': '\u00CB', '⊂': '\u00CC', '⊆': '\u00CD', '∈': '\u00CE', '∉': '\u00CF', '∠': '\u00D0', '∇': '\u00D1',
+  '∏': '\u00D5', '√': '\u00D6', '⋅': '\u00D7', '∧': '\u00D9', '∨': '\u00DA', '⇔': '\u00DB', '⟺': '\u00DB',
+  '⇐': '\u00DC', '⟸': '\u00DC', '⇑': '\u00DD', '⇒': '\u00DE', '⟹': '\u00DE', '⇓': '\u00DF', '⟨': '\u00E1',
+  '〈': '\u00E1', '∑': '\u00E5', '⟩': '\u00F1', '〉': '\u00F1', '∫': '\u00F2', '⋄': '\u00E0'
+};
+
+const IMAGE_FORMATS: Record<string, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/jpg': 'JPEG',
+  'image/gif': 'GIF',
+  'image/bmp': 'BMP',
+  'image/webp': 'WEBP'
+};
+
+/**
+ * Write a document into a jsPDF instance, starting at the top of its current page
+ */
+export function writePDFLayout(doc: jsPDF, model: DocumentModel, options: PDFLayoutOptions): void {
+  new PDFLayout(doc, options).blocks(model.blocks, {
+    x: options.margin,
+    width: doc.internal.pageSize.getWidth() - options.margin * 2
+  });
+}
+
+class PDFLayout {
+  private readonly top: number;
+  private readonly bottom: number;
+  private readonly bodySize: number;
+  private readonly scale: number; // Points per document unit
+  private y: number;
+
+  constructor(private readonly doc: jsPDF, private readonly options: PDFLayoutOptions) {
+    this.top = options.margin;
+    this.bottom = doc.internal.pageSize.getHeight() - options.margin;
+    this.bodySize = options.fontSize || 11;
+    this.scale = doc.internal.scaleFactor;
+    this.y = this.top;
+  }
+
+  blocks(blocks: Block[], area: Area): void {
+    blocks.forEach((block, index) => this.block(block, area, blocks[index + 1]));
+  }
+
+  private block(block: Block, area: Area, next?: Block): void {
+    switch (block.type) {
+      case 'heading':
+        this.heading(block.children, block.level, area, next);
+        break;
+      case 'paragraph': {
+        const images = block.children.filter((inline): inline is ImageInline => inline.type === 'image');
+        if (inlineText(block.children).trim()) {
+          this.paragraph(block.children, area, { size: this.bodySize });
+          this.y += this.lineHeight(this.bodySize) * 0.5;
+        }
+        images.forEach(image => this.image(image, area));
+        break;
+      }
+      case 'list':
+        this.list(block.items, block.ordered, block.start ?? 1, area);
+        this.y += this.lineHeight(this.bodySize) * 0.3;
+        break;
+      case 'code':
+        this.code(block.text, area);
+        break;
+      case 'table':
+        this.table(block, area);
+        break;
+      case 'image':
+        this.image(block, area);
+        break;
+      case 'blockquote':
+        this.blockquote(block.children, area);
+        break;
+      case 'rule':
+        this.rule(area);
+        break;
+      case 'pageBreak':
+        if (this.y > this.top) this.newPage();
+        break;
+      case 'math':
+        this.displayMath(block.tex, area);
+        this.y += this.lineHeight(this.bodySize) * 0.5;
+        break;
+    }
+  }
+
+  private heading(children: Inline[], level: number, area: Area, next?: Block): void {
+    const size = this.bodySize * HEADING_SCALE[level - 1];
+    const lines = this.wrap(children, area.width, { size, bold: true });
+    const height = lines.reduce((sum, line) => sum + line.height, 0);
+    const spaceBefore = this.y > this.top ? this.lineHeight(size) * 0.6 : 0;
+
+    // Keep the heading on the same page as the first two lines of what follows it
+    const following = next && next.type !== 'pageBreak' ? this.lineHeight(this.bodySize) * 2 : 0;
+    if (this.y > this.top && this.y + spaceBefore + height + following > this.bottom) {
+      this.newPage();
+    } else {
+      this.y += spaceBefore;
+    }
+
+    lines.forEach(line => this.drawLine(line, area.x));
+    this.y += this.lineHeight(size) * 0.25;
+  }
+
+  private paragraph(children: Inline[], area: Area, base: TextStyle, marker?: { text: string; x: number }): void {
+    this.placeLines(this.wrap(children, area.width, base), area.x, marker);
+  }
+
+  /**
+   * Place wrapped lines, breaking pages only between lines: at least two lines
+   * stay at the bottom of a page (orphans) and start the next one (widows)
+   */
+  private placeLines(lines: Line[], x: number, marker?: { text: string; x: number }): void {
+    let index = 0;
+    while (index < lines.length) {
+      const remaining = lines.length - index;
+      let fit = 0;
+      let height = 0;
+      while (fit < remaining && this.y + height + lines[index + fit].height <= this.bottom) {
+        height += lines[index + fit].height;
+        fit++;
+      }
+
+      const atTop = this.y <= this.top;
+      if (fit < remaining && !atTop) {
+        if (fit < Math.min(2, remaining)) {
+          this.newPage();
+          continue;
+        }
+        if (remaining - fit < 2) {
+          fit = remaining - 2;
+          if (fit < 2) {
+            this.newPage();
+            continue;
+          }
+        }
+      }
+
+      // A line taller than the page still has to go somewhere
+      fit = Math.max(fit, 1);
+      for (let i = 0; i < fit; i++) {
+        const line = lines[index + i];
+        if (index + i === 0 && marker) {
+          this.setFont({ size: this.bodySize });
+          this.doc.setTextColor(0, 0, 0);
+          this.doc.text(this.encode(marker.text), marker.x, this.baseline(line));
+        }
+        this.drawLine(line, x);
+      }
+      index += fit;
+      if (index < lines.length) this.newPage();
+    }
+  }
+
+  private list(items: { blocks: Block[]; checked?: boolean }[], ordered: boolean, start: number, area: Area): void {
+    const indent = LIST_INDENT;
+    const content = { x: area.x + indent, width: area.width - indent };
+
+    items.forEach((item, index) => {
+      const checkbox = item.checked === undefined ? '' : item.checked ? '[x] ' : '[ ] ';
+      const markerText = ordered ? `${start + index}.` : '\u2022';
+      this.setFont({ size: this.bodySize });
+      const markerX = content.x - this.doc.getTextWidth(markerText) - 1.5;
+
+      item.blocks.forEach((child, childIndex) => {
+        const marker = childIndex === 0 ? { text: markerText, x: markerX } : undefined;
+        if (child.type === 'paragraph' || (child.type === 'heading' && childIndex === 0)) {
+          const children = checkbox && childIndex === 0 ? [{ type: 'text' as const, text: checkbox }, ...child.children] : child.children;
+          this.paragraph(children, content, { size: this.bodySize }, marker);
+        } else if (child.type === 'list') {
+          this.list(child.items, child.ordered, child.start ?? 1, content);
+        } else {
+          if (marker) {
+            this.ensureSpace(this.lineHeight(this.bodySize));
+            this.setFont({ size: this.bodySize });
+            this.doc.text(this.encode(marker.text), marker.x, this.y + this.lineHeight(this.bodySize) * 0.75);
+          }
+          this.block(child, content, item.blocks[childIndex + 1]);
+        }
+      });
+    });
+  }
+
+  private code(text: string, area: Area): void {
+    const size = this.bodySize * 0.9;
+    const padding = 2;
+    const lineHeight = this.lineHeight(size);
+    this.setFont({ size, code: true });
+    const charWidth = this.doc.getTextWidth('M');
+    const perLine = Math.max(1, Math.floor((area.width - padding * 2) / charWidth));
+
+    // Hard-wrap long lines; monospace makes character counts exact
+    const rows: string[] = [];
+    text.replace(/\t/g, '    ').split('\n').forEach(row => {
+      if (row.length === 0) rows.push('');
+      for (let start = 0; start < row.length; start += perLine) rows.push(row.slice(start, start + perLine));
+    });
+
+    const lines: Line[] = rows.map(row => ({
+      fragments: [{ text: row, style: { size, code: true }, width: row.length * charWidth }],
+      height: lineHeight,
+      ascent: lineHeight * 0.75
+    }));
+
+    this.ensureSpace(lineHeight * Math.min(2, lines.length) + padding);
+    this.y += padding / 2;
+    let index = 0;
+    while (index < lines.length) {
+      let fit = 0;
+      while (index + fit < lines.length && this.y + (fit + 1) * lineHeight <= this.bottom) fit++;
+      if (fit === 0 && this.y > this.top) {
+        this.newPage();
+        continue;
+      }
+      fit = Math.max(fit, 1);
+      // One shaded box per page the block spans
+      this.doc.setFillColor(...CODE_BACKGROUND);
+      this.doc.rect(area.x, this.y - padding / 2, area.width, fit * lineHeight + padding, 'F');
+      for (let i = 0; i < fit; i++) this.drawLine(lines[index + i], area.x + padding);
+      index += fit;
+      if (index < lines.length) this.newPage();
+    }
+    this.y += padding / 2 + lineHeight * 0.5;
+  }
+
+  /**
+   * A display equation, centred, shrunk to fit the text width, with its \tag
+   * number at the right margin
+   */
+  private displayMath(tex: string, area: Area): void {
+    const measure = (value: string, font: MathFont, size: number) => this.measureMath(value, font, size);
+    let { box, tag } = layoutMath(tex, { size: this.bodySize, display: true, measure });
+    const tagWidth = tag ? this.measure(tag, { size: this.bodySize }) + this.lineHeight(this.bodySize) : 0;
+    const available = area.width - tagWidth * 2;
+    if (box.width / this.scale > available) {
+      ({ box, tag } = layoutMath(tex, { size: this.bodySize * available / (box.width / this.scale), display: true, measure }));
+    }
+
+    const padding = this.lineHeight(this.bodySize) * 0.2;
+    const height = (box.ascent + box.descent) / this.scale + padding * 2;
+    this.ensureSpace(height);
+    const baseline = this.y + padding + box.ascent / this.scale;
+    this.drawMath(box, area.x + (area.width - box.width / this.scale) / 2, baseline);
+    if (tag) {
+      this.setFont({ size: this.bodySize });
+      this.doc.text(this.encode(tag), area.x + area.width - this.measure(tag, { size: this.bodySize }), baseline);
+    }
+    this.y += height;
+  }
+
+  private table(block: TableBlock, area: Area): void {
+    if (block.caption) {
+      this.paragraph([{ type: 'text', text: block.caption }], area, { size: this.bodySize * 0.9, italic: true });
+    }
+
+    const links = new Map<CellDef, string>();
+    const rows = block.rows.map(row => row.cells.map(cell => {
+      const def: CellDef = {
+        content: this.encode(inlineText(cell.children)),
+        colSpan: cell.colSpan,
+        rowSpan: cell.rowSpan,
+        styles: cell.align ? { halign: cell.align } : undefined
+      };
+      const href = firstLink(cell.children);
+      if (href) links.set(def, href);
+      return def;
+    }));
+    const pageWidth = this.doc.internal.pageSize.getWidth();
+
+    autoTable(this.doc, {
+      head: rows.slice(0, block.headerRows),
+      body: rows.slice(block.headerRows),
+      startY: this.y,
+      margin: { top: this.top, bottom: this.options.margin, left: area.x, right: pageWidth - area.x - area.width },
+      theme: 'grid',
+      showHead: 'everyPage',
+      rowPageBreak: 'avoid',
+      styles: {
+        font: this.options.fontFamily,
+        fontSize: this.bodySize - 1,
+        cellPadding: 1.5,
+        overflow: 'linebreak',
+        lineColor: [191, 191, 191],
+        lineWidth: 0.2,
+        textColor: 0
+      },
+      headStyles: { fillColor: [239, 239, 239], textColor: 0, fontStyle: 'bold' },
+      didDrawCell: (data: CellHookData) => {
+        const href = links.get(data.cell.raw as CellDef);
+        if (href) this.link(href, data.cell.x, data.cell.y, data.cell.width, data.cell.height);
+      }
+    });
+
+    const finalY = (this.doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY;
+    this.y = (finalY ?? this.y) + this.lineHeight(this.bodySize) * 0.6;
+  }
+
+  private image(image: DocumentImage & { caption?: string }, area: Area): void {
+    const bytes = imageBytes(image);
+    const format = bytes && IMAGE_FORMATS[bytes.mimeType];
+    const natural = (image.width && image.height)
+      ? { width: image.width, height: image.height }
+      : bytes && readImageSize(bytes.data);
+
+    if (!bytes || !format || !natural) {
+      this.missingImage(image, area);
+      return;
+    }
+
+    // Natural size in mm, shrunk to fit the text width and a full page
+    const fit = Math.min(1, area.width / (natural.width * PX_TO_MM), (this.bottom - this.top) / (natural.height * PX_TO_MM));
+    const width = natural.width * PX_TO_MM * fit;
+    const height = natural.height * PX_TO_MM * fit;
+    if (this.y + height > this.bottom && this.y > this.top) this.newPage();
+
+    try {
+      this.doc.addImage(bytes.data, format, area.x + (area.width - width) / 2, this.y, width, height, undefined, 'FAST');
+    } catch (error) {
+      console.warn('Could not embed image in PDF:', error);
+      this.missingImage(image, area);
+      return;
+    }
+    this.y += height + this.lineHeight(this.bodySize) * 0.4;
+
+    if (image.caption) {
+      this.paragraph([{ type: 'text', text: image.caption }], area, { size: this.bodySize * 0.9, italic: true });
+      this.y += this.lineHeight(this.bodySize) * 0.4;
+    }
+  }
+
+  private missingImage(image: DocumentImage, area: Area): void {
+    const label = image.alt || image.title;
+    if (!label && !image.src) return;
+    const children: Inline[] = image.src && !image.src.startsWith('data:')
+      ? [{ type: 'link', href: image.src, children: [{ type: 'text', text: `[Image: ${label || image.src}]` }] }]
+      : [{ type: 'text', text: `[Image: ${label}]` }];
+    this.paragraph(children, area, { size: this.bodySize, italic: true });
+    this.y += this.lineHeight(this.bodySize) * 0.4;
+  }
+
+  private blockquote(children: Block[], area: Area): void {
+    const startPage = this.doc.getCurrentPageInfo().pageNumber;
+    const startY = this.y;
+    this.blocks(children, { x: area.x + QUOTE_INDENT, width: area.width - QUOTE_INDENT });
+    const endPage = this.doc.getCurrentPageInfo().pageNumber;
+    const endY = this.y - this.lineHeight(this.bodySize) * 0.5;
+
+    // Bar down the left edge on every page the quote spans
+    this.doc.setDrawColor(200, 200, 200);
+    this.doc.setLineWidth(0.8);
+    for (let page = startPage; page <= endPage; page++) {
+      this.doc.setPage(page);
+      this.doc.line(area.x + 1.5, page === startPage ? startY : this.top, area.x + 1.5, page === endPage ? endY : this.bottom);
+    }
+    this.doc.setPage(endPage);
+  }
+
+  private rule(area: Area): void {
+    this.ensureSpace(this.lineHeight(this.bodySize));
+    const y = this.y + this.lineHeight(this.bodySize) * 0.5;
+    this.doc.setDrawColor(191, 191, 191);
+    this.doc.setLineWidth(0.3);
+    this.doc.line(area.x, y, area.x + area.width, y);
+    this.y += this.lineHeight(this.bodySize);
+  }
+
+  /**
+   * Greedy word wrap of inline content into lines of styled fragments
+   */
+  private wrap(inlines: Inline[], width: number, base: TextStyle): Line[] {
+    const lines: Line[] = [];
+    let fragments: Fragment[] = [];
+    let lineWidth = 0;
+
+    const endLine = () => {
+      // Trailing spaces don't count toward the line
+      while (fragments.length > 0 && !fragments[fragments.length - 1].math && !fragments[fragments.length - 1].text.trim()) fragments.pop();
+      const height = Math.max(this.lineHeight(base.size), ...fragments.map(fragment => this.lineHeight(fragment.style.size)));
+      // Tall inline math (fractions, sums) opens the line up
+      const padding = this.lineHeight(base.size) * 0.1;
+      const boxes = fragments.flatMap(fragment => fragment.math ? [fragment.math] : []);
+      const ascent = Math.max(height * 0.75, ...boxes.map(box => box.ascent / this.scale + padding));
+      const descent = Math.max(height * 0.25, ...boxes.map(box => box.descent / this.scale + padding));
+      lines.push({ fragments, height: ascent + descent, ascent });
+      fragments = [];
+      lineWidth = 0;
+    };
+
+    const addWord = (word: string, style: TextStyle) => {
+      const isSpace = !word.trim();
+      if (isSpace && fragments.length === 0) return;
+      const wordWidth = this.measure(word, style);
+
+      if (!isSpace && lineWidth + wordWidth > width && fragments.length > 0) {
+        endLine();
+      }
+      if (!isSpace && wordWidth > width) {
+        // Break words longer than a whole line
+        let chunk = '';
+        for (const char of word) {
+          if (chunk && this.measure(chunk + char, style) > width) {
+            fragments.push({ text: chunk, style, width: this.measure(chunk, style) });
+            endLine();
+            chunk = '';
+          }
+          chunk += char;
+        }
+        if (chunk) {
+          const chunkWidth = this.measure(chunk, style);
+          fragments.push({ text: chunk, style, width: chunkWidth });
+          lineWidth += chunkWidth;
+        }
+        return;
+      }
+      fragments.push({ text: word, style, width: wordWidth });
+      lineWidth += wordWidth;
+    };
+
+    const visit = (inline: Inline, style: TextStyle) => {
+      switch (inline.type) {
+        case 'text':
+          inline.text.replace(/\s+/g, ' ').split(/( )/).filter(Boolean)
+            .forEach(word => addWord(word, applyMarks(style, inline.marks)));
+          break;
+        case 'link':
+          inline.children.forEach(child => visit(child, { ...style, href: inline.href, underline: true }));
+          break;
+        case 'lineBreak':
+          endLine();
+          break;
+        case 'image':
+          // Inline images are placed after the paragraph
+          break;
+        case 'math': {
+          const { box } = layoutMath(inline.tex, {
+            size: style.size,
+            measure: (value, font, size) => this.measureMath(value, font, size)
+          });
+          const mathWidth = box.width / this.scale;
+          if (lineWidth + mathWidth > width && fragments.length > 0) endLine();
+          fragments.push({ text: inline.tex, style, width: mathWidth, math: box });
+          lineWidth += mathWidth;
+          break;
+        }
+      }
+    };
+
+    inlines.forEach(inline => visit(inline, base));
+    if (fragments.length > 0 || lines.length === 0) endLine();
+    return lines;
+  }
+
+  private drawLine(line: Line, x: number): void {
+    const baseline = this.baseline(line);
+    let cursor = x;
+
+    line.fragments.forEach(fragment => {
+      const { style } = fragment;
+      if (fragment.math) {
+        this.drawMath(fragment.math, cursor, baseline);
+        cursor += fragment.width;
+        return;
+      }
+      this.setFont(style);
+      const shift = style.script === 'super' ? -style.size * 0.35 / this.scale : style.script === 'sub' ? style.size * 0.2 / this.scale : 0;
+
+      if (style.href) this.doc.setTextColor(...LINK_COLOR);
+      else this.doc.setTextColor(0, 0, 0);
+      this.doc.text(this.encode(fragment.text, style), cursor, baseline + shift);
+
+      if (style.underline || style.strike) {
+        this.doc.setDrawColor(...(style.href ? LINK_COLOR : [0, 0, 0] as [number, number, number]));
+        this.doc.setLineWidth(0.2);
+        const lineY = style.underline ? baseline + 0.6 : baseline - style.size * 0.28 / this.scale;
+        this.doc.line(cursor, lineY, cursor + fragment.width, lineY);
+      }
+      if (style.href && fragment.text.trim()) {
+        this.link(style.href, cursor, baseline - style.size * 0.8 / this.scale, fragment.width, line.height);
+      }
+      cursor += fragment.width;
+    });
+
+    this.doc.setTextColor(0, 0, 0);
+    this.y += line.height;
+  }
+
+  private drawMath(box: MathBox, x: number, baseline: number): void {
+    this.doc.setTextColor(0, 0, 0);
+    this.doc.setDrawColor(0, 0, 0);
+    box.items.forEach(item => {
+      if (item.type === 'stroke') {
+        this.doc.setLineWidth(item.width / this.scale);
+        for (let index = 1; index < item.points.length; index++) {
+          const [x1, y1] = item.points[index - 1];
+          const [x2, y2] = item.points[index];
+          this.doc.line(x + x1 / this.scale, baseline + y1 / this.scale, x + x2 / this.scale, baseline + y2 / this.scale);
+        }
+        return;
+      }
+      let cursor = x + item.x / this.scale;
+      symbolRuns(item.text).forEach(run => {
+        this.setMathFont(run.symbol, item.font, item.size);
+        const value = run.symbol ? run.text : this.encode(run.text);
+        this.doc.text(value, cursor, baseline + item.y / this.scale);
+        cursor += this.doc.getTextWidth(value);
+      });
+    });
+  }
+
+  // Width in points, for layoutMath
+  private measureMath(text: string, font: MathFont, size: number): number {
+    return symbolRuns(text).reduce((width, run) => {
+      this.setMathFont(run.symbol, font, size);
+      return width + this.doc.getTextWidth(run.symbol ? run.text : this.encode(run.text)) * this.scale;
+    }, 0);
+  }
+
+  private setMathFont(symbol: boolean, font: MathFont, size: number): void {
+    if (symbol) {
+      this.doc.setFont('symbol', 'normal');
+      this.doc.setFontSize(size);
+    } else {
+      this.setFont({ size, bold: font.startsWith('bold'), italic: font.endsWith('italic') });
+    }
+  }
+
+  private link(href: string, x: number, y: number, width: number, height: number): void {
+    // In-document anchors have no target in the generated PDF
+    if (href.startsWith('#')) return;
+    this.doc.link(x, y, width, height, { url: href });
+  }
+
+  private baseline(line: Line): number {
+    return this.y + line.ascent;
+  }
+
+  private lineHeight(size: number): number {
+    return size * LINE_SPACING / this.scale;
+  }
+
+  private measure(text: string, style: TextStyle): number {
+    this.setFont(style);
+    return this.doc.getTextWidth(this.encode(text, style));
+  }
+
+  private setFont(style: TextStyle): void {
+    const fontStyle = style.bold && style.italic ? 'bolditalic' : style.bold ? 'bold' : style.italic ? 'italic' : 'normal';
+    if (style.code) {
+      this.doc.setFont(MONO_FONT, style.bold ? 'bold' : 'normal');
+    } else {
+      this.doc.setFont(this.options.fontFamily, fontStyle);
+    }
+    this.doc.setFontSize(style.size);
+  }
+
+  /**
+   * Text the current font can encode (standard fonts are limited to WinAnsi)
+   */
+  private encode(value: string, style?: TextStyle): string {
+    if (this.options.unicode && !style?.code) return value;
+    return value
+      .replace(/[\u2018\u2019\u201C\u201D\u2013\u2014\u2022\u2026]/g, char => WIN_ANSI_FALLBACKS[char])
+      .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y + height > this.bottom && this.y > this.top) this.newPage();
+  }
+
+  private newPage(): void {
+    this.doc.addPage();
+    this.y = this.top;
+  }
+}
+
+function applyMarks(style: TextStyle, marks?: InlineMark[]): TextStyle {
+  if (!marks || marks.length === 0) return style;
+  const next = { ...style };
+  marks.forEach(mark => {
+    switch (mark) {
+      case 'bold':
+        next.bold = true;
+        break;
+      case 'italic':
+        next.italic = true;
+        break;
+      case 'code':
+        next.code = true;
+        next.size = style.size * 0.9;
+        break;
+      case 'strike':
+        next.strike = true;
+        break;
+      case 'underline':
+        next.underline = true;
+        break;
+      case 'superscript':
+      case 'subscript':
+        next.script = mark === 'superscript' ? 'super' : 'sub';
+        next.size = style.size * 0.7;
+        break;
+    }
+  });
+  return next;
+}
+
+// Split text into runs drawn in the Symbol font (already in its encoding) and runs in the text font
+function symbolRuns(text: string): { text: string; symbol: boolean }[] {
+  const runs: { text: string; symbol: boolean }[] = [];
+  for (const char of text) {
+    const symbol = char in SYMBOL_ENCODING;
+    const value = symbol ? SYMBOL_ENCODING[char] : char;
+    const last = runs[runs.length - 1];
+    if (last && last.symbol === symbol) last.text += value;
+    else runs.push({ text: value, symbol });
+  }
+  return runs;
+}
+
+function firstLink(inlines: Inline[]): string | undefined {
+  for (const inline of inlines) {
+    if (inline.type === 'link') return inline.href;
+  }
+  return undefined;
+}
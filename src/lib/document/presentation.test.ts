@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import PptxGenJS from 'pptxgenjs';
+import { readPPTX } from './presentation';
+import { inlineText } from './utils';
+import type { Block } from './types';
+import { installDOMParser } from '@/test/dom';
+
+beforeAll(installDOMParser);
+
+function blockText(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map(item => item.blocks.map(blockText).join(' ')).join(' | ');
+    case 'blockquote':
+      return block.children.map(blockText).join(' ');
+    case 'table':
+      return block.rows.map(row => row.cells.map(cell => inlineText(cell.children)).join(',')).join(';');
+    default:
+      return '';
+  }
+}
+
+describe('readPPTX', () => {
+  it('reads slides in order with titles, bullets, tables and speaker notes', async () => {
+    const pptx = new PptxGenJS();
+    pptx.title = 'Quarterly deck';
+
+    pptx.defineSlideMaster({
+      title: 'TITLED',
+      objects: [{ placeholder: { options: { name: 'title', type: 'title', x: 0.5, y: 0.3, w: 9, h: 1 }, text: '' } }]
+    });
+
+    const first = pptx.addSlide({ masterName: 'TITLED' });
+    first.addText('Highlights', { x: 0.5, y: 0.3, w: 9, h: 1, placeholder: 'title' });
+    first.addText([{ text: 'Revenue up', options: { bullet: true } }, { text: 'Costs down', options: { bullet: true } }], { x: 0.5, y: 1.5, w: 9, h: 3 });
+    first.addNotes('Mention the new region.');
+
+    const second = pptx.addSlide();
+    second.addTable([[{ text: 'Region' }, { text: 'Sales' }], [{ text: 'North' }, { text: '12' }]], { x: 0.5, y: 1, w: 9 });
+
+    const data = await pptx.write({ outputType: 'arraybuffer' }) as ArrayBuffer;
+    const doc = await readPPTX(data);
+    const headings = doc.blocks.filter(block => block.type === 'heading').map(blockText);
+    const texts = doc.blocks.map(blockText).join('\n');
+
+    expect(doc.metadata.pageCount).toBe(2);
+    expect(headings).toEqual(['Quarterly deck', 'Highlights', 'Slide 2']);
+    expect(texts).toContain('Revenue up');
+    expect(texts).toContain('Costs down');
+    expect(texts).toContain('Region,Sales;North,12');
+    expect(texts).toContain('Mention the new region.');
+    expect(texts.indexOf('Revenue up')).toBeLessThan(texts.indexOf('Region,Sales'));
+    expect(doc.blocks.filter(block => block.type === 'pageBreak')).toHaveLength(1);
+  });
+});
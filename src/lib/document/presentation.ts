@@ -0,0 +1,482 @@
+/**
+ * Presentation Readers
+ * Read PPTX and ODP slide decks in presentation order. Every slide becomes a
+ * section: its title as a heading, then text, lists, tables and images, then the
+ * speaker notes as a blockquote. Slides are separated by page breaks.
+ */
+
+import JSZip from 'jszip';
+import type { Block, DocumentMetadata, DocumentModel, ImageBlock, Inline, InlineMark, ListBlock, TableBlock, TableCell } from './types';
+import { createDocument, inlineText, text } from './utils';
+import { isNumberedList, lengthToPixels, readODFInlines, readODFMetadata, readODFStyles, readODFTable, type ODFStyles } from './odf';
+
+export interface SlideContent {
+  title: Inline[];
+  blocks: Block[];
+  notes: Block[];
+}
+
+/**
+ * One line of slide text - lists are flattened to levels so both formats
+ * share the list building
+ */
+export interface TextParagraph {
+  inlines: Inline[];
+  level: number;
+  bullet: 'none' | 'bullet' | 'number';
+}
+
+interface Relationship {
+  type: string;
+  target: string; // Package path, or the URL for external targets
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+// DrawingML sizes are in EMU: 914400 per inch, 96 CSS pixels per inch
+const EMU_PER_PIXEL = 9525;
+
+// Placeholders that repeat on every slide rather than carrying slide content
+const PPTX_FURNITURE = ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg'];
+
+// ---------------------------------------------------------------------------
+// PPTX
+// ---------------------------------------------------------------------------
+
+export async function readPPTX(data: ArrayBuffer): Promise<DocumentModel> {
+  const zip = await JSZip.loadAsync(data);
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await readXMLPart(zip, presentationPath);
+  if (!presentation) {
+    throw new Error('Not a PowerPoint presentation (ppt/presentation.xml is missing)');
+  }
+
+  // Slide order is the order of sldIdLst, not the part names
+  const relationships = await readRelationships(zip, presentationPath);
+  const slidePaths = descendants(presentation, 'sldId')
+    .map(slideId => relationships.get(slideId.getAttribute('r:id') || '')?.target)
+    .filter((path): path is string => !!path && !!zip.file(path));
+
+  const slides: SlideContent[] = [];
+  for (const path of slidePaths) {
+    slides.push(await readPPTXSlide(zip, path));
+  }
+
+  const core = await readXMLPart(zip, 'docProps/core.xml');
+  const metadata: DocumentMetadata = {};
+  const title = core && descendants(core, 'title')[0]?.textContent?.trim();
+  const author = core && descendants(core, 'creator')[0]?.textContent?.trim();
+  if (title) metadata.title = title;
+  if (author) metadata.author = author;
+
+  return buildPresentation(slides, metadata);
+}
+
+async function readPPTXSlide(zip: JSZip, path: string): Promise<SlideContent> {
+  const slideXML = await readXMLPart(zip, path);
+  const relationships = await readRelationships(zip, path);
+  const slide: SlideContent = { title: [], blocks: [], notes: [] };
+
+  const shapeTree = slideXML && descendants(slideXML, 'spTree')[0];
+  if (shapeTree) {
+    await readPPTXShapes(zip, shapeTree, relationships, slide);
+  }
+
+  const notesPath = [...relationships.values()].find(rel => rel.type.endsWith('/notesSlide'))?.target;
+  const notesXML = notesPath ? await readXMLPart(zip, notesPath) : null;
+  if (notesXML) {
+    const notesRelationships = await readRelationships(zip, notesPath!);
+    descendants(notesXML, 'sp')
+      .filter(shape => placeholderType(shape) === 'body')
+      .forEach(shape => {
+        const body = firstChild(shape, 'txBody');
+        if (body) slide.notes.push(...paragraphsToBlocks(readDrawingMLText(body, notesRelationships, 'none')));
+      });
+  }
+
+  return slide;
+}
+
+async function readPPTXShapes(zip: JSZip, parent: Element, relationships: Map<string, Relationship>, slide: SlideContent): Promise<void> {
+  for (const shape of childElements(parent)) {
+    switch (shape.localName) {
+      case 'sp': {
+        const body = firstChild(shape, 'txBody');
+        const type = placeholderType(shape);
+        if (!body || (type && PPTX_FURNITURE.includes(type))) break;
+
+        if ((type === 'title' || type === 'ctrTitle') && slide.title.length === 0) {
+          slide.title = joinParagraphs(readDrawingMLText(body, relationships, 'none'));
+          break;
+        }
+        // Body placeholders are bulleted unless a paragraph says otherwise; text boxes are not
+        const isBody = type !== null && type !== 'subTitle' && type !== 'title' && type !== 'ctrTitle';
+        slide.blocks.push(...paragraphsToBlocks(readDrawingMLText(body, relationships, isBody ? 'bullet' : 'none')));
+        break;
+      }
+      case 'grpSp':
+        await readPPTXShapes(zip, shape, relationships, slide);
+        break;
+      case 'graphicFrame': {
+        // Charts and diagrams have no text of their own here - only tables are read
+        const table = descendants(shape, 'tbl')[0];
+        if (table) slide.blocks.push(readDrawingMLTable(table, relationships));
+        break;
+      }
+      case 'pic': {
+        const embed = descendants(shape, 'blip')[0]?.getAttribute('r:embed');
+        const target = embed ? relationships.get(embed)?.target : undefined;
+        if (!target) break;
+
+        const extent = descendants(shape, 'ext').find(ext => ext.parentNode && (ext.parentNode as Element).localName === 'xfrm');
+        const properties = descendants(shape, 'cNvPr')[0];
+        const image = await readImage(zip, target, {
+          alt: properties?.getAttribute('descr') || properties?.getAttribute('name') || undefined,
+          width: emuToPixels(extent?.getAttribute('cx')),
+          height: emuToPixels(extent?.getAttribute('cy'))
+        });
+        if (image) slide.blocks.push(image);
+        break;
+      }
+    }
+  }
+}
+
+function placeholderType(shape: Element): string | null {
+  const placeholder = descendants(firstChild(shape, 'nvSpPr') || shape, 'ph')[0];
+  if (!placeholder) return null;
+  // A placeholder without a type is a body placeholder
+  return placeholder.getAttribute('type') || 'body';
+}
+
+function readDrawingMLText(body: Element, relationships: Map<string, Relationship>, defaultBullet: TextParagraph['bullet']): TextParagraph[] {
+  return childElements(body, 'p').map(paragraphElement => {
+    const properties = firstChild(paragraphElement, 'pPr');
+    let bullet = defaultBullet;
+    if (properties && firstChild(properties, 'buNone')) bullet = 'none';
+    else if (properties && firstChild(properties, 'buAutoNum')) bullet = 'number';
+    else if (properties && (firstChild(properties, 'buChar') || firstChild(properties, 'buBlip'))) bullet = 'bullet';
+
+    const inlines: Inline[] = [];
+    childElements(paragraphElement).forEach(run => {
+      if (run.localName === 'br') {
+        inlines.push({ type: 'lineBreak' });
+        return;
+      }
+      if (run.localName !== 'r' && run.localName !== 'fld') return;
+
+      const value = firstChild(run, 't')?.textContent || '';
+      if (!value) return;
+      const runProperties = firstChild(run, 'rPr');
+      const inline = text(value, runProperties ? drawingMLMarks(runProperties) : undefined);
+
+      const linkId = runProperties && firstChild(runProperties, 'hlinkClick')?.getAttribute('r:id');
+      const href = linkId ? relationships.get(linkId)?.target : undefined;
+      inlines.push(href ? { type: 'link', href, children: [inline] } : inline);
+    });
+
+    return { inlines, level: Number(properties?.getAttribute('lvl') || 0), bullet };
+  }).filter(paragraph => inlineText(paragraph.inlines).trim());
+}
+
+function drawingMLMarks(properties: Element): InlineMark[] {
+  const marks: InlineMark[] = [];
+  const flag = (name: string) => properties.getAttribute(name) === '1' || properties.getAttribute(name) === 'true';
+  if (flag('b')) marks.push('bold');
+  if (flag('i')) marks.push('italic');
+  const underline = properties.getAttribute('u');
+  if (underline && underline !== 'none') marks.push('underline');
+  const strike = properties.getAttribute('strike');
+  if (strike && strike !== 'noStrike') marks.push('strike');
+  const baseline = Number(properties.getAttribute('baseline') || 0);
+  if (baseline > 0) marks.push('superscript');
+  if (baseline < 0) marks.push('subscript');
+  return marks;
+}
+
+function readDrawingMLTable(table: Element, relationships: Map<string, Relationship>): TableBlock {
+  const rows = childElements(table, 'tr').map(row => ({
+    // Cells covered by a merge are listed but carry no content
+    cells: childElements(row, 'tc')
+      .filter(cell => !cell.getAttribute('hMerge') && !cell.getAttribute('vMerge'))
+      .map(cell => {
+        const body = firstChild(cell, 'txBody');
+        const tableCell: TableCell = { children: body ? joinParagraphs(readDrawingMLText(body, relationships, 'none')) : [] };
+        const colSpan = Number(cell.getAttribute('gridSpan') || 1);
+        const rowSpan = Number(cell.getAttribute('rowSpan') || 1);
+        if (colSpan > 1) tableCell.colSpan = colSpan;
+        if (rowSpan > 1) tableCell.rowSpan = rowSpan;
+        return tableCell;
+      })
+  }));
+
+  const properties = firstChild(table, 'tblPr');
+  const hasHeader = properties?.getAttribute('firstRow') === '1';
+  return { type: 'table', rows, headerRows: hasHeader && rows.length > 0 ? 1 : 0 };
+}
+
+function emuToPixels(value: string | null | undefined): number | undefined {
+  const emu = Number(value);
+  return emu > 0 ? Math.round(emu / EMU_PER_PIXEL) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// ODP
+// ---------------------------------------------------------------------------
+
+export async function readODP(data: ArrayBuffer): Promise<DocumentModel> {
+  const zip = await JSZip.loadAsync(data);
+  const content = await readXMLPart(zip, 'content.xml');
+  const presentation = content && descendants(content, 'presentation')[0];
+  if (!content || !presentation) {
+    throw new Error('Not an OpenDocument presentation (content.xml has no presentation)');
+  }
+
+  const styles = readODFStyles(await readXMLPart(zip, 'styles.xml'), content);
+  const slides: SlideContent[] = [];
+  for (const page of childElements(presentation, 'page')) {
+    const slide: SlideContent = { title: [], blocks: [], notes: [] };
+    await readODPShapes(zip, page, styles, slide);
+
+    const notes = childElements(page, 'notes')[0];
+    if (notes) {
+      descendants(notes, 'frame')
+        .filter(frame => frame.getAttribute('presentation:class') === 'notes')
+        .forEach(frame => {
+          descendants(frame, 'text-box').forEach(box => slide.notes.push(...paragraphsToBlocks(readODFText(box, styles))));
+        });
+    }
+
+    // Untitled pages fall back to their name unless it is the generated "page1"
+    const name = page.getAttribute('draw:name');
+    if (slide.title.length === 0 && name && !/^page\d+$/.test(name)) {
+      slide.title = [text(name)];
+    }
+    slides.push(slide);
+  }
+
+  return buildPresentation(slides, await readODFMetadata(zip));
+}
+
+async function readODPShapes(zip: JSZip, parent: Element, styles: ODFStyles, slide: SlideContent): Promise<void> {
+  for (const shape of childElements(parent)) {
+    switch (shape.localName) {
+      case 'frame': {
+        const role = shape.getAttribute('presentation:class');
+        if (role && ['page-number', 'date-time', 'footer', 'header', 'notes'].includes(role)) break;
+
+        const textBox = firstChild(shape, 'text-box');
+        if (textBox) {
+          if (role === 'title' && slide.title.length === 0) {
+            slide.title = joinParagraphs(readODFText(textBox, styles));
+          } else {
+            slide.blocks.push(...paragraphsToBlocks(readODFText(textBox, styles)));
+          }
+          break;
+        }
+
+        const table = firstChild(shape, 'table');
+        if (table) {
+          slide.blocks.push(readODFTable(table, styles));
+          break;
+        }
+
+        const href = firstChild(shape, 'image')?.getAttribute('xlink:href');
+        if (href && !/^[a-z]+:/i.test(href)) {
+          const image = await readImage(zip, href.replace(/^\.\//, ''), {
+            alt: firstChild(shape, 'desc')?.textContent || firstChild(shape, 'title')?.textContent || shape.getAttribute('draw:name') || undefined,
+            width: lengthToPixels(shape.getAttribute('svg:width')),
+            height: lengthToPixels(shape.getAttribute('svg:height'))
+          });
+          if (image) slide.blocks.push(image);
+        }
+        break;
+      }
+      case 'custom-shape':
+      case 'rect':
+      case 'ellipse':
+        slide.blocks.push(...paragraphsToBlocks(readODFText(shape, styles)));
+        break;
+      case 'g':
+        await readODPShapes(zip, shape, styles, slide);
+        break;
+    }
+  }
+}
+
+function readODFText(parent: Element, styles: ODFStyles): TextParagraph[] {
+  const paragraphs: TextParagraph[] = [];
+  collectODFText(parent, styles, paragraphs, 0, 'bullet');
+  return paragraphs.filter(paragraph => inlineText(paragraph.inlines).trim());
+}
+
+/**
+ * Paragraphs outside lists are plain text; list items are bulleted or numbered
+ * by their list style, with nested lists one level deeper
+ */
+function collectODFText(parent: Element, styles: ODFStyles, paragraphs: TextParagraph[], depth: number, bullet: TextParagraph['bullet']): void {
+  childElements(parent).forEach(child => {
+    if (child.localName === 'p' || child.localName === 'h') {
+      paragraphs.push({ inlines: readODFInlines(child, styles), level: Math.max(0, depth - 1), bullet: depth > 0 ? bullet : 'none' });
+    } else if (child.localName === 'list') {
+      const styleName = child.getAttribute('text:style-name');
+      const listBullet = styleName ? (isNumberedList(styles, styleName, depth + 1) ? 'number' : 'bullet') : bullet;
+      childElements(child).forEach(item => collectODFText(item, styles, paragraphs, depth + 1, listBullet));
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Shared
+// ---------------------------------------------------------------------------
+
+export function buildPresentation(slides: SlideContent[], metadata: DocumentMetadata): DocumentModel {
+  const blocks: Block[] = [];
+  if (metadata.title) {
+    blocks.push({ type: 'heading', level: 1, children: [text(metadata.title)] });
+  }
+
+  slides.forEach((slide, index) => {
+    const source = { pageNumber: index + 1 };
+    if (index > 0) blocks.push({ type: 'pageBreak' });
+    blocks.push({
+      type: 'heading',
+      level: 2,
+      children: inlineText(slide.title).trim() ? slide.title : [text(`Slide ${index + 1}`)],
+      source
+    });
+    blocks.push(...slide.blocks);
+    if (slide.notes.length > 0) {
+      blocks.push({ type: 'blockquote', children: slide.notes, source });
+    }
+  });
+
+  return createDocument(blocks, { ...metadata, pageCount: slides.length });
+}
+
+/**
+ * Paragraphs to blocks, nesting runs of bulleted lines into lists by level
+ */
+export function paragraphsToBlocks(paragraphs: TextParagraph[]): Block[] {
+  const blocks: Block[] = [];
+  let index = 0;
+
+  while (index < paragraphs.length) {
+    if (paragraphs[index].bullet === 'none') {
+      blocks.push({ type: 'paragraph', children: paragraphs[index].inlines });
+      index++;
+      continue;
+    }
+
+    // A top-level line with a different bullet type starts a new list
+    const { level, bullet } = paragraphs[index];
+    let end = index + 1;
+    while (end < paragraphs.length && paragraphs[end].bullet !== 'none' &&
+      !(paragraphs[end].level <= level && paragraphs[end].bullet !== bullet)) end++;
+    blocks.push(buildList(paragraphs.slice(index, end)));
+    index = end;
+  }
+
+  return blocks;
+}
+
+function buildList(items: TextParagraph[]): ListBlock {
+  const base = Math.min(...items.map(item => item.level));
+  const list: ListBlock = { type: 'list', ordered: items[0].bullet === 'number', items: [] };
+
+  let index = 0;
+  while (index < items.length) {
+    const item = items[index];
+    let end = index + 1;
+    while (end < items.length && items[end].level > base) end++;
+
+    // A deeper first line has no parent item - it gets an empty one
+    const blocks: Block[] = item.level === base ? [{ type: 'paragraph', children: item.inlines }] : [];
+    const nested = items.slice(item.level === base ? index + 1 : index, end);
+    if (nested.length > 0) blocks.push(buildList(nested));
+
+    list.items.push({ blocks });
+    index = end;
+  }
+
+  return list;
+}
+
+function joinParagraphs(paragraphs: TextParagraph[]): Inline[] {
+  return paragraphs.flatMap((paragraph, index) => index > 0
+    ? [{ type: 'lineBreak' } as Inline, ...paragraph.inlines]
+    : paragraph.inlines);
+}
+
+async function readImage(zip: JSZip, path: string, info: { alt?: string; width?: number; height?: number }): Promise<ImageBlock | null> {
+  const mimeType = IMAGE_TYPES[path.split('.').pop()?.toLowerCase() || ''];
+  const file = zip.file(path);
+  // EMF/WMF and other formats browsers cannot display are left out
+  if (!mimeType || !file) return null;
+
+  return { type: 'image', data: await file.async('uint8array'), mimeType, ...info };
+}
+
+// ---------------------------------------------------------------------------
+// Package XML
+// ---------------------------------------------------------------------------
+
+async function readXMLPart(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('XML parsing is not available in this environment');
+  }
+  return new DOMParser().parseFromString(await file.async('text'), 'application/xml');
+}
+
+/**
+ * Relationships of an OOXML part, with internal targets resolved to package paths
+ */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const folder = partPath.slice(0, partPath.lastIndexOf('/') + 1);
+  const rels = await readXMLPart(zip, `${folder}_rels/${partPath.slice(folder.length)}.rels`);
+  const relationships = new Map<string, Relationship>();
+  if (!rels) return relationships;
+
+  descendants(rels, 'Relationship').forEach(rel => {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (!id || !target) return;
+    relationships.set(id, {
+      type: rel.getAttribute('Type') || '',
+      target: rel.getAttribute('TargetMode') === 'External' ? target : resolvePath(folder, target)
+    });
+  });
+  return relationships;
+}
+
+function resolvePath(folder: string, target: string): string {
+  const parts: string[] = [];
+  (target.startsWith('/') ? target.slice(1) : folder + target).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function childElements(parent: Node, localName?: string): Element[] {
+  return Array.from(parent.childNodes).filter((node): node is Element =>
+    node.nodeType === 1 && (!localName || (node as Element).localName === localName));
+}
+
+function firstChild(parent: Node, localName: string): Element | undefined {
+  return childElements(parent, localName)[0];
+}
+
+function descendants(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
@@ -0,0 +1,642 @@
+/**
+ * Document Readers
+ * Turn source content (Markdown, HTML, plain text, CSV) into a DocumentModel
+ */
+
+import MarkdownIt from 'markdown-it';
+import type {
+  Block,
+  DocumentModel,
+  Inline,
+  InlineMark,
+  LinkInline,
+  ListBlock,
+  TableBlock,
+  TableCell
+} from './types';
+import { createDocument, firstHeading, paragraph, tableFromRows, text } from './utils';
+import { writeMathML } from './math';
+import { parseCSV, tableRows, type CSVDialect } from '../text/csv';
+
+type MarkdownToken = ReturnType<MarkdownIt['parse']>[number];
+type MarkdownInlineState = Parameters<Parameters<MarkdownIt['inline']['ruler']['push']>[1]>[0];
+type MarkdownBlockState = Parameters<Parameters<MarkdownIt['block']['ruler']['push']>[1]>[0];
+
+const defaultMarkdown = new MarkdownIt({ html: true, linkify: true, typographer: true, breaks: true }).use(markdownMath);
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+export function readMarkdown(markdown: string, md: MarkdownIt = defaultMarkdown): DocumentModel {
+  const tokens = md.parse(markdown, {});
+  const { blocks } = parseMarkdownBlocks(tokens, 0, null, md.options.breaks === true);
+  const doc = createDocument(blocks);
+  doc.metadata.title = firstHeading(doc);
+  return doc;
+}
+
+/**
+ * markdown-it plugin for TeX math: `$...$` and `\(...\)` inline, `$$...$$` and
+ * `\[...\]` for display math. As in Pandoc, a `$` followed by a space or closed
+ * right before a digit is a dollar sign, so "$5 and $10" stays text.
+ */
+export function markdownMath(md: MarkdownIt): void {
+  md.inline.ruler.before('escape', 'math_inline', readInlineMath);
+  md.block.ruler.before('fence', 'math_block', readBlockMath, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+  md.renderer.rules.math_inline = (tokens, index) => writeMathML(tokens[index].content, tokens[index].markup === '$$');
+  md.renderer.rules.math_block = (tokens, index) => `${writeMathML(tokens[index].content, true)}\n`;
+}
+
+function readInlineMath(state: MarkdownInlineState, silent: boolean): boolean {
+  const { src, pos } = state;
+  const [open, close] = src.startsWith('$$', pos) ? ['$$', '$$']
+    : src[pos] === '$' ? ['$', '$']
+    : src.startsWith('\\(', pos) ? ['\\(', '\\)']
+    : [null, null];
+  if (!open) return false;
+
+  const start = pos + open.length;
+  if (open === '$' && /^\s?$/.test(src[start] || '')) return false;
+
+  let end = src.indexOf(close, start);
+  while (end > start && open.startsWith('$') && (escapedAt(src, end) || (open === '$' && (/\s/.test(src[end - 1]) || /\d/.test(src[end + 1] || ''))))) {
+    end = src.indexOf(close, end + 1);
+  }
+  if (end <= start) return false;
+
+  if (!silent) {
+    const token = state.push('math_inline', 'math', 0);
+    token.markup = open;
+    token.content = src.slice(start, end).trim();
+  }
+  state.pos = end + close.length;
+  return true;
+}
+
+function readBlockMath(state: MarkdownBlockState, startLine: number, endLine: number, silent: boolean): boolean {
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+  const lineText = (line: number) => state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]).trimEnd();
+
+  const first = lineText(startLine);
+  const [open, close] = first.startsWith('$$') ? ['$$', '$$'] : first.startsWith('\\[') ? ['\\[', '\\]'] : [null, null];
+  if (!open) return false;
+
+  const rest = first.slice(open.length);
+  const lines: string[] = [];
+  let last = startLine;
+  if (rest.endsWith(close) && rest.trim().length > close.length) {
+    lines.push(rest.slice(0, -close.length));
+  } else {
+    // Text after a closing delimiter on the same line makes this inline math in a paragraph
+    if (rest.includes(close)) return false;
+    lines.push(rest);
+    for (last = startLine + 1; last < endLine; last++) {
+      const value = lineText(last);
+      if (value.endsWith(close)) {
+        lines.push(value.slice(0, -close.length));
+        break;
+      }
+      lines.push(value);
+    }
+    if (last >= endLine) return false;
+  }
+  if (silent) return true;
+
+  state.line = last + 1;
+  const token = state.push('math_block', 'math', 0);
+  token.block = true;
+  token.markup = open;
+  token.content = lines.join('\n').trim();
+  token.map = [startLine, state.line];
+  return true;
+}
+
+function escapedAt(src: string, index: number): boolean {
+  let backslashes = 0;
+  while (src[index - 1 - backslashes] === '\\') backslashes++;
+  return backslashes % 2 === 1;
+}
+
+function parseMarkdownBlocks(
+  tokens: MarkdownToken[],
+  start: number,
+  closeType: string | null,
+  breaks: boolean
+): { blocks: Block[]; next: number } {
+  const blocks: Block[] = [];
+  let i = start;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if (closeType && token.type === closeType) {
+      return { blocks, next: i + 1 };
+    }
+
+    switch (token.type) {
+      case 'heading_open': {
+        const level = Math.min(6, Math.max(1, parseInt(token.tag.slice(1), 10))) as 1 | 2 | 3 | 4 | 5 | 6;
+        blocks.push({ type: 'heading', level, children: parseMarkdownInlines(tokens[i + 1]?.children || [], breaks) });
+        i += 3; // heading_open, inline, heading_close
+        break;
+      }
+
+      case 'paragraph_open': {
+        const inline = tokens[i + 1]?.children || [];
+        const children = parseMarkdownInlines(inline, breaks);
+        // A paragraph holding a single image is a block-level image, and one holding only $$...$$ is display math
+        if (inline.length === 1 && inline[0].type === 'math_inline' && inline[0].markup === '$$') {
+          blocks.push({ type: 'math', tex: inline[0].content });
+        } else if (children.length === 1 && children[0].type === 'image') {
+          const { type: _type, ...image } = children[0];
+          blocks.push({ type: 'image', ...image });
+        } else if (children.length > 0) {
+          blocks.push({ type: 'paragraph', children });
+        }
+        i += 3;
+        break;
+      }
+
+      case 'bullet_list_open':
+      case 'ordered_list_open': {
+        const ordered = token.type === 'ordered_list_open';
+        const closing = ordered ? 'ordered_list_close' : 'bullet_list_close';
+        const list: ListBlock = { type: 'list', ordered, items: [] };
+        const startAttr = token.attrGet('start');
+        if (ordered && startAttr) list.start = parseInt(startAttr, 10);
+
+        i++;
+        while (i < tokens.length && tokens[i].type !== closing) {
+          if (tokens[i].type === 'list_item_open') {
+            const item = parseMarkdownBlocks(tokens, i + 1, 'list_item_close', breaks);
+            list.items.push({ blocks: item.blocks });
+            i = item.next;
+          } else {
+            i++;
+          }
+        }
+        blocks.push(list);
+        i++;
+        break;
+      }
+
+      case 'blockquote_open': {
+        const quote = parseMarkdownBlocks(tokens, i + 1, 'blockquote_close', breaks);
+        blocks.push({ type: 'blockquote', children: quote.blocks });
+        i = quote.next;
+        break;
+      }
+
+      case 'fence':
+      case 'code_block':
+        blocks.push({
+          type: 'code',
+          text: token.content.replace(/\n$/, ''),
+          language: token.info ? token.info.trim().split(/\s+/)[0] : undefined
+        });
+        i++;
+        break;
+
+      case 'hr':
+        blocks.push({ type: 'rule' });
+        i++;
+        break;
+
+      case 'math_block':
+        blocks.push({ type: 'math', tex: token.content });
+        i++;
+        break;
+
+      case 'table_open': {
+        const table = parseMarkdownTable(tokens, i + 1, breaks);
+        blocks.push(table.table);
+        i = table.next;
+        break;
+      }
+
+      case 'html_block':
+        blocks.push(...readHTML(token.content).blocks);
+        i++;
+        break;
+
+      default:
+        i++;
+    }
+  }
+
+  return { blocks, next: i };
+}
+
+function parseMarkdownTable(tokens: MarkdownToken[], start: number, breaks: boolean): { table: TableBlock; next: number } {
+  const table: TableBlock = { type: 'table', rows: [], headerRows: 0 };
+  let inHead = false;
+  let i = start;
+
+  while (i < tokens.length && tokens[i].type !== 'table_close') {
+    const token = tokens[i];
+    if (token.type === 'thead_open') inHead = true;
+    if (token.type === 'thead_close') inHead = false;
+    if (token.type === 'tr_open') {
+      table.rows.push({ cells: [] });
+      if (inHead) table.headerRows++;
+    }
+    if (token.type === 'th_open' || token.type === 'td_open') {
+      const style = token.attrGet('style') || '';
+      const alignMatch = style.match(/text-align:\s*(left|center|right)/);
+      const cell: TableCell = { children: parseMarkdownInlines(tokens[i + 1]?.children || [], breaks) };
+      if (alignMatch) cell.align = alignMatch[1] as TableCell['align'];
+      table.rows[table.rows.length - 1]?.cells.push(cell);
+    }
+    i++;
+  }
+
+  return { table, next: i + 1 };
+}
+
+function parseMarkdownInlines(tokens: MarkdownToken[], breaks: boolean): Inline[] {
+  const root: Inline[] = [];
+  const containers: Inline[][] = [root];
+  const marks: InlineMark[] = [];
+
+  const current = () => containers[containers.length - 1];
+  const closeMark = (mark: InlineMark) => {
+    const index = marks.lastIndexOf(mark);
+    if (index >= 0) marks.splice(index, 1);
+  };
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text':
+        if (token.content) current().push(text(token.content, [...marks]));
+        break;
+      case 'code_inline':
+        current().push(text(token.content, [...marks, 'code']));
+        break;
+      case 'math_inline':
+        current().push({ type: 'math', tex: token.content });
+        break;
+      case 'strong_open':
+        marks.push('bold');
+        break;
+      case 'strong_close':
+        closeMark('bold');
+        break;
+      case 'em_open':
+        marks.push('italic');
+        break;
+      case 'em_close':
+        closeMark('italic');
+        break;
+      case 's_open':
+        marks.push('strike');
+        break;
+      case 's_close':
+        closeMark('strike');
+        break;
+      case 'link_open': {
+        const link: LinkInline = { type: 'link', href: token.attrGet('href') || '', children: [] };
+        const title = token.attrGet('title');
+        if (title) link.title = title;
+        current().push(link);
+        containers.push(link.children);
+        break;
+      }
+      case 'link_close':
+        if (containers.length > 1) containers.pop();
+        break;
+      case 'image':
+        current().push({
+          type: 'image',
+          src: token.attrGet('src') || '',
+          alt: token.content || undefined,
+          title: token.attrGet('title') || undefined
+        });
+        break;
+      case 'softbreak':
+        current().push(breaks ? { type: 'lineBreak' } : text(' ', [...marks]));
+        break;
+      case 'hardbreak':
+        current().push({ type: 'lineBreak' });
+        break;
+      case 'html_inline':
+        if (/^<br\s*\/?>$/i.test(token.content.trim())) current().push({ type: 'lineBreak' });
+        break;
+    }
+  }
+
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'meta', 'link', 'title', 'noscript', 'template']);
+const CONTAINER_TAGS = new Set([
+  'body', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'center', 'form', 'details', 'summary', 'dl', 'dd', 'dt', 'address'
+]);
+const INLINE_MARKS: Record<string, InlineMark> = {
+  strong: 'bold', b: 'bold',
+  em: 'italic', i: 'italic', cite: 'italic', dfn: 'italic',
+  u: 'underline', ins: 'underline',
+  s: 'strike', strike: 'strike', del: 'strike',
+  code: 'code', kbd: 'code', samp: 'code', tt: 'code',
+  sup: 'superscript', sub: 'subscript'
+};
+
+export function readHTML(html: string): DocumentModel {
+  if (typeof DOMParser === 'undefined') {
+    return readPlainText(html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' '));
+  }
+
+  const dom = new DOMParser().parseFromString(html, 'text/html');
+  const doc = createDocument(readHTMLBlocks(dom.body));
+  doc.metadata.title = dom.title?.trim() || firstHeading(doc);
+  const lang = dom.documentElement.getAttribute('lang');
+  if (lang) doc.metadata.language = lang;
+  const author = dom.querySelector('meta[name="author"]')?.getAttribute('content');
+  if (author) doc.metadata.author = author;
+  return doc;
+}
+
+export function readHTMLBlocks(parent: Node): Block[] {
+  const blocks: Block[] = [];
+  let pending: Inline[] = [];
+
+  const flush = () => {
+    const children = trimInlines(pending);
+    if (children.length > 0) blocks.push({ type: 'paragraph', children });
+    pending = [];
+  };
+
+  parent.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      pending.push(...readHTMLInlines(node, []));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    const math = readHTMLMath(element);
+    if (math?.display) {
+      flush();
+      blocks.push({ type: 'math', tex: math.tex });
+    } else if (math) {
+      pending.push({ type: 'math', tex: math.tex });
+    } else if (/^h[1-6]$/.test(tag)) {
+      flush();
+      const children = trimInlines(readHTMLInlines(element, []));
+      if (children.length > 0) {
+        blocks.push({ type: 'heading', level: parseInt(tag[1], 10) as 1 | 2 | 3 | 4 | 5 | 6, children });
+      }
+    } else if (tag === 'p') {
+      flush();
+      const children = trimInlines(readHTMLInlines(element, []));
+      if (children.length === 1 && children[0].type === 'image') {
+        const { type: _type, ...image } = children[0];
+        blocks.push({ type: 'image', ...image });
+      } else if (children.length > 0) {
+        blocks.push({ type: 'paragraph', children });
+      }
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      blocks.push(readHTMLList(element));
+    } else if (tag === 'table') {
+      flush();
+      blocks.push(readHTMLTable(element));
+    } else if (tag === 'pre') {
+      flush();
+      const code = element.querySelector('code');
+      const languageClass = (code?.className || element.className).match(/(?:language|lang)-([\w+-]+)/);
+      blocks.push({
+        type: 'code',
+        text: (element.textContent || '').replace(/\n$/, ''),
+        language: languageClass ? languageClass[1] : undefined
+      });
+    } else if (tag === 'blockquote') {
+      flush();
+      blocks.push({ type: 'blockquote', children: readHTMLBlocks(element) });
+    } else if (tag === 'hr') {
+      flush();
+      // writeHTML marks page breaks this way, and DOCX page and section breaks arrive as it
+      blocks.push(element.classList.contains('page-break') ? { type: 'pageBreak' } : { type: 'rule' });
+    } else if (tag === 'figure') {
+      flush();
+      const img = element.querySelector('img');
+      const caption = element.querySelector('figcaption')?.textContent?.trim();
+      if (img) {
+        blocks.push({ type: 'image', ...readHTMLImage(img), caption: caption || undefined });
+      } else {
+        blocks.push(...readHTMLBlocks(element));
+      }
+    } else if (tag === 'img' && pending.every(inline => inline.type === 'text' && !inline.text.trim())) {
+      flush();
+      blocks.push({ type: 'image', ...readHTMLImage(element) });
+    } else if (CONTAINER_TAGS.has(tag) || tag === 'li') {
+      flush();
+      blocks.push(...readHTMLBlocks(element));
+    } else {
+      pending.push(...readHTMLInlines(element, []));
+    }
+  });
+
+  flush();
+  return blocks;
+}
+
+function readHTMLList(element: Element): ListBlock {
+  const ordered = element.tagName.toLowerCase() === 'ol';
+  const list: ListBlock = { type: 'list', ordered, items: [] };
+  const start = element.getAttribute('start');
+  if (ordered && start) list.start = parseInt(start, 10);
+
+  Array.from(element.children).forEach(child => {
+    if (child.tagName.toLowerCase() !== 'li') return;
+    const checkbox = child.querySelector(':scope > input[type="checkbox"]');
+    list.items.push({
+      blocks: readHTMLBlocks(child),
+      checked: checkbox ? (checkbox as HTMLInputElement).checked : undefined
+    });
+  });
+
+  return list;
+}
+
+function readHTMLTable(element: Element): TableBlock {
+  const table: TableBlock = { type: 'table', rows: [], headerRows: 0 };
+  const caption = element.querySelector('caption')?.textContent?.trim();
+  if (caption) table.caption = caption;
+
+  const rows = Array.from(element.querySelectorAll('tr')).filter(row => row.closest('table') === element);
+  let countingHeader = true;
+
+  rows.forEach(row => {
+    const cells = Array.from(row.children).filter(cell => /^t[hd]$/i.test(cell.tagName));
+    const isHeader = row.parentElement?.tagName.toLowerCase() === 'thead' ||
+      (cells.length > 0 && cells.every(cell => cell.tagName.toLowerCase() === 'th'));
+
+    if (countingHeader && isHeader) {
+      table.headerRows++;
+    } else {
+      countingHeader = false;
+    }
+
+    table.rows.push({
+      cells: cells.map(cell => {
+        const result: TableCell = { children: trimInlines(readHTMLInlines(cell, [])) };
+        const rowSpan = parseInt(cell.getAttribute('rowspan') || '1', 10);
+        const colSpan = parseInt(cell.getAttribute('colspan') || '1', 10);
+        if (rowSpan > 1) result.rowSpan = rowSpan;
+        if (colSpan > 1) result.colSpan = colSpan;
+        const align = (cell.getAttribute('align') || (cell as HTMLElement).style?.textAlign || '').toLowerCase();
+        if (align === 'left' || align === 'center' || align === 'right') result.align = align;
+        return result;
+      })
+    });
+  });
+
+  return table;
+}
+
+function readHTMLImage(element: Element) {
+  const width = parseInt(element.getAttribute('width') || '', 10);
+  const height = parseInt(element.getAttribute('height') || '', 10);
+  return {
+    src: element.getAttribute('src') || '',
+    alt: element.getAttribute('alt') || undefined,
+    title: element.getAttribute('title') || undefined,
+    width: isNaN(width) ? undefined : width,
+    height: isNaN(height) ? undefined : height
+  };
+}
+
+function readHTMLInlines(node: Node, marks: InlineMark[]): Inline[] {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const value = (node.textContent || '').replace(/\s+/g, ' ');
+    return value ? [text(value, [...marks])] : [];
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+
+  if (SKIPPED_TAGS.has(tag)) return [];
+  if (tag === 'br') return [{ type: 'lineBreak' }];
+  if (tag === 'img') return [{ type: 'image', ...readHTMLImage(element) }];
+
+  const math = readHTMLMath(element);
+  if (math) return [{ type: 'math', tex: math.tex }];
+
+  const childMarks = INLINE_MARKS[tag] && !marks.includes(INLINE_MARKS[tag]) ? [...marks, INLINE_MARKS[tag]] : marks;
+  const children: Inline[] = [];
+  element.childNodes.forEach(child => children.push(...readHTMLInlines(child, childMarks)));
+
+  if (tag === 'a' && element.getAttribute('href')) {
+    const link: LinkInline = { type: 'link', href: element.getAttribute('href') || '', children };
+    const title = element.getAttribute('title');
+    if (title) link.title = title;
+    return [link];
+  }
+
+  return children;
+}
+
+/**
+ * TeX from a MathML <math> element (its TeX annotation, as writeHTML emits, or
+ * its text), or from a span/div with class "math" holding \(...\) or \[...\]
+ */
+function readHTMLMath(element: Element): { tex: string; display: boolean } | null {
+  if (element.tagName.toLowerCase() === 'math') {
+    const annotation = element.querySelector('annotation[encoding="application/x-tex"]');
+    const tex = (annotation || element).textContent?.trim() || '';
+    return tex ? { tex, display: element.getAttribute('display') === 'block' } : null;
+  }
+  if (!element.classList.contains('math')) return null;
+  const source = (element.textContent || '').trim();
+  const match = source.match(/^\\\(([\s\S]*)\\\)$|^\\\[([\s\S]*)\\\]$|^\$\$([\s\S]*)\$\$$|^\$([\s\S]*)\$$/);
+  if (!match) return null;
+  const tex = (match[1] ?? match[2] ?? match[3] ?? match[4]).trim();
+  const display = match[2] !== undefined || match[3] !== undefined || element.classList.contains('display');
+  return tex ? { tex, display } : null;
+}
+
+// Drop leading/trailing whitespace of an inline run
+export function trimInlines(inlines: Inline[]): Inline[] {
+  const isBlank = (inline: Inline) => inline.type === 'text' && !inline.text.trim();
+  let start = 0;
+  let end = inlines.length;
+  while (start < end && isBlank(inlines[start])) start++;
+  while (end > start && isBlank(inlines[end - 1])) end--;
+
+  const result = inlines.slice(start, end);
+  if (result.length === 0) return result;
+
+  const first = result[0];
+  if (first.type === 'text') result[0] = { ...first, text: first.text.trimStart() };
+  const last = result[result.length - 1];
+  if (last.type === 'text') result[result.length - 1] = { ...last, text: last.text.trimEnd() };
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Plain text and data
+// ---------------------------------------------------------------------------
+
+/**
+ * Plain text: blank lines separate paragraphs, single newlines are kept as line breaks
+ */
+export function readPlainText(content: string): DocumentModel {
+  const blocks: Block[] = content
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .filter(para => para.trim())
+    .map(para => {
+      const children: Inline[] = [];
+      para.split('\n').forEach((line, index) => {
+        if (index > 0) children.push({ type: 'lineBreak' });
+        children.push(text(line.trimEnd()));
+      });
+      return { type: 'paragraph', children };
+    });
+
+  return createDocument(blocks);
+}
+
+/**
+ * CSV/TSV: a single table, with a header row when the file has one
+ */
+export function readCSV(content: string, dialect: CSVDialect = {}): DocumentModel {
+  const table = parseCSV(content, dialect);
+  const rows = tableRows(table);
+  if (rows.length === 0) return createDocument([paragraph('No data found')]);
+  return createDocument([tableFromRows(rows, table.hasHeader ? 1 : 0)]);
+}
+
+/**
+ * Flattened spreadsheet text ("Sheet: name" followed by CSV) as one heading + table per sheet
+ */
+export function readSheetText(content: string): DocumentModel {
+  const sections = content.split(/^Sheet: (.+)$/m);
+  // SheetJS writes plain comma-separated text under a header row
+  const dialect: CSVDialect = { delimiter: ',', header: true };
+  if (sections.length < 3) return readCSV(content, dialect);
+
+  const blocks: Block[] = [];
+  for (let i = 1; i < sections.length; i += 2) {
+    blocks.push({ type: 'heading', level: 2, children: [text(sections[i].trim())] });
+    blocks.push(...readCSV(sections[i + 1] || '', dialect).blocks);
+  }
+  return createDocument(blocks);
+}
+
+/**
+ * Source code / structured data shown verbatim
+ */
+export function readCode(content: string, language?: string): DocumentModel {
+  return createDocument([{ type: 'code', text: content, language }]);
+}
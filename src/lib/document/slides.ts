@@ -0,0 +1,334 @@
+/**
+ * Slide Decks
+ * Split a DocumentModel into slides (headings start slides, lists become bullets,
+ * long tables continue across slides, blockquotes become speaker notes) and
+ * write the deck with PptxGenJS.
+ */
+
+import type PptxGenJS from 'pptxgenjs';
+import type { Block, DocumentImage, DocumentModel, HeadingBlock, ImageInline, ListBlock } from './types';
+import { imageBytes, imageSource, inlineText, readImageSize, tableToRows } from './utils';
+
+export type SlideItem =
+  | { type: 'text'; text: string; bold?: boolean; code?: boolean }
+  | { type: 'bullet'; text: string; level: number; ordered: boolean }
+  | { type: 'table'; rows: string[][]; headerRows: number }
+  | { type: 'image'; image: DocumentImage };
+
+export interface Slide {
+  kind: 'title' | 'section' | 'content';
+  title: string;
+  subtitle?: string;
+  items: SlideItem[];
+  notes: string[];
+}
+
+export type SlideLayout = '16x9' | '4x3';
+export type SlideTheme = 'light' | 'dark' | 'corporate';
+
+export interface SlidePlanOptions {
+  layout?: SlideLayout;
+  tableRowsPerSlide?: number;
+}
+
+// Slide sizes in inches (PptxGenJS LAYOUT_16x9 / LAYOUT_4x3)
+const SLIDE_SIZES: Record<SlideLayout, { width: number; height: number; layout: string }> = {
+  '16x9': { width: 10, height: 5.625, layout: 'LAYOUT_16x9' },
+  '4x3': { width: 10, height: 7.5, layout: 'LAYOUT_4x3' }
+};
+
+const THEMES: Record<SlideTheme, { background: string; title: string; text: string; accent: string; headerText: string }> = {
+  light: { background: 'FFFFFF', title: '363636', text: '404040', accent: 'EFEFEF', headerText: '000000' },
+  dark: { background: '1F2430', title: 'FFFFFF', text: 'D8DEE9', accent: '3B4252', headerText: 'FFFFFF' },
+  corporate: { background: 'FFFFFF', title: '1F3864', text: '333333', accent: '1F3864', headerText: 'FFFFFF' }
+};
+
+const TITLE_HEIGHT = 1.0;
+const MARGIN = 0.5;
+const BODY_FONT_SIZE = 18;
+const LINE_HEIGHT = 0.32; // Inches per 18pt line
+const CHARS_PER_LINE = 72; // 18pt across the 9" body width
+const TABLE_ROW_HEIGHT = 0.37;
+
+function bodyHeight(layout: SlideLayout): number {
+  return SLIDE_SIZES[layout].height - TITLE_HEIGHT - MARGIN;
+}
+
+/**
+ * Heading level that starts a new slide: the highest level used more than once
+ * (a lone top-level heading is the deck title), or the highest level present.
+ */
+function slideLevel(blocks: Block[]): number | null {
+  const counts = new Map<number, number>();
+  blocks.forEach(block => {
+    if (block.type === 'heading') counts.set(block.level, (counts.get(block.level) || 0) + 1);
+  });
+  const levels = [...counts.keys()].sort((a, b) => a - b);
+  if (levels.length === 0) return null;
+  return levels.find(level => (counts.get(level) || 0) > 1) ?? levels[0];
+}
+
+function itemLines(item: SlideItem): number {
+  switch (item.type) {
+    case 'text':
+    case 'bullet':
+      return item.text.split('\n').reduce((sum, line) => sum + Math.max(1, Math.ceil(line.length / CHARS_PER_LINE)), 0);
+    default:
+      return 0;
+  }
+}
+
+export function planSlides(doc: DocumentModel, options: SlidePlanOptions = {}): Slide[] {
+  const layout = options.layout || '16x9';
+  const maxLines = Math.floor(bodyHeight(layout) / LINE_HEIGHT);
+  const rowsPerSlide = Math.max(2, options.tableRowsPerSlide || Math.floor(bodyHeight(layout) / TABLE_ROW_HEIGHT));
+
+  const blocks = doc.blocks.filter(block => block.type !== 'pageBreak');
+  const level = slideLevel(blocks);
+  const slides: Slide[] = [];
+
+  // A single leading heading above the slide level titles the deck
+  let deckTitle = doc.metadata.title;
+  const first = blocks[0];
+  if (first?.type === 'heading' && level !== null && first.level < level &&
+      !blocks.some((block, index) => index > 0 && block.type === 'heading' && block.level <= first.level)) {
+    deckTitle = deckTitle || inlineText(first.children);
+    blocks.shift();
+  }
+  if (deckTitle) {
+    slides.push({ kind: 'title', title: deckTitle, subtitle: doc.metadata.author, items: [], notes: [] });
+  }
+
+  let current: Slide | null = null;
+  let usedLines = 0;
+
+  const startSlide = (title: string): Slide => {
+    current = { kind: 'content', title, items: [], notes: [] };
+    slides.push(current);
+    usedLines = 0;
+    return current;
+  };
+  const continuation = (): Slide => {
+    const title = current?.title.replace(/ \(cont\.\)$/, '') || deckTitle || 'Converted Document';
+    return startSlide(current ? `${title} (cont.)` : title);
+  };
+  const slideForLines = (lines: number): Slide => {
+    const hasMedia = current?.items.some(item => item.type === 'table' || item.type === 'image');
+    if (!current || hasMedia || (usedLines > 0 && usedLines + lines > maxLines)) {
+      continuation();
+    }
+    usedLines += lines;
+    return current!;
+  };
+  const addText = (item: SlideItem) => slideForLines(itemLines(item)).items.push(item);
+
+  const addList = (list: ListBlock, depth: number) => {
+    list.items.forEach(listItem => {
+      listItem.blocks.forEach(child => {
+        if (child.type === 'list') {
+          addList(child, depth + 1);
+        } else if (child.type === 'paragraph' || child.type === 'heading') {
+          addText({ type: 'bullet', text: inlineText(child.children), level: depth, ordered: list.ordered });
+        }
+      });
+    });
+  };
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        addHeading(block);
+        break;
+      case 'paragraph': {
+        const value = inlineText(block.children).trim();
+        const images = block.children.filter((inline): inline is ImageInline => inline.type === 'image');
+        if (value) addText({ type: 'text', text: value });
+        images.forEach(image => addImage(image));
+        break;
+      }
+      case 'list':
+        addList(block, 0);
+        break;
+      case 'code':
+        addText({ type: 'text', text: block.text, code: true });
+        break;
+      case 'math':
+        addText({ type: 'text', text: block.tex });
+        break;
+      case 'table': {
+        const rows = tableToRows(block);
+        const header = rows.slice(0, block.headerRows);
+        const body = rows.slice(block.headerRows);
+        const perSlide = Math.max(1, rowsPerSlide - header.length);
+        for (let start = 0; start < Math.max(body.length, 1); start += perSlide) {
+          const slide = current && current.items.length === 0 ? current : continuation();
+          slide.items.push({ type: 'table', rows: [...header, ...body.slice(start, start + perSlide)], headerRows: header.length });
+        }
+        break;
+      }
+      case 'image':
+        addImage(block);
+        break;
+      case 'blockquote': {
+        // Quoted text is for the presenter, not the audience
+        const notes = blockText(block.children);
+        if (notes) (current || continuation()).notes.push(notes);
+        break;
+      }
+      case 'rule':
+        // Horizontal rules separate slides, as in Markdown slide decks
+        if (current && current.items.length > 0) continuation();
+        break;
+    }
+  });
+
+  function addHeading(heading: HeadingBlock) {
+    const title = inlineText(heading.children);
+    if (level === null || heading.level > level) {
+      addText({ type: 'text', text: title, bold: true });
+    } else if (heading.level < level) {
+      slides.push({ kind: 'section', title, items: [], notes: [] });
+      current = null;
+    } else {
+      startSlide(title);
+    }
+  }
+
+  function addImage(image: DocumentImage) {
+    const slide = current && current.items.length === 0 ? current : continuation();
+    slide.items.push({ type: 'image', image });
+  }
+
+  return slides.filter(slide => slide.kind !== 'content' || slide.items.length > 0 || slide.notes.length > 0);
+}
+
+function blockText(blocks: Block[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        return inlineText(block.children);
+      case 'list':
+        return block.items.map(item => `- ${blockText(item.blocks)}`).join('\n');
+      case 'code':
+        return block.text;
+      case 'math':
+        return block.tex;
+      case 'blockquote':
+        return blockText(block.children);
+      case 'table':
+        return tableToRows(block).map(row => row.join('\t')).join('\n');
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n\n');
+}
+
+export interface PptxWriteOptions {
+  layout?: SlideLayout;
+  theme?: SlideTheme;
+}
+
+/**
+ * Add planned slides to a PptxGenJS presentation
+ */
+export function writePptxSlides(pptx: PptxGenJS, slides: Slide[], options: PptxWriteOptions = {}): void {
+  const size = SLIDE_SIZES[options.layout || '16x9'];
+  const theme = THEMES[options.theme || 'light'];
+  const bodyWidth = size.width - MARGIN * 2;
+  const bodyTop = TITLE_HEIGHT + 0.1;
+  const bodyH = size.height - bodyTop - MARGIN;
+
+  pptx.layout = size.layout;
+
+  slides.forEach(planned => {
+    const slide = pptx.addSlide();
+    slide.background = { color: theme.background };
+
+    if (planned.kind !== 'content') {
+      const isTitle = planned.kind === 'title';
+      slide.addText(planned.title, {
+        x: MARGIN, y: size.height / 2 - (isTitle ? 1 : 0.6), w: bodyWidth, h: 1.2,
+        fontSize: isTitle ? 36 : 30, bold: true, color: theme.title, align: 'center', valign: 'middle'
+      });
+      if (planned.subtitle) {
+        slide.addText(planned.subtitle, {
+          x: MARGIN, y: size.height / 2 + 0.3, w: bodyWidth, h: 0.6, fontSize: 18, color: theme.text, align: 'center'
+        });
+      }
+    } else {
+      slide.addText(planned.title, {
+        x: MARGIN, y: 0.3, w: bodyWidth, h: TITLE_HEIGHT - 0.3, fontSize: 28, bold: true, color: theme.title, valign: 'middle'
+      });
+      writeSlideBody(slide, planned.items, theme, { x: MARGIN, y: bodyTop, w: bodyWidth, h: bodyH });
+    }
+
+    if (planned.notes.length > 0) {
+      slide.addNotes(planned.notes.join('\n\n'));
+    }
+  });
+}
+
+function writeSlideBody(
+  slide: PptxGenJS.Slide,
+  items: SlideItem[],
+  theme: typeof THEMES[SlideTheme],
+  area: { x: number; y: number; w: number; h: number }
+): void {
+  const textRuns: PptxGenJS.TextProps[] = [];
+
+  items.forEach(item => {
+    switch (item.type) {
+      case 'text':
+        textRuns.push({
+          text: item.text,
+          options: {
+            bold: item.bold,
+            fontFace: item.code ? 'Courier New' : undefined,
+            fontSize: item.code ? 14 : BODY_FONT_SIZE,
+            breakLine: true,
+            paraSpaceAfter: 6
+          }
+        });
+        break;
+      case 'bullet':
+        textRuns.push({
+          text: item.text,
+          options: {
+            bullet: item.ordered ? { type: 'number' } : true,
+            indentLevel: item.level,
+            fontSize: BODY_FONT_SIZE - Math.min(item.level, 2) * 2,
+            breakLine: true
+          }
+        });
+        break;
+      case 'table':
+        slide.addTable(
+          item.rows.map((row, rowIndex) => row.map(cell => rowIndex < item.headerRows
+            ? { text: cell, options: { fill: { color: theme.accent }, color: theme.headerText, bold: true } }
+            : { text: cell })),
+          { x: area.x, y: area.y, w: area.w, fontSize: 12, color: theme.text, border: { type: 'solid', pt: 0.5, color: 'BFBFBF' } }
+        );
+        break;
+      case 'image': {
+        const source = imageSource(item.image);
+        if (!source) break;
+        const bytes = imageBytes(item.image);
+        const natural = (item.image.width && item.image.height)
+          ? { width: item.image.width, height: item.image.height }
+          : (bytes && readImageSize(bytes.data)) || { width: 4, height: 3 };
+        // Fit inside the body area, centered
+        const scale = Math.min(area.w / natural.width, area.h / natural.height);
+        const w = natural.width * scale;
+        const h = natural.height * scale;
+        const placement = { x: area.x + (area.w - w) / 2, y: area.y + (area.h - h) / 2, w, h, altText: item.image.alt };
+        slide.addImage(source.startsWith('data:') ? { data: source, ...placement } : { path: source, ...placement });
+        break;
+      }
+    }
+  });
+
+  if (textRuns.length > 0) {
+    slide.addText(textRuns, { ...area, color: theme.text, valign: 'top', fit: 'shrink' });
+  }
+}
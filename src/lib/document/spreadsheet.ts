@@ -0,0 +1,522 @@
+/**
+ * Spreadsheets
+ * Workbooks are read sheet by sheet: every sheet keeps its name, merged cells and
+ * the values as Excel shows them (number formats applied, formulas with their
+ * computed results). Workbooks are built from JSON with one sheet per top-level
+ * key, and formula cells survive a round trip through JSON.
+ * Generated sheets can be formatted as reports: typed, date-formatted cells, a
+ * bold filled header that stays in view, filters, fitted columns and a totals row.
+ */
+
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import type { Block, DocumentModel, TableBlock, TableCell } from './types';
+import { createDocument, paragraph, text } from './utils';
+
+export interface SheetSelection {
+  sheets?: string[]; // Sheet names to include (every sheet when empty)
+  range?: string; // A1-style range taken from each sheet, e.g. "A1:F50"
+  formulas?: boolean; // JSON output: formula cells as { value, formula } instead of the value alone
+}
+
+export interface SelectedSheet {
+  name: string;
+  sheet: XLSX.WorkSheet;
+  range: XLSX.Range;
+}
+
+// A formula cell in JSON: the value Excel last computed and the formula itself
+export interface FormulaValue {
+  value: unknown;
+  formula: string;
+}
+
+// Excel's limit on sheet name length, and the characters it forbids in one
+const MAX_SHEET_NAME = 31;
+const INVALID_SHEET_NAME = /[[\]:*?/\\]/g;
+// A cell or range in A1 notation, absolute ($A$1) or not
+const A1_RANGE = /^\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?$/;
+// Sheet for top-level JSON values that are not lists
+const PROPERTIES_SHEET = 'Properties';
+
+export interface SheetFormat {
+  headerStyle?: boolean; // Bold, filled header row (XLSX only)
+  autoWidth?: boolean; // Columns as wide as their content
+  freezeHeader?: boolean; // Header row stays in view when scrolling (XLSX only)
+  autoFilter?: boolean; // Filter buttons on the header row (XLSX only)
+  totals?: boolean; // A SUBTOTAL row under the numeric columns (it follows the filter)
+}
+
+const DATE_FORMAT = 'yyyy-mm-dd';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm';
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+// Column widths in characters
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+const HEADER_FILL = 'FFD9E1F2';
+const SPREADSHEET_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Rows to style once the file is written - SheetJS writes number formats, but no fonts, fills or panes
+const styledSheets = new WeakMap<XLSX.WorkSheet, { format: SheetFormat; headerRow?: number; totalsRow?: number }>();
+
+export function readWorkbook(content: ArrayBuffer): XLSX.WorkBook {
+  // cellNF keeps number formats and cellDates turns date serials into dates, so both survive re-writing
+  return XLSX.read(content, { type: 'array', cellFormula: true, cellNF: true, cellDates: true });
+}
+
+/**
+ * The sheets a selection names (in workbook order), each with the part of it to read
+ */
+export function selectSheets(workbook: XLSX.WorkBook, selection: SheetSelection = {}): SelectedSheet[] {
+  const wanted = selection.sheets?.filter(name => name.trim()) || [];
+  const missing = wanted.filter(name => !workbook.SheetNames.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`Sheet not found: ${missing.join(', ')} (the workbook has ${workbook.SheetNames.join(', ')})`);
+  }
+
+  const rangeText = selection.range?.trim().toUpperCase();
+  if (rangeText && !A1_RANGE.test(rangeText)) {
+    throw new Error(`Invalid cell range "${selection.range}" - use the form A1:F50`);
+  }
+  const requested = rangeText ? XLSX.utils.decode_range(rangeText.replace(/\$/g, '')) : null;
+  return workbook.SheetNames
+    .filter(name => wanted.length === 0 || wanted.includes(name))
+    .flatMap(name => {
+      const sheet = workbook.Sheets[name];
+      if (!sheet?.['!ref']) return [];
+      const used = XLSX.utils.decode_range(sheet['!ref']);
+      const range = requested ? intersectRanges(used, requested) : used;
+      return range ? [{ name, sheet, range }] : [];
+    });
+}
+
+/**
+ * One heading and table per sheet, page breaks between them
+ */
+export function readSpreadsheet(workbook: XLSX.WorkBook, selection: SheetSelection = {}): DocumentModel {
+  const sheets = selectSheets(workbook, selection);
+  if (sheets.length === 0) return createDocument([paragraph('No data found')]);
+
+  const blocks: Block[] = [];
+  sheets.forEach((selected, index) => {
+    if (index > 0) blocks.push({ type: 'pageBreak' });
+    blocks.push({ type: 'heading', level: 2, children: [text(selected.name)] });
+    blocks.push(sheetTable(selected));
+  });
+  return createDocument(blocks, { title: workbook.Props?.Title });
+}
+
+/**
+ * A sheet as a table of displayed values; merged cells span, the cells they cover are left out
+ */
+export function sheetTable({ sheet, range }: SelectedSheet): TableBlock {
+  const covered = new Set<string>();
+  const spans = new Map<string, { rowSpan: number; colSpan: number }>();
+  for (const merge of sheet['!merges'] || []) {
+    const clipped = intersectRanges(merge, range);
+    if (!clipped) continue;
+    spans.set(XLSX.utils.encode_cell(clipped.s), {
+      rowSpan: clipped.e.r - clipped.s.r + 1,
+      colSpan: clipped.e.c - clipped.s.c + 1
+    });
+    for (let r = clipped.s.r; r <= clipped.e.r; r++) {
+      for (let c = clipped.s.c; c <= clipped.e.c; c++) {
+        if (r !== clipped.s.r || c !== clipped.s.c) covered.add(XLSX.utils.encode_cell({ r, c }));
+      }
+    }
+  }
+
+  const rows: TableBlock['rows'] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const cells: TableCell[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const address = XLSX.utils.encode_cell({ r, c });
+      if (covered.has(address)) continue;
+
+      const cell = sheet[address] as XLSX.CellObject | undefined;
+      const value = cellText(cell);
+      const tableCell: TableCell = { children: value ? [text(value)] : [] };
+      const span = spans.get(address);
+      if (span && span.rowSpan > 1) tableCell.rowSpan = span.rowSpan;
+      if (span && span.colSpan > 1) tableCell.colSpan = span.colSpan;
+      if (cell?.t === 'n') tableCell.align = 'right';
+      cells.push(tableCell);
+    }
+    rows.push({ cells });
+  }
+  return { type: 'table', rows, headerRows: rows.length > 1 ? 1 : 0 };
+}
+
+/**
+ * Displayed values of a sheet, row by row (a merged area's value is in its first cell only)
+ */
+export function sheetRows({ sheet, range }: SelectedSheet): string[][] {
+  const rows: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined));
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Sheet name -> one object per row, keyed by the first row's headings
+ */
+export function workbookToJSON(workbook: XLSX.WorkBook, selection: SheetSelection = {}): Record<string, Record<string, unknown>[]> {
+  const result: Record<string, Record<string, unknown>[]> = {};
+  for (const { name, sheet, range } of selectSheets(workbook, selection)) {
+    const keys: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const heading = cellText(sheet[XLSX.utils.encode_cell({ r: range.s.r, c })] as XLSX.CellObject | undefined).trim();
+      keys.push(uniqueName(heading || XLSX.utils.encode_col(c), keys));
+    }
+
+    const records: Record<string, unknown>[] = [];
+    for (let r = range.s.r + 1; r <= range.e.r; r++) {
+      const record: Record<string, unknown> = {};
+      let empty = true;
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+        const value = cellValue(cell);
+        if (value !== null) empty = false;
+        record[keys[c - range.s.c]] = selection.formulas && cell?.f ? { value, formula: `=${cell.f}` } : value;
+      }
+      if (!empty) records.push(record);
+    }
+    result[name] = records;
+  }
+  return result;
+}
+
+/**
+ * A workbook from parsed JSON: a list is one sheet; an object gives a sheet per
+ * key holding a list or object, and its plain values go to a "Properties" sheet
+ */
+export function jsonToWorkbook(data: unknown, format: SheetFormat = {}): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const names: string[] = [];
+  const addSheet = (name: string, rows: unknown[][]) => {
+    const sheetName = uniqueName(sheetNameFor(name, names.length + 1), names);
+    const sheet = rowsToSheet(rows);
+    formatSheet(sheet, format);
+    names.push(sheetName);
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+  };
+
+  if (Array.isArray(data)) {
+    addSheet('Sheet1', listRows(data));
+  } else if (data && typeof data === 'object') {
+    const properties: unknown[][] = [];
+    for (const [key, value] of Object.entries(data)) {
+      if (Array.isArray(value)) addSheet(key, listRows(value));
+      else if (value && typeof value === 'object' && !isFormulaValue(value)) addSheet(key, [['Key', 'Value'], ...Object.entries(value)]);
+      else properties.push([key, value]);
+    }
+    if (properties.length > 0) addSheet(names.length === 0 ? 'Sheet1' : PROPERTIES_SHEET, [['Key', 'Value'], ...properties]);
+  } else {
+    addSheet('Sheet1', [['Value'], [data]]);
+  }
+
+  if (names.length === 0) addSheet('Sheet1', [['No data']]);
+  return workbook;
+}
+
+/**
+ * The selected sheets as a new workbook (cut down to the range), with formats and formulas intact
+ */
+export function subsetWorkbook(workbook: XLSX.WorkBook, selection: SheetSelection = {}): XLSX.WorkBook {
+  const result = XLSX.utils.book_new();
+  for (const { name, sheet, range } of selectSheets(workbook, selection)) {
+    XLSX.utils.book_append_sheet(result, selection.range ? cropSheet(sheet, range) : sheet, name);
+  }
+  if (result.SheetNames.length === 0) {
+    XLSX.utils.book_append_sheet(result, XLSX.utils.aoa_to_sheet([['No data']]), 'Sheet1');
+  }
+  return result;
+}
+
+function cellText(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.t === 'z') return '';
+  if (cell.w !== undefined) return cell.w;
+  return cell.v === undefined ? '' : XLSX.utils.format_cell(cell);
+}
+
+function cellValue(cell: XLSX.CellObject | undefined): unknown {
+  if (!cell || cell.t === 'z' || cell.v === undefined) return null;
+  // Errors (#DIV/0! and the like) as Excel shows them
+  if (cell.t === 'e') return cell.w ?? null;
+  return cell.v;
+}
+
+function listRows(list: unknown[]): unknown[][] {
+  if (list.length === 0) return [];
+  if (list.every(Array.isArray)) return list as unknown[][];
+  if (list.every(item => item && typeof item === 'object' && !isFormulaValue(item))) {
+    const records = list as Record<string, unknown>[];
+    const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+    return [headers, ...records.map(record => headers.map(header => record[header]))];
+  }
+  return [['Value'], ...list.map(item => [item])];
+}
+
+/**
+ * A sheet from rows of values: numbers, booleans and dates (including ISO date
+ * text) become typed cells, formula values get their formula back
+ */
+export function rowsToSheet(rows: unknown[][]): XLSX.WorkSheet {
+  const values = rows.map(row => row.map(sheetValue));
+  const sheet = XLSX.utils.aoa_to_sheet(values);
+  values.forEach((row, r) => row.forEach((value, c) => {
+    const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+    if (!cell) return;
+    const source = rows[r][c];
+    // Formula cells: keep the computed value and restore the formula
+    if (isFormulaValue(source)) cell.f = source.formula.replace(/^=/, '');
+    if (value instanceof Date) {
+      const midnight = value.getHours() === 0 && value.getMinutes() === 0 && value.getSeconds() === 0;
+      cell.z = midnight ? DATE_FORMAT : DATE_TIME_FORMAT;
+      delete cell.w; // Formatted with SheetJS's default date format
+    }
+  }));
+  return sheet;
+}
+
+/**
+ * Lay a generated sheet out as a report. Sheets without a header row only get
+ * column widths and totals.
+ */
+export function formatSheet(sheet: XLSX.WorkSheet, format: SheetFormat, hasHeader = true): void {
+  if (!sheet['!ref']) return;
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const firstDataRow = range.s.r + (hasHeader ? 1 : 0);
+
+  if (format.autoFilter && hasHeader && range.e.r > range.s.r) {
+    sheet['!autofilter'] = { ref: XLSX.utils.encode_range(range) };
+  }
+  const totalsRow = format.totals && range.e.r >= firstDataRow ? addTotalsRow(sheet, range, firstDataRow) : undefined;
+  if (format.autoWidth) {
+    sheet['!cols'] = columnWidths(sheet);
+  }
+  styledSheets.set(sheet, { format, headerRow: hasHeader ? range.s.r : undefined, totalsRow });
+}
+
+/**
+ * Write a workbook as XLSX, then add the header fonts, fills and frozen panes formatSheet asked for
+ */
+export async function writeXLSX(workbook: XLSX.WorkBook): Promise<Blob> {
+  const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+  const styled = workbook.SheetNames.map(name => styledSheets.get(workbook.Sheets[name]));
+  if (!styled.some(sheet => sheet && (sheet.format.headerStyle || sheet.format.freezeHeader || sheet.totalsRow !== undefined))) {
+    return new Blob([data], { type: SPREADSHEET_MIME_TYPE });
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const stylesFile = zip.file('xl/styles.xml');
+  if (!stylesFile) return new Blob([data], { type: SPREADSHEET_MIME_TYPE });
+  const styles = new StyleSheet(await stylesFile.async('text'));
+
+  for (const [index, sheet] of styled.entries()) {
+    // SheetJS numbers worksheet parts in workbook order
+    const file = zip.file(`xl/worksheets/sheet${index + 1}.xml`);
+    if (!sheet || !file) continue;
+
+    let xml = await file.async('text');
+    if (sheet.headerRow !== undefined) {
+      if (sheet.format.headerStyle) xml = restyleRow(xml, sheet.headerRow, xf => styles.variant(xf, true));
+      if (sheet.format.freezeHeader) xml = freezeRows(xml, sheet.headerRow + 1);
+    }
+    if (sheet.totalsRow !== undefined && sheet.format.headerStyle) {
+      xml = restyleRow(xml, sheet.totalsRow, xf => styles.variant(xf, false));
+    }
+    zip.file(`xl/worksheets/sheet${index + 1}.xml`, xml);
+  }
+  zip.file('xl/styles.xml', styles.toXML());
+  return zip.generateAsync({ type: 'blob', mimeType: SPREADSHEET_MIME_TYPE });
+}
+
+/**
+ * SUBTOTAL(109) of every column whose data is all numbers, labelled in the first
+ * column when that is text. Returns the new row, or undefined with nothing to total.
+ */
+function addTotalsRow(sheet: XLSX.WorkSheet, range: XLSX.Range, firstDataRow: number): number | undefined {
+  const row = range.e.r + 1;
+  let totalled = false;
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cells: XLSX.CellObject[] = [];
+    for (let r = firstDataRow; r <= range.e.r; r++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+      if (cell && cell.t !== 'z') cells.push(cell);
+    }
+    const numeric = cells.length > 0 && cells.every(cell => cell.t === 'n' && !(cell.z && XLSX.SSF.is_date(cell.z)));
+    if (!numeric) continue;
+
+    const column = XLSX.utils.encode_col(c);
+    sheet[XLSX.utils.encode_cell({ r: row, c })] = {
+      t: 'n',
+      v: cells.reduce((sum, cell) => sum + (cell.v as number), 0),
+      f: `SUBTOTAL(109,${column}${firstDataRow + 1}:${column}${range.e.r + 1})`,
+      z: cells[0].z
+    };
+    totalled = true;
+  }
+  if (!totalled) return undefined;
+
+  const label = XLSX.utils.encode_cell({ r: row, c: range.s.c });
+  if (!sheet[label]) sheet[label] = { t: 's', v: 'Total' };
+  sheet['!ref'] = XLSX.utils.encode_range(range.s, { r: row, c: range.e.c });
+  return row;
+}
+
+function columnWidths(sheet: XLSX.WorkSheet): XLSX.ColInfo[] {
+  const range = XLSX.utils.decode_range(sheet['!ref']!);
+  const widths: XLSX.ColInfo[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    let width = 0;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+      const lines = cellText(cell).split('\n');
+      width = Math.max(width, ...lines.map(line => line.length));
+    }
+    // A little room for the filter button and the bold header
+    widths[c] = { wch: Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width + 2)) };
+  }
+  return widths;
+}
+
+/**
+ * Cell formats (xf records) of a styles.xml, extended with bold (and filled) variants
+ */
+class StyleSheet {
+  private xfs: string[];
+  private boldFont: number;
+  private headerFill: number;
+  private variants = new Map<string, number>();
+
+  constructor(private xml: string) {
+    this.xfs = [...(xml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '').matchAll(/<xf\b[^>]*?(\/>|>[\s\S]*?<\/xf>)/g)]
+      .map(match => match[0]);
+    if (this.xfs.length === 0) this.xfs.push('<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>');
+
+    // Bold copy of the default font
+    const font = xml.match(/<fonts[^>]*>\s*(<font>[\s\S]*?<\/font>|<font\/>)/)?.[1] || '<font/>';
+    this.boldFont = this.append('fonts', font === '<font/>' ? '<font><b/></font>' : font.replace('<font>', '<font><b/>'));
+    this.headerFill = this.append('fills', `<fill><patternFill patternType="solid"><fgColor rgb="${HEADER_FILL}"/><bgColor indexed="64"/></patternFill></fill>`);
+  }
+
+  // Index of the xf like `xf` but bold, and filled when `filled`
+  variant(xf: number, filled: boolean): number {
+    const key = `${xf}:${filled}`;
+    let index = this.variants.get(key);
+    if (index === undefined) {
+      const base = this.xfs[xf] || this.xfs[0];
+      const record = base
+        .replace(/\s(fontId|fillId|applyFont|applyFill)="[^"]*"/g, '')
+        .replace(/^<xf\b/, `<xf fontId="${this.boldFont}" fillId="${filled ? this.headerFill : 0}" applyFont="1"${filled ? ' applyFill="1"' : ''}`);
+      index = this.xfs.push(record) - 1;
+      this.variants.set(key, index);
+    }
+    return index;
+  }
+
+  toXML(): string {
+    return this.xml.replace(/<cellXfs[^>]*>[\s\S]*?<\/cellXfs>|<cellXfs[^>]*\/>/, `<cellXfs count="${this.xfs.length}">${this.xfs.join('')}</cellXfs>`);
+  }
+
+  // Add a record to a counted list (fonts, fills), returning its index
+  private append(list: string, record: string): number {
+    const count = Number(this.xml.match(new RegExp(`<${list} count="(\\d+)"`))?.[1] || 0);
+    this.xml = this.xml
+      .replace(new RegExp(`<${list} count="\\d+"`), `<${list} count="${count + 1}"`)
+      .replace(`</${list}>`, `${record}</${list}>`);
+    return count;
+  }
+}
+
+// Point every cell of a (0-based) row at the style `restyle` maps its current one to
+function restyleRow(xml: string, row: number, restyle: (xf: number) => number): string {
+  return xml.replace(new RegExp(`(<row r="${row + 1}"[^>]*>)([\\s\\S]*?)(</row>)`), (_, open: string, cells: string, close: string) =>
+    open + cells.replace(/<c\b([^>]*?)(\/?)>/g, (__, attributes: string, selfClosing: string) => {
+      const xf = Number(attributes.match(/\ss="(\d+)"/)?.[1] || 0);
+      return `<c${attributes.replace(/\ss="\d+"/, '')} s="${restyle(xf)}"${selfClosing}>`;
+    }) + close);
+}
+
+// Freeze the first `rows` rows in place
+function freezeRows(xml: string, rows: number): string {
+  const pane = `<pane ySplit="${rows}" topLeftCell="A${rows + 1}" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft"/>`;
+  if (/<sheetView\b[^>]*\/>/.test(xml)) {
+    return xml.replace(/<sheetView\b([^>]*)\/>/, `<sheetView$1>${pane}</sheetView>`);
+  }
+  const views = `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>`;
+  return /<dimension\b[^>]*\/>/.test(xml)
+    ? xml.replace(/(<dimension\b[^>]*\/>)/, `$1${views}`)
+    : xml.replace(/(<worksheet\b[^>]*>)/, `$1${views}`);
+}
+
+// Cell values SheetJS can write as they are; anything nested becomes its JSON text
+function sheetValue(value: unknown): unknown {
+  if (isFormulaValue(value)) return sheetValue(value.value);
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return isoDate(value) ?? value;
+  if (typeof value === 'object' && !(value instanceof Date)) return JSON.stringify(value);
+  return value;
+}
+
+// ISO date text as a date - date-only values at local midnight, which is how spreadsheets store days
+function isoDate(value: string): Date | null {
+  const match = value.match(ISO_DATE);
+  if (!match) return null;
+  const date = match[4] ? new Date(value) : new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isFormulaValue(value: unknown): value is FormulaValue {
+  return !!value && typeof value === 'object' && 'formula' in value && 'value' in value &&
+    typeof (value as FormulaValue).formula === 'string' && Object.keys(value).length === 2;
+}
+
+function sheetNameFor(name: string, index: number): string {
+  return name.replace(INVALID_SHEET_NAME, '_').replace(/^'|'$/g, '').slice(0, MAX_SHEET_NAME).trim() || `Sheet${index}`;
+}
+
+// Excel compares sheet names without regard to case
+function uniqueName(name: string, taken: string[]): string {
+  const used = new Set(taken.map(existing => existing.toLowerCase()));
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = name.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+  }
+  return candidate;
+}
+
+function intersectRanges(a: XLSX.Range, b: XLSX.Range): XLSX.Range | null {
+  const range = {
+    s: { r: Math.max(a.s.r, b.s.r), c: Math.max(a.s.c, b.s.c) },
+    e: { r: Math.min(a.e.r, b.e.r), c: Math.min(a.e.c, b.e.c) }
+  };
+  return range.s.r <= range.e.r && range.s.c <= range.e.c ? range : null;
+}
+
+/**
+ * Only the cells of `range`, left where they are so formulas still point at the right cells
+ */
+function cropSheet(sheet: XLSX.WorkSheet, range: XLSX.Range): XLSX.WorkSheet {
+  const cropped: XLSX.WorkSheet = {};
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const address = XLSX.utils.encode_cell({ r, c });
+      if (sheet[address]) cropped[address] = sheet[address];
+    }
+  }
+
+  cropped['!ref'] = XLSX.utils.encode_range(range);
+  cropped['!merges'] = (sheet['!merges'] || [])
+    .map(merge => intersectRanges(merge, range))
+    .filter((merge): merge is XLSX.Range => merge !== null);
+  if (sheet['!cols']) cropped['!cols'] = sheet['!cols'];
+  return cropped;
+}
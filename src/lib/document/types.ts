@@ -0,0 +1,179 @@
+/**
+ * Intermediate Document Model
+ * Every reader produces a DocumentModel and every writer consumes one,
+ * so N source formats and M target formats only need N readers + M writers.
+ */
+
+/**
+ * Inline content
+ */
+export type InlineMark = 'bold' | 'italic' | 'code' | 'strike' | 'underline' | 'superscript' | 'subscript';
+
+export interface TextInline {
+  type: 'text';
+  text: string;
+  marks?: InlineMark[];
+}
+
+export interface LinkInline {
+  type: 'link';
+  href: string;
+  title?: string;
+  children: Inline[];
+}
+
+export interface ImageInline extends DocumentImage {
+  type: 'image';
+}
+
+export interface LineBreakInline {
+  type: 'lineBreak';
+}
+
+/**
+ * TeX math source, kept as written so each writer can render it its own way
+ */
+export interface MathInline {
+  type: 'math';
+  tex: string;
+}
+
+export type Inline = TextInline | LinkInline | ImageInline | LineBreakInline | MathInline;
+
+/**
+ * Images - either referenced by src (URL / data URL) or carried as raw bytes
+ */
+export interface DocumentImage {
+  src?: string;
+  data?: Uint8Array;
+  mimeType?: string;
+  alt?: string;
+  title?: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Where a block came from in the source document (PDF pages, font sizes, OCR boxes)
+ */
+export interface SourceInfo {
+  pageNumber?: number;
+  fontSize?: number;
+  bounds?: { x: number; y: number; width: number; height: number }; // Pixels in the OCR'd image
+}
+
+/**
+ * Block content
+ */
+export interface HeadingBlock {
+  type: 'heading';
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  children: Inline[];
+  source?: SourceInfo;
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  children: Inline[];
+  source?: SourceInfo;
+}
+
+export interface ListItem {
+  blocks: Block[];
+  checked?: boolean;
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  start?: number;
+  items: ListItem[];
+  source?: SourceInfo;
+}
+
+export interface TableCell {
+  children: Inline[];
+  rowSpan?: number;
+  colSpan?: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface TableRow {
+  cells: TableCell[];
+}
+
+export interface TableBlock {
+  type: 'table';
+  rows: TableRow[];
+  headerRows: number;
+  caption?: string;
+  source?: SourceInfo;
+}
+
+export interface ImageBlock extends DocumentImage {
+  type: 'image';
+  caption?: string;
+  source?: SourceInfo;
+}
+
+export interface CodeBlock {
+  type: 'code';
+  text: string;
+  language?: string;
+  source?: SourceInfo;
+}
+
+export interface BlockquoteBlock {
+  type: 'blockquote';
+  children: Block[];
+  source?: SourceInfo;
+}
+
+export interface RuleBlock {
+  type: 'rule';
+  source?: SourceInfo;
+}
+
+export interface PageBreakBlock {
+  type: 'pageBreak';
+  source?: SourceInfo;
+}
+
+export interface MathBlock {
+  type: 'math';
+  tex: string; // Display math without its delimiters
+  source?: SourceInfo;
+}
+
+export type Block =
+  | HeadingBlock
+  | ParagraphBlock
+  | ListBlock
+  | TableBlock
+  | ImageBlock
+  | CodeBlock
+  | BlockquoteBlock
+  | RuleBlock
+  | PageBreakBlock
+  | MathBlock;
+
+/**
+ * Document metadata
+ */
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  language?: string;
+  subject?: string;
+  keywords?: string[];
+  createdAt?: string;
+  pageCount?: number;
+}
+
+/**
+ * Root of the tree
+ */
+export interface DocumentModel {
+  metadata: DocumentMetadata;
+  blocks: Block[];
+}
@@ -0,0 +1,284 @@
+/**
+ * Helpers for building and inspecting DocumentModel trees
+ */
+
+import type { Block, DocumentImage, DocumentMetadata, DocumentModel, Inline, InlineMark, TableBlock } from './types';
+
+export interface ImageAsset {
+  path: string;
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export function createDocument(blocks: Block[] = [], metadata: DocumentMetadata = {}): DocumentModel {
+  return { metadata, blocks };
+}
+
+export function text(value: string, marks?: InlineMark[]): Inline {
+  return marks && marks.length > 0 ? { type: 'text', text: value, marks } : { type: 'text', text: value };
+}
+
+export function paragraph(value: string): Block {
+  return { type: 'paragraph', children: [text(value)] };
+}
+
+/**
+ * Build a table block from a plain 2D string grid
+ */
+export function tableFromRows(rows: string[][], headerRows = 1): TableBlock {
+  return {
+    type: 'table',
+    headerRows: rows.length > 0 ? Math.min(headerRows, rows.length) : 0,
+    rows: rows.map(row => ({
+      cells: row.map(cell => ({ children: cell ? [text(cell)] : [] }))
+    }))
+  };
+}
+
+/**
+ * Flatten inline content to plain text
+ */
+export function inlineText(inlines: Inline[]): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text':
+        return inline.text;
+      case 'link':
+        return inlineText(inline.children);
+      case 'image':
+        return inline.alt || '';
+      case 'lineBreak':
+        return '\n';
+      case 'math':
+        return inline.tex;
+    }
+  }).join('');
+}
+
+/**
+ * Table cells as a plain 2D string grid
+ */
+export function tableToRows(table: TableBlock): string[][] {
+  return table.rows.map(row => row.cells.map(cell => inlineText(cell.children)));
+}
+
+/**
+ * Heading level from a PDF font size (standard body text is ~10-12pt)
+ */
+export function headingLevelForFontSize(fontSize: number): 1 | 2 | 3 | null {
+  if (fontSize >= 24) return 1;
+  if (fontSize >= 18) return 2;
+  if (fontSize >= 14) return 3;
+  return null;
+}
+
+/**
+ * First heading text, used as a fallback document title
+ */
+export function firstHeading(doc: DocumentModel): string | undefined {
+  const heading = doc.blocks.find(block => block.type === 'heading');
+  return heading && heading.type === 'heading' ? inlineText(heading.children) : undefined;
+}
+
+/**
+ * Visit every block (depth first, including list items and blockquotes)
+ */
+export function walkBlocks(blocks: Block[], visit: (block: Block) => void): void {
+  for (const block of blocks) {
+    visit(block);
+    if (block.type === 'list') {
+      block.items.forEach(item => walkBlocks(item.blocks, visit));
+    } else if (block.type === 'blockquote') {
+      walkBlocks(block.children, visit);
+    }
+  }
+}
+
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '&': '\\&',
+  '_': '\\_',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+export function escapeLaTeX(value: string): string {
+  return value.replace(/[\\{}&_%$#~^]/g, char => LATEX_SPECIALS[char]);
+}
+
+export function escapeRTF(value: string): string {
+  return value
+    .replace(/[\\{}]/g, '\\$&')
+    .replace(/[\u007F-\uFFFF]/g, char => {
+      const code = char.charCodeAt(0);
+      return `\\u${code > 32767 ? code - 65536 : code}?`;
+    });
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Usable src for an image - its own src, or a data URL built from raw bytes
+ */
+export function imageSource(image: DocumentImage): string {
+  if (image.data && image.data.length > 0) {
+    return `data:${image.mimeType || 'image/png'};base64,${bytesToBase64(image.data)}`;
+  }
+  return image.src || '';
+}
+
+/**
+ * Raw bytes for an image - its own data, or decoded from a base64 data URL
+ */
+export function imageBytes(image: DocumentImage): { data: Uint8Array; mimeType: string } | null {
+  if (image.data && image.data.length > 0) {
+    return { data: image.data, mimeType: image.mimeType || 'image/png' };
+  }
+  const match = (image.src || '').match(/^data:([^;,]+);base64,(.*)$/);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { data, mimeType: match[1] };
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+export function imageExtension(mimeType: string): string {
+  return IMAGE_EXTENSIONS[mimeType] || 'bin';
+}
+
+/**
+ * Number of images (blocks and inline) anywhere in the document
+ */
+export function countImages(doc: DocumentModel): number {
+  let count = 0;
+  mapImages(doc.blocks, image => {
+    count++;
+    return image;
+  });
+  return count;
+}
+
+/**
+ * Move embedded image bytes out of the tree into separate files.
+ * Images carrying data (raw bytes or data URLs) are rewritten to reference
+ * `folder/image-N.ext`; linked images are left alone.
+ */
+export function externalizeImages(doc: DocumentModel, folder: string): { document: DocumentModel; assets: ImageAsset[] } {
+  const assets: ImageAsset[] = [];
+  const blocks = mapImages(doc.blocks, image => {
+    const bytes = imageBytes(image);
+    if (!bytes) return image;
+
+    const path = `${folder}/image-${assets.length + 1}.${imageExtension(bytes.mimeType)}`;
+    assets.push({ path, data: bytes.data, mimeType: bytes.mimeType });
+    return { ...image, src: path, data: undefined, mimeType: bytes.mimeType };
+  });
+  return { document: { ...doc, blocks }, assets };
+}
+
+/**
+ * Copy of the blocks with every image (blocks and inlines, at any depth) passed through `map`
+ */
+export function mapImages(blocks: Block[], map: <T extends DocumentImage>(image: T) => T): Block[] {
+  const mapInlines = (inlines: Inline[]): Inline[] => inlines.map(inline => {
+    if (inline.type === 'image') return map(inline);
+    if (inline.type === 'link') return { ...inline, children: mapInlines(inline.children) };
+    return inline;
+  });
+
+  return blocks.map((block): Block => {
+    switch (block.type) {
+      case 'image':
+        return map(block);
+      case 'heading':
+      case 'paragraph':
+        return { ...block, children: mapInlines(block.children) };
+      case 'list':
+        return { ...block, items: block.items.map(item => ({ ...item, blocks: mapImages(item.blocks, map) })) };
+      case 'blockquote':
+        return { ...block, children: mapImages(block.children, map) };
+      case 'table':
+        return {
+          ...block,
+          rows: block.rows.map(row => ({ cells: row.cells.map(cell => ({ ...cell, children: mapInlines(cell.children) })) }))
+        };
+      default:
+        return block;
+    }
+  });
+}
+
+/**
+ * Pixel size from PNG / JPEG / GIF / BMP headers (null if unknown)
+ */
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (bytes.length < 24) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // PNG: IHDR width/height
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  // GIF: logical screen size
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  // BMP: DIB header
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d && bytes.length >= 26) {
+    return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+  }
+  // JPEG: first SOFn marker
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,786 @@
+/**
+ * Document Writers
+ * Turn a DocumentModel into target markup (HTML, Markdown, plain text, RTF, ODT, DOCX)
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  PageBreak,
+  Paragraph,
+  ParagraphChild,
+  Table,
+  TableCell as DocxTableCell,
+  TableRow as DocxTableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import type { Block, DocumentModel, Inline, InlineMark, TableBlock } from './types';
+import {
+  escapeHTML,
+  escapeRTF,
+  escapeXML,
+  imageBytes,
+  imageSource,
+  inlineText,
+  readImageSize,
+  tableToRows
+} from './utils';
+import { writeDocxMath, writeMathML } from './math';
+import { writeCSV, type CSVDialect } from '../text/csv';
+
+// ---------------------------------------------------------------------------
+// HTML (XHTML-safe so the same output can go into EPUB)
+// ---------------------------------------------------------------------------
+
+const HTML_MARK_TAGS: Record<InlineMark, string> = {
+  bold: 'strong',
+  italic: 'em',
+  code: 'code',
+  strike: 's',
+  underline: 'u',
+  superscript: 'sup',
+  subscript: 'sub'
+};
+
+export function writeHTML(doc: DocumentModel): string {
+  return doc.blocks.map(htmlBlock).filter(Boolean).join('\n');
+}
+
+export function writeHTMLInlines(inlines: Inline[]): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text':
+        return (inline.marks || []).reduceRight(
+          (html, mark) => `<${HTML_MARK_TAGS[mark]}>${html}</${HTML_MARK_TAGS[mark]}>`,
+          escapeHTML(inline.text)
+        );
+      case 'link': {
+        const title = inline.title ? ` title="${escapeHTML(inline.title)}"` : '';
+        return `<a href="${escapeHTML(inline.href)}"${title}>${writeHTMLInlines(inline.children)}</a>`;
+      }
+      case 'image':
+        return htmlImage(inline);
+      case 'lineBreak':
+        return '<br />';
+      case 'math':
+        return writeMathML(inline.tex);
+    }
+  }).join('');
+}
+
+function htmlImage(image: { src?: string; data?: Uint8Array; mimeType?: string; alt?: string; title?: string; width?: number; height?: number }): string {
+  const attrs = [`src="${escapeHTML(imageSource(image))}"`, `alt="${escapeHTML(image.alt || '')}"`];
+  if (image.title) attrs.push(`title="${escapeHTML(image.title)}"`);
+  if (image.width) attrs.push(`width="${image.width}"`);
+  if (image.height) attrs.push(`height="${image.height}"`);
+  return `<img ${attrs.join(' ')} />`;
+}
+
+function htmlBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${writeHTMLInlines(block.children)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${writeHTMLInlines(block.children)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items.map(item => {
+        const checkbox = item.checked === undefined ? '' : `<input type="checkbox" disabled="disabled"${item.checked ? ' checked="checked"' : ''} /> `;
+        // A leading paragraph is written without the <p> wrapper (tight list)
+        const [first, ...rest] = item.blocks;
+        const body = first && first.type === 'paragraph'
+          ? [writeHTMLInlines(first.children), ...rest.map(htmlBlock)].join('\n')
+          : item.blocks.map(htmlBlock).join('\n');
+        return `<li>${checkbox}${body}</li>`;
+      });
+      return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+    }
+    case 'table':
+      return htmlTable(block);
+    case 'image': {
+      const img = htmlImage(block);
+      return block.caption
+        ? `<figure>${img}<figcaption>${escapeHTML(block.caption)}</figcaption></figure>`
+        : `<figure>${img}</figure>`;
+    }
+    case 'code': {
+      const langClass = block.language ? ` class="language-${escapeHTML(block.language)}"` : '';
+      return `<pre><code${langClass}>${escapeHTML(block.text)}</code></pre>`;
+    }
+    case 'blockquote':
+      return `<blockquote>\n${block.children.map(htmlBlock).join('\n')}\n</blockquote>`;
+    case 'rule':
+      return '<hr />';
+    case 'pageBreak':
+      return '<hr class="page-break" />';
+    case 'math':
+      return writeMathML(block.tex, true);
+  }
+}
+
+function htmlTable(table: TableBlock): string {
+  const renderRow = (row: TableBlock['rows'][number], cellTag: 'th' | 'td') => {
+    const cells = row.cells.map(cell => {
+      const attrs: string[] = [];
+      if (cell.rowSpan && cell.rowSpan > 1) attrs.push(`rowspan="${cell.rowSpan}"`);
+      if (cell.colSpan && cell.colSpan > 1) attrs.push(`colspan="${cell.colSpan}"`);
+      if (cell.align) attrs.push(`style="text-align: ${cell.align}"`);
+      const attrString = attrs.length > 0 ? ' ' + attrs.join(' ') : '';
+      return `<${cellTag}${attrString}>${writeHTMLInlines(cell.children)}</${cellTag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  };
+
+  const head = table.rows.slice(0, table.headerRows).map(row => renderRow(row, 'th'));
+  const body = table.rows.slice(table.headerRows).map(row => renderRow(row, 'td'));
+  const caption = table.caption ? `<caption>${escapeHTML(table.caption)}</caption>` : '';
+
+  return `<table>${caption}${head.length > 0 ? `<thead>${head.join('')}</thead>` : ''}<tbody>${body.join('')}</tbody></table>`;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+const MARKDOWN_MARKS: Partial<Record<InlineMark, [string, string]>> = {
+  bold: ['**', '**'],
+  italic: ['*', '*'],
+  strike: ['~~', '~~'],
+  underline: ['<u>', '</u>'],
+  superscript: ['<sup>', '</sup>'],
+  subscript: ['<sub>', '</sub>']
+};
+
+export function writeMarkdown(doc: DocumentModel): string {
+  return markdownBlocks(doc.blocks).trim() + '\n';
+}
+
+function markdownBlocks(blocks: Block[]): string {
+  return blocks.map(markdownBlock).filter(Boolean).join('\n\n');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+export function writeMarkdownInlines(inlines: Inline[]): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text': {
+        const marks = inline.marks || [];
+        if (!inline.text.trim()) return inline.text;
+
+        // Keep surrounding whitespace outside the delimiters (`** bold**` is not bold)
+        const [, leading, core, trailing] = inline.text.match(/^(\s*)([\s\S]*?)(\s*)$/) || ['', '', inline.text, ''];
+        let value = marks.includes('code') ? `\`${core.replace(/`/g, '\u02CB')}\`` : escapeMarkdown(core);
+        marks.forEach(mark => {
+          const delimiters = MARKDOWN_MARKS[mark];
+          if (delimiters) value = `${delimiters[0]}${value}${delimiters[1]}`;
+        });
+        return leading + value + trailing;
+      }
+      case 'link': {
+        const title = inline.title ? ` "${inline.title.replace(/"/g, '\\"')}"` : '';
+        return `[${writeMarkdownInlines(inline.children)}](${inline.href}${title})`;
+      }
+      case 'image':
+        return `![${escapeMarkdown(inline.alt || '')}](${imageSource(inline)})`;
+      case 'lineBreak':
+        return '  \n';
+      case 'math':
+        return `$${inline.tex}$`;
+    }
+  }).join('');
+}
+
+function markdownBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${writeMarkdownInlines(block.children).replace(/\s*\n\s*/g, ' ')}`;
+    case 'paragraph':
+      return writeMarkdownInlines(block.children);
+    case 'list':
+      return block.items.map((item, index) => {
+        const marker = block.ordered ? `${(block.start ?? 1) + index}. ` : '- ';
+        const checkbox = item.checked === undefined ? '' : item.checked ? '[x] ' : '[ ] ';
+        const body = listItemBody(item.blocks, markdownBlock);
+        const indent = ' '.repeat(marker.length);
+        return marker + checkbox + body.split('\n').map((line, i) => (i === 0 || !line ? line : indent + line)).join('\n');
+      }).join('\n');
+    case 'table':
+      return markdownTable(block);
+    case 'image':
+      return `![${escapeMarkdown(block.alt || block.caption || '')}](${imageSource(block)})`;
+    case 'code': {
+      const fence = block.text.includes('```') ? '~~~~' : '```';
+      return `${fence}${block.language || ''}\n${block.text}\n${fence}`;
+    }
+    case 'blockquote':
+      return markdownBlocks(block.children).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    case 'rule':
+      return '---';
+    case 'pageBreak':
+      return '';
+    case 'math':
+      return `$$\n${block.tex}\n$$`;
+  }
+}
+
+/**
+ * List item content - nested lists follow their paragraph directly so the list stays tight
+ */
+function listItemBody(blocks: Block[], render: (block: Block) => string): string {
+  return blocks.reduce((body, block, index) => {
+    const part = render(block);
+    if (!part) return body;
+    if (index === 0) return part;
+    return body + (block.type === 'list' ? '\n' : '\n\n') + part;
+  }, '');
+}
+
+function markdownTable(table: TableBlock): string {
+  const rows = table.rows.map(row => {
+    const cells: string[] = [];
+    row.cells.forEach(cell => {
+      cells.push(writeMarkdownInlines(cell.children).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>'));
+      for (let span = 1; span < (cell.colSpan || 1); span++) cells.push('');
+    });
+    return cells;
+  });
+  if (rows.length === 0) return '';
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columnCount - row.length).fill('')];
+  const [header, ...body] = rows.map(pad);
+  const alignments = (table.rows[0]?.cells || []).map(cell =>
+    cell.align === 'center' ? ':---:' : cell.align === 'right' ? '---:' : '---'
+  );
+
+  const lines = [
+    `| ${header.map(cell => cell || ' ').join(' | ')} |`,
+    `| ${pad(alignments).map(align => align || '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.join(' | ')} |`)
+  ];
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+// ---------------------------------------------------------------------------
+
+export function writePlainText(doc: DocumentModel): string {
+  return plainTextBlocks(doc.blocks).trim();
+}
+
+function plainTextBlocks(blocks: Block[]): string {
+  return blocks.map(plainTextBlock).filter(Boolean).join('\n\n');
+}
+
+function plainTextBlock(block: Block): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'list':
+      return block.items.map((item, index) => {
+        const marker = block.ordered ? `${(block.start ?? 1) + index}. ` : '- ';
+        const indent = ' '.repeat(marker.length);
+        return marker + listItemBody(item.blocks, plainTextBlock).split('\n').map((line, i) => (i === 0 || !line ? line : indent + line)).join('\n');
+      }).join('\n');
+    case 'table':
+      return plainTextTable(block);
+    case 'image':
+      return `[Image${block.alt || block.caption ? `: ${block.alt || block.caption}` : ''}]`;
+    case 'code':
+      return block.text;
+    case 'blockquote':
+      return plainTextBlocks(block.children).split('\n').map(line => `> ${line}`).join('\n');
+    case 'rule':
+      return '-'.repeat(40);
+    case 'pageBreak':
+      return block.source?.pageNumber ? `--- Page ${block.source.pageNumber} ---` : '\f';
+    case 'math':
+      return block.tex;
+  }
+}
+
+/**
+ * Table as aligned columns with a dashed separator under the header rows
+ */
+function plainTextTable(table: TableBlock): string {
+  const rows = tableToRows(table).map(row => row.map(cell => cell.replace(/\s*\n\s*/g, ' ')));
+  if (rows.length === 0) return '';
+
+  const padding = 2;
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const widths = Array.from({ length: columnCount }, (_, col) =>
+    Math.max(...rows.map(row => (row[col] || '').length))
+  );
+
+  const renderRow = (row: string[]) =>
+    widths.map((width, col) => (row[col] || '').padEnd(width + padding)).join('').trimEnd();
+
+  const lines = rows.map(renderRow);
+  if (table.headerRows > 0) {
+    lines.splice(table.headerRows, 0, widths.map(width => '-'.repeat(width + padding)).join('').trimEnd());
+  }
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// RTF
+// ---------------------------------------------------------------------------
+
+const RTF_HEADING_SIZES = [40, 32, 28, 26, 24, 24]; // half-points
+
+export function writeRTF(doc: DocumentModel): string {
+  let rtf = '{\\rtf1\\ansi\\deff0\n';
+  rtf += '{\\fonttbl{\\f0 Arial;}{\\f1 Courier New;}}\n';
+  rtf += '{\\colortbl;\\red0\\green0\\blue255;}\n';
+  rtf += '\\f0\\fs24\n';
+  rtf += doc.blocks.map(block => rtfBlock(block, 0)).join('');
+  rtf += '}';
+  return rtf;
+}
+
+function rtfInlines(inlines: Inline[]): string {
+  return inlines.map(inline => {
+    switch (inline.type) {
+      case 'text': {
+        const codes = (inline.marks || []).map(mark => ({
+          bold: '\\b',
+          italic: '\\i',
+          underline: '\\ul',
+          strike: '\\strike',
+          code: '\\f1',
+          superscript: '\\super',
+          subscript: '\\sub'
+        })[mark]);
+        const value = escapeRTF(inline.text);
+        return codes.length > 0 ? `{${codes.join('')} ${value}}` : value;
+      }
+      case 'link':
+        return `{\\field{\\*\\fldinst HYPERLINK "${inline.href.replace(/["\\{}]/g, '')}"}{\\fldrslt {\\ul\\cf1 ${rtfInlines(inline.children)}}}}`;
+      case 'image':
+        return escapeRTF(`[Image${inline.alt ? `: ${inline.alt}` : ''}]`);
+      case 'lineBreak':
+        return '\\line ';
+      case 'math':
+        return `{\\i ${escapeRTF(inline.tex)}}`;
+    }
+  }).join('');
+}
+
+function rtfBlock(block: Block, indent: number): string {
+  const li = indent > 0 ? `\\li${indent}` : '';
+
+  switch (block.type) {
+    case 'heading':
+      return `\\pard${li}\\sb240\\sa120\\keepn\\b\\fs${RTF_HEADING_SIZES[block.level - 1]} ${rtfInlines(block.children)}\\b0\\fs24\\par\n`;
+    case 'paragraph':
+      return `\\pard${li}\\sa200\\sl276\\slmult1 ${rtfInlines(block.children)}\\par\n`;
+    case 'list':
+      return block.items.map((item, index) => {
+        const marker = block.ordered ? `${(block.start ?? 1) + index}.` : '\\bullet';
+        const itemIndent = indent + 720;
+        const [first, ...rest] = item.blocks;
+        const firstText = first && (first.type === 'paragraph' || first.type === 'heading') ? rtfInlines(first.children) : '';
+        let out = `\\pard\\fi-360\\li${itemIndent}\\sa100 ${marker}\\tab ${firstText}\\par\n`;
+        const remaining = firstText || !first ? rest : item.blocks;
+        out += remaining.map(child => rtfBlock(child, itemIndent)).join('');
+        return out;
+      }).join('');
+    case 'table': {
+      const columnCount = Math.max(1, ...block.rows.map(row => row.cells.length));
+      const cellWidth = Math.floor(9000 / columnCount);
+      const border = '\\clbrdrt\\brdrs\\brdrw10 \\clbrdrl\\brdrs\\brdrw10 \\clbrdrb\\brdrs\\brdrw10 \\clbrdrr\\brdrs\\brdrw10 ';
+      return block.rows.map((row, rowIndex) => {
+        let out = '\\trowd\\trgaph108\\trleft-108\n';
+        for (let i = 0; i < columnCount; i++) {
+          out += `${border}\\cellx${(i + 1) * cellWidth}\n`;
+        }
+        for (let i = 0; i < columnCount; i++) {
+          const cell = row.cells[i];
+          const value = cell ? rtfInlines(cell.children) : '';
+          out += rowIndex < block.headerRows ? `\\pard\\intbl {\\b ${value}}\\cell\n` : `\\pard\\intbl ${value}\\cell\n`;
+        }
+        return out + '\\row\n';
+      }).join('') + '\\pard\\par\n';
+    }
+    case 'image':
+      return `\\pard${li}\\sa200 ${escapeRTF(`[Image${block.alt || block.caption ? `: ${block.alt || block.caption}` : ''}]`)}\\par\n`;
+    case 'code':
+      return `\\pard${li}\\sa200\\f1\\fs20 ${block.text.split('\n').map(escapeRTF).join('\\line ')}\\f0\\fs24\\par\n`;
+    case 'blockquote':
+      return block.children.map(child => rtfBlock(child, indent + 720)).join('').replace(/\\pard(\\li\d+)?/g, `\\pard\\li${indent + 720}\\i`).replace(/\\par\n/g, '\\i0\\par\n');
+    case 'rule':
+      return `\\pard${li}\\brdrb\\brdrs\\brdrw10\\brsp20 \\par\n`;
+    case 'pageBreak':
+      return '\\page\n';
+    case 'math':
+      return `\\pard${li}\\qc\\sa200\\i ${block.tex.split('\n').map(escapeRTF).join('\\line ')}\\i0\\par\n`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenDocument Text (office:text body + the automatic styles it references)
+// ---------------------------------------------------------------------------
+
+const ODT_MARK_STYLES: Record<InlineMark, string> = {
+  bold: 'T_Bold',
+  italic: 'T_Italic',
+  code: 'T_Code',
+  strike: 'T_Strike',
+  underline: 'T_Underline',
+  superscript: 'T_Super',
+  subscript: 'T_Sub'
+};
+
+export const ODT_AUTOMATIC_STYLES = `<office:automatic-styles>
+    <style:style style:name="T_Bold" style:family="text"><style:text-properties fo:font-weight="bold"/></style:style>
+    <style:style style:name="T_Italic" style:family="text"><style:text-properties fo:font-style="italic"/></style:style>
+    <style:style style:name="T_Code" style:family="text"><style:text-properties style:font-name="Courier New" fo:font-family="'Courier New'"/></style:style>
+    <style:style style:name="T_Strike" style:family="text"><style:text-properties style:text-line-through-style="solid"/></style:style>
+    <style:style style:name="T_Underline" style:family="text"><style:text-properties style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>
+    <style:style style:name="T_Super" style:family="text"><style:text-properties style:text-position="super 58%"/></style:style>
+    <style:style style:name="T_Sub" style:family="text"><style:text-properties style:text-position="sub 58%"/></style:style>
+    <style:style style:name="P_Code" style:family="paragraph"><style:text-properties style:font-name="Courier New" fo:font-family="'Courier New'"/></style:style>
+    <style:style style:name="P_Quote" style:family="paragraph"><style:paragraph-properties fo:margin-left="1cm"/></style:style>
+  </office:automatic-styles>`;
+
+export function writeODTBody(doc: DocumentModel): string {
+  let tableCount = 0;
+
+  const inlines = (items: Inline[]): string => items.map(inline => {
+    switch (inline.type) {
+      case 'text':
+        return (inline.marks || []).reduceRight(
+          (value, mark) => `<text:span text:style-name="${ODT_MARK_STYLES[mark]}">${value}</text:span>`,
+          escapeXML(inline.text)
+        );
+      case 'link':
+        return `<text:a xlink:type="simple" xlink:href="${escapeXML(inline.href)}">${inlines(inline.children)}</text:a>`;
+      case 'image':
+        return escapeXML(`[Image${inline.alt ? `: ${inline.alt}` : ''}]`);
+      case 'lineBreak':
+        return '<text:line-break/>';
+      case 'math':
+        return `<text:span text:style-name="T_Italic">${escapeXML(inline.tex)}</text:span>`;
+    }
+  }).join('');
+
+  const blockXML = (block: Block, paragraphStyle?: string): string => {
+    const styleAttr = paragraphStyle ? ` text:style-name="${paragraphStyle}"` : '';
+    switch (block.type) {
+      case 'heading':
+        return `<text:h text:outline-level="${block.level}">${inlines(block.children)}</text:h>`;
+      case 'paragraph':
+        return `<text:p${styleAttr}>${inlines(block.children)}</text:p>`;
+      case 'list':
+        return `<text:list>${block.items.map(item =>
+          `<text:list-item>${item.blocks.map(child => blockXML(child, paragraphStyle)).join('') || '<text:p/>'}</text:list-item>`
+        ).join('')}</text:list>`;
+      case 'table': {
+        tableCount++;
+        const columnCount = Math.max(1, ...block.rows.map(row => row.cells.length));
+        const rowXML = (row: TableBlock['rows'][number]) => `<table:table-row>${Array.from({ length: columnCount }, (_, i) => {
+          const cell = row.cells[i];
+          return `<table:table-cell office:value-type="string"><text:p>${cell ? inlines(cell.children) : ''}</text:p></table:table-cell>`;
+        }).join('')}</table:table-row>`;
+        const header = block.rows.slice(0, block.headerRows).map(rowXML).join('');
+        const body = block.rows.slice(block.headerRows).map(rowXML).join('');
+        return `<table:table table:name="Table${tableCount}"><table:table-column table:number-columns-repeated="${columnCount}"/>` +
+          (header ? `<table:table-header-rows>${header}</table:table-header-rows>` : '') +
+          `${body}</table:table>`;
+      }
+      case 'image':
+        return `<text:p${styleAttr}>${escapeXML(`[Image${block.alt || block.caption ? `: ${block.alt || block.caption}` : ''}]`)}</text:p>`;
+      case 'code':
+        return `<text:p text:style-name="P_Code">${block.text.split('\n').map(line =>
+          escapeXML(line).replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+        ).join('<text:line-break/>')}</text:p>`;
+      case 'blockquote':
+        return block.children.map(child => blockXML(child, 'P_Quote')).join('');
+      case 'rule':
+        return '<text:p/>';
+      case 'pageBreak':
+        return '';
+      case 'math':
+        return `<text:p${styleAttr}><text:span text:style-name="T_Italic">${block.tex.split('\n').map(escapeXML).join('<text:line-break/>')}</text:span></text:p>`;
+    }
+  };
+
+  return doc.blocks.map(block => blockXML(block)).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// DOCX (body children + the numbering config ordered lists reference)
+// ---------------------------------------------------------------------------
+
+const DOCX_HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+const DOCX_IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp'
+};
+
+export const DOCX_ORDERED_LIST = 'ordered-list';
+
+export const DOCX_NUMBERING = {
+  config: [{
+    reference: DOCX_ORDERED_LIST,
+    levels: Array.from({ length: 9 }, (_, level) => ({
+      level,
+      format: LevelFormat.DECIMAL,
+      text: `%${level + 1}.`,
+      alignment: AlignmentType.START,
+      style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+    }))
+  }]
+};
+
+// Maximum image width in pixels (roughly the text width of an A4 page)
+const DOCX_MAX_IMAGE_WIDTH = 600;
+
+export function writeDocxChildren(doc: DocumentModel): (Paragraph | Table)[] {
+  let listInstance = 0;
+
+  const runs = (inlines: Inline[], base: { bold?: boolean } = {}): ParagraphChild[] => inlines.flatMap((inline): ParagraphChild[] => {
+    switch (inline.type) {
+      case 'text': {
+        const marks = inline.marks || [];
+        return [new TextRun({
+          text: inline.text,
+          bold: base.bold || marks.includes('bold') || undefined,
+          italics: marks.includes('italic') || undefined,
+          strike: marks.includes('strike') || undefined,
+          underline: marks.includes('underline') ? {} : undefined,
+          superScript: marks.includes('superscript') || undefined,
+          subScript: marks.includes('subscript') || undefined,
+          font: marks.includes('code') ? 'Courier New' : undefined
+        })];
+      }
+      case 'link':
+        return [new ExternalHyperlink({
+          link: inline.href,
+          children: [new TextRun({ text: inlineText(inline.children), style: 'Hyperlink' })]
+        })];
+      case 'image': {
+        const image = docxImage(inline);
+        return image ? [image] : [new TextRun({ text: `[Image${inline.alt ? `: ${inline.alt}` : ''}]`, italics: true })];
+      }
+      case 'lineBreak':
+        return [new TextRun({ break: 1 })];
+      case 'math':
+        return [writeDocxMath(inline.tex)];
+    }
+  });
+
+  const blockChildren = (block: Block, level: number, quoted: boolean): (Paragraph | Table)[] => {
+    const indent = quoted ? { left: 720 } : undefined;
+
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({
+          children: runs(block.children),
+          heading: DOCX_HEADINGS[block.level - 1],
+          spacing: { before: 200, after: 100 }
+        })];
+      case 'paragraph':
+        return [new Paragraph({
+          children: runs(block.children),
+          spacing: { after: 200 },
+          indent
+        })];
+      case 'list': {
+        const instance = ++listInstance;
+        return block.items.flatMap(item => item.blocks.flatMap((child, index) => {
+          if (child.type === 'list') return blockChildren(child, level + 1, quoted);
+          if (index === 0 && (child.type === 'paragraph' || child.type === 'heading')) {
+            return [new Paragraph({
+              children: runs(child.children),
+              ...(block.ordered
+                ? { numbering: { reference: DOCX_ORDERED_LIST, level, instance } }
+                : { bullet: { level } })
+            })];
+          }
+          return blockChildren(child, level, quoted);
+        }));
+      }
+      case 'table':
+        return [docxTable(block), new Paragraph({ text: '', spacing: { after: 200 } })];
+      case 'image': {
+        const image = docxImage(block);
+        const children: ParagraphChild[] = image
+          ? [image]
+          : [new TextRun({ text: `[Image${block.alt ? `: ${block.alt}` : ''}]`, italics: true })];
+        const result = [new Paragraph({ children, alignment: AlignmentType.CENTER, spacing: { after: block.caption ? 60 : 200 } })];
+        if (block.caption) {
+          result.push(new Paragraph({
+            children: [new TextRun({ text: block.caption, italics: true, size: 18 })],
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 200 }
+          }));
+        }
+        return result;
+      }
+      case 'code':
+        return [new Paragraph({
+          children: block.text.split('\n').flatMap((line, index) => [
+            ...(index > 0 ? [new TextRun({ break: 1 })] : []),
+            new TextRun({ text: line, font: 'Courier New', size: 20 })
+          ]),
+          shading: { fill: 'F5F5F5' },
+          spacing: { after: 200 },
+          indent
+        })];
+      case 'blockquote':
+        return block.children.flatMap(child => blockChildren(child, level, true));
+      case 'rule':
+        return [new Paragraph({
+          text: '',
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: '999999', space: 1 } },
+          spacing: { after: 200 }
+        })];
+      case 'pageBreak':
+        return [new Paragraph({ children: [new PageBreak()] })];
+      case 'math':
+        return [new Paragraph({
+          children: [writeDocxMath(block.tex, true)],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 },
+          indent
+        })];
+    }
+  };
+
+  const docxTable = (table: TableBlock): Table => {
+    const columnCount = Math.max(1, ...table.rows.map(row => row.cells.reduce((sum, cell) => sum + (cell.colSpan || 1), 0)));
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: {
+        top: { style: BorderStyle.SINGLE, size: 1, color: '999999' },
+        bottom: { style: BorderStyle.SINGLE, size: 1, color: '999999' },
+        left: { style: BorderStyle.SINGLE, size: 1, color: '999999' },
+        right: { style: BorderStyle.SINGLE, size: 1, color: '999999' },
+        insideHorizontal: { style: BorderStyle.SINGLE, size: 1, color: 'CCCCCC' },
+        insideVertical: { style: BorderStyle.SINGLE, size: 1, color: 'CCCCCC' }
+      },
+      rows: table.rows.map((row, rowIndex) => {
+        const isHeader = rowIndex < table.headerRows;
+        return new DocxTableRow({
+          tableHeader: isHeader || undefined,
+          children: row.cells.map(cell => new DocxTableCell({
+            children: [new Paragraph({ children: runs(cell.children, { bold: isHeader }) })],
+            columnSpan: cell.colSpan,
+            rowSpan: cell.rowSpan,
+            shading: isHeader ? { fill: 'EFEFEF' } : undefined,
+            width: { size: (100 / columnCount) * (cell.colSpan || 1), type: WidthType.PERCENTAGE },
+            margins: { top: 100, bottom: 100, left: 100, right: 100 }
+          }))
+        });
+      })
+    });
+  };
+
+  return doc.blocks.flatMap(block => blockChildren(block, 0, false));
+}
+
+function docxImage(image: { src?: string; data?: Uint8Array; mimeType?: string; width?: number; height?: number; alt?: string }): ImageRun | null {
+  const bytes = imageBytes(image);
+  if (!bytes) return null;
+  const type = DOCX_IMAGE_TYPES[bytes.mimeType];
+  if (!type) return null;
+
+  const size = image.width && image.height
+    ? { width: image.width, height: image.height }
+    : readImageSize(bytes.data) || { width: 400, height: 300 };
+  const scale = Math.min(1, DOCX_MAX_IMAGE_WIDTH / size.width);
+
+  return new ImageRun({
+    type,
+    data: bytes.data,
+    transformation: { width: Math.round(size.width * scale), height: Math.round(size.height * scale) },
+    altText: image.alt ? { name: image.alt, description: image.alt, title: image.alt } : undefined
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Structured outlines (JSON / XML / CSV views of a document)
+// ---------------------------------------------------------------------------
+
+/**
+ * Paragraphs (with font size and page when known) and tables as JSON
+ */
+export function writeJSONOutline(doc: DocumentModel): string {
+  const paragraphs: Array<{ text: string; fontSize?: number; page?: number; heading?: number }> = [];
+  const tables: Array<{ rows: string[][]; page?: number }> = [];
+
+  doc.blocks.forEach(block => {
+    if (block.type === 'paragraph' || block.type === 'heading') {
+      paragraphs.push({
+        text: inlineText(block.children),
+        fontSize: block.source?.fontSize,
+        page: block.source?.pageNumber,
+        heading: block.type === 'heading' ? block.level : undefined
+      });
+    } else if (block.type === 'table') {
+      tables.push({ rows: tableToRows(block), page: block.source?.pageNumber });
+    }
+  });
+
+  return JSON.stringify({ metadata: doc.metadata, document: { paragraphs, tables } }, null, 2);
+}
+
+export function writeXMLOutline(doc: DocumentModel): string {
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n<document>\n';
+
+  doc.blocks.forEach(block => {
+    const attrs = (source?: { fontSize?: number; pageNumber?: number }) =>
+      (source?.fontSize ? ` fontSize="${source.fontSize}"` : '') + (source?.pageNumber ? ` page="${source.pageNumber}"` : '');
+
+    if (block.type === 'heading') {
+      xml += `  <heading level="${block.level}"${attrs(block.source)}>${escapeXML(inlineText(block.children))}</heading>\n`;
+    } else if (block.type === 'paragraph') {
+      xml += `  <paragraph${attrs(block.source)}>${escapeXML(inlineText(block.children))}</paragraph>\n`;
+    } else if (block.type === 'table') {
+      xml += `  <table${attrs(block.source)}>\n`;
+      tableToRows(block).forEach((row, index) => {
+        xml += `    <row index="${index}">\n`;
+        row.forEach((cell, cellIndex) => {
+          xml += `      <cell index="${cellIndex}">${escapeXML(cell)}</cell>\n`;
+        });
+        xml += '    </row>\n';
+      });
+      xml += '  </table>\n';
+    }
+  });
+
+  return xml + '</document>';
+}
+
+/**
+ * Every table in the document as CSV, separated by blank lines
+ */
+export function writeTablesCSV(doc: DocumentModel, dialect: CSVDialect = {}): string {
+  return doc.blocks
+    .filter((block): block is TableBlock => block.type === 'table')
+    .map(table => writeCSV(tableToRows(table), dialect))
+    .join('\n\n');
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { encodeBMP } from './bmp';
+
+// A 3x2 image: red, green, blue over half-transparent black, white, opaque black
+const image = {
+  width: 3,
+  height: 2,
+  data: Uint8ClampedArray.from([
+    255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+    0, 0, 0, 128, 255, 255, 255, 255, 0, 0, 0, 255
+  ])
+};
+
+function header(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return {
+    signature: String.fromCharCode(bytes[0], bytes[1]),
+    fileSize: view.getUint32(2, true),
+    pixelOffset: view.getUint32(10, true),
+    headerSize: view.getUint32(14, true),
+    width: view.getInt32(18, true),
+    height: view.getInt32(22, true),
+    bitDepth: view.getUint16(28, true),
+    compression: view.getUint32(30, true),
+    pixelsPerMeter: view.getInt32(38, true)
+  };
+}
+
+describe('encodeBMP', () => {
+  it('writes 24-bit BGR rows bottom-up, padded to 4 bytes, with alpha composited onto white', () => {
+    const bytes = encodeBMP(image);
+    const info = header(bytes);
+
+    expect(info).toMatchObject({ signature: 'BM', headerSize: 40, width: 3, height: 2, bitDepth: 24, compression: 0, pixelsPerMeter: 3780 });
+    expect(info.pixelOffset).toBe(54);
+    expect(info.fileSize).toBe(bytes.length);
+    expect(bytes.length).toBe(54 + 2 * 12);
+
+    const rows = [bytes.subarray(54, 66), bytes.subarray(66, 78)];
+    expect(Array.from(rows[0])).toEqual([127, 127, 127, 255, 255, 255, 0, 0, 0, 0, 0, 0]);
+    expect(Array.from(rows[1])).toEqual([0, 0, 255, 0, 255, 0, 255, 0, 0, 0, 0, 0]);
+  });
+
+  it('writes 32-bit BGRA with channel masks so the alpha channel survives', () => {
+    const bytes = encodeBMP(image, 32, 300);
+    const info = header(bytes);
+    const view = new DataView(bytes.buffer);
+
+    expect(info).toMatchObject({ headerSize: 108, bitDepth: 32, compression: 3, pixelsPerMeter: 11811 });
+    expect(info.pixelOffset).toBe(122);
+    expect([view.getUint32(54, true), view.getUint32(66, true)]).toEqual([0x00ff0000, 0xff000000]);
+    expect(Array.from(bytes.subarray(122, 126))).toEqual([0, 0, 0, 128]);
+    expect(Array.from(bytes.subarray(134, 138))).toEqual([0, 0, 255, 255]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * BMP Encoder
+ * 24-bit BI_RGB, or 32-bit BI_BITFIELDS with a BITMAPV4HEADER so the alpha
+ * channel survives. Rows are written bottom-up as the format expects.
+ */
+
+export type BMPBitDepth = 24 | 32;
+
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40; // BITMAPINFOHEADER
+const V4_HEADER_SIZE = 108; // BITMAPV4HEADER
+export function encodeBMP(pixels: Pixels, bitDepth: BMPBitDepth = 24, dpi = 96): Uint8Array {
+  const { width, height, data } = pixels;
+  const bytesPerPixel = bitDepth / 8;
+  const rowSize = Math.ceil(width * bytesPerPixel / 4) * 4; // Rows are padded to 4 bytes
+  const headerSize = bitDepth === 32 ? V4_HEADER_SIZE : INFO_HEADER_SIZE;
+  const pixelOffset = FILE_HEADER_SIZE + headerSize;
+  const fileSize = pixelOffset + rowSize * height;
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const output = new Uint8Array(fileSize);
+  const view = new DataView(output.buffer);
+
+  // BITMAPFILEHEADER
+  output[0] = 0x42; // 'B'
+  output[1] = 0x4d; // 'M'
+  view.setUint32(2, fileSize, true);
+  view.setUint32(10, pixelOffset, true);
+
+  // BITMAPINFOHEADER (the first 40 bytes of the V4 header too)
+  view.setUint32(14, headerSize, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true); // Positive height = bottom-up rows
+  view.setUint16(26, 1, true); // Planes
+  view.setUint16(28, bitDepth, true);
+  view.setUint32(30, bitDepth === 32 ? 3 : 0, true); // BI_BITFIELDS : BI_RGB
+  view.setUint32(34, rowSize * height, true);
+  view.setInt32(38, pixelsPerMeter, true);
+  view.setInt32(42, pixelsPerMeter, true);
+
+  if (bitDepth === 32) {
+    // Channel masks for BGRA byte order, then the sRGB colour space tag
+    view.setUint32(54, 0x00ff0000, true);
+    view.setUint32(58, 0x0000ff00, true);
+    view.setUint32(62, 0x000000ff, true);
+    view.setUint32(66, 0xff000000, true);
+    view.setUint32(70, 0x73524742, true); // 'sRGB'
+  }
+
+  for (let y = 0; y < height; y++) {
+    let offset = pixelOffset + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (bitDepth === 32) {
+        output[offset++] = data[i + 2];
+        output[offset++] = data[i + 1];
+        output[offset++] = data[i];
+        output[offset++] = data[i + 3];
+      } else {
+        // No alpha channel: composite onto white
+        const alpha = data[i + 3] / 255;
+        output[offset++] = Math.round(data[i + 2] * alpha + 255 * (1 - alpha));
+        output[offset++] = Math.round(data[i + 1] * alpha + 255 * (1 - alpha));
+        output[offset++] = Math.round(data[i] * alpha + 255 * (1 - alpha));
+      }
+    }
+  }
+
+  return output;
+}
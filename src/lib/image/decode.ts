@@ -0,0 +1,180 @@
+/**
+ * Image file -> canvas
+ * Formats the browser decodes itself go through createImageBitmap. TIFF is
+ * decoded in JavaScript (every page, with LZW/PackBits/CCITT/JPEG compression),
+ * HEIC with libheif compiled to JavaScript, and SVG is rasterized at a chosen DPI.
+ */
+
+import * as UTIF from 'utif2';
+import { decodeText } from '../text/encoding';
+
+export interface ImageDecodeOptions {
+  dpi?: number; // SVG only: rendering resolution (96 = CSS pixel size)
+}
+
+const CSS_PIXELS_PER_INCH = 96;
+// SVG length units in CSS pixels
+const SVG_UNITS: Record<string, number> = {
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4
+};
+// The size browsers give an SVG that declares none
+const DEFAULT_SVG_SIZE = { width: 300, height: 150 };
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml'
+};
+
+/**
+ * Decode an image file to one canvas per page (only TIFF has more than one)
+ */
+export async function decodeImagePages(content: ArrayBuffer, format: string, options: ImageDecodeOptions = {}): Promise<HTMLCanvasElement[]> {
+  switch (format) {
+    case 'tiff':
+      return decodeTIFF(content);
+    case 'svg':
+      return [await rasterizeSVG(decodeText(new Uint8Array(content)), options.dpi)];
+    case 'heic':
+      return [await decodeHEIC(content)];
+  }
+
+  const blob = new Blob([content], { type: MIME_TYPES[format] || `image/${format}` });
+  try {
+    return [await decodeImage(blob)];
+  } catch (error) {
+    if (format === 'avif') {
+      throw new Error('This browser cannot decode AVIF images - try a current Chrome, Edge, Firefox or Safari');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decode an image file onto a canvas, keeping transparency
+ */
+export async function decodeImage(image: Blob): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not available');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+function decodeTIFF(content: ArrayBuffer): HTMLCanvasElement[] {
+  const pages = UTIF.decode(content).filter(ifd => {
+    // NewSubfileType bit 0 marks reduced-resolution copies (thumbnails)
+    const subfileType = ifd.t254 as number[] | undefined;
+    return !subfileType || (subfileType[0] & 1) === 0;
+  });
+  if (pages.length === 0) {
+    throw new Error('No images found in TIFF file');
+  }
+
+  return pages.map(ifd => {
+    UTIF.decodeImage(content, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+    const canvas = document.createElement('canvas');
+    canvas.width = ifd.width;
+    canvas.height = ifd.height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas rendering is not available');
+    }
+    const pixels = context.createImageData(ifd.width, ifd.height);
+    pixels.data.set(rgba);
+    context.putImageData(pixels, 0, 0);
+    return canvas;
+  });
+}
+
+async function decodeHEIC(content: ArrayBuffer): Promise<HTMLCanvasElement> {
+  // libheif is large - only load it when a HEIC file turns up
+  const { default: heic2any } = await import('heic2any');
+  // Without `multiple` only the primary image comes back
+  const png = await heic2any({ blob: new Blob([content], { type: 'image/heic' }), toType: 'image/png' });
+  return decodeImage(Array.isArray(png) ? png[0] : png);
+}
+
+/**
+ * Render SVG markup to a canvas at `dpi` (the SVG's own size is taken as 96 DPI)
+ */
+export async function rasterizeSVG(source: string, dpi = CSS_PIXELS_PER_INCH): Promise<HTMLCanvasElement> {
+  const svgDocument = new DOMParser().parseFromString(source, 'image/svg+xml');
+  const svg = svgDocument.documentElement;
+  if (svg.nodeName !== 'svg' || svgDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid SVG file');
+  }
+
+  const size = svgSize(svg);
+  const scale = dpi / CSS_PIXELS_PER_INCH;
+  const width = Math.max(1, Math.round(size.width * scale));
+  const height = Math.max(1, Math.round(size.height * scale));
+
+  // Give the image an explicit pixel size; a viewBox makes the drawing scale with it
+  if (!svg.hasAttribute('viewBox')) {
+    svg.setAttribute('viewBox', `0 0 ${size.width} ${size.height}`);
+  }
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('Failed to render SVG'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas rendering is not available');
+    }
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Intrinsic size in CSS pixels: width/height attributes, else the viewBox
+ */
+function svgSize(svg: Element): { width: number; height: number } {
+  const viewBox = (svg.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+  const aspect = hasViewBox ? viewBox[2] / viewBox[3] : null;
+
+  let width = svgLength(svg.getAttribute('width'));
+  let height = svgLength(svg.getAttribute('height'));
+  if (width && !height && aspect) height = width / aspect;
+  if (height && !width && aspect) width = height * aspect;
+  if (!width || !height) {
+    width = hasViewBox ? viewBox[2] : DEFAULT_SVG_SIZE.width;
+    height = hasViewBox ? viewBox[3] : DEFAULT_SVG_SIZE.height;
+  }
+  return { width, height };
+}
+
+function svgLength(value: string | null): number | null {
+  const match = value?.trim().match(/^([\d.]+)\s*(px|pt|pc|in|cm|mm)?$/);
+  if (!match) return null; // Missing or a percentage
+  const length = parseFloat(match[1]) * SVG_UNITS[match[2] || 'px'];
+  return length > 0 ? length : null;
+}
@@ -0,0 +1,109 @@
+/**
+ * Canvas -> image file
+ * PNG, JPEG and WebP use the browser's encoder. canvas.toBlob silently falls back
+ * to PNG for anything else, so GIF and BMP go through our own encoders.
+ */
+
+import { encodeBMP, type BMPBitDepth } from './bmp';
+import { encodeGIF, GIFEncoder } from './gif';
+import { setImageDPI } from './metadata';
+
+export interface ImageEncodeOptions {
+  quality?: number; // 0-1, JPEG and WebP only
+  targetSize?: number; // Bytes; JPEG and WebP quality is searched for the best fit under it
+  dpi?: number; // Resolution recorded in the file (PNG, JPEG, BMP)
+  gifDither?: boolean;
+  bmpBitDepth?: BMPBitDepth;
+}
+
+// Quality search bounds and steps for targetSize
+const MIN_QUALITY = 0.05;
+const MAX_QUALITY = 0.95;
+const QUALITY_SEARCH_STEPS = 7;
+
+const BROWSER_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+export function canvasPixels(canvas: HTMLCanvasElement): ImageData {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not available');
+  }
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export async function encodeCanvas(canvas: HTMLCanvasElement, format: string, options: ImageEncodeOptions = {}): Promise<Blob> {
+  switch (format) {
+    case 'gif':
+      return new Blob([encodeGIF([canvasPixels(canvas)], { dither: options.gifDither }) as BlobPart], { type: 'image/gif' });
+    case 'bmp':
+      return new Blob([encodeBMP(canvasPixels(canvas), options.bmpBitDepth, options.dpi) as BlobPart], { type: 'image/bmp' });
+  }
+
+  const lossy = format === 'jpg' || format === 'jpeg' || format === 'webp';
+  let blob = options.targetSize && lossy
+    ? await encodeToSize(canvas, format, options.targetSize)
+    : await browserEncode(canvas, format, options.quality);
+
+  if (options.dpi) {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    blob = new Blob([setImageDPI(bytes, format, options.dpi) as BlobPart], { type: blob.type });
+  }
+  return blob;
+}
+
+/**
+ * Highest quality whose file fits in targetSize (binary search), or the
+ * smallest file the lowest quality gives if nothing fits
+ */
+async function encodeToSize(canvas: HTMLCanvasElement, format: string, targetSize: number): Promise<Blob> {
+  let low = MIN_QUALITY;
+  let high = MAX_QUALITY;
+  let best: Blob | null = null;
+
+  const highest = await browserEncode(canvas, format, high);
+  if (highest.size <= targetSize) return highest;
+
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const blob = await browserEncode(canvas, format, quality);
+    if (blob.size <= targetSize) {
+      best = blob;
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return best || await browserEncode(canvas, format, MIN_QUALITY);
+}
+
+async function browserEncode(canvas: HTMLCanvasElement, format: string, quality?: number): Promise<Blob> {
+  const mimeType = BROWSER_MIME_TYPES[format];
+  if (!mimeType) {
+    throw new Error(`Cannot encode ${format.toUpperCase()} images`);
+  }
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality));
+  if (!blob) {
+    throw new Error(`Failed to encode ${format.toUpperCase()} image`);
+  }
+  // Browsers without an encoder for the type hand back PNG instead of failing
+  if (blob.type !== mimeType) {
+    throw new Error(`This browser cannot encode ${format.toUpperCase()} images`);
+  }
+  return blob;
+}
+
+/**
+ * Build an animated GIF one canvas at a time (each frame is compressed as it arrives)
+ */
+export function createGIFAnimation(options: { delay?: number; dither?: boolean }) {
+  const encoder = new GIFEncoder();
+  return {
+    addFrame: (canvas: HTMLCanvasElement) => encoder.addFrame(canvasPixels(canvas), options),
+    finish: () => new Blob([encoder.finish() as BlobPart], { type: 'image/gif' })
+  };
+}
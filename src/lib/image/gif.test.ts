@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { GIFEncoder, encodeGIF } from './gif';
+
+interface Frame {
+  width: number;
+  height: number;
+  delay: number;
+  transparentIndex: number | null;
+  palette: number[][];
+  indices: number[];
+}
+
+function pixels(width: number, height: number, colors: number[][]) {
+  return { width, height, data: Uint8ClampedArray.from(colors.flat()) };
+}
+
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): number[] {
+  const clear = 1 << minCodeSize;
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const output: number[] = [];
+  const reset = () => {
+    table = Array.from({ length: clear + 2 }, (_, index) => [index]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+  for (let bit = 0; bit + codeSize <= data.length * 8 && output.length < pixelCount;) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    if (code === clear) {
+      reset();
+      continue;
+    }
+    if (code === clear + 1) break;
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  return output;
+}
+
+// Walks the blocks after the header, collecting each frame's control extension and image
+function readGIF(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const subBlocks = (offset: number): [Uint8Array, number] => {
+    const parts: number[] = [];
+    while (bytes[offset] !== 0) {
+      parts.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+      offset += bytes[offset] + 1;
+    }
+    return [Uint8Array.from(parts), offset + 1];
+  };
+
+  const frames: Frame[] = [];
+  let loop: number | null = null;
+  let control = { delay: 0, transparentIndex: null as number | null };
+  let offset = 13;
+  while (bytes[offset] !== 0x3b) {
+    if (bytes[offset] === 0x21) {
+      const label = bytes[offset + 1];
+      const [body, end] = subBlocks(offset + 2);
+      if (label === 0xf9) {
+        control = { delay: (body[1] | body[2] << 8) * 10, transparentIndex: body[0] & 1 ? body[3] : null };
+      } else if (label === 0xff) {
+        // NETSCAPE2.0, then the sub-block holding 1 and the repeat count
+        loop = body[12] | body[13] << 8;
+      }
+      offset = end;
+    } else if (bytes[offset] === 0x2c) {
+      const width = view.getUint16(offset + 5, true);
+      const height = view.getUint16(offset + 7, true);
+      const tableSize = 1 << ((bytes[offset + 9] & 7) + 1);
+      const palette = Array.from({ length: tableSize }, (_, i) => Array.from(bytes.subarray(offset + 10 + i * 3, offset + 13 + i * 3)));
+      offset += 10 + tableSize * 3;
+      const [data, end] = subBlocks(offset + 1);
+      frames.push({ width, height, ...control, palette, indices: lzwDecode(data, bytes[offset], width * height) });
+      offset = end;
+    } else {
+      throw new Error(`Unexpected GIF block 0x${bytes[offset].toString(16)}`);
+    }
+  }
+  return { frames, loop, width: view.getUint16(6, true), height: view.getUint16(8, true), trailer: offset === bytes.length - 1 };
+}
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const CLEAR = [0, 0, 0, 0];
+
+describe('encodeGIF', () => {
+  it('writes a single frame that decodes back to its colours', () => {
+    const bytes = encodeGIF([pixels(2, 2, [RED, BLUE, BLUE, RED])]);
+    const gif = readGIF(bytes);
+
+    expect(new TextDecoder().decode(bytes.subarray(0, 6))).toBe('GIF89a');
+    expect(gif.trailer).toBe(true);
+    expect(gif.loop).toBeNull();
+    expect(gif.frames).toHaveLength(1);
+    const [frame] = gif.frames;
+    expect([frame.width, frame.height, frame.transparentIndex]).toEqual([2, 2, null]);
+    expect(frame.indices.map(index => frame.palette[index])).toEqual([[255, 0, 0], [0, 0, 255], [0, 0, 255], [255, 0, 0]]);
+  });
+
+  it('reserves a palette entry for transparent pixels', () => {
+    const [frame] = readGIF(encodeGIF([pixels(3, 1, [RED, CLEAR, RED])])).frames;
+
+    expect(frame.transparentIndex).not.toBeNull();
+    expect(frame.indices[1]).toBe(frame.transparentIndex);
+    expect(frame.palette[frame.indices[0]]).toEqual([255, 0, 0]);
+  });
+
+  it('keeps every pixel of a many-colour image after compression', () => {
+    const colors = Array.from({ length: 64 * 64 }, (_, i) => [(i % 64) * 4, Math.floor(i / 64) * 4, 128, 255]);
+    const [frame] = readGIF(encodeGIF([pixels(64, 64, colors)], { dither: true })).frames;
+
+    expect(frame.indices).toHaveLength(64 * 64);
+    const error = frame.indices.reduce((total, index, i) => total + Math.abs(frame.palette[index][0] - colors[i][0]), 0);
+    expect(error / colors.length).toBeLessThan(8);
+  });
+});
+
+describe('GIFEncoder', () => {
+  it('writes animations with frame delays, looping and the largest frame as the screen', () => {
+    const encoder = new GIFEncoder({ loop: 3 });
+    encoder.addFrame(pixels(1, 1, [RED]), { delay: 100 });
+    encoder.addFrame(pixels(2, 1, [BLUE, RED]), { delay: 250 });
+    const gif = readGIF(encoder.finish());
+
+    expect([gif.width, gif.height]).toEqual([2, 1]);
+    expect(gif.loop).toBe(3);
+    expect(gif.frames.map(frame => [frame.width, frame.delay])).toEqual([[1, 100], [2, 250]]);
+  });
+
+  it('needs at least one frame', () => {
+    expect(() => new GIFEncoder().finish()).toThrow('at least one frame');
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * GIF Encoder
+ * Browsers can't encode GIF from a canvas, so frames are quantized here:
+ * median-cut palette (256 colours, one reserved for transparency when needed),
+ * optional Floyd-Steinberg dithering, LZW compression, and NETSCAPE2.0 looping
+ * for animations. Frames are compressed as they are added, so long animations
+ * never hold more than one frame of pixels.
+ */
+
+export interface GIFFrameOptions {
+  delay?: number; // Milliseconds this frame stays on screen (animations only)
+  dither?: boolean; // Floyd-Steinberg error diffusion (smoother gradients, larger files)
+}
+
+export interface GIFEncoderOptions {
+  loop?: number; // Animation repeat count, 0 = forever (the default)
+}
+
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+// Alpha below this is written as the transparent colour
+const ALPHA_THRESHOLD = 128;
+// Colours are bucketed at 5 bits per channel for the histogram and nearest-colour cache
+const BUCKETS = 1 << 15;
+const MAX_CODE = 4095;
+
+export class GIFEncoder {
+  private readonly chunks: Uint8Array[] = [];
+  private frameCount = 0;
+  // Logical screen: the largest frame, known once every frame is in
+  private width = 0;
+  private height = 0;
+
+  constructor(private readonly options: GIFEncoderOptions = {}) {}
+
+  addFrame(pixels: Pixels, frame: GIFFrameOptions = {}): void {
+    this.width = Math.max(this.width, pixels.width);
+    this.height = Math.max(this.height, pixels.height);
+    const hasAlpha = containsTransparency(pixels.data);
+    const palette = medianCut(pixels.data, hasAlpha ? 255 : 256);
+    const transparentIndex = hasAlpha ? palette.length / 3 : -1;
+    const colorCount = palette.length / 3 + (hasAlpha ? 1 : 0);
+    const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, colorCount))));
+    const indices = mapPixels(pixels, palette, transparentIndex, frame.dither ?? false);
+
+    const bytes = new ByteWriter();
+
+    // Graphic Control Extension: delay, disposal and transparency
+    const delay = Math.round((frame.delay ?? 0) / 10);
+    bytes.byte(0x21, 0xf9, 0x04);
+    bytes.byte((hasAlpha ? 2 : 1) << 2 | (hasAlpha ? 1 : 0)); // Restore to background when transparent, else keep
+    bytes.word(delay);
+    bytes.byte(hasAlpha ? transparentIndex : 0, 0x00);
+
+    // Image descriptor with a local colour table
+    bytes.byte(0x2c);
+    bytes.word(0, 0, pixels.width, pixels.height);
+    bytes.byte(0x80 | (tableBits - 1));
+    for (let i = 0; i < (1 << tableBits); i++) {
+      bytes.byte(palette[i * 3] ?? 0, palette[i * 3 + 1] ?? 0, palette[i * 3 + 2] ?? 0);
+    }
+
+    const minCodeSize = Math.max(2, tableBits);
+    bytes.byte(minCodeSize);
+    const compressed = lzwEncode(indices, minCodeSize);
+    for (let offset = 0; offset < compressed.length; offset += 255) {
+      const block = compressed.subarray(offset, offset + 255);
+      bytes.byte(block.length);
+      bytes.bytes(block);
+    }
+    bytes.byte(0x00);
+
+    this.chunks.push(bytes.toUint8Array());
+    this.frameCount++;
+  }
+
+  finish(): Uint8Array {
+    if (this.frameCount === 0) {
+      throw new Error('A GIF needs at least one frame');
+    }
+    const header = new ByteWriter();
+    this.writeHeader(header);
+    this.chunks.unshift(header.toUint8Array());
+    this.chunks.push(new Uint8Array([0x3b]));
+
+    const length = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const output = new Uint8Array(length);
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      output.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return output;
+  }
+
+  private writeHeader(bytes: ByteWriter): void {
+    bytes.ascii('GIF89a');
+    bytes.word(this.width, this.height);
+    bytes.byte(0x00, 0x00, 0x00); // No global colour table; every frame carries its own
+
+    if (this.frameCount > 1) {
+      // NETSCAPE2.0 looping extension
+      bytes.byte(0x21, 0xff, 0x0b);
+      bytes.ascii('NETSCAPE2.0');
+      bytes.byte(0x03, 0x01);
+      bytes.word(this.options.loop ?? 0);
+      bytes.byte(0x00);
+    }
+  }
+}
+
+/**
+ * Encode a single image (or one frame per page) as a GIF file
+ */
+export function encodeGIF(frames: Pixels[], options: GIFFrameOptions & GIFEncoderOptions = {}): Uint8Array {
+  const encoder = new GIFEncoder({ loop: options.loop });
+  frames.forEach(frame => encoder.addFrame(frame, options));
+  return encoder.finish();
+}
+
+function containsTransparency(data: Uint8ClampedArray): boolean {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < ALPHA_THRESHOLD) return true;
+  }
+  return false;
+}
+
+function bucketOf(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+/**
+ * Median-cut quantization over a 15-bit colour histogram.
+ * Returns a flat RGB palette with at most maxColors entries.
+ */
+function medianCut(data: Uint8ClampedArray, maxColors: number): number[] {
+  const counts = new Uint32Array(BUCKETS);
+  const sums = new Float64Array(BUCKETS * 3);
+  // Large images are sampled; the histogram shape is what matters
+  const step = Math.max(1, Math.floor(data.length / 4 / 500000)) * 4;
+  for (let i = 0; i < data.length; i += step) {
+    if (data[i + 3] < ALPHA_THRESHOLD) continue;
+    const bucket = bucketOf(data[i], data[i + 1], data[i + 2]);
+    counts[bucket]++;
+    sums[bucket * 3] += data[i];
+    sums[bucket * 3 + 1] += data[i + 1];
+    sums[bucket * 3 + 2] += data[i + 2];
+  }
+
+  const used: number[] = [];
+  for (let bucket = 0; bucket < BUCKETS; bucket++) {
+    if (counts[bucket] > 0) used.push(bucket);
+  }
+  if (used.length === 0) return [0, 0, 0];
+
+  const channel = (bucket: number, c: number) => (bucket >> (10 - c * 5)) & 31;
+  const boxes: number[][] = [used];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range (weighted by pixel count)
+    let target = -1;
+    let targetChannel = 0;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      let population = 0;
+      box.forEach(bucket => { population += counts[bucket]; });
+      for (let c = 0; c < 3; c++) {
+        let min = 31;
+        let max = 0;
+        box.forEach(bucket => {
+          const value = channel(bucket, c);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        });
+        const score = (max - min) * Math.sqrt(population);
+        if (score > bestScore) {
+          bestScore = score;
+          target = index;
+          targetChannel = c;
+        }
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target].sort((a, b) => channel(a, targetChannel) - channel(b, targetChannel));
+    let half = 0;
+    box.forEach(bucket => { half += counts[bucket]; });
+    half /= 2;
+    let running = 0;
+    let split = 1;
+    for (; split < box.length - 1; split++) {
+      running += counts[box[split - 1]];
+      if (running >= half) break;
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette: number[] = [];
+  boxes.forEach(box => {
+    let count = 0;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    box.forEach(bucket => {
+      count += counts[bucket];
+      r += sums[bucket * 3];
+      g += sums[bucket * 3 + 1];
+      b += sums[bucket * 3 + 2];
+    });
+    palette.push(Math.round(r / count), Math.round(g / count), Math.round(b / count));
+  });
+  return palette;
+}
+
+/**
+ * Palette index for every pixel, optionally diffusing the rounding error
+ */
+function mapPixels(pixels: Pixels, palette: number[], transparentIndex: number, dither: boolean): Uint8Array {
+  const { width, height, data } = pixels;
+  const colors = palette.length / 3;
+  const cache = new Int16Array(BUCKETS).fill(-1);
+  const nearest = (r: number, g: number, b: number): number => {
+    const bucket = bucketOf(r, g, b);
+    const cached = cache[bucket];
+    if (cached >= 0) return cached;
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colors; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    cache[bucket] = best;
+    return best;
+  };
+
+  const indices = new Uint8Array(width * height);
+  // Error carried to the current and next row (RGB per pixel)
+  let current = dither ? new Float32Array(width * 3) : null;
+  let next = dither ? new Float32Array(width * 3) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (transparentIndex >= 0 && data[i + 3] < ALPHA_THRESHOLD) {
+        indices[y * width + x] = transparentIndex;
+        continue;
+      }
+      if (!current || !next) {
+        indices[y * width + x] = nearest(data[i], data[i + 1], data[i + 2]);
+        continue;
+      }
+
+      const r = clamp(data[i] + current[x * 3]);
+      const g = clamp(data[i + 1] + current[x * 3 + 1]);
+      const b = clamp(data[i + 2] + current[x * 3 + 2]);
+      const index = nearest(r, g, b);
+      indices[y * width + x] = index;
+
+      const error = [r - palette[index * 3], g - palette[index * 3 + 1], b - palette[index * 3 + 2]];
+      for (let c = 0; c < 3; c++) {
+        if (x + 1 < width) current[(x + 1) * 3 + c] += error[c] * 7 / 16;
+        if (x > 0) next[(x - 1) * 3 + c] += error[c] * 3 / 16;
+        next[x * 3 + c] += error[c] * 5 / 16;
+        if (x + 1 < width) next[(x + 1) * 3 + c] += error[c] / 16;
+      }
+    }
+    if (current && next) {
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+  }
+  return indices;
+}
+
+function clamp(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+/**
+ * GIF-flavoured LZW: variable-width codes packed LSB first, reset when the table fills
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output = new ByteWriter();
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.byte(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Dictionary keyed by (prefix code << 8 | next index)
+  let table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  emit(clearCode);
+
+  let prefix = indices.length > 0 ? indices[0] : 0;
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode <= MAX_CODE) {
+      table.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = indices[i];
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) output.byte(bitBuffer & 0xff);
+  return output.toUint8Array();
+}
+
+/**
+ * Growable little-endian byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+
+  byte(...values: number[]): void {
+    this.reserve(values.length);
+    values.forEach(value => { this.buffer[this.length++] = value & 0xff; });
+  }
+
+  word(...values: number[]): void {
+    values.forEach(value => this.byte(value & 0xff, (value >> 8) & 0xff));
+  }
+
+  bytes(values: Uint8Array): void {
+    this.reserve(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  ascii(value: string): void {
+    this.byte(...Array.from(value, char => char.charCodeAt(0)));
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private reserve(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
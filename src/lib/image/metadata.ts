@@ -0,0 +1,206 @@
+/**
+ * Image file metadata
+ * Canvas re-encoding drops everything but pixels, so resolution (DPI) is written
+ * back into PNG/JPEG headers here, and a JPEG's EXIF block can be carried over
+ * to the converted JPEG - with or without its GPS position.
+ */
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+const GPS_IFD_TAG = 0x8825;
+// Bytes per value for each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+/**
+ * Record the output resolution in the file header (PNG pHYs, JPEG JFIF density)
+ */
+export function setImageDPI(bytes: Uint8Array, format: string, dpi: number): Uint8Array {
+  switch (format) {
+    case 'png':
+      return setPNGDensity(bytes, dpi);
+    case 'jpg':
+    case 'jpeg':
+      return setJPEGDensity(bytes, dpi);
+    default:
+      return bytes;
+  }
+}
+
+function setPNGDensity(bytes: Uint8Array, dpi: number): Uint8Array {
+  const chunks = readPNGChunks(bytes);
+  const ihdr = chunks.find(chunk => chunk.type === 'IHDR');
+  if (!ihdr) return bytes;
+
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, pixelsPerMeter);
+  view.setUint32(4, pixelsPerMeter);
+  data[8] = 1; // Unit: metre
+  const phys = pngChunk('pHYs', data);
+
+  // Drop any existing pHYs and put ours straight after IHDR
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  chunks.forEach(chunk => {
+    if (chunk.type === 'pHYs') return;
+    parts.push(bytes.subarray(chunk.start, chunk.end));
+    if (chunk.type === 'IHDR') parts.push(phys);
+  });
+  return concat(parts);
+}
+
+function setJPEGDensity(bytes: Uint8Array, dpi: number): Uint8Array {
+  const density = Math.min(0xffff, Math.round(dpi));
+  const isJFIF = bytes[2] === 0xff && bytes[3] === 0xe0 &&
+    bytes[6] === 0x4a && bytes[7] === 0x46 && bytes[8] === 0x49 && bytes[9] === 0x46 && bytes[10] === 0x00;
+
+  if (isJFIF) {
+    const output = bytes.slice();
+    output[13] = 1; // Units: dots per inch
+    output[14] = density >> 8;
+    output[15] = density & 0xff;
+    output[16] = density >> 8;
+    output[17] = density & 0xff;
+    return output;
+  }
+
+  // No JFIF segment: add one after SOI
+  const app0 = new Uint8Array([
+    0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x01,
+    density >> 8, density & 0xff, density >> 8, density & 0xff, 0x00, 0x00
+  ]);
+  return concat([bytes.subarray(0, 2), app0, bytes.subarray(2)]);
+}
+
+/**
+ * Copy the EXIF block of a source JPEG into a re-encoded JPEG.
+ * Orientation is reset (the pixels were already drawn upright) and the GPS
+ * position can be wiped.
+ */
+export function copyJPEGExif(source: Uint8Array, target: Uint8Array, options: { stripGPS?: boolean } = {}): Uint8Array {
+  const exif = findJPEGSegment(source, 0xe1, EXIF_HEADER);
+  if (!exif) return target;
+
+  const segment = source.slice(exif.start, exif.end);
+  const tiffStart = 4 + EXIF_HEADER.length;
+  try {
+    patchExif(segment, tiffStart, options.stripGPS ?? false);
+  } catch (error) {
+    console.warn('Skipping unreadable EXIF block:', error);
+    return target;
+  }
+
+  // After SOI and the JFIF segment (if any), before everything else
+  let insertAt = 2;
+  if (target[2] === 0xff && target[3] === 0xe0) {
+    insertAt = 4 + ((target[4] << 8) | target[5]);
+  }
+  return concat([target.subarray(0, insertAt), segment, target.subarray(insertAt)]);
+}
+
+function patchExif(segment: Uint8Array, tiffStart: number, stripGPS: boolean): void {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const little = segment[tiffStart] === 0x49; // "II"
+  const u16 = (offset: number) => view.getUint16(tiffStart + offset, little);
+  const u32 = (offset: number) => view.getUint32(tiffStart + offset, little);
+
+  const ifd0 = u32(4);
+  const count = u16(ifd0);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    const tag = u16(entry);
+    if (tag === ORIENTATION_TAG) {
+      view.setUint16(tiffStart + entry + 8, 1, little);
+    } else if (tag === GPS_IFD_TAG && stripGPS) {
+      clearIFD(segment, view, tiffStart, u32(entry + 8), little);
+    }
+  }
+}
+
+/**
+ * Zero an IFD's entries and any values stored outside them, leaving an empty directory
+ */
+function clearIFD(segment: Uint8Array, view: DataView, tiffStart: number, ifd: number, little: boolean): void {
+  const count = view.getUint16(tiffStart + ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiffStart + ifd + 2 + i * 12;
+    const size = (TIFF_TYPE_SIZES[view.getUint16(entry + 2, little)] || 1) * view.getUint32(entry + 4, little);
+    if (size > 4) {
+      const valueStart = tiffStart + view.getUint32(entry + 8, little);
+      segment.fill(0, valueStart, Math.min(segment.length, valueStart + size));
+    }
+    segment.fill(0, entry, entry + 12);
+  }
+  view.setUint16(tiffStart + ifd, 0, little);
+}
+
+function findJPEGSegment(bytes: Uint8Array, marker: number, signature: number[]): { start: number; end: number } | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const type = bytes[offset + 1];
+    // Start of scan: no more metadata segments
+    if (type === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (type === marker && signature.every((value, index) => bytes[offset + 4 + index] === value)) {
+      return { start: offset, end: offset + 2 + length };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+interface PNGChunk {
+  type: string;
+  start: number;
+  end: number;
+}
+
+function readPNGChunks(bytes: Uint8Array): PNGChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PNGChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, start: offset, end: offset + 12 + length });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
@@ -0,0 +1,112 @@
+/**
+ * Canvas transforms for image output: crop, rotate/flip, then resize.
+ * Large reductions are done in halving steps so thin lines and text stay smooth.
+ */
+
+export type ResizeFit = 'contain' | 'cover' | 'stretch';
+
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageTransform {
+  crop?: CropBox; // Source pixels to keep, applied first
+  rotate?: 0 | 90 | 180 | 270; // Clockwise
+  flipHorizontal?: boolean;
+  flipVertical?: boolean;
+  width?: number;
+  height?: number;
+  fit?: ResizeFit; // contain: fit inside width x height; cover: fill it and trim; stretch: ignore aspect ratio
+}
+
+export function transformCanvas(source: HTMLCanvasElement, transform: ImageTransform): HTMLCanvasElement {
+  let canvas = source;
+  if (transform.crop) {
+    canvas = cropCanvas(canvas, transform.crop);
+  }
+  if (transform.rotate || transform.flipHorizontal || transform.flipVertical) {
+    canvas = orientCanvas(canvas, transform.rotate || 0, Boolean(transform.flipHorizontal), Boolean(transform.flipVertical));
+  }
+  if (transform.width || transform.height) {
+    canvas = resizeCanvas(canvas, transform.width, transform.height, transform.fit || 'contain');
+  }
+  return canvas;
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not available');
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  return { canvas, context };
+}
+
+function cropCanvas(source: HTMLCanvasElement, crop: CropBox): HTMLCanvasElement {
+  // Clamp the box to the image
+  const x = Math.max(0, Math.min(source.width - 1, Math.round(crop.x)));
+  const y = Math.max(0, Math.min(source.height - 1, Math.round(crop.y)));
+  const width = Math.max(1, Math.min(source.width - x, Math.round(crop.width)));
+  const height = Math.max(1, Math.min(source.height - y, Math.round(crop.height)));
+
+  const { canvas, context } = createCanvas(width, height);
+  context.drawImage(source, x, y, width, height, 0, 0, width, height);
+  return canvas;
+}
+
+function orientCanvas(source: HTMLCanvasElement, rotate: number, flipHorizontal: boolean, flipVertical: boolean): HTMLCanvasElement {
+  const quarterTurn = rotate === 90 || rotate === 270;
+  const { canvas, context } = createCanvas(quarterTurn ? source.height : source.width, quarterTurn ? source.width : source.height);
+
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate(rotate * Math.PI / 180);
+  context.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+function resizeCanvas(source: HTMLCanvasElement, width: number | undefined, height: number | undefined, fit: ResizeFit): HTMLCanvasElement {
+  const aspect = source.width / source.height;
+  // A single dimension keeps the aspect ratio whatever the fit mode
+  const boxWidth = width || (height as number) * aspect;
+  const boxHeight = height || (width as number) / aspect;
+
+  let drawWidth = boxWidth;
+  let drawHeight = boxHeight;
+  if (fit !== 'stretch' && width && height) {
+    const scale = fit === 'cover'
+      ? Math.max(boxWidth / source.width, boxHeight / source.height)
+      : Math.min(boxWidth / source.width, boxHeight / source.height);
+    drawWidth = source.width * scale;
+    drawHeight = source.height * scale;
+  }
+
+  const scaled = stepDown(source, drawWidth, drawHeight);
+  if (fit !== 'cover' || !width || !height) {
+    return scaled;
+  }
+
+  // Cover: centre-trim to exactly the requested box
+  const { canvas, context } = createCanvas(boxWidth, boxHeight);
+  context.drawImage(scaled, (canvas.width - scaled.width) / 2, (canvas.height - scaled.height) / 2);
+  return canvas;
+}
+
+function stepDown(source: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement {
+  let current = source;
+  while (current.width / 2 >= width && current.height / 2 >= height) {
+    const { canvas, context } = createCanvas(current.width / 2, current.height / 2);
+    context.drawImage(current, 0, 0, canvas.width, canvas.height);
+    current = canvas;
+  }
+  const { canvas, context } = createCanvas(width, height);
+  context.drawImage(current, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
@@ -0,0 +1,230 @@
+/**
+ * Offline OCR (tesseract.js)
+ * The worker script, WASM core and English traineddata are served from our own
+ * origin (the tesseract-assets plugin in vite.config.ts), so recognition never
+ * needs a CDN. The worker is created on first use and shared by every conversion.
+ */
+
+import { createWorker, OEM, type Block as TesseractBlock, type Worker, type WorkerOptions } from 'tesseract.js';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { Block } from '../document/types';
+import { text } from '../document/utils';
+import { renderPageToCanvas } from '../pdf/pdfjs';
+
+export interface OCRBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  bbox: OCRBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  bbox: OCRBox;
+  words: OCRWord[];
+}
+
+export interface OCRParagraph {
+  text: string;
+  confidence: number;
+  bbox: OCRBox;
+  lines: OCRLine[];
+}
+
+/**
+ * Recognized text with pixel positions in the source image
+ */
+export interface OCRResult {
+  width: number;
+  height: number;
+  text: string;
+  confidence: number;
+  paragraphs: OCRParagraph[];
+}
+
+// PDF pages are rendered at 216 DPI for recognition (scale 1 = 72 DPI)
+export const PDF_OCR_SCALE = 3;
+
+// Paragraphs below this confidence (0-100) are usually noise from photos or graphics
+const MIN_PARAGRAPH_CONFIDENCE = 40;
+
+const ASSET_BASE = `${import.meta.env?.BASE_URL ?? '/'}tesseract`;
+
+let workerOptions: Partial<WorkerOptions> = {
+  workerPath: `${ASSET_BASE}/worker.min.js`,
+  corePath: `${ASSET_BASE}/tesseract-core-simd-lstm.wasm.js`,
+  langPath: ASSET_BASE,
+  workerBlobURL: false,
+  cacheMethod: 'none'
+};
+
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * Override where tesseract.js loads its files from - e.g. Node callers point
+ * langPath at node_modules/@tesseract.js-data/eng/4.0.0_best_int
+ */
+export function configureOCR(options: Partial<WorkerOptions>): void {
+  workerOptions = options;
+  workerPromise = null;
+}
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', OEM.LSTM_ONLY, workerOptions);
+    // Allow a retry after a failed start
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Recognize the text on a canvas
+ */
+export async function recognizeCanvas(canvas: HTMLCanvasElement): Promise<OCRResult> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+
+  const paragraphs: OCRParagraph[] = (data.blocks || [])
+    .flatMap((block: TesseractBlock) => block.paragraphs)
+    .map(paragraph => ({
+      text: paragraph.text.trim(),
+      confidence: paragraph.confidence,
+      bbox: paragraph.bbox,
+      lines: paragraph.lines.map(line => ({
+        text: line.text.trim(),
+        confidence: line.confidence,
+        bbox: line.bbox,
+        words: line.words.map(word => ({ text: word.text, confidence: word.confidence, bbox: word.bbox }))
+      }))
+    }))
+    .filter(paragraph => paragraph.text && paragraph.confidence >= MIN_PARAGRAPH_CONFIDENCE);
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    text: paragraphs.map(paragraph => paragraph.text).join('\n\n'),
+    confidence: data.confidence,
+    paragraphs
+  };
+}
+
+/**
+ * Render a PDF page and recognize it - for scanned pages without a text layer
+ */
+export async function recognizePDFPage(page: PDFPageProxy): Promise<OCRResult> {
+  const canvas = await renderPageToCanvas(page, PDF_OCR_SCALE);
+  try {
+    return await recognizeCanvas(canvas);
+  } finally {
+    // Release the bitmap memory right away - scanned documents can have many pages
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+}
+
+/**
+ * Decode an image file (anything the browser can display) onto a canvas
+ */
+export async function imageToCanvas(image: Blob): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not available');
+  }
+  // OCR reads transparent areas as black, so flatten onto white
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+/**
+ * Document blocks for recognized text. Short paragraphs set noticeably larger
+ * than the body text become headings.
+ */
+export function ocrResultToBlocks(result: OCRResult, pageNumber?: number): Block[] {
+  const lineHeights = result.paragraphs
+    .flatMap(paragraph => paragraph.lines.map(line => line.bbox.y1 - line.bbox.y0))
+    .sort((a, b) => a - b);
+  const bodyHeight = lineHeights[Math.floor(lineHeights.length / 2)] || 0;
+
+  return result.paragraphs.map((paragraph): Block => {
+    const { bbox } = paragraph;
+    const source = {
+      pageNumber,
+      bounds: { x: bbox.x0, y: bbox.y0, width: bbox.x1 - bbox.x0, height: bbox.y1 - bbox.y0 }
+    };
+
+    // Join lines, undoing hyphenation at line ends
+    const content = paragraph.lines
+      .map(line => line.text)
+      .reduce((joined, line) => joined.endsWith('-') ? joined.slice(0, -1) + line : joined ? `${joined} ${line}` : line, '');
+
+    const lineHeight = Math.max(...paragraph.lines.map(line => line.bbox.y1 - line.bbox.y0));
+    const ratio = bodyHeight > 0 ? lineHeight / bodyHeight : 1;
+    if (paragraph.lines.length <= 2 && ratio >= 1.25) {
+      const level = ratio >= 2 ? 1 : ratio >= 1.5 ? 2 : 3;
+      return { type: 'heading', level, children: [text(content)], source };
+    }
+    return { type: 'paragraph', children: [text(content)], source };
+  });
+}
+
+export interface TextLayerWord {
+  text: string;
+  x: number;
+  baseline: number;
+  width: number;
+  fontSize: number;
+}
+
+/**
+ * Word placements for an invisible text layer, in image pixels from the top left.
+ * Size and baseline come from the line box so the words of a line stay aligned.
+ */
+export function textLayerWords(result: OCRResult): TextLayerWord[] {
+  return result.paragraphs.flatMap(paragraph => paragraph.lines.flatMap(line => {
+    // A line box runs from cap height to descender - roughly 0.93em in Helvetica
+    const fontSize = (line.bbox.y1 - line.bbox.y0) / 0.93;
+    const baseline = line.bbox.y1 - fontSize * 0.21;
+
+    return line.words
+      .filter(word => word.text.trim() && word.bbox.x1 > word.bbox.x0)
+      .map(word => ({
+        text: word.text.trim(),
+        x: word.bbox.x0,
+        baseline,
+        width: word.bbox.x1 - word.bbox.x0,
+        fontSize
+      }));
+  }));
+}
+
+/**
+ * Characters the standard PDF fonts (WinAnsi) can encode - anything else becomes '?'
+ */
+export function toWinAnsi(value: string): string {
+  return value.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+export async function terminateOCR(): Promise<void> {
+  if (!workerPromise) return;
+  const worker = await workerPromise.catch(() => null);
+  workerPromise = null;
+  await worker?.terminate();
+}
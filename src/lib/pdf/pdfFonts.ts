@@ -0,0 +1,62 @@
+/**
+ * Unicode font embedded in generated PDFs
+ * Liberation Sans ships with pdfjs-dist (metric-compatible with Arial/Helvetica),
+ * so text keeps any character the source had and stays selectable and searchable.
+ */
+
+import type jsPDF from 'jspdf';
+import regularUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf?url';
+import boldUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Bold.ttf?url';
+import italicUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Italic.ttf?url';
+import boldItalicUrl from 'pdfjs-dist/standard_fonts/LiberationSans-BoldItalic.ttf?url';
+import { bytesToBase64 } from '../document/utils';
+
+export const EMBEDDED_FONT_FAMILY = 'LiberationSans';
+
+// jsPDF font style -> TTF file
+const FONT_FILES: Record<string, string> = {
+  normal: regularUrl,
+  bold: boldUrl,
+  italic: italicUrl,
+  bolditalic: boldItalicUrl
+};
+
+// Base64 font files, fetched once per session
+let fontDataPromise: Promise<Record<string, string>> | null = null;
+
+function loadFontData(): Promise<Record<string, string>> {
+  if (!fontDataPromise) {
+    fontDataPromise = Promise.all(Object.entries(FONT_FILES).map(async ([style, url]) => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load font ${url}: ${response.status}`);
+      }
+      return [style, bytesToBase64(new Uint8Array(await response.arrayBuffer()))] as const;
+    })).then(entries => Object.fromEntries(entries));
+
+    // Let a later call retry after a failed download
+    fontDataPromise.catch(() => {
+      fontDataPromise = null;
+    });
+  }
+  return fontDataPromise;
+}
+
+/**
+ * Register the embedded font (all four styles) with a jsPDF document.
+ * Returns the font family name, or null if the font files could not be loaded.
+ */
+export async function embedPDFFont(doc: jsPDF): Promise<string | null> {
+  try {
+    const fonts = await loadFontData();
+    Object.entries(fonts).forEach(([style, data]) => {
+      const fileName = `${EMBEDDED_FONT_FAMILY}-${style}.ttf`;
+      doc.addFileToVFS(fileName, data);
+      doc.addFont(fileName, EMBEDDED_FONT_FAMILY, style);
+    });
+    return EMBEDDED_FONT_FAMILY;
+  } catch (error) {
+    console.warn('Falling back to standard PDF fonts:', error);
+    return null;
+  }
+}
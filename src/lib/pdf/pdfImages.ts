@@ -0,0 +1,192 @@
+/**
+ * Embedded image extraction for PDF pages
+ * Walks a page's operator list, tracks the transform so every image gets its
+ * position on the page, and re-encodes the decoded raster data as PNG.
+ */
+
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { ImageBlock } from '../document/types';
+import { pdfjsLib } from './pdfjs';
+
+type Matrix = [number, number, number, number, number, number];
+
+export interface PDFPageImage {
+  block: ImageBlock;
+  top: number; // Top edge in PDF user space (same coordinates as text item transforms)
+}
+
+// Raster layouts pdf.js decodes images into (ImageKind in pdf.js)
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+const RGBA_32BPP = 3;
+
+// Images drawn smaller than this (in points) are rules, bullets or spacers
+const MIN_IMAGE_SIZE = 8;
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8ClampedArray | Uint8Array;
+  bitmap?: ImageBitmap;
+}
+
+/**
+ * Images painted on a page, top to bottom, as PNG image blocks.
+ * Each image is returned once per page even if it is painted repeatedly.
+ */
+export async function extractPageImages(
+  page: PDFPageProxy,
+  operatorList?: { fnArray: number[]; argsArray: unknown[][] }
+): Promise<PDFPageImage[]> {
+  if (typeof document === 'undefined') return [];
+
+  const { fnArray, argsArray } = operatorList || await page.getOperatorList();
+  const { OPS } = pdfjsLib;
+  const images: PDFPageImage[] = [];
+  const seen = new Set<string>();
+  const stack: Matrix[] = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i];
+
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(ctm);
+        break;
+      case OPS.restore:
+        ctm = stack.pop() || ctm;
+        break;
+      case OPS.transform:
+        ctm = multiply(ctm, args as Matrix);
+        break;
+      case OPS.paintFormXObjectBegin:
+        stack.push(ctm);
+        if (Array.isArray(args[0]) && args[0].length === 6) ctm = multiply(ctm, args[0] as Matrix);
+        break;
+      case OPS.paintFormXObjectEnd:
+        ctm = stack.pop() || ctm;
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject: {
+        const isInline = fnArray[i] === OPS.paintInlineImageXObject;
+        const objId = isInline ? null : String(args[0]);
+        if (objId && seen.has(objId)) break;
+
+        // The unit square is mapped onto the page by the current transform
+        const [a, b, c, d, , f] = ctm;
+        const drawnWidth = Math.hypot(a, b);
+        const drawnHeight = Math.hypot(c, d);
+        if (drawnWidth < MIN_IMAGE_SIZE || drawnHeight < MIN_IMAGE_SIZE) break;
+
+        try {
+          const decoded = isInline ? args[0] as DecodedImage : await getImageObject(page, objId!);
+          const png = decoded ? await encodePNG(decoded) : null;
+          if (!png) break;
+          if (objId) seen.add(objId);
+
+          images.push({
+            top: Math.max(f, f + b, f + d, f + b + d),
+            block: {
+              type: 'image',
+              data: png,
+              mimeType: 'image/png',
+              // Drawn size in CSS pixels (1pt = 4/3px)
+              width: Math.round(drawnWidth * 4 / 3),
+              height: Math.round(drawnHeight * 4 / 3),
+              alt: `Image ${images.length + 1} on page ${page.pageNumber}`,
+              source: { pageNumber: page.pageNumber }
+            }
+          });
+        } catch (error) {
+          console.warn(`Page ${page.pageNumber}: could not extract image`, error);
+        }
+        break;
+      }
+    }
+  }
+
+  return images.sort((x, y) => y.top - x.top);
+}
+
+function getImageObject(page: PDFPageProxy, objId: string): Promise<DecodedImage | null> {
+  const objs = objId.startsWith('g_') ? page.commonObjs : page.objs;
+  return new Promise(resolve => {
+    try {
+      objs.get(objId, (data: DecodedImage | null) => resolve(data));
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+  ];
+}
+
+async function encodePNG(image: DecodedImage): Promise<Uint8Array | null> {
+  const { width, height } = image;
+  if (!width || !height) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  if (image.bitmap) {
+    ctx.drawImage(image.bitmap, 0, 0);
+  } else if (image.data) {
+    const rgba = toRGBA(image.data, width, height, image.kind);
+    if (!rgba) return null;
+    ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+  } else {
+    return null;
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+}
+
+function toRGBA(src: Uint8ClampedArray | Uint8Array, width: number, height: number, kind?: number): Uint8ClampedArray<ArrayBuffer> | null {
+  const pixels = width * height;
+  const dest = new Uint8ClampedArray(pixels * 4);
+
+  switch (kind) {
+    case RGBA_32BPP:
+      dest.set(src.subarray(0, dest.length));
+      return dest;
+    case RGB_24BPP:
+      for (let p = 0, s = 0, d = 0; p < pixels; p++, s += 3, d += 4) {
+        dest[d] = src[s];
+        dest[d + 1] = src[s + 1];
+        dest[d + 2] = src[s + 2];
+        dest[d + 3] = 255;
+      }
+      return dest;
+    case GRAYSCALE_1BPP: {
+      // Rows are padded to whole bytes; a set bit is white
+      const rowBytes = (width + 7) >> 3;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const bit = src[y * rowBytes + (x >> 3)] & (128 >> (x & 7));
+          const value = bit ? 255 : 0;
+          const d = (y * width + x) * 4;
+          dest[d] = dest[d + 1] = dest[d + 2] = value;
+          dest[d + 3] = 255;
+        }
+      }
+      return dest;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { PDFDocument } from '@cantoo/pdf-lib';
+import { addPageNumbers, parsePageRanges, reorderPages, splitPDF } from './pdfTools';
+import { pdfjsLib } from './pdfjs';
+
+// pdf.js runs its worker on the main thread when this global is set, as there are no Web Workers in Node
+beforeAll(async () => {
+  (globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = await import('pdfjs-dist/legacy/build/pdf.worker.js');
+});
+
+// Page N is 100 + N points wide, so pages can be told apart after copying
+async function numberedPDF(pageCount: number): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  for (let page = 1; page <= pageCount; page++) pdf.addPage([100 + page, 200]);
+  return pdf.save();
+}
+
+async function pageWidths(blob: Blob): Promise<number[]> {
+  const pdf = await PDFDocument.load(await blob.arrayBuffer());
+  return pdf.getPages().map(page => page.getWidth() - 100);
+}
+
+describe('parsePageRanges', () => {
+  it('reads single pages, ranges and open-ended ranges', () => {
+    expect(parsePageRanges('1-3, 5, 8-', 10)).toEqual([{ start: 1, end: 3 }, { start: 5, end: 5 }, { start: 8, end: 10 }]);
+    expect(parsePageRanges('-2', 4)).toEqual([{ start: 1, end: 2 }]);
+  });
+
+  it('rejects malformed ranges and pages outside the document', () => {
+    expect(() => parsePageRanges('2-x', 5)).toThrow('Invalid page range "2-x"');
+    expect(() => parsePageRanges('4-6', 5)).toThrow('outside 1-5');
+    expect(() => parsePageRanges('3-1', 5)).toThrow('outside 1-5');
+    expect(() => parsePageRanges(' , ', 5)).toThrow('No pages selected');
+  });
+});
+
+describe('splitPDF', () => {
+  it('splits by ranges', async () => {
+    const parts = await splitPDF(await numberedPDF(5), { ranges: '1-2, 4-5' });
+    expect(parts.map(part => part.pages)).toEqual([[1, 2], [4, 5]]);
+    expect(await pageWidths(parts[1].blob)).toEqual([4, 5]);
+  });
+
+  it('splits into chunks of N pages, the last one shorter', async () => {
+    const parts = await splitPDF(await numberedPDF(5), { everyN: 2 });
+    expect(parts.map(part => part.pages)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(await pageWidths(parts[2].blob)).toEqual([5]);
+  });
+});
+
+describe('reorderPages', () => {
+  it('puts every page in its new position', async () => {
+    expect(await pageWidths(await reorderPages(await numberedPDF(3), [3, 1, 2]))).toEqual([3, 1, 2]);
+  });
+
+  it('needs every page exactly once', async () => {
+    await expect(reorderPages(await numberedPDF(3), [1, 1, 2])).rejects.toThrow('every page exactly once');
+  });
+});
+
+describe('addPageNumbers', () => {
+  it('stamps the formatted number on the selected pages', async () => {
+    const blob = await addPageNumbers(await numberedPDF(3), { format: 'Page {page} of {total}', pages: [2, 3] });
+    const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+    const texts: string[] = [];
+    for (let page = 1; page <= pdf.numPages; page++) {
+      const content = await (await pdf.getPage(page)).getTextContent();
+      texts.push(content.items.map(item => ('str' in item ? item.str : '')).join(''));
+    }
+    expect(texts).toEqual(['', 'Page 1 of 2', 'Page 2 of 2']);
+  });
+});
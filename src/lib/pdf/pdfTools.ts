@@ -0,0 +1,368 @@
+/**
+ * PDF page tools
+ * Merge, split, extract, reorder, rotate and delete pages, stamp page numbers
+ * and add OCR text layers to scanned pages.
+ * Page numbers in the public API are 1-based, like the page ranges users type.
+ */
+
+import { PDFDocument, StandardFonts, degrees, rgb } from '@cantoo/pdf-lib';
+import { pdfjsLib, renderPageToCanvas } from './pdfjs';
+import { PDF_OCR_SCALE, recognizePDFPage, textLayerWords, toWinAnsi } from '../ocr/ocr';
+
+export type PDFSource = ArrayBuffer | Uint8Array;
+
+export type PageRotation = 90 | 180 | 270;
+
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+export interface PDFPart {
+  pages: number[];
+  blob: Blob;
+}
+
+export type PageNumberPosition =
+  | 'bottom-center' | 'bottom-left' | 'bottom-right'
+  | 'top-center' | 'top-left' | 'top-right';
+
+export interface PageNumberOptions {
+  position?: PageNumberPosition;
+  format?: string;      // {page} and {total} are replaced, e.g. 'Page {page} of {total}'
+  startAt?: number;     // Number printed on the first numbered page
+  fontSize?: number;
+  margin?: number;      // Distance from the page edge in points
+  pages?: number[];     // Only number these pages (default: all)
+}
+
+export interface PDFThumbnail {
+  pageNumber: number;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Parse a range spec like "1-3, 5, 8-" into ranges clamped to the document.
+ * Throws on malformed input or pages outside 1..pageCount.
+ */
+export function parsePageRanges(spec: string, pageCount: number): PageRange[] {
+  const ranges: PageRange[] = [];
+
+  for (const rawPart of spec.split(',')) {
+    const part = rawPart.trim();
+    if (!part) continue;
+
+    const match = part.match(/^(\d*)\s*(?:-\s*(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) {
+      throw new Error(`Invalid page range "${part}"`);
+    }
+
+    const isRange = part.includes('-');
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = isRange ? (match[2] ? parseInt(match[2], 10) : pageCount) : start;
+
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`Page range "${part}" is outside 1-${pageCount}`);
+    }
+    ranges.push({ start, end });
+  }
+
+  if (ranges.length === 0) {
+    throw new Error('No pages selected');
+  }
+  return ranges;
+}
+
+/**
+ * Flatten ranges into a list of page numbers (keeps order and duplicates)
+ */
+export function expandPageRanges(ranges: PageRange[]): number[] {
+  const pages: number[] = [];
+  for (const range of ranges) {
+    for (let page = range.start; page <= range.end; page++) pages.push(page);
+  }
+  return pages;
+}
+
+export async function getPageCount(source: PDFSource): Promise<number> {
+  const pdf = await loadForEditing(source);
+  return pdf.getPageCount();
+}
+
+/**
+ * Join several PDFs into one, in the order given
+ */
+export async function mergePDFs(sources: PDFSource[]): Promise<Blob> {
+  if (sources.length === 0) {
+    throw new Error('No PDFs to merge');
+  }
+
+  const merged = await PDFDocument.create();
+  for (const source of sources) {
+    const pdf = await loadForEditing(source);
+    const pages = await merged.copyPages(pdf, pdf.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+  }
+  return savePDF(merged);
+}
+
+/**
+ * Split into one PDF per range ("1-3, 4-6") or into chunks of N pages
+ */
+export async function splitPDF(source: PDFSource, split: { ranges: string } | { everyN: number }): Promise<PDFPart[]> {
+  const pdf = await loadForEditing(source);
+  const pageCount = pdf.getPageCount();
+
+  let groups: number[][];
+  if ('ranges' in split) {
+    groups = parsePageRanges(split.ranges, pageCount).map(range => expandPageRanges([range]));
+  } else {
+    const size = Math.floor(split.everyN);
+    if (!(size >= 1)) {
+      throw new Error('Pages per file must be at least 1');
+    }
+    groups = [];
+    for (let start = 1; start <= pageCount; start += size) {
+      groups.push(expandPageRanges([{ start, end: Math.min(start + size - 1, pageCount) }]));
+    }
+  }
+
+  const parts: PDFPart[] = [];
+  for (const pages of groups) {
+    parts.push({ pages, blob: await copyPagesToNewPDF(pdf, pages) });
+  }
+  return parts;
+}
+
+/**
+ * New PDF with only the given pages, in the given order
+ */
+export async function extractPages(source: PDFSource, pages: number[]): Promise<Blob> {
+  const pdf = await loadForEditing(source);
+  assertPages(pages, pdf.getPageCount());
+  return copyPagesToNewPDF(pdf, pages);
+}
+
+/**
+ * Rearrange pages. `order` lists every page exactly once in its new position.
+ */
+export async function reorderPages(source: PDFSource, order: number[]): Promise<Blob> {
+  const pdf = await loadForEditing(source);
+  const pageCount = pdf.getPageCount();
+  assertPages(order, pageCount);
+  if (order.length !== pageCount || new Set(order).size !== pageCount) {
+    throw new Error('Page order must list every page exactly once');
+  }
+  return copyPagesToNewPDF(pdf, order);
+}
+
+/**
+ * Rotate pages clockwise, on top of any rotation they already have
+ */
+export async function rotatePages(source: PDFSource, pages: number[], rotation: PageRotation): Promise<Blob> {
+  const pdf = await loadForEditing(source);
+  assertPages(pages, pdf.getPageCount());
+
+  new Set(pages).forEach(pageNumber => {
+    const page = pdf.getPage(pageNumber - 1);
+    page.setRotation(degrees((page.getRotation().angle + rotation) % 360));
+  });
+  return savePDF(pdf);
+}
+
+export async function deletePages(source: PDFSource, pages: number[]): Promise<Blob> {
+  const pdf = await loadForEditing(source);
+  const pageCount = pdf.getPageCount();
+  assertPages(pages, pageCount);
+
+  const toDelete = new Set(pages);
+  if (toDelete.size >= pageCount) {
+    throw new Error('Cannot delete every page of a PDF');
+  }
+
+  // Remove from the back so earlier indices stay valid
+  [...toDelete].sort((a, b) => b - a).forEach(pageNumber => pdf.removePage(pageNumber - 1));
+  return savePDF(pdf);
+}
+
+/**
+ * Stamp page numbers in Helvetica. Positions follow the page as displayed,
+ * so rotated pages are numbered along their visible bottom/top edge.
+ */
+export async function addPageNumbers(source: PDFSource, options: PageNumberOptions = {}): Promise<Blob> {
+  const {
+    position = 'bottom-center',
+    format = '{page}',
+    startAt = 1,
+    fontSize = 10,
+    margin = 24
+  } = options;
+
+  const pdf = await loadForEditing(source);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const pageCount = pdf.getPageCount();
+  const numbered = options.pages ? new Set(options.pages) : null;
+  if (options.pages) assertPages(options.pages, pageCount);
+
+  const total = numbered ? numbered.size : pageCount;
+  let counter = startAt;
+
+  pdf.getPages().forEach((page, index) => {
+    if (numbered && !numbered.has(index + 1)) return;
+
+    const label = format
+      .replace(/\{page\}/g, String(counter))
+      .replace(/\{total\}/g, String(total + startAt - 1));
+    counter++;
+
+    const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+    const { width, height } = page.getSize();
+    const visibleWidth = rotation === 90 || rotation === 270 ? height : width;
+    const visibleHeight = rotation === 90 || rotation === 270 ? width : height;
+    const textWidth = font.widthOfTextAtSize(label, fontSize);
+
+    // Position in the displayed (rotated) frame
+    let x = (visibleWidth - textWidth) / 2;
+    if (position.endsWith('left')) x = margin;
+    if (position.endsWith('right')) x = visibleWidth - margin - textWidth;
+    const y = position.startsWith('top') ? visibleHeight - margin - fontSize : margin;
+
+    // Map back to the unrotated page coordinates
+    const points: Record<number, { x: number; y: number }> = {
+      0: { x, y },
+      90: { x: width - y, y: x },
+      180: { x: width - x, y: height - y },
+      270: { x: y, y: height - x }
+    };
+
+    page.drawText(label, {
+      ...points[rotation],
+      size: fontSize,
+      font,
+      color: rgb(0.2, 0.2, 0.2),
+      rotate: degrees(rotation)
+    });
+  });
+
+  return savePDF(pdf);
+}
+
+/**
+ * Make scanned pages searchable: pages without a text layer are OCR'd and the
+ * recognized words are drawn as invisible text over the page image.
+ */
+export async function makeSearchable(
+  source: PDFSource,
+  onProgress?: (pageNumber: number, pageCount: number) => void
+): Promise<{ blob: Blob; ocrPages: number[] }> {
+  const pdf = await loadForEditing(source);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const scanned = await pdfjsLib.getDocument({ data: copyBytes(source) }).promise;
+  const ocrPages: number[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= scanned.numPages; pageNumber++) {
+      onProgress?.(pageNumber, scanned.numPages);
+      const page = await scanned.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const hasText = textContent.items.some(item => 'str' in item && item.str.trim());
+      if (hasText) continue;
+
+      const result = await recognizePDFPage(page);
+      const words = textLayerWords(result);
+      if (words.length === 0) continue;
+
+      // Canvas pixels -> PDF user space (handles rotation and crop box offsets)
+      const viewport = page.getViewport({ scale: PDF_OCR_SCALE });
+      const target = pdf.getPage(pageNumber - 1);
+      const rotation = ((target.getRotation().angle % 360) + 360) % 360;
+
+      words.forEach(word => {
+        const label = toWinAnsi(word.text);
+        const [x, y] = viewport.convertToPdfPoint(word.x, word.baseline);
+        const unitWidth = font.widthOfTextAtSize(label, 1);
+        // Fit the word to its box so selections line up with the image
+        const heightSize = word.fontSize / PDF_OCR_SCALE;
+        const size = unitWidth > 0 ? Math.min(word.width / PDF_OCR_SCALE / unitWidth, heightSize * 2) : heightSize;
+
+        target.drawText(label, { x, y, size, font, opacity: 0, rotate: degrees(rotation) });
+      });
+      ocrPages.push(pageNumber);
+    }
+  } finally {
+    await scanned.destroy();
+  }
+
+  return { blob: await savePDF(pdf), ocrPages };
+}
+
+/**
+ * Render small page previews with pdf.js (same renderer as PDF -> PNG)
+ */
+export async function renderPDFThumbnails(
+  source: PDFSource,
+  options: { maxWidth?: number; password?: string } = {}
+): Promise<PDFThumbnail[]> {
+  const { maxWidth = 160, password } = options;
+  const pdf = await pdfjsLib.getDocument({ data: copyBytes(source), password: password || undefined }).promise;
+  const thumbnails: PDFThumbnail[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = await renderPageToCanvas(page, maxWidth / page.getViewport({ scale: 1 }).width);
+
+      thumbnails.push({
+        pageNumber,
+        dataUrl: canvas.toDataURL('image/jpeg', 0.8),
+        width: canvas.width,
+        height: canvas.height
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return thumbnails;
+}
+
+async function loadForEditing(source: PDFSource): Promise<PDFDocument> {
+  try {
+    return await PDFDocument.load(copyBytes(source));
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('is encrypted')) {
+      throw new Error('Encrypted PDFs cannot be edited - remove the password first');
+    }
+    throw error;
+  }
+}
+
+async function copyPagesToNewPDF(pdf: PDFDocument, pages: number[]): Promise<Blob> {
+  const output = await PDFDocument.create();
+  const copied = await output.copyPages(pdf, pages.map(page => page - 1));
+  copied.forEach(page => output.addPage(page));
+  return savePDF(output);
+}
+
+async function savePDF(pdf: PDFDocument): Promise<Blob> {
+  const bytes = await pdf.save();
+  return new Blob([bytes as BlobPart], { type: 'application/pdf' });
+}
+
+function assertPages(pages: number[], pageCount: number): void {
+  if (pages.length === 0) {
+    throw new Error('No pages selected');
+  }
+  const invalid = pages.find(page => !Number.isInteger(page) || page < 1 || page > pageCount);
+  if (invalid !== undefined) {
+    throw new Error(`Page ${invalid} is outside 1-${pageCount}`);
+  }
+}
+
+// pdf.js detaches buffers it is given and pdf-lib keeps references, so both get a copy
+function copyBytes(source: PDFSource): Uint8Array {
+  return source instanceof Uint8Array ? source.slice() : new Uint8Array(source.slice(0));
+}
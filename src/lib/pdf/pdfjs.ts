@@ -0,0 +1,29 @@
+/**
+ * Shared pdf.js instance with its worker configured once for the whole app
+ */
+
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import workerSrc from 'pdfjs-dist/legacy/build/pdf.worker.min.js?url';
+
+// Configure PDF.js worker - served from the app bundle so it always matches the installed pdf.js version
+pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
+
+/**
+ * Render one page onto a new canvas (scale 1 = 72 DPI)
+ */
+export async function renderPageToCanvas(page: PDFPageProxy, scale: number): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not available');
+  }
+
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+}
+
+export { pdfjsLib };
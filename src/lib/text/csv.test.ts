@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { csvRecords, parseCSV, tableRows, typedRows, writeCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('detects the delimiter', () => {
+    expect(parseCSV('a;b;c\n1;2;3').delimiter).toBe(';');
+    expect(parseCSV('a\tb\n1\t2').delimiter).toBe('\t');
+    expect(parseCSV('a|b|c\n1|2|3').delimiter).toBe('|');
+  });
+
+  it('follows an Excel "sep=" line and drops the BOM', () => {
+    const table = parseCSV('\ufeffsep=;\nname;city\nAnn;Paris, TX');
+    expect(table.delimiter).toBe(';');
+    expect(table.columns).toEqual(['name', 'city']);
+    expect(table.rows).toEqual([['Ann', 'Paris, TX']]);
+  });
+
+  it('keeps delimiters, quotes and line breaks inside quoted fields', () => {
+    const table = parseCSV('name,note\n"Smith, J","Said ""hi""\nand left"', { header: true });
+    expect(table.rows).toEqual([['Smith, J', 'Said "hi"\nand left']]);
+  });
+
+  it('honours custom quote and escape characters', () => {
+    const table = parseCSV("id,quote\n1,'It\\'s, fine'", { quoteChar: "'", escapeChar: '\\' });
+    expect(table.rows).toEqual([['1', "It's, fine"]]);
+  });
+
+  it('skips leading lines and comment rows', () => {
+    const table = parseCSV('Export from CRM\nname,age\n# archived\nAnn,40', { skipLines: 1, commentChar: '#' });
+    expect(table.columns).toEqual(['name', 'age']);
+    expect(table.rows).toEqual([['Ann', '40']]);
+  });
+
+  it('pads short rows to the widest one', () => {
+    expect(parseCSV('a,b,c\n1,2', { header: true }).rows).toEqual([['1', '2', '']]);
+  });
+
+  it('reports malformed quoting with the row number', () => {
+    expect(parseCSV('a,b\n1,"open').errors[0]).toMatch(/^Row 2: /);
+  });
+});
+
+describe('header detection', () => {
+  it('takes names over typed columns as a header', () => {
+    const table = parseCSV('name,age\nAnn,40\nBob,35');
+    expect(table.hasHeader).toBe(true);
+    expect(table.columns).toEqual(['name', 'age']);
+  });
+
+  it('takes a first row that fits the column types as data', () => {
+    const table = parseCSV('Ann,40\nBob,35\nCy,28');
+    expect(table.hasHeader).toBe(false);
+    expect(table.columns).toEqual(['Column 1', 'Column 2']);
+    expect(tableRows(table)).toHaveLength(3);
+  });
+
+  it('uses fixed-width text columns as evidence', () => {
+    expect(parseCSV('code,label\nAB1,x\nCD2,y').hasHeader).toBe(true);
+    expect(parseCSV('XY9,x\nAB1,y\nCD2,z').hasHeader).toBe(false);
+  });
+
+  it('does not take repeated names for a header', () => {
+    expect(parseCSV('a,a\nb,c').hasHeader).toBe(false);
+  });
+
+  it('names unnamed header columns by position', () => {
+    expect(parseCSV('name,\nAnn,1', { header: true }).columns).toEqual(['name', 'Column 2']);
+  });
+});
+
+describe('typedRows', () => {
+  it('types columns from their values and leaves empty cells null', () => {
+    const table = parseCSV('id,price,active,joined,zip\n1,9.5,true,2024-03-01,02134\n2,,FALSE,2024-03-02T10:00:00Z,10001');
+    expect(table.types).toEqual(['number', 'number', 'boolean', 'date', 'string']);
+
+    const [first, second] = typedRows(table);
+    expect(first.slice(0, 3)).toEqual([1, 9.5, true]);
+    expect(first[3]).toEqual(new Date(2024, 2, 1));
+    expect(first[4]).toBe('02134');
+    expect(second.slice(0, 3)).toEqual([2, null, false]);
+    expect(second[3]).toEqual(new Date('2024-03-02T10:00:00Z'));
+  });
+
+  it('keeps mixed columns as text', () => {
+    expect(parseCSV('v\n1\nn/a', { header: true }).types).toEqual(['string']);
+  });
+
+  it('reads decimal commas in semicolon-separated files only', () => {
+    expect(typedRows(parseCSV('price;qty\n1,5;2\n2,25;3'))[0]).toEqual([1.5, 2]);
+    expect(parseCSV('price,qty\n"1,5",2\n"2,25",3').types[0]).toBe('string');
+  });
+
+  it('leaves every column as text when inference is off', () => {
+    const table = parseCSV('a,b\n1,true', { inferTypes: false });
+    expect(table.types).toEqual(['string', 'string']);
+    expect(typedRows(table)).toEqual([['1', 'true']]);
+  });
+});
+
+describe('csvRecords', () => {
+  it('keys rows by column and keeps dates as ISO text', () => {
+    expect(csvRecords(parseCSV('name,age,joined\nAnn,40,2024-03-01'))).toEqual([{ name: 'Ann', age: 40, joined: '2024-03-01' }]);
+  });
+});
+
+describe('writeCSV', () => {
+  it('quotes fields that need it and doubles quotes', () => {
+    expect(writeCSV([['name', 'note'], ['Smith, J', 'Said "hi"']])).toBe('name,note\n"Smith, J","Said ""hi"""');
+  });
+
+  it('writes objects with a header row in the chosen dialect', () => {
+    expect(writeCSV([{ a: 1, b: 'x;y' }], { delimiter: ';' })).toBe('a;b\n1;"x;y"');
+    expect(writeCSV([{ a: 1, b: 2 }], { header: false })).toBe('1,2');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Delimited text (CSV, TSV)
+ * One place for the dialect settings every CSV reader and writer shares: the
+ * delimiter (detected when not given), quote and escape characters, leading lines
+ * and comment rows to skip, and whether the first row names the columns.
+ * Columns are typed from their values, so numbers, booleans and ISO dates reach
+ * spreadsheets and JSON as such instead of as text.
+ */
+
+import Papa from 'papaparse';
+
+export interface CSVDialect {
+  delimiter?: string; // Detected from ',', ';', tab and '|' when not set (',' when writing)
+  quoteChar?: string; // '"' by default
+  escapeChar?: string; // Escapes the quote inside quoted fields; by default the quote is doubled
+  header?: boolean; // First row holds the column names (detected when not set)
+  skipLines?: number; // Lines before the data to drop (titles, export banners)
+  commentChar?: string; // Rows starting with this are skipped
+  inferTypes?: boolean; // Type columns from their values (on unless set to false)
+}
+
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date';
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface CSVTable {
+  delimiter: string;
+  hasHeader: boolean;
+  columns: string[]; // From the header row, or "Column 1", "Column 2"... without one
+  types: ColumnType[];
+  rows: string[][]; // Data rows (no header), padded to the column count
+  errors: string[]; // Malformed quoting and the like, with row numbers
+}
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+// Semicolon-separated files from European locales write decimals with a comma
+const DECIMAL_COMMA_NUMBER = /^[-+]?\d+,\d+$/;
+// Leading zeros mark identifiers (postcodes, account numbers) that must stay text
+const LEADING_ZERO = /^[-+]?0\d/;
+const BOOLEAN = /^(true|false)$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Excel's "sep=;" first line, naming the delimiter
+const SEPARATOR_LINE = /^sep=(.)\r?\n/;
+
+export function parseCSV(content: string, dialect: CSVDialect = {}): CSVTable {
+  let text = content.replace(/^\ufeff/, '');
+  const separator = text.match(SEPARATOR_LINE);
+  if (separator) {
+    text = text.slice(separator[0].length);
+  }
+
+  const parsed = Papa.parse<string[]>(text, {
+    header: false,
+    delimiter: dialect.delimiter || separator?.[1] || '',
+    delimitersToGuess: CSV_DELIMITERS,
+    quoteChar: dialect.quoteChar || '"',
+    escapeChar: dialect.escapeChar || undefined,
+    comments: dialect.commentChar || false,
+    skipFirstNLines: dialect.skipLines || 0,
+    skipEmptyLines: 'greedy'
+  });
+
+  const delimiter = parsed.meta.delimiter || dialect.delimiter || ',';
+  const allRows = parsed.data.map(row => row.map(cell => String(cell ?? '')));
+  const width = Math.max(0, ...allRows.map(row => row.length));
+  allRows.forEach(row => {
+    while (row.length < width) row.push('');
+  });
+
+  const hasHeader = allRows.length > 0 && (dialect.header ?? detectHeader(allRows, delimiter));
+  const rows = hasHeader ? allRows.slice(1) : allRows;
+  const columns = hasHeader
+    ? allRows[0].map((name, index) => name.trim() || `Column ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+  const types = dialect.inferTypes === false
+    ? columns.map((): ColumnType => 'string')
+    : columns.map((_, index) => columnType(rows.map(row => row[index]), delimiter));
+
+  return {
+    delimiter,
+    hasHeader,
+    columns,
+    types,
+    rows,
+    errors: parsed.errors.map(error => error.row === undefined ? error.message : `Row ${error.row + 1}: ${error.message}`)
+  };
+}
+
+/**
+ * Data rows with each cell converted to its column's type (empty cells become null)
+ */
+export function typedRows(table: CSVTable): CellValue[][] {
+  return table.rows.map(row => row.map((cell, index) => cellValue(cell, table.types[index], table.delimiter)));
+}
+
+/**
+ * One object per row keyed by column name, for JSON (which has no date type, so dates stay ISO text)
+ */
+export function csvRecords(table: CSVTable): Record<string, CellValue>[] {
+  return table.rows.map(row => {
+    const record: Record<string, CellValue> = {};
+    table.columns.forEach((column, index) => {
+      const type = table.types[index];
+      record[column] = type === 'date' ? row[index] || null : cellValue(row[index], type, table.delimiter);
+    });
+    return record;
+  });
+}
+
+/**
+ * The header row (when there is one) followed by the data rows, all as text
+ */
+export function tableRows(table: CSVTable): string[][] {
+  return table.hasHeader ? [table.columns, ...table.rows] : table.rows;
+}
+
+/**
+ * Rows (arrays, or objects keyed by column) as delimited text
+ */
+export function writeCSV(data: unknown[][] | object[], dialect: CSVDialect = {}): string {
+  return Papa.unparse(data as unknown[][], {
+    delimiter: dialect.delimiter || ',',
+    quoteChar: dialect.quoteChar || '"',
+    escapeChar: dialect.escapeChar || dialect.quoteChar || '"',
+    header: dialect.header !== false,
+    newline: '\n'
+  });
+}
+
+function cellValue(cell: string, type: ColumnType, delimiter: string): CellValue {
+  const value = cell.trim();
+  if (!value) return null;
+  switch (type) {
+    case 'number':
+      return Number(delimiter !== ',' && DECIMAL_COMMA_NUMBER.test(value) ? value.replace(',', '.') : value);
+    case 'boolean':
+      return value.toLowerCase() === 'true';
+    case 'date': {
+      // Date-only ISO strings parse as UTC midnight; spreadsheets store days at local midnight
+      const [year, month, day] = value.split(/[-T ]/).map(Number);
+      return value.length === 10 ? new Date(year, month - 1, day) : new Date(value);
+    }
+    default:
+      return cell;
+  }
+}
+
+function cellType(cell: string, delimiter: string): ColumnType | null {
+  const value = cell.trim();
+  if (!value) return null;
+  if (!LEADING_ZERO.test(value) && (NUMBER.test(value) || (delimiter !== ',' && DECIMAL_COMMA_NUMBER.test(value)))) {
+    return 'number';
+  }
+  if (BOOLEAN.test(value)) return 'boolean';
+  if (ISO_DATE.test(value) && !isNaN(Date.parse(value))) return 'date';
+  return 'string';
+}
+
+/**
+ * The type every non-empty cell has, or text when they disagree
+ */
+function columnType(cells: string[], delimiter: string): ColumnType {
+  let type: ColumnType | null = null;
+  for (const cell of cells) {
+    const current = cellType(cell ?? '', delimiter);
+    if (!current) continue;
+    if (type && current !== type) return 'string';
+    type = current;
+  }
+  return type || 'string';
+}
+
+/**
+ * Whether the first row looks like column names: per column, a first cell that
+ * doesn't fit the column's type (text over numbers) or its fixed width votes for
+ * a header, one that fits votes against. Ties keep the first row as the header.
+ */
+function detectHeader(rows: string[][], delimiter: string): boolean {
+  if (rows.length < 2) return true;
+  const [first, ...rest] = rows;
+  const names = first.filter(cell => cell.trim());
+  if (new Set(names).size < names.length) return false;
+
+  let votes = 0;
+  first.forEach((cell, index) => {
+    const cells = rest.map(row => row[index]).filter(value => value.trim());
+    if (cells.length === 0) return;
+
+    const type = columnType(cells, delimiter);
+    if (type !== 'string') {
+      votes += cellType(cell, delimiter) === type ? -1 : 1;
+      return;
+    }
+    const widths = new Set(cells.map(value => value.length));
+    if (widths.size === 1) {
+      votes += widths.has(cell.length) ? -1 : 1;
+    }
+  });
+  return votes >= 0;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, encodeText, isBinary, sniffEncoding } from './encoding';
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+function utf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  Array.from(text).forEach((char, index) => view.setUint16(index * 2, char.charCodeAt(0), littleEndian));
+  return bytes;
+}
+
+describe('sniffEncoding', () => {
+  it('trusts a byte order mark', () => {
+    expect(sniffEncoding(Uint8Array.from([0xef, 0xbb, 0xbf, 0x41]))).toEqual({ encoding: 'utf-8', bom: true, confidence: 1 });
+    expect(sniffEncoding(Uint8Array.from([0xff, 0xfe, 0x41, 0x00])).encoding).toBe('utf-16le');
+    expect(sniffEncoding(Uint8Array.from([0xfe, 0xff, 0x00, 0x41])).encoding).toBe('utf-16be');
+  });
+
+  it('finds the byte order of UTF-16 without a BOM from its NUL bytes', () => {
+    expect(sniffEncoding(utf16('Hello, world', true))).toEqual({ encoding: 'utf-16le', bom: false, confidence: 0.8 });
+    expect(sniffEncoding(utf16('Hello, world', false)).encoding).toBe('utf-16be');
+  });
+
+  it('takes valid UTF-8 as UTF-8, with less confidence for plain ASCII', () => {
+    expect(sniffEncoding(new TextEncoder().encode('Crème brûlée'))).toEqual({ encoding: 'utf-8', bom: false, confidence: 0.95 });
+    expect(sniffEncoding(ascii('plain text')).confidence).toBe(0.9);
+  });
+
+  it('tolerates a UTF-8 sequence cut off at the end of the sample', () => {
+    // The 64 KB sample ends after the first byte of an "é"
+    const bytes = new TextEncoder().encode('a' + 'é'.repeat(40 * 1024));
+    expect(sniffEncoding(bytes).encoding).toBe('utf-8');
+  });
+
+  it('tells legacy encodings apart by the characters they decode to', () => {
+    expect(sniffEncoding(Uint8Array.from([0x63, 0x61, 0x66, 0xe9, 0x20, 0x93, 0x6f, 0x6b, 0x94])).encoding).toBe('windows-1252');
+    // 日本語です
+    expect(sniffEncoding(Uint8Array.from([0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea, 0x82, 0xc5, 0x82, 0xb7])).encoding).toBe('shift_jis');
+    // 한국어
+    expect(sniffEncoding(Uint8Array.from([0xc7, 0xd1, 0xb1, 0xb9, 0xbe, 0xee])).encoding).toBe('euc-kr');
+  });
+});
+
+describe('decodeText', () => {
+  it('drops the BOM and decodes with the sniffed encoding', () => {
+    expect(decodeText(Uint8Array.from([0xef, 0xbb, 0xbf, 0x68, 0x69]))).toBe('hi');
+    expect(decodeText(Uint8Array.from([0xff, 0xfe, ...utf16('hi', true)]))).toBe('hi');
+    expect(decodeText(Uint8Array.from([0x63, 0x61, 0x66, 0xe9]))).toBe('café');
+  });
+});
+
+describe('encodeText', () => {
+  it('writes UTF-8 with or without a BOM, and UTF-16 always with one', () => {
+    expect(Array.from(encodeText('é', 'utf-8'))).toEqual([0xc3, 0xa9]);
+    expect(Array.from(encodeText('é', 'utf-8-bom'))).toEqual([0xef, 0xbb, 0xbf, 0xc3, 0xa9]);
+    expect(Array.from(encodeText('Aé', 'utf-16le'))).toEqual([0xff, 0xfe, 0x41, 0x00, 0xe9, 0x00]);
+  });
+
+  it('maps typographic characters into Windows-1252 and replaces the rest with "?"', () => {
+    expect(Array.from(encodeText('é€“”…', 'windows-1252'))).toEqual([0xe9, 0x80, 0x93, 0x94, 0x85]);
+    expect(Array.from(encodeText('a😀b', 'windows-1252'))).toEqual([0x61, 0x3f, 0x62]);
+  });
+});
+
+describe('isBinary', () => {
+  it('flags NUL bytes and control characters, but not UTF-16 text or whitespace', () => {
+    expect(isBinary(Uint8Array.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0x00]))).toBe(true);
+    expect(isBinary(Uint8Array.from([0x01, 0x02, 0x03, 0x41, 0x42]))).toBe(true);
+    expect(isBinary(utf16('Hello, world', true))).toBe(false);
+    expect(isBinary(ascii('a\tb\r\nc\fd'))).toBe(false);
+    expect(isBinary(new Uint8Array(0))).toBe(false);
+  });
+});
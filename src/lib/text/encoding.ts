@@ -0,0 +1,213 @@
+/**
+ * Text encodings
+ * Sniffing: a byte order mark settles it; otherwise UTF-16 shows up as a NUL byte
+ * in every other position, and anything that decodes as strict UTF-8 almost
+ * certainly is. Legacy encodings are told apart by which one turns the bytes into
+ * the most plausible characters (kana for Shift-JIS, Hangul for EUC-KR, Hanzi for
+ * GBK, accented letters for Windows-1252).
+ * Encoding: output text in the encodings spreadsheets and older tools expect.
+ */
+
+export type TextEncoding =
+  'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' |
+  'shift_jis' | 'euc-jp' | 'gbk' | 'big5' | 'euc-kr';
+
+export type OutputEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'windows-1252';
+
+export const TEXT_ENCODING_NAMES: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 (Western)',
+  'shift_jis': 'Shift-JIS (Japanese)',
+  'euc-jp': 'EUC-JP (Japanese)',
+  'gbk': 'GBK (Simplified Chinese)',
+  'big5': 'Big5 (Traditional Chinese)',
+  'euc-kr': 'EUC-KR (Korean)'
+};
+
+export interface EncodingGuess {
+  encoding: TextEncoding;
+  bom: boolean;
+  confidence: number; // 0-1
+}
+
+// Enough text to judge by without decoding a whole large file
+const SAMPLE_SIZE = 64 * 1024;
+// Share of NULs in one byte lane that marks UTF-16 text
+const UTF16_NUL_RATIO = 0.3;
+// Share of control characters beyond which bytes are not text at all
+const BINARY_CONTROL_RATIO = 0.1;
+
+// Legacy encodings worth guessing between, each with the characters that make a decoding plausible
+const LEGACY_CANDIDATES: { encoding: TextEncoding; plausible: RegExp }[] = [
+  // Listed first so Japanese wins a tie with GBK (Chinese bytes read as Shift-JIS turn into half-width katakana)
+  { encoding: 'shift_jis', plausible: /[\u3040-\u30ff\u4e00-\u9fff\u3000-\u303f\uff01-\uff5e]/ },
+  { encoding: 'euc-kr', plausible: /[\uac00-\ud7af\u3000-\u303f]/ },
+  { encoding: 'gbk', plausible: /[\u4e00-\u9fff\u3000-\u303f\uff01-\uff5e]/ },
+  { encoding: 'windows-1252', plausible: /[\u00c0-\u00ff\u2018-\u201e\u2026\u20ac\u00a0-\u00bf]/ }
+];
+// Half-width katakana: a sign of bytes decoded as Shift-JIS that aren't
+const HALF_WIDTH_KATAKANA = /[\uff61-\uff9f]/;
+
+const BOMS: { bytes: number[]; encoding: TextEncoding }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' }
+];
+
+export function sniffEncoding(bytes: Uint8Array): EncodingGuess {
+  const bom = BOMS.find(candidate => candidate.bytes.every((byte, index) => bytes[index] === byte));
+  if (bom) {
+    return { encoding: bom.encoding, bom: true, confidence: 1 };
+  }
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  const utf16 = utf16ByteOrder(sample);
+  if (utf16) {
+    return { encoding: utf16, bom: false, confidence: 0.8 };
+  }
+
+  if (isUTF8(sample, sample.length < bytes.length)) {
+    // Plain ASCII is valid in every candidate, so it says less
+    const ascii = sample.every(byte => byte < 0x80);
+    return { encoding: 'utf-8', bom: false, confidence: ascii ? 0.9 : 0.95 };
+  }
+  return guessLegacyEncoding(sample, sample.length < bytes.length);
+}
+
+/**
+ * Pick the legacy encoding whose decoding has the largest share of plausible characters
+ */
+function guessLegacyEncoding(sample: Uint8Array, truncated: boolean): EncodingGuess {
+  let best: EncodingGuess = { encoding: 'windows-1252', bom: false, confidence: 0.4 };
+  let bestScore = 0;
+
+  for (const { encoding, plausible } of LEGACY_CANDIDATES) {
+    let decoded: string;
+    try {
+      decoded = new TextDecoder(encoding, { fatal: true }).decode(sample, { stream: truncated });
+    } catch {
+      continue; // Byte sequences this encoding doesn't allow
+    }
+
+    const nonASCII = Array.from(decoded).filter(char => char.charCodeAt(0) >= 0x80);
+    if (nonASCII.length === 0) continue;
+    let plausibleCount = nonASCII.filter(char => plausible.test(char)).length;
+    if (encoding === 'shift_jis') {
+      plausibleCount -= nonASCII.filter(char => HALF_WIDTH_KATAKANA.test(char)).length;
+    }
+    const score = plausibleCount / nonASCII.length;
+    if (score > bestScore) {
+      bestScore = score;
+      best = { encoding, bom: false, confidence: Math.round(Math.min(0.85, 0.4 + score * 0.45) * 100) / 100 };
+    }
+  }
+  return best;
+}
+
+/**
+ * Decode text bytes, sniffing the encoding unless one is given. A BOM is dropped.
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding = sniffEncoding(bytes).encoding): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Encode text for output. UTF-16 always gets a BOM (Excel relies on it); characters
+ * Windows-1252 can't represent become "?".
+ */
+export function encodeText(text: string, encoding: OutputEncoding): Uint8Array {
+  switch (encoding) {
+    case 'utf-8-bom':
+      return new TextEncoder().encode('\uFEFF' + text);
+    case 'utf-16le': {
+      const bytes = new Uint8Array(2 + text.length * 2);
+      bytes[0] = 0xff;
+      bytes[1] = 0xfe;
+      for (let i = 0; i < text.length; i++) {
+        const unit = text.charCodeAt(i);
+        bytes[2 + i * 2] = unit & 0xff;
+        bytes[3 + i * 2] = unit >> 8;
+      }
+      return bytes;
+    }
+    case 'windows-1252':
+      return encodeWindows1252(text);
+    default:
+      return new TextEncoder().encode(text);
+  }
+}
+
+/**
+ * Name of an output encoding for charset parameters and XML declarations
+ */
+export function outputCharset(encoding: OutputEncoding): string {
+  return encoding === 'utf-16le' ? 'UTF-16' : encoding === 'windows-1252' ? 'windows-1252' : 'UTF-8';
+}
+
+// Windows-1252 puts typographic characters where Latin-1 has C1 controls (0x80-0x9F)
+const WINDOWS_1252_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e,
+  0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97,
+  0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+};
+
+function encodeWindows1252(text: string): Uint8Array {
+  const chars = Array.from(text);
+  const bytes = new Uint8Array(chars.length);
+  chars.forEach((char, index) => {
+    const code = char.codePointAt(0)!;
+    const latin1 = code < 0x80 || (code >= 0xa0 && code <= 0xff);
+    bytes[index] = latin1 ? code : WINDOWS_1252_EXTRAS[code] ?? 0x3f; // "?"
+  });
+  return bytes;
+}
+
+/**
+ * True when the bytes are not text in any supported encoding (NULs or control characters)
+ */
+export function isBinary(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  if (sample.length === 0) return false;
+  if (BOMS.some(bom => bom.bytes.every((byte, index) => sample[index] === byte)) || utf16ByteOrder(sample)) {
+    return false;
+  }
+
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    // Tab, line feed, form feed, carriage return and escape are normal in text
+    if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) control++;
+  }
+  return control / sample.length > BINARY_CONTROL_RATIO;
+}
+
+/**
+ * ASCII-heavy UTF-16 has NUL high bytes: in odd positions for little endian, even for big endian
+ */
+function utf16ByteOrder(sample: Uint8Array): TextEncoding | null {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs < 2) return null;
+
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenNuls++;
+    if (sample[i + 1] === 0) oddNuls++;
+  }
+  if (oddNuls / pairs > UTF16_NUL_RATIO && evenNuls / pairs < UTF16_NUL_RATIO / 10) return 'utf-16le';
+  if (evenNuls / pairs > UTF16_NUL_RATIO && oddNuls / pairs < UTF16_NUL_RATIO / 10) return 'utf-16be';
+  return null;
+}
+
+function isUTF8(sample: Uint8Array, truncated: boolean): boolean {
+  try {
+    // Streaming mode tolerates a sequence cut off where the sample ends early
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -3,7 +3,7 @@
  * Full-featured batch conversion using the same conversion service as single file converter
  */
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -17,11 +17,14 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { PDFToolsPanel } from '@/components/pdf/PDFToolsPanel';
 import { useConversion } from '@/contexts/ConversionContext';
 import { conversionService, SupportedFormat, ConversionOptions, downloadFile, getFileExtension, formatFileSize } from '@/lib/conversionService';
 import { toast } from 'react-hot-toast';
 import { useUser } from '@clerk/clerk-react';
 import { addConversionHistory } from '@/lib/supabase';
+import { detectionWarning, type FormatDetection } from '@/lib/detection/format';
+import { decodeText } from '@/lib/text/encoding';
 import JSZip from 'jszip';
 import {
   Upload,
@@ -62,6 +65,7 @@ interface BatchFile {
   name: string;
   size: number;
   detectedFormat: SupportedFormat;
+  detection: FormatDetection;
   suggestedFormats: SupportedFormat[];
   status: 'pending' | 'processing' | 'completed' | 'error';
   progress: number;
@@ -96,11 +100,11 @@ const BatchProcessorPage: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Analyze file for format detection
-  const analyzeFile = useCallback(async (file: File): Promise<{ detectedFormat: SupportedFormat; suggestedFormats: SupportedFormat[] }> => {
-    const content = await file.text().catch(() => '');
-    const detectedFormat = conversionService.detectFormat(file.name, content);
-    const suggestedFormats = conversionService.suggestOptimalFormat(content, detectedFormat);
-    return { detectedFormat, suggestedFormats };
+  const analyzeFile = useCallback(async (file: File): Promise<{ detection: FormatDetection; suggestedFormats: SupportedFormat[] }> => {
+    const detection = await conversionService.detectFormat(file);
+    const content = decodeText(new Uint8Array(await file.arrayBuffer()), detection.encoding?.encoding);
+    const suggestedFormats = conversionService.suggestOptimalFormat(content, detection.format);
+    return { detection, suggestedFormats };
   }, []);
 
   // Handle file drop
@@ -135,14 +139,20 @@ const BatchProcessorPage: React.FC = () => {
 
       for (const file of acceptedFiles) {
         try {
-          const { detectedFormat, suggestedFormats } = await analyzeFile(file);
+          const { detection, suggestedFormats } = await analyzeFile(file);
+
+          const warning = detectionWarning(file.name, detection);
+          if (warning) {
+            toast(warning, { icon: '⚠️', duration: 6000 });
+          }
 
           newFiles.push({
             id: `${file.name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
             file,
             name: file.name,
             size: file.size,
-            detectedFormat,
+            detectedFormat: detection.format,
+            detection,
             suggestedFormats,
             status: 'pending',
             progress: 0
@@ -168,9 +178,9 @@ const BatchProcessorPage: React.FC = () => {
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
     accept: {
-      'text/*': ['.txt', '.md', '.html', '.csv', '.json', '.xml', '.rtf'],
-      'application/*': ['.pdf', '.docx', '.doc', '.odt', '.epub'],
-      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp'] // Added all supported image formats
+      'text/*': ['.txt', '.md', '.html', '.csv', '.tsv', '.json', '.xml', '.rtf'],
+      'application/*': ['.pdf', '.docx', '.doc', '.odt', '.epub', '.pptx', '.ppt', '.odp', '.xlsx', '.xls', '.ods'],
+      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp', '.heic', '.heif', '.avif', '.tif', '.tiff', '.svg'] // Added all supported image formats
     },
     maxSize: 50 * 1024 * 1024,
     maxFiles: 50,
@@ -418,13 +428,8 @@ const BatchProcessorPage: React.FC = () => {
       const startTime = Date.now();
 
       try {
-        // Read file content
-        let content: string | ArrayBuffer;
-        if (batchFile.detectedFormat === 'pdf' || batchFile.detectedFormat === 'docx' || batchFile.file.type.startsWith('image/')) {
-          content = await batchFile.file.arrayBuffer();
-        } else {
-          content = await batchFile.file.text();
-        }
+        // Read raw bytes - text is decoded by the service in its detected (or chosen) encoding
+        const content = await batchFile.file.arrayBuffer();
 
         // Check if conversion is supported
         if (!conversionService.isConversionSupported?.(batchFile.detectedFormat, outputFormat)) {
@@ -449,9 +454,15 @@ const BatchProcessorPage: React.FC = () => {
         if (result.success && result.data) {
           const baseFilename = batchFile.name.replace(/\.[^/.]+$/, '');
           const isZip = result.metadata?.isZip || false;
-          const extension = isZip ? 'zip' : getFileExtension(outputFormat);
+          // Converters without a legacy writer report the format they actually produced
+          const actualFormat = result.metadata?.actualFormat || outputFormat;
+          const extension = isZip ? 'zip' : getFileExtension(actualFormat);
           const filename = `${baseFilename}.${extension}`;
 
+          if (result.metadata?.formatNote) {
+            toast(`${batchFile.name}: ${result.metadata.formatNote}`, { icon: 'ℹ️', duration: 6000 });
+          }
+
           // Update file status
           setBatchFiles(prev => prev.map(f => 
             f.id === batchFile.id ? {
@@ -470,7 +481,7 @@ const BatchProcessorPage: React.FC = () => {
             originalName: batchFile.name,
             convertedName: filename,
             originalFormat: batchFile.detectedFormat,
-            convertedFormat: outputFormat,
+            convertedFormat: actualFormat,
             size: result.data.size,
             blob: result.data,
             timestamp: new Date(),
@@ -564,7 +575,7 @@ const BatchProcessorPage: React.FC = () => {
     const iconMap: Record<string, React.ElementType> = {
       pdf: FileText, docx: FileText, rtf: FileText, odt: FileText, epub: BookOpen,
       txt: Type, md: FileCode, html: Globe, latex: FileCode,
-      csv: Database, json: FileCode, xml: FileCode,
+      csv: Database, tsv: Database, json: FileCode, xml: FileCode,
       png: Image, jpg: Image, jpeg: Image
     };
     return iconMap[format] || FileText;
@@ -588,7 +599,7 @@ const BatchProcessorPage: React.FC = () => {
   const formatCategories = {
     document: ['pdf', 'docx', 'rtf', 'odt', 'epub'] as SupportedFormat[],
     text: ['txt', 'md', 'html', 'latex'] as SupportedFormat[],
-    data: ['csv', 'json', 'xml'] as SupportedFormat[],
+    data: ['csv', 'tsv', 'json', 'xml'] as SupportedFormat[],
     image: ['png', 'jpg'] as SupportedFormat[]
   };
 
@@ -599,6 +610,12 @@ const BatchProcessorPage: React.FC = () => {
   const errorFiles = batchFiles.filter(f => f.status === 'error').length;
   const totalSize = batchFiles.reduce((acc, f) => acc + f.size, 0);
 
+  // PDFs in the batch, for the page tools
+  const pdfFiles = useMemo(
+    () => batchFiles.filter(f => f.detectedFormat === 'pdf').map(f => f.file),
+    [batchFiles]
+  );
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-7xl">
       <motion.div
@@ -659,7 +676,7 @@ const BatchProcessorPage: React.FC = () => {
                   ref={fileInputRef}
                   onChange={handleFileInputChange}
                   multiple
-                  accept=".txt,.md,.html,.csv,.json,.xml,.rtf,.pdf,.docx,.doc,.odt,.epub,.png,.jpg,.jpeg,.gif,.bmp,.webp"
+                  accept=".txt,.md,.html,.csv,.tsv,.json,.xml,.rtf,.pdf,.docx,.doc,.odt,.epub,.pptx,.ppt,.odp,.xlsx,.xls,.ods,.png,.jpg,.jpeg,.gif,.bmp,.webp,.heic,.heif,.avif,.tif,.tiff,.svg"
                   style={{ display: 'none' }}
                 />
 
@@ -758,6 +775,12 @@ const BatchProcessorPage: React.FC = () => {
                                       <Badge variant="outline" className="text-xs">
                                         {file.detectedFormat.toUpperCase()}
                                       </Badge>
+                                      {file.detection.mismatch && (
+                                        <Badge variant="destructive" className="text-xs">
+                                          <AlertCircle className="h-3 w-3 mr-1" />
+                                          Not a .{getFileExtension(file.detection.extensionFormat!)} file
+                                        </Badge>
+                                      )}
                                       {file.processingTime && (
                                         <span className="text-green-600">{file.processingTime}ms</span>
                                       )}
@@ -803,6 +826,9 @@ const BatchProcessorPage: React.FC = () => {
               )}
             </AnimatePresence>
 
+            {/* PDF page tools */}
+            {pdfFiles.length > 0 && <PDFToolsPanel files={pdfFiles} />}
+
             {/* Conversion Progress */}
             <AnimatePresence>
               {isConverting && (
@@ -981,7 +1007,7 @@ const BatchProcessorPage: React.FC = () => {
                       </div>
 
                       {/* Image merge option - only show when converting images to PDF */}
-                      {outputFormat === 'pdf' && batchFiles.some(f => ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'].includes(f.detectedFormat)) && (
+                      {outputFormat === 'pdf' && batchFiles.some(f => ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'heic', 'avif', 'tiff', 'svg'].includes(f.detectedFormat)) && (
                         <div className="flex items-center justify-between p-3 bg-purple-50 dark:bg-purple-900/20 rounded-lg border border-purple-200 dark:border-purple-800">
                           <div className="flex flex-col gap-1">
                             <Label className="text-purple-700 dark:text-purple-300">Merge images into one PDF</Label>
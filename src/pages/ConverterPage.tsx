@@ -11,6 +11,7 @@ import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import { Slider } from '@/components/ui/slider';
 import { useConversion } from '@/contexts/ConversionContext';
 import { useTheme, useTranslation } from '@/contexts/ThemeContext';
@@ -18,6 +19,10 @@ import { conversionService, SupportedFormat, ConversionOptions, downloadFile, ge
 import { toast } from 'react-hot-toast';
 import { useUser } from '@clerk/clerk-react';
 import { addConversionHistory } from '@/lib/supabase';
+import ImageSizePreview from '@/components/converter/ImageSizePreview';
+import type { CropBox } from '@/lib/image/transform';
+import { detectionWarning, LOW_CONFIDENCE, type FormatDetection } from '@/lib/detection/format';
+import { decodeText, TEXT_ENCODING_NAMES, type OutputEncoding, type TextEncoding } from '@/lib/text/encoding';
 import {
   Upload,
   FileText,
@@ -45,13 +50,15 @@ import {
   ExternalLink,
   Info,
   TrendingUp,
-  Gauge
+  Gauge,
+  AlertTriangle
 } from 'lucide-react';
 
 interface FileWithPreview extends File {
   preview?: string;
   id: string;
   detectedFormat?: SupportedFormat;
+  detection?: FormatDetection;
   suggestedFormats?: SupportedFormat[];
 }
 
@@ -69,7 +76,7 @@ const ConverterPage: React.FC = () => {
     pageSize: 'A4',
     margin: 20,
     quality: 'medium',
-    imageResolution: 300,
+    imageResolution: 144,
     preserveFormatting: true,
     includeMetadata: true,
     compression: false
@@ -79,18 +86,39 @@ const ConverterPage: React.FC = () => {
   const [previewContent, setPreviewContent] = useState<string>('');
   const [showPreview, setShowPreview] = useState(false);
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
+  const [imageCrop, setImageCrop] = useState<CropBox>({ x: 0, y: 0, width: 0, height: 0 });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Get converted files from context
   const convertedFiles = state.convertedFiles;
 
+  const isImageOutput = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'].includes(outputFormat);
+  const isDelimitedData = ['csv', 'tsv'].includes(outputFormat) ||
+    selectedFiles.some(file => file.detectedFormat === 'csv' || file.detectedFormat === 'tsv');
+  const hasSpreadsheetInput = selectedFiles.some(file => ['xlsx', 'xls', 'ods'].includes(file.detectedFormat));
+  const isSpreadsheetOutput = ['xlsx', 'xls', 'ods'].includes(outputFormat);
+  const isJSONTable = ['csv', 'tsv', 'xlsx', 'xls', 'ods', 'html'].includes(outputFormat) &&
+    selectedFiles.some(file => file.detectedFormat === 'json');
+  // The size preview re-encodes the first selected image with the current options
+  const previewImage = selectedFiles.find(file => file.type.startsWith('image/') && file.detectedFormat);
+
+  const updateImageCrop = (field: keyof CropBox, value: string) => {
+    const crop = { ...imageCrop, [field]: Number(value) || 0 };
+    setImageCrop(crop);
+    // Cropping only applies once the box has a size
+    setConversionOptions(prev => ({
+      ...prev,
+      imageCrop: crop.width > 0 && crop.height > 0 ? crop : undefined
+    }));
+  };
+
   // Smart format detection and suggestions
-  const analyzeFile = useCallback(async (file: File): Promise<{ detectedFormat: SupportedFormat; suggestedFormats: SupportedFormat[] }> => {
-    const content = await file.text().catch(() => '');
-    const detectedFormat = conversionService.detectFormat(file.name, content);
-    const suggestedFormats = conversionService.suggestOptimalFormat(content, detectedFormat);
+  const analyzeFile = useCallback(async (file: File): Promise<{ detection: FormatDetection; suggestedFormats: SupportedFormat[] }> => {
+    const detection = await conversionService.detectFormat(file);
+    const content = decodeText(new Uint8Array(await file.arrayBuffer()), detection.encoding?.encoding);
+    const suggestedFormats = conversionService.suggestOptimalFormat(content, detection.format);
 
-    return { detectedFormat, suggestedFormats };
+    return { detection, suggestedFormats };
   }, []);
 
   // Enhanced file drop handling
@@ -128,11 +156,17 @@ const ConverterPage: React.FC = () => {
 
       for (const file of acceptedFiles) {
         try {
-          const { detectedFormat, suggestedFormats } = await analyzeFile(file);
+          const { detection, suggestedFormats } = await analyzeFile(file);
+
+          const warning = detectionWarning(file.name, detection);
+          if (warning) {
+            toast(warning, { icon: '⚠️', duration: 6000 });
+          }
 
           const fileWithPreview: FileWithPreview = Object.assign(file, {
             id: `${file.name}-${Date.now()}-${Math.random()}`,
-            detectedFormat,
+            detectedFormat: detection.format,
+            detection,
             suggestedFormats,
             preview: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined
           });
@@ -175,9 +209,9 @@ const ConverterPage: React.FC = () => {
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
     accept: {
-      'text/*': ['.txt', '.md', '.html', '.csv', '.json', '.xml', '.rtf'],
-      'application/*': ['.pdf', '.docx', '.doc', '.odt', '.epub'],
-      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp'] // Added all supported image formats
+      'text/*': ['.txt', '.md', '.html', '.csv', '.tsv', '.json', '.xml', '.rtf'],
+      'application/*': ['.pdf', '.docx', '.doc', '.odt', '.epub', '.pptx', '.ppt', '.odp', '.xlsx', '.xls', '.ods'],
+      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp', '.heic', '.heif', '.avif', '.tif', '.tiff', '.svg'] // Added all supported image formats
     },
     maxSize: 50 * 1024 * 1024, // 50MB
     maxFiles: 20,
@@ -269,7 +303,7 @@ const ConverterPage: React.FC = () => {
       }
       // Handle text-based files
       else {
-        const content = await file.text();
+        const content = decodeText(new Uint8Array(await file.arrayBuffer()), conversionOptions.inputEncoding || file.detection?.encoding?.encoding);
 
         switch (file.detectedFormat) {
           case 'md':
@@ -289,7 +323,8 @@ const ConverterPage: React.FC = () => {
             }
             break;
           case 'csv':
-            preview = conversionService.csvToHTMLTable(content.substring(0, 5000));
+          case 'tsv':
+            preview = conversionService.csvToHTMLTable(content.substring(0, 5000), conversionOptions, file.detectedFormat);
             break;
           case 'xml':
             preview = `<pre style="background: #1a1a2e; padding: 15px; border-radius: 8px; overflow: auto;"><code style="color: #ff6b6b;">${content.substring(0, 2000).replace(/</g, '&lt;').replace(/>/g, '&gt;')}</code></pre>`;
@@ -305,7 +340,7 @@ const ConverterPage: React.FC = () => {
       console.error('Preview error:', error);
       toast.error('Failed to generate preview');
     }
-  }, []);
+  }, [conversionOptions]);
 
   // Enhanced conversion with progress tracking
   const convertFiles = useCallback(async () => {
@@ -338,18 +373,9 @@ const ConverterPage: React.FC = () => {
           // Update toast with current file
           toast.loading(`Converting ${file.name}...`, { id: conversionToast });
 
-          // Read file content based on file type
-          let content: string | ArrayBuffer;
-
-          if (file.detectedFormat === 'pdf' || file.detectedFormat === 'docx' || file.type.startsWith('image/')) {
-            // Read as ArrayBuffer for binary files
-            content = await file.arrayBuffer();
-            console.log(`Read ${file.name} as ArrayBuffer (${content.byteLength} bytes)`);
-          } else {
-            // Read as text for text-based files
-            content = await file.text();
-            console.log(`Read ${file.name} as text (${content.length} characters)`);
-          }
+          // Read raw bytes - text is decoded by the service in its detected (or chosen) encoding
+          const content = await file.arrayBuffer();
+          console.log(`Read ${file.name} (${content.byteLength} bytes)`);
 
           // Validate conversion path
           if (!conversionService.isConversionSupported?.(file.detectedFormat!, outputFormat)) {
@@ -376,9 +402,18 @@ const ConverterPage: React.FC = () => {
             // Generate filename - use .zip if it's a ZIP file with images
             const baseFilename = file.name.replace(/\.[^/.]+$/, '');
             const isZip = result.metadata?.isZip || false;
-            const extension = isZip ? 'zip' : getFileExtension(outputFormat);
+            // Converters without a legacy writer report the format they actually produced
+            const actualFormat = result.metadata?.actualFormat || outputFormat;
+            const extension = isZip ? 'zip' : getFileExtension(actualFormat);
             const filename = `${baseFilename}.${extension}`;
 
+            if (result.metadata?.formatNote) {
+              toast(`${file.name}: ${result.metadata.formatNote}`, { icon: 'ℹ️', duration: 6000 });
+            }
+            if (result.metadata?.validationErrors) {
+              console.warn(`${file.name}: rows failing the JSON Schema\n${result.metadata.validationErrors.join('\n')}`);
+            }
+
             if (isZip && result.metadata?.imageCount) {
               console.log(`Adding converted ZIP file: ${filename} (${result.data.size} bytes) with ${result.metadata.imageCount} image(s)`);
             } else {
@@ -391,7 +426,7 @@ const ConverterPage: React.FC = () => {
               originalName: file.name,
               convertedName: filename,
               originalFormat: file.detectedFormat!,
-              convertedFormat: outputFormat,
+              convertedFormat: actualFormat,
               size: result.data.size,
               blob: result.data,
               timestamp: new Date(),
@@ -500,7 +535,7 @@ const ConverterPage: React.FC = () => {
   const formatCategories = {
     document: ['pdf', 'docx', 'rtf', 'odt', 'epub'] as SupportedFormat[],
     text: ['txt', 'md', 'html', 'latex'] as SupportedFormat[],
-    data: ['csv', 'json', 'xml'] as SupportedFormat[],
+    data: ['csv', 'tsv', 'json', 'xml'] as SupportedFormat[],
     image: ['png', 'jpg'] as SupportedFormat[]
   };
 
@@ -508,7 +543,7 @@ const ConverterPage: React.FC = () => {
     const iconMap = {
       pdf: FileText, docx: FileText, rtf: FileText, odt: FileText, epub: BookOpen,
       txt: Type, md: FileCode, html: Globe, latex: FileCode,
-      csv: Database, json: FileCode, xml: FileCode,
+      csv: Database, tsv: Database, json: FileCode, xml: FileCode,
       png: Image, jpg: Image
     };
     return iconMap[format] || FileText;
@@ -521,6 +556,7 @@ const ConverterPage: React.FC = () => {
       html: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
       md: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
       csv: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+      tsv: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
       json: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
       png: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200',
       jpg: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200'
@@ -595,7 +631,7 @@ const ConverterPage: React.FC = () => {
                   ref={fileInputRef}
                   onChange={handleFileInputChange}
                   multiple
-                  accept=".txt,.md,.html,.csv,.json,.xml,.rtf,.pdf,.docx,.doc,.odt,.epub,.png,.jpg,.jpeg,.gif,.bmp,.webp"
+                  accept=".txt,.md,.html,.csv,.tsv,.json,.xml,.rtf,.pdf,.docx,.doc,.odt,.epub,.pptx,.ppt,.odp,.xlsx,.xls,.ods,.png,.jpg,.jpeg,.gif,.bmp,.webp,.heic,.heif,.avif,.tif,.tiff,.svg"
                   style={{ display: 'none' }}
                 />
 
@@ -702,6 +738,22 @@ const ConverterPage: React.FC = () => {
                                     >
                                       {file.detectedFormat?.toUpperCase()}
                                     </Badge>
+                                    {file.detection?.mismatch && (
+                                      <Badge variant="destructive" className="text-xs">
+                                        <AlertTriangle className="h-3 w-3 mr-1" />
+                                        Not a .{getFileExtension(file.detection.extensionFormat!)} file
+                                      </Badge>
+                                    )}
+                                    {file.detection && !file.detection.mismatch && file.detection.confidence < LOW_CONFIDENCE && (
+                                      <Badge variant="outline" className="text-xs">
+                                        Format uncertain
+                                      </Badge>
+                                    )}
+                                    {file.detection?.encoding && file.detection.encoding.encoding !== 'utf-8' && (
+                                      <Badge variant="outline" className="text-xs">
+                                        {TEXT_ENCODING_NAMES[file.detection.encoding.encoding]}
+                                      </Badge>
+                                    )}
                                     {file.suggestedFormats && file.suggestedFormats.length > 0 && (
                                       <Badge variant="secondary" className="text-xs">
                                         <Sparkles className="h-3 w-3 mr-1" />
@@ -1111,6 +1163,868 @@ const ConverterPage: React.FC = () => {
                           />
                         </div>
                       </div>
+
+                      {/* PDF Security */}
+                      {outputFormat === 'pdf' && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">PDF Security</Label>
+                          <Input
+                            id="pdf-password"
+                            type="password"
+                            placeholder="Password to open (optional)"
+                            value={conversionOptions.password || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              password: e.target.value
+                            }))}
+                          />
+                          <Input
+                            id="pdf-owner-password"
+                            type="password"
+                            placeholder="Owner password (needed to restrict permissions)"
+                            value={conversionOptions.ownerPassword || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              ownerPassword: e.target.value
+                            }))}
+                          />
+                          <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="allow-printing" className="text-sm">
+                                Allow printing
+                              </Label>
+                              <Switch
+                                id="allow-printing"
+                                checked={conversionOptions.allowPrinting !== false}
+                                disabled={!conversionOptions.password && !conversionOptions.ownerPassword}
+                                onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                  ...prev,
+                                  allowPrinting: checked
+                                }))}
+                              />
+                            </div>
+
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="allow-copying" className="text-sm">
+                                Allow copying text
+                              </Label>
+                              <Switch
+                                id="allow-copying"
+                                checked={conversionOptions.allowCopying !== false}
+                                disabled={!conversionOptions.password && !conversionOptions.ownerPassword}
+                                onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                  ...prev,
+                                  allowCopying: checked
+                                }))}
+                              />
+                            </div>
+
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="allow-modifying" className="text-sm">
+                                Allow modifying
+                              </Label>
+                              <Switch
+                                id="allow-modifying"
+                                checked={conversionOptions.allowModifying !== false}
+                                disabled={!conversionOptions.password && !conversionOptions.ownerPassword}
+                                onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                  ...prev,
+                                  allowModifying: checked
+                                }))}
+                              />
+                            </div>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            Protected PDFs are encrypted with AES-256. Permissions apply once a password is set, and restricting them needs an owner password that differs from the open password.
+                          </p>
+                        </div>
+                      )}
+
+                      {/* Encrypted PDF input */}
+                      {selectedFiles.some(file => file.detectedFormat === 'pdf') && (
+                        <div className="space-y-3">
+                          <Label htmlFor="input-password" className="text-sm font-medium">
+                            Password for encrypted PDFs
+                          </Label>
+                          <Input
+                            id="input-password"
+                            type="password"
+                            placeholder="Leave empty if the PDF is not protected"
+                            value={conversionOptions.inputPassword || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              inputPassword: e.target.value
+                            }))}
+                          />
+                        </div>
+                      )}
+
+                      {/* OCR */}
+                      {selectedFiles.some(file => file.detectedFormat === 'pdf') && outputFormat !== 'pdf' && (
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <Label htmlFor="ocr-scanned" className="text-sm font-medium">
+                              OCR scanned pages
+                            </Label>
+                            <p className="text-xs text-muted-foreground">Recognize text on pages that are only images</p>
+                          </div>
+                          <Switch
+                            id="ocr-scanned"
+                            checked={conversionOptions.ocr !== false}
+                            onCheckedChange={(checked) => setConversionOptions(prev => ({
+                              ...prev,
+                              ocr: checked
+                            }))}
+                          />
+                        </div>
+                      )}
+
+                      {outputFormat === 'pdf' && selectedFiles.some(file => !!file.detectedFormat && ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'heic', 'avif', 'tiff', 'svg'].includes(file.detectedFormat)) && (
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <Label htmlFor="searchable-pdf" className="text-sm font-medium">
+                              Searchable PDF (OCR)
+                            </Label>
+                            <p className="text-xs text-muted-foreground">Add an invisible text layer so the text can be found and copied</p>
+                          </div>
+                          <Switch
+                            id="searchable-pdf"
+                            checked={conversionOptions.searchablePDF || false}
+                            onCheckedChange={(checked) => setConversionOptions(prev => ({
+                              ...prev,
+                              searchablePDF: checked
+                            }))}
+                          />
+                        </div>
+                      )}
+
+                      {/* Slides */}
+                      {outputFormat === 'pptx' && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">Slides</Label>
+                          <div className="grid grid-cols-2 gap-3">
+                            <Select
+                              value={conversionOptions.slideTheme || 'light'}
+                              onValueChange={(value) => setConversionOptions(prev => ({
+                                ...prev,
+                                slideTheme: value as ConversionOptions['slideTheme']
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="light">Light theme</SelectItem>
+                                <SelectItem value="dark">Dark theme</SelectItem>
+                                <SelectItem value="corporate">Corporate theme</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={conversionOptions.slideLayout || '16x9'}
+                              onValueChange={(value) => setConversionOptions(prev => ({
+                                ...prev,
+                                slideLayout: value as ConversionOptions['slideLayout']
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="16x9">Widescreen (16:9)</SelectItem>
+                                <SelectItem value="4x3">Standard (4:3)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <Input
+                            id="table-rows-per-slide"
+                            type="number"
+                            min={2}
+                            placeholder="Table rows per slide (automatic)"
+                            value={conversionOptions.tableRowsPerSlide || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              tableRowsPerSlide: Number(e.target.value) || undefined
+                            }))}
+                          />
+                        </div>
+                      )}
+
+                      {outputFormat === 'gif' && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">GIF</Label>
+                          <Input
+                            id="gif-frame-delay"
+                            type="number"
+                            min={10}
+                            step={10}
+                            placeholder="Frame delay per PDF page in ms (1000)"
+                            value={conversionOptions.gifFrameDelay || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              gifFrameDelay: Number(e.target.value) || undefined
+                            }))}
+                          />
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="gif-dither" className="text-sm">
+                              Dithering
+                            </Label>
+                            <Switch
+                              id="gif-dither"
+                              checked={conversionOptions.gifDither || false}
+                              onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                ...prev,
+                                gifDither: checked
+                              }))}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {outputFormat === 'bmp' && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">BMP</Label>
+                          <Select
+                            value={String(conversionOptions.bmpBitDepth || 24)}
+                            onValueChange={(value) => setConversionOptions(prev => ({
+                              ...prev,
+                              bmpBitDepth: Number(value) as ConversionOptions['bmpBitDepth']
+                            }))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="24">24-bit (no transparency)</SelectItem>
+                              <SelectItem value="32">32-bit with alpha</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {isImageOutput && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">Image</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Input
+                              id="image-width"
+                              type="number"
+                              min={1}
+                              placeholder="Width (px)"
+                              value={conversionOptions.imageWidth || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                imageWidth: Number(e.target.value) || undefined
+                              }))}
+                            />
+                            <Input
+                              id="image-height"
+                              type="number"
+                              min={1}
+                              placeholder="Height (px)"
+                              value={conversionOptions.imageHeight || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                imageHeight: Number(e.target.value) || undefined
+                              }))}
+                            />
+                          </div>
+                          <Select
+                            value={conversionOptions.imageFit || 'contain'}
+                            onValueChange={(value) => setConversionOptions(prev => ({
+                              ...prev,
+                              imageFit: value as ConversionOptions['imageFit']
+                            }))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="contain">Fit inside (keep aspect ratio)</SelectItem>
+                              <SelectItem value="cover">Fill and trim</SelectItem>
+                              <SelectItem value="stretch">Stretch</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Label className="text-sm">Crop (x, y, width, height)</Label>
+                          <div className="grid grid-cols-4 gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              placeholder="X"
+                              value={imageCrop.x || ''}
+                              onChange={(e) => updateImageCrop('x', e.target.value)}
+                            />
+                            <Input
+                              type="number"
+                              min={0}
+                              placeholder="Y"
+                              value={imageCrop.y || ''}
+                              onChange={(e) => updateImageCrop('y', e.target.value)}
+                            />
+                            <Input
+                              type="number"
+                              min={0}
+                              placeholder="W"
+                              value={imageCrop.width || ''}
+                              onChange={(e) => updateImageCrop('width', e.target.value)}
+                            />
+                            <Input
+                              type="number"
+                              min={0}
+                              placeholder="H"
+                              value={imageCrop.height || ''}
+                              onChange={(e) => updateImageCrop('height', e.target.value)}
+                            />
+                          </div>
+                          <Select
+                            value={String(conversionOptions.imageRotate || 0)}
+                            onValueChange={(value) => setConversionOptions(prev => ({
+                              ...prev,
+                              imageRotate: Number(value) as ConversionOptions['imageRotate']
+                            }))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="0">No rotation</SelectItem>
+                              <SelectItem value="90">Rotate 90° clockwise</SelectItem>
+                              <SelectItem value="180">Rotate 180°</SelectItem>
+                              <SelectItem value="270">Rotate 90° counter-clockwise</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="image-flip-horizontal" className="text-sm">
+                              Flip horizontally
+                            </Label>
+                            <Switch
+                              id="image-flip-horizontal"
+                              checked={conversionOptions.imageFlipHorizontal || false}
+                              onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                ...prev,
+                                imageFlipHorizontal: checked
+                              }))}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="image-flip-vertical" className="text-sm">
+                              Flip vertically
+                            </Label>
+                            <Switch
+                              id="image-flip-vertical"
+                              checked={conversionOptions.imageFlipVertical || false}
+                              onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                ...prev,
+                                imageFlipVertical: checked
+                              }))}
+                            />
+                          </div>
+                          <Input
+                            id="image-resolution"
+                            type="number"
+                            min={1}
+                            placeholder="Resolution for PDF pages and SVG in DPI"
+                            value={conversionOptions.imageResolution || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              imageResolution: Number(e.target.value) || undefined
+                            }))}
+                          />
+                          {['jpg', 'jpeg', 'webp'].includes(outputFormat) && (
+                            <Input
+                              id="image-target-size"
+                              type="number"
+                              min={1}
+                              placeholder="Target file size in KB (none)"
+                              value={conversionOptions.imageTargetSize ? Math.round(conversionOptions.imageTargetSize / 1024) : ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                imageTargetSize: Number(e.target.value) * 1024 || undefined
+                              }))}
+                            />
+                          )}
+                          {['jpg', 'jpeg'].includes(outputFormat) && (
+                            <Select
+                              value={conversionOptions.imageMetadata || 'strip'}
+                              onValueChange={(value) => setConversionOptions(prev => ({
+                                ...prev,
+                                imageMetadata: value as ConversionOptions['imageMetadata']
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="strip">Remove EXIF metadata</SelectItem>
+                                <SelectItem value="strip-gps">Keep EXIF, remove GPS location</SelectItem>
+                                <SelectItem value="keep">Keep EXIF metadata</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {previewImage && (
+                            <ImageSizePreview
+                              file={previewImage}
+                              fromFormat={previewImage.detectedFormat!}
+                              toFormat={outputFormat}
+                              options={conversionOptions}
+                            />
+                          )}
+                        </div>
+                      )}
+
+                      {/* CSV dialect */}
+                      {isDelimitedData && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">CSV</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Select
+                              value={conversionOptions.csvDelimiter || 'auto'}
+                              onValueChange={(value) => setConversionOptions(prev => ({
+                                ...prev,
+                                csvDelimiter: value === 'auto' ? undefined : value
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="auto">Detect delimiter</SelectItem>
+                                <SelectItem value=",">Comma (,)</SelectItem>
+                                <SelectItem value=";">Semicolon (;)</SelectItem>
+                                <SelectItem value={'\t'}>Tab</SelectItem>
+                                <SelectItem value="|">Pipe (|)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={conversionOptions.csvHeader === undefined ? 'auto' : String(conversionOptions.csvHeader)}
+                              onValueChange={(value) => setConversionOptions(prev => ({
+                                ...prev,
+                                csvHeader: value === 'auto' ? undefined : value === 'true'
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="auto">Detect header row</SelectItem>
+                                <SelectItem value="true">First row is header</SelectItem>
+                                <SelectItem value="false">No header row</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Input
+                              id="csv-quote-char"
+                              maxLength={1}
+                              placeholder={'Quote (")'}
+                              value={conversionOptions.csvQuoteChar || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                csvQuoteChar: e.target.value || undefined
+                              }))}
+                            />
+                            <Input
+                              id="csv-escape-char"
+                              maxLength={1}
+                              placeholder="Escape (quote doubled)"
+                              value={conversionOptions.csvEscapeChar || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                csvEscapeChar: e.target.value || undefined
+                              }))}
+                            />
+                            <Input
+                              id="csv-skip-lines"
+                              type="number"
+                              min={0}
+                              placeholder="Skip leading lines"
+                              value={conversionOptions.csvSkipLines || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                csvSkipLines: Number(e.target.value) || undefined
+                              }))}
+                            />
+                            <Input
+                              id="csv-comment-char"
+                              maxLength={1}
+                              placeholder="Comment rows (e.g. #)"
+                              value={conversionOptions.csvCommentChar || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                csvCommentChar: e.target.value || undefined
+                              }))}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="csv-infer-types" className="text-sm">
+                              Detect numbers, dates and booleans
+                            </Label>
+                            <Switch
+                              id="csv-infer-types"
+                              checked={conversionOptions.csvInferTypes !== false}
+                              onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                ...prev,
+                                csvInferTypes: checked
+                              }))}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Spreadsheet sheets and range */}
+                      {hasSpreadsheetInput && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">Spreadsheet</Label>
+                          <Input
+                            id="sheet-names"
+                            placeholder="Sheets, comma-separated (all)"
+                            value={conversionOptions.sheets?.join(', ') || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              sheets: e.target.value.trim() ? e.target.value.split(',').map(name => name.trim()) : undefined
+                            }))}
+                          />
+                          <Input
+                            id="sheet-range"
+                            placeholder="Cell range, e.g. A1:F50 (whole sheet)"
+                            value={conversionOptions.sheetRange || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              sheetRange: e.target.value.trim() || undefined
+                            }))}
+                          />
+                          {outputFormat === 'json' && (
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="sheet-formulas" className="text-sm">
+                                Include formulas with their values
+                              </Label>
+                              <Switch
+                                id="sheet-formulas"
+                                checked={conversionOptions.sheetFormulas === true}
+                                onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                  ...prev,
+                                  sheetFormulas: checked
+                                }))}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Spreadsheet layout for generated sheets */}
+                      {isSpreadsheetOutput && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">Spreadsheet Layout</Label>
+                          {outputFormat === 'xlsx' && (
+                            <>
+                              <div className="flex items-center justify-between">
+                                <Label htmlFor="sheet-header-style" className="text-sm">
+                                  Bold, shaded header row
+                                </Label>
+                                <Switch
+                                  id="sheet-header-style"
+                                  checked={conversionOptions.sheetHeaderStyle !== false}
+                                  onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                    ...prev,
+                                    sheetHeaderStyle: checked
+                                  }))}
+                                />
+                              </div>
+                              <div className="flex items-center justify-between">
+                                <Label htmlFor="sheet-freeze-header" className="text-sm">
+                                  Keep header row in view
+                                </Label>
+                                <Switch
+                                  id="sheet-freeze-header"
+                                  checked={conversionOptions.sheetFreezeHeader !== false}
+                                  onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                    ...prev,
+                                    sheetFreezeHeader: checked
+                                  }))}
+                                />
+                              </div>
+                              <div className="flex items-center justify-between">
+                                <Label htmlFor="sheet-auto-filter" className="text-sm">
+                                  Filter buttons on the header
+                                </Label>
+                                <Switch
+                                  id="sheet-auto-filter"
+                                  checked={conversionOptions.sheetAutoFilter !== false}
+                                  onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                    ...prev,
+                                    sheetAutoFilter: checked
+                                  }))}
+                                />
+                              </div>
+                            </>
+                          )}
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="sheet-auto-width" className="text-sm">
+                              Fit column widths to content
+                            </Label>
+                            <Switch
+                              id="sheet-auto-width"
+                              checked={conversionOptions.sheetAutoWidth !== false}
+                              onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                ...prev,
+                                sheetAutoWidth: checked
+                              }))}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="sheet-totals" className="text-sm">
+                              Totals row for numeric columns
+                            </Label>
+                            <Switch
+                              id="sheet-totals"
+                              checked={conversionOptions.sheetTotals === true}
+                              onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                ...prev,
+                                sheetTotals: checked
+                              }))}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {/* EPUB book details */}
+                      {outputFormat === 'epub' && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">E-book</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Input
+                              id="epub-title"
+                              placeholder="Title (from the document)"
+                              value={conversionOptions.epubTitle || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                epubTitle: e.target.value || undefined
+                              }))}
+                            />
+                            <Input
+                              id="epub-author"
+                              placeholder="Author"
+                              value={conversionOptions.epubAuthor || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                epubAuthor: e.target.value || undefined
+                              }))}
+                            />
+                            <Input
+                              id="epub-language"
+                              placeholder="Language (e.g. en, de-CH)"
+                              value={conversionOptions.epubLanguage || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                epubLanguage: e.target.value || undefined
+                              }))}
+                            />
+                            <Input
+                              id="epub-identifier"
+                              placeholder="ISBN or identifier"
+                              value={conversionOptions.epubIdentifier || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                epubIdentifier: e.target.value || undefined
+                              }))}
+                            />
+                          </div>
+                          <Select
+                            value={String(conversionOptions.epubChapterLevel || 2)}
+                            onValueChange={(value) => setConversionOptions(prev => ({
+                              ...prev,
+                              epubChapterLevel: Number(value) as 1 | 2
+                            }))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="2">Chapters at H1 and H2 headings</SelectItem>
+                              <SelectItem value="1">Chapters at H1 headings only</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <div className="space-y-1">
+                            <Label htmlFor="epub-cover" className="text-sm">Cover image</Label>
+                            <Input
+                              id="epub-cover"
+                              type="file"
+                              accept="image/*"
+                              onChange={(e) => {
+                                const cover = e.target.files?.[0];
+                                setConversionOptions(prev => ({ ...prev, epubCover: cover }));
+                              }}
+                            />
+                          </div>
+                          <Textarea
+                            id="epub-stylesheet"
+                            rows={3}
+                            className="font-mono text-xs"
+                            placeholder="Extra CSS (optional)"
+                            value={conversionOptions.epubStylesheet || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              epubStylesheet: e.target.value || undefined
+                            }))}
+                          />
+                        </div>
+                      )}
+
+                      {/* LaTeX document class and preamble */}
+                      {outputFormat === 'latex' && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">LaTeX</Label>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Select
+                              value={conversionOptions.latexDocumentClass || 'article'}
+                              onValueChange={(value) => setConversionOptions(prev => ({
+                                ...prev,
+                                latexDocumentClass: value
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="article">article</SelectItem>
+                                <SelectItem value="report">report (chapters)</SelectItem>
+                                <SelectItem value="book">book (chapters)</SelectItem>
+                                <SelectItem value="scrartcl">scrartcl</SelectItem>
+                                <SelectItem value="scrreprt">scrreprt (chapters)</SelectItem>
+                                <SelectItem value="memoir">memoir (chapters)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              id="latex-class-options"
+                              placeholder="Class options, e.g. 11pt,a4paper"
+                              value={conversionOptions.latexClassOptions || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                latexClassOptions: e.target.value || undefined
+                              }))}
+                            />
+                          </div>
+                          <Textarea
+                            id="latex-packages"
+                            rows={3}
+                            className="font-mono text-xs"
+                            placeholder="Extra packages, one per line (e.g. microtype, xcolor[dvipsnames])"
+                            value={conversionOptions.latexPackages || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              latexPackages: e.target.value || undefined
+                            }))}
+                          />
+                        </div>
+                      )}
+
+                      {/* JSON rows, flattening and schema */}
+                      {isJSONTable && (
+                        <div className="space-y-3">
+                          <Label className="text-sm font-medium">JSON Rows</Label>
+                          <Input
+                            id="json-rows-path"
+                            placeholder="Rows path, e.g. $.data.orders[*] (whole document)"
+                            value={conversionOptions.jsonRowsPath || ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              jsonRowsPath: e.target.value.trim() || undefined
+                            }))}
+                          />
+                          <div className="grid grid-cols-2 gap-2">
+                            <Select
+                              value={conversionOptions.jsonArrayMode || 'stringify'}
+                              onValueChange={(value) => setConversionOptions(prev => ({
+                                ...prev,
+                                jsonArrayMode: value as ConversionOptions['jsonArrayMode']
+                              }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="stringify">Nested arrays as JSON text</SelectItem>
+                                <SelectItem value="explode">A row per array item</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              id="json-separator"
+                              placeholder="Column name separator (.)"
+                              value={conversionOptions.jsonSeparator || ''}
+                              onChange={(e) => setConversionOptions(prev => ({
+                                ...prev,
+                                jsonSeparator: e.target.value || undefined
+                              }))}
+                            />
+                          </div>
+                          <Textarea
+                            id="json-schema"
+                            rows={4}
+                            className="font-mono text-xs"
+                            placeholder="JSON Schema for each row (optional)"
+                            value={typeof conversionOptions.jsonSchema === 'string' ? conversionOptions.jsonSchema : ''}
+                            onChange={(e) => setConversionOptions(prev => ({
+                              ...prev,
+                              jsonSchema: e.target.value.trim() ? e.target.value : undefined
+                            }))}
+                          />
+                          {conversionOptions.jsonSchema && (
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="json-skip-invalid" className="text-sm">
+                                Leave out rows that fail the schema
+                              </Label>
+                              <Switch
+                                id="json-skip-invalid"
+                                checked={conversionOptions.jsonSkipInvalid === true}
+                                onCheckedChange={(checked) => setConversionOptions(prev => ({
+                                  ...prev,
+                                  jsonSkipInvalid: checked
+                                }))}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Text encoding */}
+                      <div className="space-y-3">
+                        <Label className="text-sm font-medium">Text Encoding</Label>
+                        <Select
+                          value={conversionOptions.inputEncoding || 'auto'}
+                          onValueChange={(value) => setConversionOptions(prev => ({
+                            ...prev,
+                            inputEncoding: value === 'auto' ? undefined : value as TextEncoding
+                          }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Detect input encoding</SelectItem>
+                            {Object.entries(TEXT_ENCODING_NAMES).map(([encoding, name]) => (
+                              <SelectItem key={encoding} value={encoding}>Input: {name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {['txt', 'csv', 'tsv', 'xml'].includes(outputFormat) && (
+                          <Select
+                            value={conversionOptions.outputEncoding || 'utf-8'}
+                            onValueChange={(value) => setConversionOptions(prev => ({
+                              ...prev,
+                              outputEncoding: value as OutputEncoding
+                            }))}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="utf-8">Output: UTF-8</SelectItem>
+                              <SelectItem value="utf-8-bom">Output: UTF-8 with BOM (Excel)</SelectItem>
+                              <SelectItem value="utf-16le">Output: UTF-16 LE</SelectItem>
+                              <SelectItem value="windows-1252">Output: Windows-1252 (Latin-1)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
                     </CardContent>
                   </Card>
                 </motion.div>
@@ -3,6 +3,8 @@ import { saveAs } from 'file-saver';
 import jsPDF from 'jspdf';
 import * as XLSX from 'xlsx';
 import * as jsonConverter from './jsonConversionService';
+import { detectFileFormat } from '@/lib/detection/format';
+import { decodeText } from '@/lib/text/encoding';
 
 export interface ConversionFile {
   id: string;
@@ -103,46 +105,24 @@ class ConversionService {
     return filename.split('.').pop()?.toLowerCase() || '';
   }
 
-  // Detect file format from file
-  detectFormat(file: File): SupportedFormat | null {
-    const extension = this.getFileExtension(file.name);
+  // Detect file format from its content (signatures, container manifests, text), falling back to the extension
+  async detectFormat(file: File): Promise<SupportedFormat | null> {
+    const detection = await detectFileFormat(file, file.name);
+    // This service handles fewer formats than the detector knows
+    if (detection.source !== 'extension' && detection.format in FORMAT_DESCRIPTIONS) {
+      return detection.format as SupportedFormat;
+    }
+    return this.formatFromExtension(file.name);
+  }
 
-    // Check if extension is supported
+  private formatFromExtension(filename: string): SupportedFormat | null {
+    const extension = this.getFileExtension(filename);
     for (const category of Object.values(SUPPORTED_FORMATS)) {
       if (category.includes(extension as SupportedFormat)) {
         return extension as SupportedFormat;
       }
     }
-
-    // Fallback to MIME type detection
-    const mimeTypeMap: Record<string, SupportedFormat> = {
-      'application/pdf': 'pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
-      'application/msword': 'doc',
-      'text/plain': 'txt',
-      'text/markdown': 'md',
-      'text/html': 'html',
-      'application/rtf': 'rtf',
-      'application/vnd.oasis.opendocument.text': 'odt',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
-      'application/vnd.ms-excel': 'xls',
-      'text/csv': 'csv',
-      'application/vnd.oasis.opendocument.spreadsheet': 'ods',
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
-      'application/vnd.ms-powerpoint': 'ppt',
-      'application/vnd.oasis.opendocument.presentation': 'odp',
-      'application/json': 'json',
-      'application/xml': 'xml',
-      'text/xml': 'xml',
-      'application/epub+zip': 'epub',
-      'image/png': 'png',
-      'image/jpeg': 'jpg',
-      'image/gif': 'gif',
-      'image/bmp': 'bmp',
-      'image/webp': 'webp'
-    };
-
-    return mimeTypeMap[file.type] || null;
+    return null;
   }
 
   // Convert single file
@@ -168,7 +148,7 @@ class ConversionService {
     try {
       this.emitProgress(file.id, 0, 'Starting conversion...');
 
-      const sourceFormat = this.detectFormat(file.file);
+      const sourceFormat = await this.detectFormat(file.file);
       if (!sourceFormat) {
         throw new Error('Unsupported file format');
       }
@@ -302,7 +282,7 @@ class ConversionService {
     targetFormat: SupportedFormat,
     options: ConversionOptions
   ): Promise<{ data: Blob; name: string }> {
-    const text = await file.text();
+    const text = decodeText(new Uint8Array(await file.arrayBuffer()));
     let convertedText = text;
 
     // Apply format-specific conversions
@@ -396,7 +376,7 @@ class ConversionService {
     });
 
     if (this.isTextFormat(sourceFormat)) {
-      const text = await file.text();
+      const text = decodeText(new Uint8Array(await file.arrayBuffer()));
       const lines = pdf.splitTextToSize(text, 180);
       pdf.text(lines, options.margin, options.margin);
     } else if (this.isSpreadsheetFormat(sourceFormat)) {
@@ -493,7 +473,7 @@ class ConversionService {
     options: ConversionOptions
   ): Promise<{ data: Blob; name: string }> {
     try {
-      const jsonContent = await file.text();
+      const jsonContent = decodeText(new Uint8Array(await file.arrayBuffer()));
       const fileName = file.name.replace(/\.[^/.]+$/, '');
       let convertedData: Blob;
 
@@ -569,7 +549,7 @@ class ConversionService {
     options: ConversionOptions
   ): Promise<{ data: Blob; name: string }> {
     // Fallback: convert through text intermediate
-    const text = await file.text();
+    const text = decodeText(new Uint8Array(await file.arrayBuffer()));
     const blob = new Blob([text], { type: this.getMimeType(targetFormat) });
     const name = file.name.replace(/\.[^/.]+$/, `.${targetFormat}`);
 
@@ -882,7 +862,7 @@ class ConversionService {
     const baseTime = 1000; // 1 second base
     const sizeMultiplier = file.size / (1024 * 1024); // MB
     const complexityMultiplier = this.getComplexityMultiplier(
-      this.detectFormat(file.file) || 'txt',
+      this.formatFromExtension(file.file.name) || 'txt',
       targetFormat
     );
 
@@ -5,46 +5,362 @@ import { XMLBuilder } from 'fast-xml-parser';
 /**
  * Advanced JSON Converter Service
  * Supports JSON to: PDF, Plain Text, CSV, HTML, XML
+ * Tabular outputs take their rows from the JSON as a whole or from the array a
+ * JSONPath (or dot path) selects. Nested objects become columns joined with a
+ * separator; nested arrays are written as JSON text or exploded into one row per
+ * item. Rows can be checked against a JSON Schema, with errors reported per row.
  */
 
+export type JSONArrayMode = 'explode' | 'stringify';
+
+// A flattened value: nested objects become columns and nested arrays JSON text or rows
+export type JSONCell = string | number | boolean | null;
+
+// Any value JSON.parse can return
+export type JSONValue = string | number | boolean | null | JSONValue[] | { [key: string]: JSONValue };
+
+export interface JSONTableOptions {
+    rowsPath?: string; // JSONPath ($.orders[*]) or dot path (orders) of the array whose items become rows
+    arrayMode?: JSONArrayMode; // Arrays inside a row: JSON text in one cell ('stringify', default) or a row per item ('explode')
+    separator?: string; // Joins nested keys into column names ('.' by default)
+    schema?: JSONSchema; // Schema for one row - or for the whole list when its type is "array"
+    skipInvalid?: boolean; // Leave rows that fail the schema out of the table
+}
+
+export interface JSONRowError {
+    row: number; // 1-based position among the selected rows
+    path: string; // Where in the row, e.g. "items[0].price" (empty for the row itself)
+    message: string;
+}
+
+export interface JSONTable {
+    columns: string[]; // Flattened keys, in the order they first appear
+    rows: Record<string, JSONCell>[]; // Values stay typed; missing and null values are null
+    errors: JSONRowError[];
+    sourceRows: number; // Rows selected before exploding and skipping
+}
+
+/**
+ * The JSON Schema keywords the validator understands (drafts 4 to 2020-12, local $refs only)
+ */
+export interface JSONSchema {
+    type?: string | string[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, JSONSchema | boolean>;
+    required?: string[];
+    additionalProperties?: JSONSchema | boolean;
+    items?: JSONSchema | boolean | (JSONSchema | boolean)[];
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number | boolean;
+    exclusiveMaximum?: number | boolean;
+    multipleOf?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: string;
+    allOf?: (JSONSchema | boolean)[];
+    anyOf?: (JSONSchema | boolean)[];
+    oneOf?: (JSONSchema | boolean)[];
+    not?: JSONSchema | boolean;
+    $ref?: string;
+    definitions?: Record<string, JSONSchema | boolean>;
+    $defs?: Record<string, JSONSchema | boolean>;
+}
+
+const SCHEMA_FORMATS: Record<string, RegExp> = {
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+    time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    uri: /^[a-zA-Z][a-zA-Z\d+.-]*:\S*$/,
+    uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/
+};
+
 // Helper: Flatten nested JSON for CSV/tabular formats
-function flattenJSON(obj: any, prefix = ''): Record<string, any> {
-    const flattened: Record<string, any> = {};
-
-    for (const key in obj) {
-        if (obj.hasOwnProperty(key)) {
-            const newKey = prefix ? `${prefix}.${key}` : key;
-
-            if (obj[key] === null || obj[key] === undefined) {
-                flattened[newKey] = '';
-            } else if (typeof obj[key] === 'object' && !Array.isArray(obj[key])) {
-                Object.assign(flattened, flattenJSON(obj[key], newKey));
-            } else if (Array.isArray(obj[key])) {
-                flattened[newKey] = JSON.stringify(obj[key]);
-            } else {
-                flattened[newKey] = obj[key];
+function flattenJSON(obj: JSONValue, prefix = '', separator = '.'): Record<string, string | number | boolean> {
+    const [flattened] = flattenValue(Array.isArray(obj) ? { ...obj } : obj, prefix, separator, 'stringify');
+    return Object.fromEntries(Object.entries(flattened).map(([key, value]) => [key, value ?? '']));
+}
+
+/**
+ * One flat record per combination of exploded array items (a single record
+ * when arrays are stringified). Objects contribute a column per nested key.
+ */
+function flattenValue(value: unknown, prefix: string, separator: string, arrayMode: JSONArrayMode): Record<string, JSONCell>[] {
+    if (Array.isArray(value)) {
+        if (arrayMode === 'stringify') {
+            return [{ [prefix || 'value']: JSON.stringify(value) }];
+        }
+        // An empty array explodes to nothing, leaving the row with those columns empty
+        return value.length === 0 ? [{}] : value.flatMap(item => flattenValue(item, prefix, separator, arrayMode));
+    }
+    if (value !== null && typeof value === 'object') {
+        let records: Record<string, JSONCell>[] = [{}];
+        for (const [key, child] of Object.entries(value)) {
+            const parts = flattenValue(child, prefix ? `${prefix}${separator}${key}` : key, separator, arrayMode);
+            records = records.flatMap(record => parts.map(part => ({ ...record, ...part })));
+        }
+        return records;
+    }
+    return [{ [prefix || 'value']: (value ?? null) as JSONCell }];
+}
+
+/**
+ * The rows of a JSON document as a table: the selected array's items (or the
+ * document itself), flattened, validated against the schema when one is given
+ */
+export function jsonToTable(data: unknown, options: JSONTableOptions = {}): JSONTable {
+    const items = options.rowsPath ? selectJSON(data, options.rowsPath) : Array.isArray(data) ? data : [data];
+    const separator = options.separator || '.';
+    const errors = options.schema ? validateRows(items, options.schema) : [];
+    const invalid = new Set(errors.map(error => error.row));
+
+    const rows = items.flatMap((item, index) => {
+        if (options.skipInvalid && invalid.has(index + 1)) return [];
+        // Top-level arrays (rows of a matrix) get a column per position
+        const record = Array.isArray(item) ? { ...item } : item;
+        return flattenValue(record, '', separator, options.arrayMode || 'stringify');
+    });
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+
+    return {
+        columns,
+        rows: rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null]))),
+        errors,
+        sourceRows: items.length
+    };
+}
+
+/**
+ * The header row followed by the data rows
+ */
+export function jsonTableRows(table: JSONTable): JSONCell[][] {
+    return [table.columns, ...table.rows.map(row => table.columns.map(column => row[column]))];
+}
+
+/**
+ * The rows a path selects. JSONPath supports $, .key, ['key'], [n] (negative
+ * from the end), [*], .* and ..key; without a leading $ the path is read as
+ * dot-separated keys and indexes (orders.0.items). A single array match gives
+ * its items, so "$.orders" and "$.orders[*]" select the same rows.
+ */
+export function selectJSON(data: unknown, path: string): unknown[] {
+    const trimmed = path.trim();
+    const steps = trimmed.startsWith('$') ? parseJSONPath(trimmed) : trimmed.split('.').filter(Boolean).map(key => ({ key, recursive: false }));
+
+    let nodes: unknown[] = [data];
+    for (const step of steps) {
+        const scope = step.recursive ? nodes.flatMap(descendants) : nodes;
+        nodes = scope.flatMap(node => childrenAt(node, step.key));
+    }
+    if (nodes.length === 0) {
+        throw new Error(`Nothing in the JSON matches "${path}"`);
+    }
+    return nodes.length === 1 && Array.isArray(nodes[0]) ? nodes[0] : nodes;
+}
+
+function parseJSONPath(path: string): { key: string; recursive: boolean }[] {
+    const steps: { key: string; recursive: boolean }[] = [];
+    const step = /\.\.?(\*|[^.[\]]+)|\.?\[\s*(\*|-?\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\s*\]|(\.\.)(?=\[)/y;
+    let position = 1;
+    let recursive = false;
+    while (position < path.length) {
+        step.lastIndex = position;
+        const match = step.exec(path);
+        if (!match) {
+            throw new Error(`Invalid JSON path "${path}" at "${path.slice(position)}"`);
+        }
+        position = step.lastIndex;
+        if (match[3]) {
+            recursive = true;
+            continue;
+        }
+        const key = match[1] ?? match[2];
+        const quoted = /^['"]/.test(key) ? key.slice(1, -1).replace(/\\(.)/g, '$1') : key;
+        steps.push({ key: quoted, recursive: recursive || match[0].startsWith('..') });
+        recursive = false;
+    }
+    return steps;
+}
+
+function childrenAt(node: unknown, key: string): unknown[] {
+    if (node === null || typeof node !== 'object') return [];
+    if (key === '*') return Object.values(node);
+    if (Array.isArray(node)) {
+        if (!/^-?\d+$/.test(key)) return [];
+        const index = Number(key) < 0 ? node.length + Number(key) : Number(key);
+        return index >= 0 && index < node.length ? [node[index]] : [];
+    }
+    return Object.prototype.hasOwnProperty.call(node, key) ? [(node as Record<string, unknown>)[key]] : [];
+}
+
+// A node and everything below it, for ".." steps
+function descendants(node: unknown): unknown[] {
+    if (node === null || typeof node !== 'object') return [node];
+    return [node, ...Object.values(node).flatMap(descendants)];
+}
+
+/**
+ * Schema errors by row. A schema for an array checks the whole list, so its
+ * list-level errors (minItems and the like) are reported against row 0.
+ */
+function validateRows(items: unknown[], schema: JSONSchema): JSONRowError[] {
+    const types = schema.type === undefined ? [] : [schema.type].flat();
+    if (types.includes('array')) {
+        return validateJSON(items, schema).map(error => {
+            const match = error.path.match(/^\[(\d+)\]\.?/);
+            return match
+                ? { row: Number(match[1]) + 1, path: error.path.slice(match[0].length), message: error.message }
+                : { row: 0, path: error.path, message: error.message };
+        });
+    }
+    return items.flatMap((item, index) => validateJSON(item, schema).map(error => ({ row: index + 1, ...error })));
+}
+
+/**
+ * Every way `value` breaks `schema`, with the path to the offending value
+ */
+export function validateJSON(value: unknown, schema: JSONSchema | boolean, root: JSONSchema | boolean = schema, path = ''): { path: string; message: string }[] {
+    if (schema === true) return [];
+    if (schema === false) return [{ path, message: 'is not allowed' }];
+    if (schema.$ref) {
+        return validateJSON(value, resolveSchemaRef(root, schema.$ref), root, path);
+    }
+
+    const errors: { path: string; message: string }[] = [];
+    const fail = (message: string, at = path) => errors.push({ path: at, message });
+
+    if (schema.type !== undefined) {
+        const types = [schema.type].flat();
+        if (!types.some(type => matchesType(value, type))) {
+            fail(`must be ${types.map(type => (/^[aeiou]/.test(type) ? 'an ' : 'a ') + type).join(' or ')}`);
+            return errors;
+        }
+    }
+    if (schema.enum && !schema.enum.some(option => sameJSON(option, value))) {
+        fail(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+    if ('const' in schema && !sameJSON(schema.const, value)) {
+        fail(`must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'number') {
+        const exclusiveMinimum = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : schema.exclusiveMinimum ? schema.minimum : undefined;
+        const exclusiveMaximum = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : schema.exclusiveMaximum ? schema.maximum : undefined;
+        if (schema.minimum !== undefined && value < schema.minimum) fail(`must be at least ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) fail(`must be at most ${schema.maximum}`);
+        if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) fail(`must be greater than ${exclusiveMinimum}`);
+        if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) fail(`must be less than ${exclusiveMaximum}`);
+        if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) {
+            fail(`must be a multiple of ${schema.multipleOf}`);
+        }
+    }
+
+    if (typeof value === 'string') {
+        const length = [...value].length;
+        if (schema.minLength !== undefined && length < schema.minLength) fail(`must be at least ${count(schema.minLength, 'character')}`);
+        if (schema.maxLength !== undefined && length > schema.maxLength) fail(`must be at most ${count(schema.maxLength, 'character')}`);
+        if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) fail(`must match ${schema.pattern}`);
+        const format = schema.format && SCHEMA_FORMATS[schema.format];
+        if (format && (!format.test(value) || (schema.format!.startsWith('date') && isNaN(Date.parse(value))))) {
+            fail(`must be a valid ${schema.format}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${count(schema.minItems, 'item')}`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${count(schema.maxItems, 'item')}`);
+        if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => sameJSON(other, item)) !== index)) {
+            fail('must not contain duplicates');
+        }
+        value.forEach((item, index) => {
+            const itemSchema = Array.isArray(schema.items) ? schema.items[index] : schema.items;
+            if (itemSchema !== undefined) errors.push(...validateJSON(item, itemSchema, root, `${path}[${index}]`));
+        });
+    }
+
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        const record = value as Record<string, unknown>;
+        const at = (key: string) => path ? `${path}.${key}` : key;
+        for (const key of schema.required || []) {
+            if (!(key in record)) fail('is required', at(key));
+        }
+        for (const [key, child] of Object.entries(record)) {
+            const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+            if (propertySchema === false && schema.properties?.[key] === undefined) {
+                fail('is not an allowed property', at(key));
+            } else if (propertySchema !== undefined) {
+                errors.push(...validateJSON(child, propertySchema, root, at(key)));
             }
         }
     }
 
-    return flattened;
+    for (const part of schema.allOf || []) {
+        errors.push(...validateJSON(value, part, root, path));
+    }
+    if (schema.anyOf && !schema.anyOf.some(part => validateJSON(value, part, root, path).length === 0)) {
+        fail('does not match any of the allowed schemas');
+    }
+    if (schema.oneOf && schema.oneOf.filter(part => validateJSON(value, part, root, path).length === 0).length !== 1) {
+        fail('must match exactly one of the allowed schemas');
+    }
+    if (schema.not !== undefined && validateJSON(value, schema.not, root, path).length === 0) {
+        fail('matches a schema it must not match');
+    }
+    return errors;
+}
+
+// "#/definitions/name" style references within the same schema
+function resolveSchemaRef(root: JSONSchema | boolean, ref: string): JSONSchema | boolean {
+    if (!ref.startsWith('#')) {
+        throw new Error(`Only references within the schema are supported ("${ref}")`);
+    }
+    let target: unknown = root;
+    for (const part of ref.slice(1).split('/').filter(Boolean)) {
+        const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+        target = target !== null && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+    }
+    if (target === undefined) {
+        throw new Error(`Schema reference "${ref}" not found`);
+    }
+    return target as JSONSchema | boolean;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'null': return value === null;
+        case 'array': return Array.isArray(value);
+        case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'integer': return Number.isInteger(value);
+        default: return typeof value === type;
+    }
+}
+
+function count(n: number, noun: string): string {
+    return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
+
+function sameJSON(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
 }
 
 // Helper: Convert JSON array to CSV string
-function jsonArrayToCSV(jsonArray: any[]): string {
+function jsonArrayToCSV(jsonArray: JSONValue[], options: JSONTableOptions = {}): string {
     if (!Array.isArray(jsonArray) || jsonArray.length === 0) {
         return '';
     }
 
     // Flatten all objects
-    const flattenedData = jsonArray.map(item =>
-        typeof item === 'object' ? flattenJSON(item) : { value: item }
-    );
+    const table = jsonToTable(jsonArray, { ...options, rowsPath: undefined });
+    const flattenedData = table.rows;
 
     // Get all unique headers
-    const headers = Array.from(
-        new Set(flattenedData.flatMap(obj => Object.keys(obj)))
-    );
+    const headers = table.columns;
 
     // Create CSV header row
     const csvHeader = headers.map(h => `"${h}"`).join(',');
@@ -471,9 +787,10 @@ export async function jsonToText(jsonContent: string, fileName: string): Promise
 /**
  * Convert JSON to CSV
  */
-export async function jsonToCSV(jsonContent: string): Promise<Blob> {
+export async function jsonToCSV(jsonContent: string, options: JSONTableOptions = {}): Promise<Blob> {
     try {
-        const data = JSON.parse(jsonContent);
+        const parsed = JSON.parse(jsonContent);
+        const data = options.rowsPath ? selectJSON(parsed, options.rowsPath) : parsed;
 
         let csvContent: string;
 
@@ -481,10 +798,10 @@ export async function jsonToCSV(jsonContent: string): Promise<Blob> {
             if (data.length === 0) {
                 throw new Error('JSON array is empty');
             }
-            csvContent = jsonArrayToCSV(data);
+            csvContent = jsonArrayToCSV(data, options);
         } else if (typeof data === 'object') {
             // Convert single object to CSV with one row
-            csvContent = jsonArrayToCSV([data]);
+            csvContent = jsonArrayToCSV([data], options);
         } else {
             // Primitive value - create simple CSV
             csvContent = `"Value"\n"${String(data).replace(/"/g, '""')}"`;
@@ -499,9 +816,10 @@ export async function jsonToCSV(jsonContent: string): Promise<Blob> {
 /**
  * Convert JSON to HTML with styled table
  */
-export async function jsonToHTML(jsonContent: string, fileName: string): Promise<Blob> {
+export async function jsonToHTML(jsonContent: string, fileName: string, options: JSONTableOptions = {}): Promise<Blob> {
     try {
-        const data = JSON.parse(jsonContent);
+        const parsed = JSON.parse(jsonContent);
+        const data = options.rowsPath ? selectJSON(parsed, options.rowsPath) : parsed;
 
         let htmlContent = `<!DOCTYPE html>
 <html lang="en">
@@ -614,12 +932,11 @@ export async function jsonToHTML(jsonContent: string, fileName: string): Promise
         if (Array.isArray(data)) {
             if (data.length > 0 && typeof data[0] === 'object') {
                 // Array of objects - create table
-                const flattenedData = data.map(item => flattenJSON(item));
-                const headers = Array.from(
-                    new Set(flattenedData.flatMap(obj => Object.keys(obj)))
-                );
+                const table = jsonToTable(data, { ...options, rowsPath: undefined });
+                const flattenedData = table.rows;
+                const headers = table.columns;
 
-                htmlContent += `            <h2>Data Table (${data.length} records)</h2>
+                htmlContent += `            <h2>Data Table (${flattenedData.length} records)</h2>
             <table>
                 <thead>
                     <tr>
@@ -0,0 +1,10 @@
+import { JSDOM } from 'jsdom';
+
+/**
+ * The document readers parse XML and HTML with the browser's DOMParser; tests
+ * running in Node get it, and the node type constants, from jsdom
+ */
+export function installDOMParser(): void {
+  const { window } = new JSDOM();
+  Object.assign(globalThis, { DOMParser: window.DOMParser, Node: window.Node });
+}
@@ -0,0 +1,124 @@
+/**
+ * Minimal Office 97-2003 binaries for tests: just the streams and records the
+ * legacy readers look at, in a real OLE2 compound file
+ */
+
+import * as CFB from 'cfb';
+
+export interface WordParagraph {
+  text: string; // Without the paragraph mark
+  mark?: '\r' | '\x07' | '\x0C'; // Paragraph, cell or page break mark ('\r' by default)
+  istd?: number; // Style index (1-9 are Heading 1-9)
+  sprms?: number[]; // Raw paragraph property modifiers
+}
+
+// Property modifiers for tables: in a table, and the end of a row
+export const SPRM_IN_TABLE = [0x16, 0x24, 0x01];
+export const SPRM_ROW_END = [0x17, 0x24, 0x01];
+
+const PAGE = 512;
+const TEXT_OFFSET = PAGE;
+const FKP_OFFSET = 2 * PAGE;
+
+function compoundFile(streams: Record<string, Uint8Array>): ArrayBuffer {
+  const container = CFB.utils.cfb_new();
+  Object.entries(streams).forEach(([name, content]) => CFB.utils.cfb_add(container, `/${name}`, content));
+  const bytes = Uint8Array.from(CFB.write(container, { type: 'array' }) as ArrayLike<number>);
+  return bytes.buffer;
+}
+
+/**
+ * A Word 97 document with 8-bit text in one piece and one page of paragraph properties
+ */
+export function wordDocument(paragraphs: WordParagraph[]): ArrayBuffer {
+  const text = paragraphs.map(paragraph => paragraph.text + (paragraph.mark ?? '\r')).join('');
+  const main = new Uint8Array(FKP_OFFSET + PAGE);
+  const fib = new DataView(main.buffer);
+  fib.setUint16(0, 0xA5EC, true);
+  fib.setUint16(2, 0x00C1, true);
+  fib.setUint16(0x000A, 0x0200, true); // Table stream is 1Table
+  fib.setUint32(0x004C, text.length, true);
+  main.set(Array.from(text, char => char.charCodeAt(0)), TEXT_OFFSET);
+
+  // Formatted disk page: paragraph start offsets, then a PAPX per paragraph from the end of the page down
+  const fkp = new DataView(main.buffer, FKP_OFFSET, PAGE);
+  let fc = TEXT_OFFSET;
+  let papx = PAGE - 1;
+  paragraphs.forEach((paragraph, index) => {
+    fkp.setUint32(index * 4, fc, true);
+    fc += paragraph.text.length + 1;
+    const grpprl = [paragraph.istd ?? 0, 0, ...(paragraph.sprms ?? [])];
+    const cb = Math.ceil((grpprl.length + 1) / 2);
+    papx -= cb * 2;
+    papx -= papx % 2;
+    main.set([cb, ...grpprl], FKP_OFFSET + papx);
+    fkp.setUint8((paragraphs.length + 1) * 4 + index * 13, papx / 2);
+  });
+  fkp.setUint32(paragraphs.length * 4, fc, true);
+  fkp.setUint8(PAGE - 1, paragraphs.length);
+
+  // Table stream: the piece table (one compressed piece), then the paragraph property page table
+  const table = new Uint8Array(64);
+  const view = new DataView(table.buffer);
+  table[0] = 0x02;
+  view.setUint32(1, 16, true);
+  view.setUint32(5, 0, true);
+  view.setUint32(9, text.length, true);
+  view.setUint32(15, (TEXT_OFFSET * 2) | 0x40000000, true);
+  view.setUint32(32, TEXT_OFFSET, true);
+  view.setUint32(36, fc, true);
+  view.setUint32(40, FKP_OFFSET / PAGE, true);
+  fib.setUint32(0x0102, 32, true);
+  fib.setUint32(0x0106, 12, true);
+  fib.setUint32(0x01A2, 0, true);
+  fib.setUint32(0x01A6, 21, true);
+
+  return compoundFile({ WordDocument: main, '1Table': table });
+}
+
+export interface PowerPointSlide {
+  title: string;
+  body: string[]; // Bullet paragraphs
+}
+
+function record(type: number, body: Uint8Array, container = false, instance = 0): Uint8Array {
+  const bytes = new Uint8Array(8 + body.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, (instance << 4) | (container ? 0xF : 0), true);
+  view.setUint16(2, type, true);
+  view.setUint32(4, body.length, true);
+  bytes.set(body, 8);
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+}
+
+function uint32(value: number, length = 4): Uint8Array {
+  const bytes = new Uint8Array(length);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+/**
+ * A PowerPoint 97 presentation whose placeholder text lives in the slide list,
+ * found without an edit history (no Current User stream)
+ */
+export function powerPointDocument(slides: PowerPointSlide[]): ArrayBuffer {
+  const text = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0));
+  const slideList = slides.flatMap((slide, index) => [
+    record(0x03F3, uint32(256 + index, 20)),
+    record(0x0F9F, uint32(0)),
+    record(0x0FA8, text(slide.title)),
+    record(0x0F9F, uint32(1)),
+    record(0x0FA8, text(slide.body.join('\r')))
+  ]);
+  const document = record(0x03E8, record(0x0FF0, concat(slideList), true), true);
+  return compoundFile({ 'PowerPoint Document': document });
+}
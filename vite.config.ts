@@ -1,7 +1,41 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 
+// OCR runs offline: the tesseract.js worker, WASM core and English language data
+// are served from our own origin under /tesseract/ (see src/lib/ocr/ocr.ts)
+const TESSERACT_ASSETS: Record<string, string> = {
+  "worker.min.js": "node_modules/tesseract.js/dist/worker.min.js",
+  "tesseract-core-simd-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "eng.traineddata.gz": "node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz"
+};
+
+function tesseractAssets(): Plugin {
+  return {
+    name: "tesseract-assets",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const match = req.url?.match(/^\/tesseract\/([^?]+)/);
+        const source = match && TESSERACT_ASSETS[match[1]];
+        if (!source) return next();
+
+        res.setHeader("Content-Type", source.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+        fs.createReadStream(path.resolve(__dirname, source)).pipe(res);
+      });
+    },
+    generateBundle() {
+      Object.entries(TESSERACT_ASSETS).forEach(([name, source]) => {
+        this.emitFile({
+          type: "asset",
+          fileName: `tesseract/${name}`,
+          source: fs.readFileSync(path.resolve(__dirname, source))
+        });
+      });
+    }
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -9,11 +43,12 @@ export default defineConfig(({ mode }) => ({
     port: 8080
   },
   plugins: [
-  react()],
+  react(),
+  tesseractAssets()],
 
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src")
     }
   }
-}));
\ No newline at end of file
+}));